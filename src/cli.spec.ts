@@ -1,7 +1,8 @@
 import * as cli from './cli';
 import Yargs from 'yargs/yargs';
-import { configureCommandOptions } from './commands/configure';
+import { configureCommandOptions, readClientSecretFile } from './commands/configure';
 import YargsCommandBuilderOptions from './common/yargs/yargs-command-builder-options';
+import { applyLogFormat } from './common/log-helpers';
 
 jest.mock('./commands/configure');
 
@@ -22,6 +23,8 @@ describe('cli', (): void => {
     const argv = Yargs(process.argv.slice(2));
     const spyOptions = jest.spyOn(argv, 'options').mockReturnThis();
     const spyConfig = jest.spyOn(argv, 'config').mockReturnThis();
+    const spyEnv = jest.spyOn(argv, 'env').mockReturnThis();
+    const spyMiddleware = jest.spyOn(argv, 'middleware').mockReturnThis();
     const spyCommandDir = jest.spyOn(argv, 'commandDir').mockReturnThis();
     const spyDemandCommand = jest.spyOn(argv, 'demandCommand').mockReturnValue(argv);
 
@@ -29,6 +32,9 @@ describe('cli', (): void => {
 
     expect(spyOptions).toHaveBeenCalledWith(configureCommandOptions);
     expect(spyConfig).toHaveBeenCalledWith('config', expect.any(Function));
+    expect(spyEnv).toHaveBeenCalledWith('DC_CLI');
+    expect(spyMiddleware).toHaveBeenCalledWith(readClientSecretFile, true);
+    expect(spyMiddleware).toHaveBeenCalledWith(applyLogFormat);
     expect(spyCommandDir).toHaveBeenCalledWith('./commands', YargsCommandBuilderOptions);
     expect(spyDemandCommand).toHaveBeenCalledWith(1, 'Please specify at least one command');
   });
@@ -44,4 +50,25 @@ describe('cli', (): void => {
     expect(buffer).toMatchSnapshot();
     expect(processExitSpy).not.toHaveBeenCalled();
   });
+
+  it('should find the profile argument in either form', () => {
+    expect(cli.getProfileArgument(['content-item', 'export', '--profile', 'staging'])).toEqual('staging');
+    expect(cli.getProfileArgument(['--profile=prod', 'content-item', 'export'])).toEqual('prod');
+    expect(cli.getProfileArgument(['content-item', 'export'])).toBeUndefined();
+  });
+
+  it('should find the command after global options', () => {
+    expect(cli.getCommandPath(['--profile', 'x', 'configure', 'list'])).toEqual(['configure', 'list']);
+    expect(cli.getCommandPath(['--profile=x', '--hubId', 'hub', 'configure'])).toEqual(['configure']);
+    expect(cli.getCommandPath(['--json', 'configure', 'use', 'staging'])).toEqual(['configure', 'use', 'staging']);
+  });
+
+  it('should only demand the hub credentials for commands that use them', () => {
+    const listOptions = cli.getGlobalOptions(['--profile', 'x', 'configure', 'list']);
+
+    expect(listOptions.clientId.demandOption).toBeUndefined();
+    expect(listOptions.hubId.demandOption).toBeUndefined();
+    expect(cli.getGlobalOptions(['configure', '--clientId', 'id'])).toBe(configureCommandOptions);
+    expect(cli.getGlobalOptions(['--profile', 'x', 'content-item', 'export'])).toBe(configureCommandOptions);
+  });
 });
@@ -1,11 +1,65 @@
 import Yargs from 'yargs/yargs';
 import YargsCommandBuilderOptions from './common/yargs/yargs-command-builder-options';
-import { configureCommandOptions, readConfigFile } from './commands/configure';
+import { configureCommandOptions, readClientSecretFile, readConfigFile } from './commands/configure';
 import { Arguments, Argv } from 'yargs';
 import errorHandler from './error-handler';
+import { applyLogFormat } from './common/log-helpers';
+import { CommandOptions } from './interfaces/command-options.interface';
+
+export const getProfileArgument = (args: string[]): string | undefined => {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--profile') {
+      return args[i + 1];
+    } else if (args[i].startsWith('--profile=')) {
+      return args[i].substring('--profile='.length);
+    }
+  }
+
+  return undefined;
+};
+
+// Global options that take a value, so that the value is not mistaken for a command.
+const takesValue = (arg: string): boolean => {
+  const option = configureCommandOptions[arg.replace(/^-+/, '')];
+  return !arg.includes('=') && option != null && option.type !== 'boolean';
+};
+
+// The positional arguments, starting with the command name, skipping any global options given before them.
+export const getCommandPath = (args: string[]): string[] => {
+  const path: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('-')) {
+      if (takesValue(args[i])) {
+        i++;
+      }
+    } else {
+      path.push(args[i]);
+    }
+  }
+
+  return path;
+};
+
+// The configure subcommands manage saved profiles, so they don't need the hub credentials.
+export const getGlobalOptions = (args: string[]): CommandOptions => {
+  const [name, subcommand] = getCommandPath(args);
+  if (name !== 'configure' || subcommand == null) {
+    return configureCommandOptions;
+  }
+
+  const options: CommandOptions = {};
+  Object.entries(configureCommandOptions).forEach(([key, option]) => {
+    options[key] = { ...option, demandOption: undefined };
+  });
+  return options;
+};
+
+export const ENV_PREFIX = 'DC_CLI';
 
 const readConfig = (configFile: string): object => {
-  return readConfigFile(configFile, process.argv[2] === 'configure');
+  const args = process.argv.slice(2);
+  const profile = getProfileArgument(args) || process.env[`${ENV_PREFIX}_PROFILE`];
+  return readConfigFile(configFile, getCommandPath(args)[0] === 'configure', profile);
 };
 
 const configureYargs = (yargInstance: Argv): Promise<Arguments> => {
@@ -26,8 +80,11 @@ const configureYargs = (yargInstance: Argv): Promise<Arguments> => {
       };
       const argv = await yargInstance
         .scriptName('dc-cli')
-        .options(configureCommandOptions)
+        .options(getGlobalOptions(process.argv.slice(2)))
         .config('config', readConfig)
+        .env(ENV_PREFIX)
+        .middleware(readClientSecretFile, true)
+        .middleware(applyLogFormat)
         .commandDir('./commands', YargsCommandBuilderOptions)
         .strict()
         .demandCommand(1, 'Please specify at least one command')
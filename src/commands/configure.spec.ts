@@ -1,4 +1,11 @@
-import { CONFIG_FILENAME, handler, readConfigFile } from './configure';
+import {
+  CONFIG_FILENAME,
+  handler,
+  readConfigFile,
+  readConfigProfiles,
+  migrateConfiguration,
+  readClientSecretFile
+} from './configure';
 import fs from 'fs';
 import { join } from 'path';
 
@@ -22,6 +29,13 @@ describe('configure command', function() {
     hubId: 'hub-id'
   };
 
+  const profileFixture = {
+    activeProfile: 'default',
+    profiles: {
+      default: configFixture
+    }
+  };
+
   it('should write a config file and create the .amplience dir', () => {
     jest
       .spyOn(fs, 'existsSync')
@@ -36,7 +50,7 @@ describe('configure command', function() {
     expect(fs.mkdirSync).toHaveBeenCalledWith(expect.stringMatching(/\.amplience$/), { recursive: true });
     expect(fs.writeFileSync).toHaveBeenCalledWith(
       expect.stringMatching(new RegExp('.amplience/dc-cli-config.json$')),
-      JSON.stringify(configFixture)
+      JSON.stringify(profileFixture)
     );
   });
 
@@ -54,7 +68,7 @@ describe('configure command', function() {
     expect(fs.mkdirSync).not.toHaveBeenCalled();
     expect(fs.writeFileSync).toHaveBeenCalledWith(
       expect.stringMatching(new RegExp('.amplience/dc-cli-config.json$')),
-      JSON.stringify(configFixture)
+      JSON.stringify(profileFixture)
     );
   });
 
@@ -72,7 +86,7 @@ describe('configure command', function() {
     expect(fs.mkdirSync).toHaveBeenCalledWith(expect.stringMatching(/subdirectory$/), { recursive: true });
     expect(fs.writeFileSync).toHaveBeenCalledWith(
       expect.stringMatching(new RegExp('subdirectory/custom-config.json$')),
-      JSON.stringify(configFixture)
+      JSON.stringify(profileFixture)
     );
   });
 
@@ -113,7 +127,7 @@ describe('configure command', function() {
     expect(fs.mkdirSync).not.toHaveBeenCalledWith();
     expect(fs.writeFileSync).toHaveBeenCalledWith(
       expect.stringMatching(new RegExp('.amplience/dc-cli-config.json$')),
-      JSON.stringify(configFixture)
+      JSON.stringify(profileFixture)
     );
   });
 
@@ -186,6 +200,134 @@ describe('configure command', function() {
     `);
   });
 
+  it('should add a new profile without changing the active profile', () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest.spyOn(fs, 'readFileSync').mockReturnValueOnce(JSON.stringify(profileFixture));
+    jest.spyOn(fs, 'writeFileSync').mockReturnValueOnce(undefined);
+
+    const stagingFixture = { clientId: 'staging-id', clientSecret: 'staging-secret', hubId: 'staging-hub' };
+    handler({ ...yargArgs, ...stagingFixture, config: CONFIG_FILENAME(), profile: 'staging' });
+
+    expect(fs.writeFileSync).toHaveBeenCalledWith(
+      expect.stringMatching(new RegExp('.amplience/dc-cli-config.json$')),
+      JSON.stringify({ activeProfile: 'default', profiles: { default: configFixture, staging: stagingFixture } })
+    );
+  });
+
+  it('should update the active profile when no profile is specified', () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest
+      .spyOn(fs, 'readFileSync')
+      .mockReturnValueOnce(JSON.stringify({ activeProfile: 'staging', profiles: { staging: configFixture } }));
+    jest.spyOn(fs, 'writeFileSync').mockReturnValueOnce(undefined);
+
+    const updatedFixture = { ...configFixture, hubId: 'hub-id-2' };
+    handler({ ...yargArgs, ...updatedFixture, config: CONFIG_FILENAME() });
+
+    expect(fs.writeFileSync).toHaveBeenCalledWith(
+      expect.stringMatching(new RegExp('.amplience/dc-cli-config.json$')),
+      JSON.stringify({ activeProfile: 'staging', profiles: { staging: updatedFixture } })
+    );
+  });
+
+  it('should read the active profile from a config file with profiles', () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest.spyOn(fs, 'readFileSync').mockReturnValue(
+      JSON.stringify({
+        activeProfile: 'staging',
+        profiles: { default: configFixture, staging: { ...configFixture, hubId: 'staging-hub' } }
+      })
+    );
+
+    expect(readConfigFile('config.json')).toEqual({ ...configFixture, hubId: 'staging-hub' });
+  });
+
+  it('should read the requested profile instead of the active profile', () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest.spyOn(fs, 'readFileSync').mockReturnValue(
+      JSON.stringify({
+        activeProfile: 'staging',
+        profiles: { default: configFixture, staging: { ...configFixture, hubId: 'staging-hub' } }
+      })
+    );
+
+    expect(readConfigFile('config.json', false, 'default')).toEqual(configFixture);
+  });
+
+  it('should exit the process if the requested profile does not exist', () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest.spyOn(fs, 'readFileSync').mockReturnValue(JSON.stringify(profileFixture));
+    const mockError = jest.spyOn(console, 'error').mockReturnValueOnce(undefined);
+    const mockExit = jest.spyOn(process, 'exit').mockReturnValueOnce(undefined as never);
+
+    readConfigFile('config.json', false, 'missing');
+
+    expect(mockExit).toHaveBeenCalledWith(2);
+    expect(mockError.mock.calls[0][0]).toMatchInlineSnapshot(
+      `"FATAL - The profile \\"missing\\" does not exist in the configuration file at config.json"`
+    );
+  });
+
+  it('should not exit the process if the requested profile does not exist, but ignoreError is true', () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest.spyOn(fs, 'readFileSync').mockReturnValue(JSON.stringify(profileFixture));
+    const mockExit = jest.spyOn(process, 'exit').mockReturnValueOnce(undefined as never);
+
+    expect(readConfigFile('config.json', true, 'missing')).toEqual({});
+    expect(mockExit).not.toHaveBeenCalled();
+  });
+
+  it('should migrate a legacy config file to the default profile', () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest.spyOn(fs, 'readFileSync').mockReturnValue(JSON.stringify(configFixture));
+
+    expect(readConfigProfiles('config.json')).toEqual(profileFixture);
+  });
+
+  it('should migrate an empty config to no profiles', () => {
+    expect(migrateConfiguration({})).toEqual({ activeProfile: 'default', profiles: {} });
+  });
+
+  it('should keep a config with profiles as it is', () => {
+    expect(migrateConfiguration(profileFixture)).toEqual(profileFixture);
+  });
+
+  it('should read the client secret from the client secret file', () => {
+    jest.spyOn(fs, 'readFileSync').mockReturnValueOnce('file-secret\n');
+
+    const argv = { ...yargArgs, ...configFixture, clientSecretFile: 'secret.txt' };
+    readClientSecretFile(argv);
+
+    expect(fs.readFileSync).toHaveBeenCalledWith('secret.txt', 'utf-8');
+    expect(argv.clientSecret).toEqual('file-secret');
+  });
+
+  it('should not change the client secret if there is no client secret file', () => {
+    jest.spyOn(fs, 'readFileSync');
+
+    const argv = { ...yargArgs, ...configFixture };
+    readClientSecretFile(argv);
+
+    expect(fs.readFileSync).not.toHaveBeenCalled();
+    expect(argv.clientSecret).toEqual(configFixture.clientSecret);
+  });
+
+  it('should exit the process if the client secret file cannot be read', () => {
+    jest.spyOn(fs, 'readFileSync').mockImplementationOnce(() => {
+      throw new Error('Mock error');
+    });
+    const mockError = jest.spyOn(console, 'error').mockReturnValueOnce(undefined);
+    const mockExit = jest.spyOn(process, 'exit').mockReturnValueOnce(undefined as never);
+
+    readClientSecretFile({ ...yargArgs, clientSecretFile: 'secret.txt' });
+
+    expect(mockExit).toHaveBeenCalledWith(2);
+    expect(mockError.mock.calls[0][0]).toMatchInlineSnapshot(`
+      "FATAL - Could not read the client secret file at secret.txt
+      Mock error"
+    `);
+  });
+
   it('should use USERPROFILE env var for win32', () => {
     process.env.USERPROFILE = 'USERPROFILE';
     expect(CONFIG_FILENAME('win32')).toEqual(join('USERPROFILE/.amplience/dc-cli-config.json'));
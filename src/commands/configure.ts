@@ -1,5 +1,6 @@
-import { Arguments } from 'yargs';
+import { Argv, Arguments } from 'yargs';
 import { CommandOptions } from '../interfaces/command-options.interface';
+import YargsCommandBuilderOptions from '../common/yargs/yargs-command-builder-options';
 import fs from 'fs';
 import { join, dirname } from 'path';
 import { isEqual } from 'lodash';
@@ -11,24 +12,76 @@ export const desc = 'Saves the configuration options to a file';
 export const CONFIG_FILENAME = (platform: string = process.platform): string =>
   join(process.env[platform == 'win32' ? 'USERPROFILE' : 'HOME'] || __dirname, '.amplience', 'dc-cli-config.json');
 
+export const DEFAULT_PROFILE = 'default';
+
 export type ConfigurationParameters = {
   clientId: string;
   clientSecret: string;
   hubId: string;
 };
 
-type ConfigArgument = {
+export type ConfigurationFile = {
+  activeProfile: string;
+  profiles: { [name: string]: ConfigurationParameters };
+};
+
+export type ClientSecretFileArgument = {
+  clientSecretFile?: string;
+};
+
+export type ConfigArgument = {
   config: string;
+  profile?: string;
 };
 
 export const configureCommandOptions: CommandOptions = {
   clientId: { type: 'string', demandOption: true },
   clientSecret: { type: 'string', demandOption: true },
   hubId: { type: 'string', demandOption: true },
-  config: { type: 'string', default: CONFIG_FILENAME() }
+  clientSecretFile: {
+    type: 'string',
+    describe: 'Path to a file containing the client secret, used instead of any other client secret'
+  },
+  config: { type: 'string', default: CONFIG_FILENAME() },
+  profile: { type: 'string', describe: 'Name of the configuration profile to use' },
+  logFormat: {
+    type: 'string',
+    describe: 'Format of the log files written by commands, either "text" or "json". "json" writes one record per line.'
+  },
+  maxRetries: {
+    type: 'number',
+    describe: 'Maximum number of times a request is retried when the API is rate limited or unavailable. Defaults to 3.'
+  },
+  requestsPerSecond: {
+    type: 'number',
+    describe: 'Maximum number of requests sent to the API each second. Unlimited by default.'
+  },
+  concurrency: {
+    type: 'number',
+    describe:
+      'Maximum number of items that imports, archives, unarchives and publishes work on at the same time. Defaults to 1.'
+  }
 };
 
-const writeConfigFile = (configFile: string, parameters: ConfigurationParameters): void => {
+export const builder = (yargs: Argv): Argv => yargs.commandDir('configure', YargsCommandBuilderOptions);
+
+const isProfileConfiguration = (config: object): config is ConfigurationFile =>
+  typeof (config as ConfigurationFile).profiles === 'object' && (config as ConfigurationFile).profiles !== null;
+
+// Configuration files written before profiles were introduced contain a single set of parameters.
+// These are treated as the default profile, and are saved in the new format the next time the file is written.
+export const migrateConfiguration = (config: object): ConfigurationFile => {
+  if (isProfileConfiguration(config)) {
+    return { activeProfile: config.activeProfile || DEFAULT_PROFILE, profiles: config.profiles };
+  }
+
+  return {
+    activeProfile: DEFAULT_PROFILE,
+    profiles: Object.keys(config).length > 0 ? { [DEFAULT_PROFILE]: config as ConfigurationParameters } : {}
+  };
+};
+
+export const writeConfigFile = (configFile: string, config: ConfigurationFile): void => {
   const dir = dirname(configFile);
   if (!fs.existsSync(dir)) {
     try {
@@ -38,16 +91,16 @@ const writeConfigFile = (configFile: string, parameters: ConfigurationParameters
     }
   }
   try {
-    fs.writeFileSync(configFile, JSON.stringify(parameters));
+    fs.writeFileSync(configFile, JSON.stringify(config));
   } catch (err) {
     throw new Error(`Unable to write config file "${configFile}". Reason: ${err}`);
   }
 };
 
-export const readConfigFile = (configFile: string, ignoreError?: boolean): object => {
+export const readConfigProfiles = (configFile: string, ignoreError?: boolean): ConfigurationFile => {
   if (fs.existsSync(configFile)) {
     try {
-      return JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+      return migrateConfiguration(JSON.parse(fs.readFileSync(configFile, 'utf-8')));
     } catch (e) {
       if (ignoreError) {
         console.error(
@@ -62,17 +115,64 @@ export const readConfigFile = (configFile: string, ignoreError?: boolean): objec
     }
   }
 
-  return {};
+  return migrateConfiguration({});
+};
+
+export const readConfigFile = (configFile: string, ignoreError?: boolean, profile?: string): object => {
+  const config = readConfigProfiles(configFile, ignoreError);
+  const profileName = profile || config.activeProfile;
+  const parameters = config.profiles[profileName];
+
+  if (parameters == null) {
+    if (profile != null && !ignoreError) {
+      console.error(`FATAL - The profile "${profile}" does not exist in the configuration file at ${configFile}`);
+      process.exit(2);
+    }
+
+    return {};
+  }
+
+  return parameters;
+};
+
+// Parameters are resolved in the following order, the first source that provides a value is used:
+//   --clientSecretFile (client secret only)
+//   --clientId, --clientSecret and --hubId on the command line
+//   DC_CLI_CLIENT_ID, DC_CLI_CLIENT_SECRET and DC_CLI_HUB_ID environment variables
+//   the selected profile in the configuration file
+// Everything except the secret file is handled by yargs, this middleware applies the secret file before validation.
+export const readClientSecretFile = (
+  argv: Arguments<ClientSecretFileArgument & Partial<ConfigurationParameters>>
+): void => {
+  const { clientSecretFile } = argv;
+  if (clientSecretFile == null) {
+    return;
+  }
+
+  try {
+    argv.clientSecret = fs.readFileSync(clientSecretFile, 'utf-8').trim();
+  } catch (e) {
+    console.error(`FATAL - Could not read the client secret file at ${clientSecretFile}\n${e.message}`);
+    process.exit(2);
+  }
 };
 
 export const handler = (argv: Arguments<ConfigurationParameters & ConfigArgument>): void => {
   const { clientId, clientSecret, hubId } = argv;
-  const storedConfig = readConfigFile(argv.config);
+  const storedConfig = readConfigProfiles(argv.config);
+  const profile = argv.profile || storedConfig.activeProfile;
 
-  if (isEqual(storedConfig, { clientId, clientSecret, hubId })) {
+  if (isEqual(storedConfig.profiles[profile], { clientId, clientSecret, hubId })) {
     console.log('Config file up-to-date.  Please use `--help` for command usage.');
     return;
   }
-  writeConfigFile(argv.config, { clientId, clientSecret, hubId });
-  console.log('Config file updated.');
+
+  if (storedConfig.profiles[storedConfig.activeProfile] == null) {
+    // The first profile to be saved becomes the active one.
+    storedConfig.activeProfile = profile;
+  }
+
+  storedConfig.profiles[profile] = { clientId, clientSecret, hubId };
+  writeConfigFile(argv.config, storedConfig);
+  console.log(`Config file updated (profile "${profile}").`);
 };
@@ -0,0 +1,69 @@
+import { builder, command, handler } from './list';
+import Yargs from 'yargs/yargs';
+import DataPresenter, { RenderingOptions } from '../../view/data-presenter';
+import fs from 'fs';
+
+jest.mock('../../view/data-presenter');
+
+describe('configure list command', () => {
+  afterEach((): void => {
+    jest.restoreAllMocks();
+  });
+
+  const yargArgs = {
+    $0: 'test',
+    _: ['test'],
+    config: 'config.json'
+  };
+
+  it('should command should defined', () => {
+    expect(command).toEqual('list');
+  });
+
+  it('should configure yargs', () => {
+    const argv = Yargs(process.argv.slice(2));
+    const spyOptions = jest.spyOn(argv, 'options').mockReturnThis();
+
+    builder(argv);
+
+    expect(spyOptions).toHaveBeenCalledWith(RenderingOptions);
+  });
+
+  it('should list all profiles without their secrets', () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest.spyOn(fs, 'readFileSync').mockReturnValue(
+      JSON.stringify({
+        activeProfile: 'staging',
+        profiles: {
+          default: { clientId: 'client-id', clientSecret: 'secret', hubId: 'hub-id' },
+          staging: { clientId: 'staging-id', clientSecret: 'staging-secret', hubId: 'staging-hub' }
+        }
+      })
+    );
+    const mockRender = jest.fn();
+    (DataPresenter as jest.Mock).mockImplementation(() => ({ render: mockRender }));
+
+    handler({ ...yargArgs, json: true });
+
+    expect(DataPresenter).toHaveBeenCalledWith([
+      { profile: 'default', active: false, clientId: 'client-id', hubId: 'hub-id' },
+      { profile: 'staging', active: true, clientId: 'staging-id', hubId: 'staging-hub' }
+    ]);
+    expect(mockRender).toHaveBeenCalledWith({ json: true });
+  });
+
+  it('should list a legacy config file as the default profile', () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest
+      .spyOn(fs, 'readFileSync')
+      .mockReturnValue(JSON.stringify({ clientId: 'client-id', clientSecret: 'secret', hubId: 'hub-id' }));
+    const mockRender = jest.fn();
+    (DataPresenter as jest.Mock).mockImplementation(() => ({ render: mockRender }));
+
+    handler(yargArgs);
+
+    expect(DataPresenter).toHaveBeenCalledWith([
+      { profile: 'default', active: true, clientId: 'client-id', hubId: 'hub-id' }
+    ]);
+  });
+});
@@ -0,0 +1,24 @@
+import { Arguments, Argv } from 'yargs';
+import DataPresenter, { RenderingArguments, RenderingOptions } from '../../view/data-presenter';
+import { ConfigArgument, readConfigProfiles } from '../configure';
+
+export const command = 'list';
+
+export const desc = 'List the saved configuration profiles';
+
+export const builder = (yargs: Argv): void => {
+  yargs.options(RenderingOptions);
+};
+
+export const handler = (argv: Arguments<ConfigArgument & RenderingArguments>): void => {
+  const { activeProfile, profiles } = readConfigProfiles(argv.config, true);
+
+  const profileList = Object.entries(profiles).map(([name, { clientId, hubId }]) => ({
+    profile: name,
+    active: name === activeProfile,
+    clientId,
+    hubId
+  }));
+
+  new DataPresenter(profileList).render({ json: argv.json });
+};
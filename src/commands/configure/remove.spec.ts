@@ -0,0 +1,67 @@
+import { builder, command, handler } from './remove';
+import Yargs from 'yargs/yargs';
+import fs from 'fs';
+
+describe('configure remove command', () => {
+  afterEach((): void => {
+    jest.restoreAllMocks();
+    process.exitCode = 0;
+  });
+
+  const yargArgs = {
+    $0: 'test',
+    _: ['test'],
+    config: 'config.json'
+  };
+
+  const defaultProfile = { clientId: 'client-id', clientSecret: 'secret', hubId: 'hub-id' };
+  const stagingProfile = { clientId: 'staging-id', clientSecret: 'staging-secret', hubId: 'staging-hub' };
+
+  it('should command should defined', () => {
+    expect(command).toEqual('remove <name>');
+  });
+
+  it('should configure yargs', () => {
+    const argv = Yargs(process.argv.slice(2));
+    const spyPositional = jest.spyOn(argv, 'positional').mockReturnThis();
+
+    builder(argv);
+
+    expect(spyPositional).toHaveBeenCalledWith('name', {
+      describe: 'Name of the profile to remove',
+      type: 'string'
+    });
+  });
+
+  it('should remove the given profile', () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest
+      .spyOn(fs, 'readFileSync')
+      .mockReturnValue(
+        JSON.stringify({ activeProfile: 'default', profiles: { default: defaultProfile, staging: stagingProfile } })
+      );
+    jest.spyOn(fs, 'writeFileSync').mockReturnValueOnce(undefined);
+    jest.spyOn(console, 'log').mockReturnValue(undefined);
+
+    handler({ ...yargArgs, name: 'staging' });
+
+    expect(fs.writeFileSync).toHaveBeenCalledWith(
+      'config.json',
+      JSON.stringify({ activeProfile: 'default', profiles: { default: defaultProfile } })
+    );
+  });
+
+  it('should not change the config file if the profile does not exist', () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest
+      .spyOn(fs, 'readFileSync')
+      .mockReturnValue(JSON.stringify({ activeProfile: 'default', profiles: { default: defaultProfile } }));
+    jest.spyOn(fs, 'writeFileSync');
+    jest.spyOn(console, 'error').mockReturnValueOnce(undefined);
+
+    handler({ ...yargArgs, name: 'missing' });
+
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+    expect(process.exitCode).toEqual(1);
+  });
+});
@@ -0,0 +1,33 @@
+import { Arguments, Argv } from 'yargs';
+import { ConfigArgument, readConfigProfiles, writeConfigFile } from '../configure';
+
+export const command = 'remove <name>';
+
+export const desc = 'Remove a saved configuration profile';
+
+export const builder = (yargs: Argv): void => {
+  yargs.positional('name', {
+    describe: 'Name of the profile to remove',
+    type: 'string'
+  });
+};
+
+export const handler = (argv: Arguments<ConfigArgument & { name: string }>): void => {
+  const { name } = argv;
+  const storedConfig = readConfigProfiles(argv.config);
+
+  if (storedConfig.profiles[name] == null) {
+    console.error(`The profile "${name}" does not exist.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  delete storedConfig.profiles[name];
+
+  if (storedConfig.activeProfile === name) {
+    console.log(`"${name}" was the active profile. Use \`configure use <name>\` to select another one.`);
+  }
+
+  writeConfigFile(argv.config, storedConfig);
+  console.log(`Removed profile "${name}".`);
+};
@@ -0,0 +1,28 @@
+import { Arguments, Argv } from 'yargs';
+import { ConfigArgument, readConfigProfiles, writeConfigFile } from '../configure';
+
+export const command = 'use <name>';
+
+export const desc = 'Set the active configuration profile';
+
+export const builder = (yargs: Argv): void => {
+  yargs.positional('name', {
+    describe: 'Name of the profile to make active',
+    type: 'string'
+  });
+};
+
+export const handler = (argv: Arguments<ConfigArgument & { name: string }>): void => {
+  const { name } = argv;
+  const storedConfig = readConfigProfiles(argv.config);
+
+  if (storedConfig.profiles[name] == null) {
+    console.error(`The profile "${name}" does not exist. Use \`configure --profile ${name}\` to create it.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  storedConfig.activeProfile = name;
+  writeConfigFile(argv.config, storedConfig);
+  console.log(`Active profile set to "${name}".`);
+};
@@ -0,0 +1,340 @@
+import { builder, command, handler, LOG_FILENAME } from './apply';
+import { handler as importHandler } from './import';
+import { dependsOn } from './__mocks__/dependant-content-helper';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { createLog, getDefaultLogPath } from '../../common/log-helpers';
+import { ContentMapping } from '../../common/content-mapping';
+import Yargs from 'yargs/yargs';
+import { readFile, writeFile } from 'fs';
+import { join, dirname } from 'path';
+import { promisify } from 'util';
+
+import rmdir from 'rimraf';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
+import { MockContent, ItemTemplate } from '../../common/dc-management-sdk-js/mock-content';
+import { FileLog } from '../../common/file-log';
+import { ContentType, Folder } from 'dc-management-sdk-js';
+
+jest.mock('readline');
+jest.mock('../../services/dynamic-content-client-factory');
+jest.mock('../../common/import/publish-queue');
+jest.mock('../../common/log-helpers', () => ({
+  ...jest.requireActual('../../common/log-helpers'),
+  getDefaultLogPath: jest.fn()
+}));
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+describe('content-item apply command', () => {
+  afterEach((): void => {
+    jest.restoreAllMocks();
+    process.exitCode = 0;
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('apply <plan>');
+  });
+
+  it('should use getDefaultLogPath for LOG_FILENAME with process.platform as default', function() {
+    LOG_FILENAME();
+
+    expect(getDefaultLogPath).toHaveBeenCalledWith('item', 'apply', process.platform);
+  });
+
+  describe('builder tests', function() {
+    it('should configure yargs', function() {
+      const argv = Yargs(process.argv.slice(2));
+      const spyPositional = jest.spyOn(argv, 'positional').mockReturnThis();
+      const spyOption = jest.spyOn(argv, 'option').mockReturnThis();
+
+      builder(argv);
+
+      expect(spyPositional).toHaveBeenCalledWith('plan', {
+        describe: 'Path to the import plan to apply.',
+        type: 'string',
+        requiresArg: true
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('logFile', {
+        type: 'string',
+        default: LOG_FILENAME,
+        describe:
+          'Path to a log file to write to. It can be passed to "content-item import --revertLog" to undo the apply.',
+        coerce: createLog
+      });
+    });
+  });
+
+  describe('handler tests', function() {
+    const yargArgs = {
+      $0: 'test',
+      _: ['test'],
+      json: true
+    };
+    const config = {
+      clientId: 'client-id',
+      clientSecret: 'client-id',
+      hubId: 'hub-id'
+    };
+
+    const base = (): string => `temp_${process.env.JEST_WORKER_ID}/apply/`;
+
+    beforeAll(async () => {
+      await rimraf(base());
+    });
+
+    afterAll(async () => {
+      await rimraf(base());
+    });
+
+    async function createContent(baseFolder: string, items: ItemTemplate[]): Promise<void> {
+      for (const item of items) {
+        const path = join(baseFolder, item.folderPath || '', `${item.label}.json`);
+        await ensureDirectoryExists(dirname(path));
+
+        const content = {
+          id: item.id,
+          label: item.label,
+          lastPublishedVersion: item.lastPublishedVersion,
+          body: {
+            _meta: {
+              schema: item.typeSchemaUri
+            },
+            ...(item.body || {})
+          }
+        };
+
+        await promisify(writeFile)(path, JSON.stringify(content));
+      }
+    }
+
+    async function createPlan(name: string, templates: ItemTemplate[], mapping: [string, string][]): Promise<string> {
+      await createContent(join(base(), name), templates);
+      await promisify(writeFile)(join(base(), `${name}-mapping.json`), JSON.stringify({ contentItems: mapping }));
+
+      const planFile = join(base(), `${name}-plan.json`);
+      const success = await importHandler({
+        ...yargArgs,
+        ...config,
+        dir: join(base(), name),
+        mapFile: join(base(), `${name}-mapping.json`),
+        baseRepo: 'targetRepo',
+        force: true,
+        plan: planFile,
+        logFile: new FileLog(),
+        revertLog: Promise.resolve(undefined)
+      });
+
+      expect(success).toBeTruthy();
+      return planFile;
+    }
+
+    it('should carry out the actions in a plan created by import', async () => {
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('targetRepo');
+      mockContent.registerContentType('http://type', 'type', 'targetRepo');
+      mockContent.importItemTemplates([
+        { id: 'existing', label: 'item3', repoId: 'targetRepo', typeSchemaUri: 'http://type', version: 2 }
+      ]);
+
+      const templates: ItemTemplate[] = [
+        { id: 'old1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type', body: dependsOn(['old2']) },
+        { id: 'old2', label: 'item2', repoId: 'repo', typeSchemaUri: 'http://type', folderPath: 'folderTest' },
+        { id: 'old3', label: 'item3updated', repoId: 'repo', typeSchemaUri: 'http://type' }
+      ];
+
+      const planFile = await createPlan('success', templates, [['old3', 'existing']]);
+      mockContent.metrics.reset();
+
+      const logFile = new FileLog();
+      const result = await handler({ ...yargArgs, ...config, plan: planFile, logFile });
+
+      expect(result).toBeTruthy();
+      expect(mockContent.metrics.itemsCreated).toEqual(2);
+      expect(mockContent.metrics.itemsUpdated).toEqual(1);
+      expect(mockContent.metrics.foldersCreated).toEqual(1);
+
+      const matches = await mockContent.filterMatch(templates.slice(0, 2), '', false);
+      expect(matches.length).toEqual(2);
+
+      // The new content items are saved in the mapping from the plan.
+      const mapping = new ContentMapping();
+      await mapping.load(join(base(), 'success-mapping.json'));
+      expect(mapping.getContentItem('old1')).toBeDefined();
+      expect(mapping.getContentItem('old2')).toBeDefined();
+      expect(mapping.getContentItem('old3')).toEqual('existing');
+
+      // The log can be used to revert the apply.
+      expect(logFile.getData('CREATE').length).toEqual(2);
+      expect(logFile.getData('UPDATE')).toEqual(['existing 2 3']);
+    });
+
+    it('should refuse to apply a plan if a content item it updates has changed version', async () => {
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('targetRepo');
+      mockContent.registerContentType('http://type', 'type', 'targetRepo');
+      mockContent.importItemTemplates([
+        { id: 'existing', label: 'item1', repoId: 'targetRepo', typeSchemaUri: 'http://type', version: 2 }
+      ]);
+
+      const planFile = await createPlan(
+        'drift',
+        [
+          { id: 'old1', label: 'item1updated', repoId: 'repo', typeSchemaUri: 'http://type' },
+          { id: 'old2', label: 'item2', repoId: 'repo', typeSchemaUri: 'http://type' }
+        ],
+        [['old1', 'existing']]
+      );
+
+      // Someone else edits the content item after the plan was made.
+      const client = (dynamicContentClientFactory as jest.Mock)();
+      const existing = await client.contentItems.get('existing');
+      await existing.related.update(existing);
+
+      mockContent.metrics.reset();
+
+      const result = await handler({ ...yargArgs, ...config, plan: planFile, logFile: new FileLog() });
+
+      expect(result).toBeFalsy();
+      expect(process.exitCode).toEqual(1);
+      expect(mockContent.metrics.itemsCreated).toEqual(0);
+      expect(mockContent.metrics.itemsUpdated).toEqual(0);
+    });
+
+    it('should refuse to apply a plan if a folder it creates has since been created', async () => {
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('targetRepo');
+      mockContent.registerContentType('http://type', 'type', 'targetRepo');
+
+      const planFile = await createPlan(
+        'folder-drift',
+        [{ id: 'old1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type', folderPath: 'folderTest' }],
+        []
+      );
+
+      // Someone else creates the folder after the plan was made.
+      const client = (dynamicContentClientFactory as jest.Mock)();
+      const repo = await client.contentRepositories.get('targetRepo');
+      await repo.related.folders.create(new Folder({ id: 'folderTest', name: 'folderTest' }));
+
+      mockContent.metrics.reset();
+      jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await handler({ ...yargArgs, ...config, plan: planFile, logFile: new FileLog() });
+
+      expect(result).toBeFalsy();
+      expect(process.exitCode).toEqual(1);
+      expect(mockContent.metrics.foldersCreated).toEqual(0);
+      expect(mockContent.metrics.itemsCreated).toEqual(0);
+    });
+
+    it('should refuse to apply a plan if a content type it registers has since been registered', async () => {
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('targetRepo');
+      mockContent.registerContentType('http://type', 'type', 'targetRepo', { type: 'object' }, true);
+
+      const planFile = await createPlan(
+        'type-drift',
+        [{ id: 'old1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type' }],
+        []
+      );
+
+      const plan = JSON.parse(await promisify(readFile)(planFile, { encoding: 'utf8' }));
+      expect(plan.contentTypes.length).toEqual(1);
+      expect(plan.assignments.length).toEqual(1);
+
+      // Someone else registers the content type after the plan was made.
+      const client = (dynamicContentClientFactory as jest.Mock)();
+      const hub = await client.hubs.get('hub-id');
+      const register = jest.spyOn(hub.related.contentTypes, 'register');
+      await hub.related.contentTypes.register(
+        new ContentType({ contentTypeUri: 'http://type', settings: { label: 'type' } })
+      );
+
+      mockContent.metrics.reset();
+      jest.spyOn(console, 'error').mockImplementation();
+
+      const logFile = new FileLog();
+      const result = await handler({ ...yargArgs, ...config, plan: planFile, logFile });
+
+      expect(result).toBeFalsy();
+      expect(register).toHaveBeenCalledTimes(1);
+      expect(mockContent.metrics.itemsCreated).toEqual(0);
+      expect(logFile.accessGroup.map(item => item.data)).toContain(
+        "  A content type for 'http://type' was planned to be registered, but it has since been registered."
+      );
+    });
+
+    it('should refuse to apply a plan for a different hub', async () => {
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('targetRepo');
+      mockContent.registerContentType('http://type', 'type', 'targetRepo');
+
+      const planFile = await createPlan(
+        'hub',
+        [{ id: 'old1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type' }],
+        []
+      );
+      mockContent.metrics.reset();
+
+      const result = await handler({
+        ...yargArgs,
+        ...config,
+        hubId: 'other-hub',
+        plan: planFile,
+        logFile: new FileLog()
+      });
+
+      expect(result).toBeFalsy();
+      expect(mockContent.metrics.itemsCreated).toEqual(0);
+    });
+
+    it('should fail when the plan cannot be read', async () => {
+      await ensureDirectoryExists(base());
+      await promisify(writeFile)(join(base(), 'invalid-plan.json'), 'not json');
+
+      const result = await handler({
+        ...yargArgs,
+        ...config,
+        plan: join(base(), 'invalid-plan.json'),
+        logFile: new FileLog()
+      });
+
+      expect(result).toBeFalsy();
+      expect(process.exitCode).toEqual(1);
+
+      // The plan file should be left as it was.
+      expect(await promisify(readFile)(join(base(), 'invalid-plan.json'), { encoding: 'utf8' })).toEqual('not json');
+    });
+
+    it('should fail when the plan is not structured as an import plan', async () => {
+      await ensureDirectoryExists(base());
+      const planFile = join(base(), 'malformed-plan.json');
+      await promisify(writeFile)(
+        planFile,
+        JSON.stringify({
+          hubId: 'hub-id',
+          mapFile: join(base(), 'malformed-mapping.json'),
+          folders: [],
+          contentTypes: [],
+          assignments: [],
+          contentItems: [{ action: 'UPDATE', repoId: 'targetRepo', publish: false, content: { id: 'old1' } }]
+        })
+      );
+      jest.spyOn(console, 'error').mockImplementation();
+
+      const logFile = new FileLog();
+      const result = await handler({ ...yargArgs, ...config, plan: planFile, logFile });
+
+      expect(result).toBeFalsy();
+      expect(process.exitCode).toEqual(1);
+      expect(logFile.accessGroup.map(item => item.data)).toContain(
+        `Error: ${planFile} is not a valid import plan: contentItems[0] is missing fields or has fields of the wrong type.`
+      );
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import { Arguments, Argv } from 'yargs';
+import { ConfigurationParameters } from '../configure';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { ContentItem, ContentRepository, ContentType, DynamicContent, Folder } from 'dc-management-sdk-js';
+import paginator from '../../common/dc-management-sdk-js/paginator';
+import { ContentMapping } from '../../common/content-mapping';
+import { ContentDependancyTree, RepositoryContentItem } from '../../common/content-item/content-dependancy-tree';
+import { ImportPlan } from '../../common/import/import-plan';
+import { FileLog } from '../../common/file-log';
+import { createLog, getDefaultLogPath } from '../../common/log-helpers';
+import { ApplyItemBuilderOptions } from '../../interfaces/apply-item-builder-options.interface';
+import { importTree } from './import';
+
+export const command = 'apply <plan>';
+
+export const desc = 'Apply an import plan created with "content-item import --plan"';
+
+export const LOG_FILENAME = (platform: string = process.platform): string =>
+  getDefaultLogPath('item', 'apply', platform);
+
+export const builder = (yargs: Argv): void => {
+  yargs
+    .positional('plan', {
+      describe: 'Path to the import plan to apply.',
+      type: 'string',
+      requiresArg: true
+    })
+
+    .option('logFile', {
+      type: 'string',
+      default: LOG_FILENAME,
+      describe:
+        'Path to a log file to write to. It can be passed to "content-item import --revertLog" to undo the apply.',
+      coerce: createLog
+    });
+};
+
+const cachedRepositories = (client: DynamicContent): ((id: string) => Promise<ContentRepository>) => {
+  const repos = new Map<string, ContentRepository>();
+  return async (id: string): Promise<ContentRepository> => {
+    let repo = repos.get(id);
+    if (repo == null) {
+      repo = await client.contentRepositories.get(id);
+      repos.set(id, repo);
+    }
+    return repo;
+  };
+};
+
+const findFolderDrift = async (
+  client: DynamicContent,
+  plan: ImportPlan,
+  getRepo: (id: string) => Promise<ContentRepository>
+): Promise<string[]> => {
+  const drift: string[] = [];
+
+  for (const planned of plan.folders) {
+    if (ImportPlan.isPlannedId(planned.parentId)) {
+      continue; // The parent is created by the plan, so it can't have any folders yet.
+    }
+
+    try {
+      const siblings =
+        planned.parentId == null
+          ? await paginator((await getRepo(planned.repoId)).related.folders.list)
+          : await paginator((await client.folders.get(planned.parentId)).related.folders.list);
+
+      if (siblings.find(folder => folder.name === planned.name) != null) {
+        drift.push(`The folder '${planned.path}' was planned to be created, but it has since been created.`);
+      }
+    } catch {
+      drift.push(`The parent of the folder '${planned.path}' could not be found on the hub.`);
+    }
+  }
+
+  return drift;
+};
+
+const findTypeDrift = async (
+  client: DynamicContent,
+  plan: ImportPlan,
+  getRepo: (id: string) => Promise<ContentRepository>
+): Promise<string[]> => {
+  const drift: string[] = [];
+
+  if (plan.contentTypes.length === 0 && plan.assignments.length === 0) {
+    return drift;
+  }
+
+  const hub = await client.hubs.get(plan.hubId);
+  const hubTypes = await paginator(hub.related.contentTypes.list);
+  const hasHubType = (schemaId: string): boolean => hubTypes.find(type => type.contentTypeUri === schemaId) != null;
+
+  for (const planned of plan.contentTypes) {
+    if (hasHubType(planned.schemaId)) {
+      drift.push(
+        `A content type for '${planned.schemaId}' was planned to be registered, but it has since been registered.`
+      );
+    }
+  }
+
+  for (const planned of plan.assignments) {
+    let repo: ContentRepository;
+    try {
+      repo = await getRepo(planned.repoId);
+    } catch {
+      drift.push(`The repository ${planned.repoId} could not be found on the hub.`);
+      continue;
+    }
+
+    if ((repo.contentTypes || []).find(type => type.contentTypeUri === planned.schemaId) != null) {
+      drift.push(
+        `'${planned.schemaId}' was planned to be assigned to repository ${repo.label}, but it has since been assigned.`
+      );
+    } else if (!hasHubType(planned.schemaId) && !plan.contentTypes.find(type => type.schemaId === planned.schemaId)) {
+      drift.push(
+        `'${planned.schemaId}' was planned to be assigned to repository ${repo.label}, but its content type no longer exists.`
+      );
+    }
+  }
+
+  return drift;
+};
+
+// Checks every action in the plan against the hub, so that nothing it creates or updates has changed since it was made.
+export const findDrift = async (
+  client: DynamicContent,
+  plan: ImportPlan,
+  mapping: ContentMapping
+): Promise<string[]> => {
+  const getRepo = cachedRepositories(client);
+  const drift: string[] = [
+    ...(await findFolderDrift(client, plan, getRepo)),
+    ...(await findTypeDrift(client, plan, getRepo))
+  ];
+
+  for (const planned of plan.contentItems) {
+    const { id, label } = planned.content;
+    const targetId = mapping.getContentItem(id);
+
+    if (planned.action === 'CREATE') {
+      if (targetId != null) {
+        drift.push(`${label} was planned to be created, but it has since been imported as ${targetId}.`);
+      }
+      continue;
+    }
+
+    if (targetId !== planned.targetId) {
+      drift.push(`${label} was planned to update ${planned.targetId}, but it is now mapped to ${targetId}.`);
+      continue;
+    }
+
+    try {
+      const remote = await client.contentItems.get(planned.targetId as string);
+      if (remote.version !== planned.version) {
+        drift.push(
+          `${label} (${planned.targetId}) was at version ${planned.version} when planned, but is now at version ${remote.version}.`
+        );
+      }
+    } catch {
+      drift.push(`${label} (${planned.targetId}) could not be found on the hub.`);
+    }
+  }
+
+  return drift;
+};
+
+const applyPlan = async (
+  client: DynamicContent,
+  plan: ImportPlan,
+  mapping: ContentMapping,
+  log: FileLog,
+  argv: Arguments<ApplyItemBuilderOptions & ConfigurationParameters>
+): Promise<boolean> => {
+  const getRepo = cachedRepositories(client);
+
+  // Planned folders are listed parents first, so a planned parent has always been created by the time it is needed.
+  const folderIds = new Map<string, string>();
+  const resolveFolderId = (id: string): string => (folderIds.has(id) ? (folderIds.get(id) as string) : id);
+
+  for (const planned of plan.folders) {
+    const folder = new Folder({ name: planned.name });
+    let created: Folder;
+    if (planned.parentId == null) {
+      created = await (await getRepo(planned.repoId)).related.folders.create(folder);
+    } else {
+      const parent = await client.folders.get(resolveFolderId(planned.parentId));
+      created = await parent.related.folders.create(folder);
+    }
+
+    folderIds.set(planned.id, created.id as string);
+    log.appendLine(`Created folder '${planned.path}'.`);
+  }
+
+  const types = new Map<string, ContentType>();
+  if (plan.contentTypes.length > 0) {
+    const hub = await client.hubs.get(plan.hubId);
+    for (const planned of plan.contentTypes) {
+      const type = await hub.related.contentTypes.register(
+        new ContentType({ contentTypeUri: planned.schemaId, settings: { label: planned.label } })
+      );
+      types.set(planned.schemaId, type);
+      log.appendLine(`Created content type for '${planned.schemaId}'.`);
+    }
+  }
+
+  if (plan.assignments.length > 0) {
+    const hub = await client.hubs.get(plan.hubId);
+    const hubTypes = await paginator(hub.related.contentTypes.list);
+    for (const planned of plan.assignments) {
+      const type = types.get(planned.schemaId) || hubTypes.find(type => type.contentTypeUri === planned.schemaId);
+      if (type == null) {
+        throw new Error(`No content type exists for '${planned.schemaId}'.`);
+      }
+
+      const repo = await getRepo(planned.repoId);
+      await repo.related.contentTypes.assign(type.id as string);
+      log.appendLine(`Assigned '${planned.schemaId}' to repository ${repo.label}.`);
+    }
+  }
+
+  const contentItems: RepositoryContentItem[] = [];
+  for (const planned of plan.contentItems) {
+    const { folderId } = planned.content;
+    const content = new ContentItem({
+      ...planned.content,
+      folderId: folderId == null ? null : resolveFolderId(folderId),
+      publish: planned.publish
+    });
+
+    contentItems.push({ repo: await getRepo(planned.repoId), content });
+  }
+
+  const tree = new ContentDependancyTree(contentItems, mapping);
+  log.appendLine(`Applying ${tree.all.length} content items...`);
+
+  return await importTree(client, tree, mapping, log, { ...argv, publish: plan.publish, republish: plan.republish });
+};
+
+export const handler = async (argv: Arguments<ApplyItemBuilderOptions & ConfigurationParameters>): Promise<boolean> => {
+  const client = dynamicContentClientFactory(argv);
+  const log = argv.logFile.open();
+
+  const fail = async (): Promise<boolean> => {
+    process.exitCode = 1;
+    await log.close();
+    return false;
+  };
+
+  const plan = new ImportPlan();
+  try {
+    await plan.load(argv.plan);
+  } catch (e) {
+    log.error(`Couldn't load the import plan at '${argv.plan}':`, e);
+    return await fail();
+  }
+
+  if (plan.hubId !== argv.hubId) {
+    log.error(`The import plan was created for hub ${plan.hubId}, but the configured hub is ${argv.hubId}.`);
+    return await fail();
+  }
+
+  const mapping = new ContentMapping();
+  await mapping.load(plan.mapFile);
+
+  let drift: string[];
+  try {
+    drift = await findDrift(client, plan, mapping);
+  } catch (e) {
+    log.error('Could not check the hub for changes since the import plan was created:', e);
+    return await fail();
+  }
+
+  if (drift.length > 0) {
+    log.error('The hub has changed since the import plan was created, so it will not be applied:');
+    drift.forEach(line => log.appendLine(`  ${line}`));
+    log.appendLine('Create a new plan with "content-item import --plan" to include these changes.');
+    return await fail();
+  }
+
+  let result: boolean;
+  try {
+    result = await applyPlan(client, plan, mapping, log, argv);
+  } catch (e) {
+    log.error('Applying the import plan failed:', e);
+    result = false;
+  }
+
+  try {
+    await mapping.save(plan.mapFile);
+  } catch (e) {
+    log.appendLine(`Failed to save the mapping. ${e.toString()}`);
+  }
+
+  if (!result) {
+    return await fail();
+  }
+
+  await log.close();
+  return true;
+};
@@ -1,13 +1,5 @@
-import {
-  builder,
-  command,
-  handler,
-  LOG_FILENAME,
-  filterContentItems,
-  getContentItems,
-  processItems,
-  coerceLog
-} from './archive';
+import { builder, command, handler, LOG_FILENAME, processItems, coerceLog, findDependants } from './archive';
+import { filterContentItems, getContentItems } from '../../common/archive/archive-helpers';
 import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
 import { ContentRepository, ContentItem, Folder } from 'dc-management-sdk-js';
 import Yargs from 'yargs/yargs';
@@ -18,6 +10,8 @@ import { promisify } from 'util';
 import { exists, readFile, unlink, mkdir, writeFile } from 'fs';
 import { FileLog, setVersion } from '../../common/file-log';
 import { createLog, getDefaultLogPath } from '../../common/log-helpers';
+import { MockContent, ItemTemplate } from '../../common/dc-management-sdk-js/mock-content';
+import { dependsOn } from './__mocks__/dependant-content-helper';
 
 setVersion('test-ver');
 
@@ -302,6 +296,20 @@ describe('content-item archive command', () => {
         describe: 'If present, archive requests that fail will not abort the process.'
       });
 
+      expect(spyOption).toHaveBeenCalledWith('checkDependants', {
+        type: 'boolean',
+        boolean: true,
+        describe:
+          'If present, the content in the hub is searched for content items that link to or reference the content being archived. Archiving is aborted if any are found, unless --force or --cascade is given.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('cascade', {
+        type: 'boolean',
+        boolean: true,
+        describe:
+          'If present, content items that link to or reference the content being archived are archived too, along with the content that links to them in turn. Implies --checkDependants.'
+      });
+
       expect(spyOption).toHaveBeenCalledWith('logFile', {
         type: 'string',
         default: LOG_FILENAME,
@@ -639,6 +647,22 @@ describe('content-item archive command', () => {
       expect(mockArchive).toBeCalledTimes(1);
     });
 
+    it('should archive content with a concurrency greater than one', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (readline as any).setResponses(['y']);
+
+      const { mockArchive } = mockValues();
+
+      const argv = {
+        ...yargArgs,
+        ...config,
+        concurrency: 2
+      };
+      await handler(argv);
+
+      expect(mockArchive).toBeCalledTimes(2);
+    });
+
     it('should archive content items without asking if --force is provided', async () => {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       (readline as any).setResponses(['input', 'ignored']);
@@ -946,4 +970,125 @@ describe('content-item archive command', () => {
       expect(console.log).toHaveBeenLastCalledWith('Nothing found to archive, aborting.');
     });
   });
+
+  describe('dependant tests', () => {
+    const createContent = (): MockContent => {
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('repo1');
+      mockContent.registerContentType('http://type', 'type', 'repo1');
+
+      const template = (id: string, links: string[]): ItemTemplate => ({
+        id,
+        label: id,
+        repoId: 'repo1',
+        typeSchemaUri: 'http://type',
+        body: dependsOn(links)
+      });
+
+      mockContent.importItemTemplates([
+        template('page', ['banner']),
+        template('banner', ['image']),
+        template('card', ['image', 'text']),
+        template('image', []),
+        template('text', []),
+        template('other', [])
+      ]);
+
+      return mockContent;
+    };
+
+    const status = (mockContent: MockContent): string[] =>
+      mockContent.items.filter(item => item.status !== 'ACTIVE').map(item => item.id as string);
+
+    beforeEach(() => {
+      process.exitCode = 0;
+      jest.spyOn(console, 'log').mockImplementation();
+    });
+
+    afterEach(() => {
+      process.exitCode = 0;
+    });
+
+    it('should find the content items that link to the given items, excluding the given items', async () => {
+      const mockContent = createContent();
+      const items = mockContent.items.filter(item => item.id === 'image' || item.id === 'text');
+
+      const dependants = await findDependants(dynamicContentClientFactory({ ...config }), 'hub-id', items);
+
+      expect(dependants.map(dependant => [dependant.item.id, dependant.links.map(link => link.id)])).toEqual([
+        ['banner', ['image']],
+        ['card', ['image', 'text']]
+      ]);
+    });
+
+    it('should follow the dependant chain when cascading', async () => {
+      const mockContent = createContent();
+      const items = mockContent.items.filter(item => item.id === 'image');
+
+      const dependants = await findDependants(dynamicContentClientFactory({ ...config }), 'hub-id', items, true);
+
+      expect(dependants.map(dependant => dependant.item.id)).toEqual(['banner', 'card', 'page']);
+    });
+
+    it('should abort archiving when content links to the archived content, with --checkDependants', async () => {
+      const mockContent = createContent();
+
+      await handler({ ...yargArgs, ...config, id: 'image', checkDependants: true });
+
+      expect(console.log).toHaveBeenCalledWith(' banner (banner) -> image (image)');
+      expect(console.log).toHaveBeenCalledWith(' card (card) -> image (image)');
+      expect(console.log).toHaveBeenLastCalledWith(
+        'Archiving would break the links in these content items, aborting. Use --cascade to archive them too, or --force to archive anyway.'
+      );
+      expect(status(mockContent)).toEqual([]);
+      expect(process.exitCode).toEqual(1);
+    });
+
+    it('should archive content that nothing links to, with --checkDependants', async () => {
+      const mockContent = createContent();
+
+      await handler({ ...yargArgs, ...config, id: 'page', checkDependants: true, force: true });
+
+      expect(status(mockContent)).toEqual(['page']);
+      expect(process.exitCode).toEqual(0);
+    });
+
+    it('should archive content that is linked to when --force is given, with --checkDependants', async () => {
+      const mockContent = createContent();
+
+      await handler({ ...yargArgs, ...config, id: 'image', checkDependants: true, force: true });
+
+      expect(status(mockContent)).toEqual(['image']);
+    });
+
+    it('should archive the dependant chain with --cascade, and record it in the log', async () => {
+      const mockContent = createContent();
+      const logFileName = `temp_${process.env.JEST_WORKER_ID}/content-item-archive-cascade.log`;
+
+      await handler({
+        ...yargArgs,
+        ...config,
+        id: 'image',
+        cascade: true,
+        force: true,
+        logFile: createLog(logFileName)
+      });
+
+      expect(status(mockContent).sort()).toEqual(['banner', 'card', 'image', 'page']);
+
+      const log = await promisify(readFile)(logFileName, 'utf8');
+      const logLines = log.split('\n').filter(line => line.indexOf('ARCHIVE') !== -1 || line.indexOf('CASCADE') !== -1);
+      expect(logLines).toEqual([
+        'ARCHIVE image',
+        '// CASCADE: banner links to image',
+        'ARCHIVE banner',
+        '// CASCADE: card links to image',
+        'ARCHIVE card',
+        '// CASCADE: page links to banner',
+        'ARCHIVE page'
+      ]);
+
+      await promisify(unlink)(logFileName);
+    });
+  });
 });
@@ -1,14 +1,15 @@
 import { Arguments, Argv } from 'yargs';
 import { ConfigurationParameters } from '../configure';
 import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
-import { ArchiveLog } from '../../common/archive/archive-log';
-import paginator from '../../common/dc-management-sdk-js/paginator';
-import { confirmArchive } from '../../common/archive/archive-helpers';
+import { confirmAction, getContentItems } from '../../common/archive/archive-helpers';
 import ArchiveOptions from '../../common/archive/archive-options';
-import { ContentItem, DynamicContent, Status } from 'dc-management-sdk-js';
-import { equalsOrRegex } from '../../common/filter/filter';
+import { ContentItem, DynamicContent } from 'dc-management-sdk-js';
 import { getDefaultLogPath, createLog } from '../../common/log-helpers';
 import { FileLog } from '../../common/file-log';
+import { forEachConcurrently, ConcurrencyArgument } from '../../common/concurrency';
+import { ContentDependancyTree, ItemContentDependancies } from '../../common/content-item/content-dependancy-tree';
+import { ContentMapping } from '../../common/content-mapping';
+import { loadContentForTree } from './tree';
 
 export const command = 'archive [id]';
 
@@ -69,6 +70,18 @@ export const builder = (yargs: Argv): void => {
       boolean: true,
       describe: 'If present, archive requests that fail will not abort the process.'
     })
+    .option('checkDependants', {
+      type: 'boolean',
+      boolean: true,
+      describe:
+        'If present, the content in the hub is searched for content items that link to or reference the content being archived. Archiving is aborted if any are found, unless --force or --cascade is given.'
+    })
+    .option('cascade', {
+      type: 'boolean',
+      boolean: true,
+      describe:
+        'If present, content items that link to or reference the content being archived are archived too, along with the content that links to them in turn. Implies --checkDependants.'
+    })
     .option('logFile', {
       type: 'string',
       default: LOG_FILENAME,
@@ -77,147 +90,58 @@ export const builder = (yargs: Argv): void => {
     });
 };
 
-export const filterContentItems = async ({
-  revertLog,
-  name,
-  contentType,
-  contentItems
-}: {
-  revertLog?: string;
-  name?: string | string[];
-  contentType?: string | string[];
-  contentItems: ContentItem[];
-}): Promise<{ contentItems: ContentItem[]; missingContent: boolean } | undefined> => {
-  try {
-    let missingContent = false;
-
-    if (revertLog != null) {
-      const log = await new ArchiveLog().loadFromFile(revertLog);
-      const ids = log.getData('UNARCHIVE');
-      const contentItemsFiltered = contentItems.filter(contentItem => ids.indexOf(contentItem.id || '') != -1);
-      if (contentItems.length != ids.length) {
-        missingContent = true;
+export interface ContentItemDependant {
+  item: ContentItem;
+  // The content being archived that this item links to or references.
+  links: ContentItem[];
+}
+
+/**
+ * Finds the active content items in the hub that link to or reference the given content items, which would be
+ * left with broken links if they were archived. Hierarchy children are not included.
+ * When cascading, the content items that link to each dependant are found in turn.
+ */
+export const findDependants = async (
+  client: DynamicContent,
+  hubId: string,
+  contentItems: ContentItem[],
+  cascade?: boolean
+): Promise<ContentItemDependant[]> => {
+  const tree = new ContentDependancyTree(await loadContentForTree(client, { hubId }), new ContentMapping());
+  const selected = new Set(contentItems.map(item => item.id as string));
+  const dependants = new Map<string, ContentItemDependant>();
+
+  const queue = contentItems
+    .map(item => tree.byId.get(item.id as string))
+    .filter(item => item != null) as ItemContentDependancies[];
+
+  while (queue.length > 0) {
+    const item = queue.shift() as ItemContentDependancies;
+
+    item.dependants.forEach(dep => {
+      const dependant = dep.resolved as ItemContentDependancies;
+      const id = dependant.owner.content.id as string;
+      if (dep.dependancy._meta.schema === '_hierarchy' || selected.has(id)) {
+        return;
       }
 
-      return {
-        contentItems: contentItemsFiltered,
-        missingContent
-      };
-    }
-
-    if (name != null) {
-      const itemsArray: string[] = Array.isArray(name) ? name : [name];
-      const contentItemsFiltered = contentItems.filter(
-        item => itemsArray.findIndex(id => equalsOrRegex(item.label || '', id)) != -1
-      );
-
-      return {
-        contentItems: contentItemsFiltered,
-        missingContent
-      };
-    }
-
-    if (contentType != null) {
-      const itemsArray: string[] = Array.isArray(contentType) ? contentType : [contentType];
-      const contentItemsFiltered = contentItems.filter(item => {
-        return itemsArray.findIndex(id => equalsOrRegex(item.body._meta.schema, id)) != -1;
-      });
+      let entry = dependants.get(id);
+      if (entry == null) {
+        entry = { item: dependant.owner.content, links: [] };
+        dependants.set(id, entry);
 
-      return {
-        contentItems: contentItemsFiltered,
-        missingContent
-      };
-    }
-
-    return {
-      contentItems,
-      missingContent
-    };
-  } catch (err) {
-    console.log(err);
-    return {
-      contentItems: [],
-      missingContent: false
-    };
-  }
-};
-
-export const getContentItems = async ({
-  client,
-  id,
-  hubId,
-  repoId,
-  folderId,
-  revertLog,
-  name,
-  contentType
-}: {
-  client: DynamicContent;
-  id?: string | string[];
-  hubId: string;
-  repoId?: string | string[];
-  folderId?: string | string[];
-  revertLog?: string;
-  name?: string | string[];
-  contentType?: string | string[];
-}): Promise<{ contentItems: ContentItem[]; missingContent: boolean }> => {
-  try {
-    const contentItems: ContentItem[] = [];
-
-    if (id != null) {
-      const itemIds = Array.isArray(id) ? id : [id];
-      const items = await Promise.all(itemIds.map(id => client.contentItems.get(id)));
-      contentItems.push(...items);
-
-      return {
-        contentItems,
-        missingContent: false
-      };
-    }
-
-    const hub = await client.hubs.get(hubId);
-    const repoIds = typeof repoId === 'string' ? [repoId] : repoId || [];
-    const folderIds = typeof folderId === 'string' ? [folderId] : folderId || [];
-    const contentRepositories = await (repoId != null
-      ? Promise.all(repoIds.map(id => client.contentRepositories.get(id)))
-      : paginator(hub.related.contentRepositories.list));
-
-    const folders = folderId != null ? await Promise.all(folderIds.map(id => client.folders.get(id))) : [];
-
-    folderId != null
-      ? await Promise.all(
-          folders.map(async source => {
-            const items = await paginator(source.related.contentItems.list);
-
-            contentItems.push(...items.filter(item => item.status == 'ACTIVE'));
-          })
-        )
-      : await Promise.all(
-          contentRepositories.map(async source => {
-            const items = await paginator(source.related.contentItems.list, { status: Status.ACTIVE });
-            contentItems.push(...items);
-          })
-        );
+        if (cascade) {
+          queue.push(dependant);
+        }
+      }
 
-    return (
-      (await filterContentItems({
-        revertLog,
-        name,
-        contentType,
-        contentItems
-      })) || {
-        contentItems: [],
-        missingContent: false
+      if (entry.links.indexOf(item.owner.content) === -1) {
+        entry.links.push(item.owner.content);
       }
-    );
-  } catch (err) {
-    console.log(err);
-
-    return {
-      contentItems: [],
-      missingContent: false
-    };
+    });
   }
+
+  return Array.from(dependants.values());
 };
 
 export const processItems = async ({
@@ -227,7 +151,9 @@ export const processItems = async ({
   logFile,
   allContent,
   missingContent,
-  ignoreError
+  ignoreError,
+  concurrency,
+  cascaded = []
 }: {
   contentItems: ContentItem[];
   force?: boolean;
@@ -236,6 +162,8 @@ export const processItems = async ({
   allContent: boolean;
   missingContent: boolean;
   ignoreError?: boolean;
+  concurrency?: number;
+  cascaded?: ContentItemDependant[];
 }): Promise<void> => {
   if (contentItems.length == 0) {
     console.log('Nothing found to archive, aborting.');
@@ -249,7 +177,7 @@ export const processItems = async ({
   console.log(`Total: ${contentItems.length}`);
 
   if (!force) {
-    const yes = await confirmArchive('archive', 'content item', allContent, missingContent);
+    const yes = await confirmAction('archive', 'content item', allContent, missingContent);
     if (!yes) {
       return;
     }
@@ -259,20 +187,28 @@ export const processItems = async ({
 
   let successCount = 0;
 
-  for (let i = 0; i < contentItems.length; i++) {
+  log.progress.start('Archiving', contentItems.length);
+
+  const cascadedById = new Map(cascaded.map(dependant => [dependant.item.id as string, dependant]));
+
+  await forEachConcurrently(contentItems, concurrency, async (_, i) => {
     try {
+      const dependant = cascadedById.get(contentItems[i].id as string);
       const deliveryKey = contentItems[i].body._meta.deliveryKey;
-      let args = contentItems[i].id;
+      const args = [contentItems[i].id as string];
       if (deliveryKey) {
         contentItems[i].body._meta.deliveryKey = null;
 
         contentItems[i] = await contentItems[i].related.update(contentItems[i]);
 
-        args += ` ${deliveryKey}`;
+        args.push(deliveryKey);
       }
       await contentItems[i].related.archive();
 
-      log.addAction('ARCHIVE', `${args}`);
+      if (dependant) {
+        log.addComment(`CASCADE: ${contentItems[i].id} links to ${dependant.links.map(link => link.id).join(', ')}`);
+      }
+      log.addAction('ARCHIVE', args);
       successCount++;
     } catch (e) {
       log.addComment(`ARCHIVE FAILED: ${contentItems[i].id}`);
@@ -282,18 +218,39 @@ export const processItems = async ({
         log.warn(`Failed to archive ${contentItems[i].label} (${contentItems[i].id}), continuing.`, e);
       } else {
         log.error(`Failed to archive ${contentItems[i].label} (${contentItems[i].id}), aborting.`, e);
-        break;
+        return false;
       }
+    } finally {
+      log.progress.increment();
     }
-  }
+  });
+
+  log.progress.finish();
 
   await log.close(!silent);
 
   console.log(`Archived ${successCount} content items.`);
 };
 
-export const handler = async (argv: Arguments<ArchiveOptions & ConfigurationParameters>): Promise<void> => {
-  const { id, logFile, force, silent, ignoreError, hubId, revertLog, repoId, folderId, name, contentType } = argv;
+export const handler = async (
+  argv: Arguments<ArchiveOptions & ConfigurationParameters & ConcurrencyArgument>
+): Promise<void> => {
+  const {
+    id,
+    logFile,
+    force,
+    silent,
+    ignoreError,
+    hubId,
+    revertLog,
+    repoId,
+    folderId,
+    name,
+    contentType,
+    concurrency,
+    checkDependants,
+    cascade
+  } = argv;
   const client = dynamicContentClientFactory(argv);
 
   const allContent = !id && !name && !contentType && !revertLog && !folderId && !repoId;
@@ -326,6 +283,30 @@ export const handler = async (argv: Arguments<ArchiveOptions & ConfigurationPara
     name
   });
 
+  let cascaded: ContentItemDependant[] = [];
+
+  if ((checkDependants || cascade) && contentItems.length > 0) {
+    const dependants = await findDependants(client, hubId, contentItems, cascade);
+
+    if (dependants.length > 0) {
+      console.log('The following content items link to content items that will be archived:');
+      dependants.forEach(({ item, links }) => {
+        console.log(` ${item.label} (${item.id}) -> ${links.map(link => `${link.label} (${link.id})`).join(', ')}`);
+      });
+
+      if (cascade) {
+        cascaded = dependants;
+        contentItems.push(...dependants.map(dependant => dependant.item));
+      } else if (!force) {
+        console.log(
+          'Archiving would break the links in these content items, aborting. Use --cascade to archive them too, or --force to archive anyway.'
+        );
+        process.exitCode = 1;
+        return;
+      }
+    }
+  }
+
   await processItems({
     contentItems,
     force,
@@ -333,9 +314,13 @@ export const handler = async (argv: Arguments<ArchiveOptions & ConfigurationPara
     logFile,
     allContent,
     missingContent,
-    ignoreError
+    ignoreError,
+    concurrency,
+    cascaded
   });
 };
 
 // log format:
 // ARCHIVE <content item id>
+// Content items archived with --cascade are preceded by a comment:
+// // CASCADE: <content item id> links to <archived content item ids>
@@ -0,0 +1,189 @@
+import { builder, command, handler, AuditIssue } from './audit';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { MockContent, ItemTemplate } from '../../common/dc-management-sdk-js/mock-content';
+import { dependsOn } from './__mocks__/dependant-content-helper';
+import Yargs from 'yargs/yargs';
+
+jest.mock('../../services/dynamic-content-client-factory');
+
+describe('content-item audit command', () => {
+  const yargArgs = {
+    $0: 'test',
+    _: ['test']
+  };
+  const config = {
+    clientId: 'client-id',
+    clientSecret: 'client-id',
+    hubId: 'hub-id'
+  };
+
+  const template = (
+    id: string,
+    repoId: string,
+    links: string[],
+    status?: string,
+    typeSchemaUri = 'http://type'
+  ): ItemTemplate => ({
+    id,
+    label: id,
+    repoId,
+    typeSchemaUri,
+    body: dependsOn(links),
+    status
+  });
+
+  let stdout: string;
+
+  const createContent = (): MockContent => {
+    const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+    mockContent.createMockRepository('repo1');
+    mockContent.createMockRepository('repo2');
+    mockContent.registerContentType('http://type', 'type', ['repo1', 'repo2']);
+    mockContent.registerContentType('http://page', 'page', ['repo1']);
+    mockContent.importItemTemplates([
+      template('page', 'repo1', ['slot', 'deleted', 'old'], undefined, 'http://page'),
+      template('slot', 'repo1', ['other']),
+      template('spare', 'repo1', []),
+      template('old', 'repo1', [], 'ARCHIVED'),
+      template('loop1', 'repo1', ['loop2']),
+      template('loop2', 'repo1', ['loop1']),
+      template('other', 'repo2', [])
+    ]);
+
+    return mockContent;
+  };
+
+  const issues = (): AuditIssue[] => JSON.parse(stdout);
+
+  beforeEach(() => {
+    stdout = '';
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(process.stdout, 'write').mockImplementation((text: string | Uint8Array) => {
+      stdout += text;
+      return true;
+    });
+  });
+
+  afterEach((): void => {
+    jest.restoreAllMocks();
+    process.exitCode = 0;
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('audit');
+  });
+
+  describe('builder tests', function() {
+    it('should configure yargs', function() {
+      const argv = Yargs(process.argv.slice(2));
+      const spyOption = jest.spyOn(argv, 'option').mockReturnThis();
+
+      builder(argv);
+
+      expect(spyOption).toHaveBeenCalledWith('format', {
+        type: 'string',
+        choices: ['table', 'json', 'csv'],
+        default: 'table',
+        describe: 'The format of the report.'
+      });
+      expect(spyOption).toHaveBeenCalledWith('linkedTypesOnly', {
+        type: 'boolean',
+        boolean: true,
+        describe:
+          'Only report orphans of content types that other content links to or references, so that content that is reached directly, such as pages, is not reported.'
+      });
+    });
+  });
+
+  describe('handler tests', function() {
+    it('should report dangling links, links to archived items, orphans and circular links, and exit with an error', async () => {
+      createContent();
+
+      await handler({ ...yargArgs, ...config, format: 'json' });
+
+      expect(issues()).toEqual([
+        {
+          type: 'DANGLING',
+          id: 'page',
+          label: 'page',
+          repository: 'repo1',
+          detail: 'content-link to deleted, which does not exist.'
+        },
+        {
+          type: 'ARCHIVED',
+          id: 'page',
+          label: 'page',
+          repository: 'repo1',
+          detail: 'content-link to old (old), which is archived.'
+        },
+        {
+          type: 'ORPHAN',
+          id: 'page',
+          label: 'page',
+          repository: 'repo1',
+          detail: 'Not linked or referenced by any content item.'
+        },
+        {
+          type: 'ORPHAN',
+          id: 'spare',
+          label: 'spare',
+          repository: 'repo1',
+          detail: 'Not linked or referenced by any content item.'
+        },
+        {
+          type: 'CIRCULAR',
+          id: 'loop1',
+          label: 'loop1',
+          repository: 'repo1',
+          detail: 'loop1 (loop1) -> loop2 (loop2) -> loop1 (loop1)'
+        }
+      ]);
+      expect(process.exitCode).toEqual(1);
+    });
+
+    it('should follow links from repositories that are not audited, and not report the content they link to', async () => {
+      createContent();
+
+      await handler({ ...yargArgs, ...config, repoId: 'repo2', format: 'json' });
+
+      expect(issues()).toEqual([]);
+      expect(process.exitCode).toEqual(0);
+    });
+
+    it('should only report orphans of content types that other content links to with --linkedTypesOnly', async () => {
+      createContent();
+
+      await handler({ ...yargArgs, ...config, linkedTypesOnly: true, format: 'json' });
+
+      expect(issues().filter(issue => issue.type === 'ORPHAN')).toEqual([
+        {
+          type: 'ORPHAN',
+          id: 'spare',
+          label: 'spare',
+          repository: 'repo1',
+          detail: 'Not linked or referenced by any content item.'
+        }
+      ]);
+    });
+
+    it('should write the report as csv', async () => {
+      createContent();
+
+      await handler({ ...yargArgs, ...config, repoId: 'repo1', format: 'csv' });
+
+      expect(stdout.split('\n')[0]).toEqual('type,id,label,repository,detail');
+      expect(stdout).toContain('ORPHAN,spare,spare,repo1,Not linked or referenced by any content item.\n');
+    });
+
+    it('should summarise the issues, and write them as a table', async () => {
+      createContent();
+
+      await handler({ ...yargArgs, ...config, format: 'table' });
+
+      expect(console.log).toHaveBeenCalledWith(
+        'Audited 6 content items: 1 dangling, 1 archived, 2 orphan, 1 circular.'
+      );
+      expect(stdout).toContain('content-link to deleted, which does not exist.');
+    });
+  });
+});
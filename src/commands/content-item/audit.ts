@@ -0,0 +1,246 @@
+import { Arguments, Argv } from 'yargs';
+import { ConfigurationParameters } from '../configure';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { ContentItem, ContentRepository, DynamicContent, Status } from 'dc-management-sdk-js';
+import paginator from '../../common/dc-management-sdk-js/paginator';
+import {
+  ContentDependancyTree,
+  ItemContentDependancies,
+  RepositoryContentItem
+} from '../../common/content-item/content-dependancy-tree';
+import { ContentMapping } from '../../common/content-mapping';
+import DataPresenter from '../../view/data-presenter';
+
+export const command = 'audit';
+
+export const desc =
+  'Report broken content links and references, orphaned content items and circular links in the content of a hub';
+
+export type AuditFormat = 'table' | 'json' | 'csv';
+
+export const builder = (yargs: Argv): void => {
+  yargs
+    .option('repoId', {
+      type: 'string',
+      describe:
+        'The ID of a content repository to audit. Multiple --repoId options may be given. If not provided, all content repositories in the hub are audited. Links from content in other repositories are still followed, so that content they link to is not reported as orphaned.'
+    })
+    .option('linkedTypesOnly', {
+      type: 'boolean',
+      boolean: true,
+      describe:
+        'Only report orphans of content types that other content links to or references, so that content that is reached directly, such as pages, is not reported.'
+    })
+    .option('format', {
+      type: 'string',
+      choices: ['table', 'json', 'csv'],
+      default: 'table',
+      describe: 'The format of the report.'
+    });
+};
+
+interface AuditOptions {
+  repoId?: string | string[];
+  linkedTypesOnly?: boolean;
+  format: AuditFormat;
+}
+
+export type AuditIssueType = 'DANGLING' | 'ARCHIVED' | 'ORPHAN' | 'CIRCULAR';
+
+export interface AuditIssue {
+  type: AuditIssueType;
+  id: string;
+  label: string;
+  repository: string;
+  detail: string;
+}
+
+export const auditTableOptions = {
+  columns: {
+    0: { width: 10 },
+    1: { width: 36 },
+    2: { width: 30 },
+    3: { width: 20 },
+    4: { width: 60 }
+  }
+};
+
+const describeItem = (item: ContentItem): string => `${item.label} (${item.id})`;
+
+const linkName = (schema: string): string => schema.split('/').pop() as string;
+
+const loadContent = async (
+  client: DynamicContent,
+  hubId: string
+): Promise<{ active: RepositoryContentItem[]; inactive: Map<string, ContentItem> }> => {
+  const hub = await client.hubs.get(hubId);
+  const repos: ContentRepository[] = await paginator(hub.related.contentRepositories.list);
+
+  const active: RepositoryContentItem[] = [];
+  const inactive = new Map<string, ContentItem>();
+
+  for (const repo of repos) {
+    const items = await paginator(repo.related.contentItems.list);
+    items.forEach(item => {
+      if (item.status === Status.ACTIVE) {
+        active.push({ repo, content: item });
+      } else {
+        inactive.set(item.id, item);
+      }
+    });
+  }
+
+  return { active, inactive };
+};
+
+// Finds the shortest chain of links from an item back to itself, if there is one.
+const findCycle = (start: ItemContentDependancies): ItemContentDependancies[] | undefined => {
+  const previous = new Map<ItemContentDependancies, ItemContentDependancies>();
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const item = queue.shift() as ItemContentDependancies;
+
+    for (const dep of item.dependancies) {
+      const target = dep.resolved;
+      if (target == null || dep.dependancy._meta.schema === '_hierarchy') {
+        continue;
+      }
+
+      if (target === start) {
+        const chain = [item];
+        while (chain[0] !== start) {
+          chain.unshift(previous.get(chain[0]) as ItemContentDependancies);
+        }
+        return chain;
+      }
+
+      if (!previous.has(target)) {
+        previous.set(target, item);
+        queue.push(target);
+      }
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Audits the links between content items, reporting links to content that does not exist or is archived,
+ * content that nothing links to, and chains of content that link back to themselves.
+ * Only items in the given repositories are reported, but links from all of the items are followed.
+ * Links to content outside of the given items are looked up, so that content in other hubs is not reported.
+ */
+export const auditContent = async (
+  client: DynamicContent,
+  items: RepositoryContentItem[],
+  inactive: Map<string, ContentItem>,
+  { repoIds, linkedTypesOnly }: { repoIds?: string[]; linkedTypesOnly?: boolean } = {}
+): Promise<AuditIssue[]> => {
+  const tree = new ContentDependancyTree(items, new ContentMapping());
+  const issues: AuditIssue[] = [];
+  const external = new Map<string, ContentItem | null>();
+
+  const audited = tree.all.filter(item => repoIds == null || repoIds.indexOf(item.owner.repo.id as string) !== -1);
+
+  const issue = (type: AuditIssueType, item: ItemContentDependancies, detail: string): void => {
+    const content = item.owner.content;
+    issues.push({ type, id: content.id, label: content.label, repository: item.owner.repo.label as string, detail });
+  };
+
+  for (const item of audited) {
+    for (const dep of item.dependancies) {
+      const id = dep.dependancy.id as string;
+      const schema = dep.dependancy._meta.schema;
+      if (schema === '_hierarchy' || tree.byId.has(id)) {
+        continue;
+      }
+
+      let target = inactive.get(id);
+      if (target == null) {
+        if (!external.has(id)) {
+          try {
+            external.set(id, await client.contentItems.get(id));
+          } catch {
+            external.set(id, null);
+          }
+        }
+        target = external.get(id) || undefined;
+      }
+
+      if (target == null) {
+        issue('DANGLING', item, `${linkName(schema)} to ${id}, which does not exist.`);
+      } else if (target.status !== Status.ACTIVE) {
+        issue('ARCHIVED', item, `${linkName(schema)} to ${describeItem(target)}, which is archived.`);
+      }
+    }
+  }
+
+  // With linkedTypesOnly, content of a type that is never linked to, such as a page, is expected to be reached directly.
+  const linkedSchemas = new Set(
+    tree.all.filter(item => item.dependants.length > 0).map(item => item.owner.content.body._meta.schema)
+  );
+
+  audited.forEach(item => {
+    const hierarchy = item.owner.content.body._meta.hierarchy;
+    if (
+      item.dependants.length === 0 &&
+      !(hierarchy && hierarchy.parentId) &&
+      (!linkedTypesOnly || linkedSchemas.has(item.owner.content.body._meta.schema))
+    ) {
+      issue('ORPHAN', item, 'Not linked or referenced by any content item.');
+    }
+  });
+
+  const seenCycles = new Set<string>();
+  tree.circularLinks.forEach(item => {
+    if (audited.indexOf(item) === -1) {
+      return;
+    }
+
+    const cycle = findCycle(item);
+    if (cycle == null) {
+      return;
+    }
+
+    const key = cycle
+      .map(member => member.owner.content.id)
+      .sort()
+      .join(',');
+    if (!seenCycles.has(key)) {
+      seenCycles.add(key);
+      const chain = [...cycle, item].map(member => describeItem(member.owner.content));
+      issue('CIRCULAR', item, chain.join(' -> '));
+    }
+  });
+
+  return issues;
+};
+
+export const handler = async (argv: Arguments<AuditOptions & ConfigurationParameters>): Promise<void> => {
+  const { hubId, repoId, linkedTypesOnly, format } = argv;
+  const client = dynamicContentClientFactory(argv);
+
+  const repoIds = typeof repoId === 'string' ? [repoId] : repoId;
+  const { active, inactive } = await loadContent(client, hubId);
+  const issues = await auditContent(client, active, inactive, { repoIds, linkedTypesOnly });
+  const auditedCount = active.filter(item => repoIds == null || repoIds.indexOf(item.repo.id as string) !== -1).length;
+
+  if (format === 'json') {
+    new DataPresenter(issues).render({ json: true });
+  } else if (format === 'csv') {
+    new DataPresenter(issues).render({ csv: true });
+  } else {
+    const counts = (['DANGLING', 'ARCHIVED', 'ORPHAN', 'CIRCULAR'] as AuditIssueType[]).map(
+      type => `${issues.filter(issue => issue.type === type).length} ${type.toLowerCase()}`
+    );
+    console.log(`Audited ${auditedCount} content items: ${counts.join(', ')}.`);
+    if (issues.length > 0) {
+      new DataPresenter(issues).render({ tableUserConfig: auditTableOptions });
+    }
+  }
+
+  if (issues.length > 0) {
+    process.exitCode = 1;
+  }
+};
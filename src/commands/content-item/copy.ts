@@ -157,7 +157,10 @@ export const handler = async (argv: Arguments<CopyItemBuilderOptions & Configura
   const yargArgs = {
     $0: '',
     _: [],
-    json: true
+    json: true,
+    maxRetries: argv.maxRetries,
+    requestsPerSecond: argv.requestsPerSecond,
+    concurrency: argv.concurrency
   };
 
   let result = false;
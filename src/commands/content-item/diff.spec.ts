@@ -0,0 +1,330 @@
+import { builder, command, handler, ContentItemDiff } from './diff';
+import { dependsOn } from './__mocks__/dependant-content-helper';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import Yargs from 'yargs/yargs';
+import { writeFile } from 'fs';
+import { join, dirname } from 'path';
+import { promisify } from 'util';
+
+import rmdir from 'rimraf';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
+import { MockContent, ItemTemplate } from '../../common/dc-management-sdk-js/mock-content';
+
+jest.mock('../../services/dynamic-content-client-factory');
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+describe('content-item diff command', () => {
+  afterEach((): void => {
+    jest.restoreAllMocks();
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('diff <dir>');
+  });
+
+  describe('builder tests', function() {
+    it('should configure yargs', function() {
+      const argv = Yargs(process.argv.slice(2));
+      const spyPositional = jest.spyOn(argv, 'positional').mockReturnThis();
+      const spyOption = jest.spyOn(argv, 'option').mockReturnThis();
+      const spyOptions = jest.spyOn(argv, 'options').mockReturnThis();
+
+      builder(argv);
+
+      expect(spyPositional).toHaveBeenCalledWith('dir', {
+        describe: 'Directory containing the exported content items to compare, in the same format as an import.',
+        type: 'string',
+        requiresArg: true
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('baseRepo', {
+        type: 'string',
+        describe: 'Compare with the given repository, by ID, as if importing into it.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('baseFolder', {
+        type: 'string',
+        describe: 'Compare with the given folder, by ID, as if importing into it.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('mapFile', {
+        type: 'string',
+        describe:
+          'Mapping file to resolve content that already exists on the hub. Defaults to the mapping file that import would use.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('skipIncomplete', {
+        type: 'boolean',
+        boolean: true,
+        describe: 'Treat content items that have one or more missing dependancy as skipped, as import would.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('excludeKeys', {
+        type: 'boolean',
+        boolean: true,
+        describe: 'Ignore delivery keys, as import would with the same option.'
+      });
+
+      expect(spyOptions).toHaveBeenCalled();
+    });
+  });
+
+  describe('handler tests', function() {
+    const yargArgs = {
+      $0: 'test',
+      _: ['test'],
+      json: true
+    };
+    const config = {
+      clientId: 'client-id',
+      clientSecret: 'client-id',
+      hubId: 'hub-id'
+    };
+
+    beforeAll(async () => {
+      await rimraf(`temp_${process.env.JEST_WORKER_ID}/diff/`);
+    });
+
+    afterAll(async () => {
+      await rimraf(`temp_${process.env.JEST_WORKER_ID}/diff/`);
+    });
+
+    async function createContent(baseFolder: string, items: ItemTemplate[], includeRepo: boolean): Promise<void> {
+      for (const item of items) {
+        const folder = item.folderPath || '';
+        const path = includeRepo
+          ? join(baseFolder, item.repoId, folder, `${item.label}.json`)
+          : join(baseFolder, folder, `${item.label}.json`);
+
+        await ensureDirectoryExists(dirname(path));
+
+        const content = {
+          id: item.id,
+          label: item.label,
+          contentRepositoryId: item.repoId,
+          locale: item.locale,
+          body: {
+            ...(item.body || {}),
+            _meta: {
+              schema: item.typeSchemaUri
+            }
+          }
+        };
+
+        await promisify(writeFile)(path, JSON.stringify(content));
+      }
+    }
+
+    async function writeMapping(path: string, contentItems: [string, string][]): Promise<void> {
+      await ensureDirectoryExists(dirname(path));
+      await promisify(writeFile)(path, JSON.stringify({ contentItems }));
+    }
+
+    async function runDiff(argv: object): Promise<{ [action: string]: ContentItemDiff[] }> {
+      const stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await handler(argv as any);
+
+      return JSON.parse(stdoutSpy.mock.calls[0][0] as string);
+    }
+
+    it('should classify content items as created, updated, unchanged or skipped', async () => {
+      const base = `temp_${process.env.JEST_WORKER_ID}/diff/classify/`;
+
+      const remote: ItemTemplate[] = [
+        { id: 'remote1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type', body: { text: 'old' } },
+        { id: 'remote2', label: 'item2', repoId: 'repo', typeSchemaUri: 'http://type', folderPath: 'folder' }
+      ];
+
+      await createContent(
+        base + 'export',
+        [
+          { id: 'local1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type', body: { text: 'new' } },
+          { id: 'local2', label: 'item2', repoId: 'repo', typeSchemaUri: 'http://type', folderPath: 'folder' },
+          { id: 'local3', label: 'item3', repoId: 'repo', typeSchemaUri: 'http://type' },
+          { id: 'local4', label: 'item4', repoId: 'repo', typeSchemaUri: 'http://missing' }
+        ],
+        false
+      );
+
+      await writeMapping(base + 'mapping.json', [['local1', 'remote1'], ['local2', 'remote2']]);
+
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('repo');
+      mockContent.registerContentType('http://type', 'type', 'repo');
+      mockContent.importItemTemplates(remote);
+      mockContent.metrics.reset();
+
+      const result = await runDiff({
+        ...yargArgs,
+        ...config,
+        dir: base + 'export',
+        mapFile: base + 'mapping.json',
+        baseRepo: 'repo'
+      });
+
+      expect(result.create.map(item => item.id)).toEqual(['local3']);
+      expect(result.unchanged.map(item => item.targetId)).toEqual(['remote2']);
+      expect(result.skip.map(item => item.id)).toEqual(['local4']);
+
+      expect(result.update.length).toEqual(1);
+      expect(result.update[0].targetId).toEqual('remote1');
+      expect(result.update[0].changes).toEqual([{ path: '/body/text', type: 'changed', before: 'old', after: 'new' }]);
+
+      // Nothing on the hub should be modified.
+      expect(mockContent.metrics.itemsCreated).toEqual(0);
+      expect(mockContent.metrics.itemsUpdated).toEqual(0);
+      expect(mockContent.metrics.foldersCreated).toEqual(0);
+    });
+
+    it('should report folder moves and compare dependancies using the mapped ids', async () => {
+      const base = `temp_${process.env.JEST_WORKER_ID}/diff/mapped/`;
+
+      const remote: ItemTemplate[] = [
+        {
+          id: 'remote1',
+          label: 'item1',
+          repoId: 'repo',
+          typeSchemaUri: 'http://type',
+          body: dependsOn(['remote2'])
+        },
+        { id: 'remote2', label: 'item2', repoId: 'repo', typeSchemaUri: 'http://type', folderPath: 'folder' }
+      ];
+
+      await createContent(
+        base + 'export',
+        [
+          { id: 'local1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type', body: dependsOn(['local2']) },
+          { id: 'local2', label: 'item2', repoId: 'repo', typeSchemaUri: 'http://type', folderPath: 'other' }
+        ],
+        true
+      );
+
+      await writeMapping(base + 'mapping.json', [['local1', 'remote1'], ['local2', 'remote2']]);
+
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('repo');
+      mockContent.registerContentType('http://type', 'type', 'repo');
+      mockContent.importItemTemplates(remote);
+
+      const result = await runDiff({
+        ...yargArgs,
+        ...config,
+        dir: base + 'export',
+        mapFile: base + 'mapping.json'
+      });
+
+      expect(result.unchanged.map(item => item.targetId)).toEqual(['remote1']);
+      expect(result.update.map(item => item.targetId)).toEqual(['remote2']);
+      expect(result.update[0].changes).toEqual([
+        { path: '/folder', type: 'changed', before: 'folder', after: 'other' }
+      ]);
+    });
+
+    it('should skip mapped content items that no longer exist, and incomplete items with --skipIncomplete', async () => {
+      const base = `temp_${process.env.JEST_WORKER_ID}/diff/missing/`;
+
+      await createContent(
+        base + 'export',
+        [
+          { id: 'local1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type' },
+          { id: 'local2', label: 'item2', repoId: 'repo', typeSchemaUri: 'http://type', body: dependsOn(['gone']) }
+        ],
+        false
+      );
+
+      await writeMapping(base + 'mapping.json', [['local1', 'deleted1']]);
+
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('repo');
+      mockContent.registerContentType('http://type', 'type', 'repo');
+
+      const result = await runDiff({
+        ...yargArgs,
+        ...config,
+        dir: base + 'export',
+        mapFile: base + 'mapping.json',
+        baseRepo: 'repo',
+        skipIncomplete: true
+      });
+
+      expect(result.create).toEqual([]);
+      expect(result.skip.map(item => item.id).sort()).toEqual(['local1', 'local2']);
+    });
+
+    it('should not report the status of archived content items as a change', async () => {
+      const base = `temp_${process.env.JEST_WORKER_ID}/diff/status/`;
+
+      await createContent(
+        base + 'export',
+        [{ id: 'local1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type', body: { text: 'a' } }],
+        false
+      );
+
+      await writeMapping(base + 'mapping.json', [['local1', 'remote1']]);
+
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('repo');
+      mockContent.registerContentType('http://type', 'type', 'repo');
+      mockContent.importItemTemplates([
+        {
+          id: 'remote1',
+          label: 'item1',
+          repoId: 'repo',
+          typeSchemaUri: 'http://type',
+          status: 'ARCHIVED',
+          body: { text: 'a' }
+        }
+      ]);
+
+      const result = await runDiff({
+        ...yargArgs,
+        ...config,
+        dir: base + 'export',
+        mapFile: base + 'mapping.json',
+        baseRepo: 'repo'
+      });
+
+      expect(result.unchanged.map(item => item.targetId)).toEqual(['remote1']);
+    });
+
+    it('should print a table for each group when not rendering json', async () => {
+      const base = `temp_${process.env.JEST_WORKER_ID}/diff/table/`;
+
+      await createContent(
+        base + 'export',
+        [{ id: 'local1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type' }],
+        false
+      );
+
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('repo');
+      mockContent.registerContentType('http://type', 'type', 'repo');
+
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      await handler({
+        ...yargArgs,
+        ...config,
+        json: false,
+        dir: base + 'export',
+        mapFile: base + 'mapping.json',
+        baseRepo: 'repo'
+      });
+
+      expect(logSpy).toHaveBeenCalledWith('=== Content items that would be created (1) ===');
+      expect(logSpy).toHaveBeenCalledWith('=== Content items that would be updated (0) ===');
+      expect(stdoutSpy).toHaveBeenCalledTimes(1);
+      expect(stdoutSpy.mock.calls[0][0]).toContain('item1');
+    });
+  });
+});
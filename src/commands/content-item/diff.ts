@@ -0,0 +1,348 @@
+import { Arguments, Argv } from 'yargs';
+import { ConfigurationParameters } from '../configure';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { join } from 'path';
+import { lstat, readdir } from 'fs';
+import { promisify } from 'util';
+import { ContentItem, ContentRepository, DynamicContent, Folder, Hub } from 'dc-management-sdk-js';
+import paginator from '../../common/dc-management-sdk-js/paginator';
+import { ContentMapping } from '../../common/content-mapping';
+import { ContentDependancyTree, RepositoryContentItem } from '../../common/content-item/content-dependancy-tree';
+import { Body } from '../../common/content-item/body';
+import { FileLog } from '../../common/file-log';
+import { ImportPlan } from '../../common/import/import-plan';
+import { ProgressReporter } from '../../common/progress-reporter';
+import { describeJsonDiff, jsonDiff, JsonDiffEntry } from '../../common/json-diff/json-diff';
+import DataPresenter, { RenderingArguments, RenderingOptions } from '../../view/data-presenter';
+import { DiffItemBuilderOptions } from '../../interfaces/diff-item-builder-options.interface';
+import { getDefaultMappingPath, prepareContentForImport } from './import';
+
+export const command = 'diff <dir>';
+
+export const desc = 'Compare exported content items with the content on the hub, without importing them';
+
+export const builder = (yargs: Argv): void => {
+  yargs
+    .positional('dir', {
+      describe: 'Directory containing the exported content items to compare, in the same format as an import.',
+      type: 'string',
+      requiresArg: true
+    })
+    .option('baseRepo', {
+      type: 'string',
+      describe: 'Compare with the given repository, by ID, as if importing into it.'
+    })
+    .option('baseFolder', {
+      type: 'string',
+      describe: 'Compare with the given folder, by ID, as if importing into it.'
+    })
+    .option('mapFile', {
+      type: 'string',
+      describe:
+        'Mapping file to resolve content that already exists on the hub. Defaults to the mapping file that import would use.'
+    })
+    .option('skipIncomplete', {
+      type: 'boolean',
+      boolean: true,
+      describe: 'Treat content items that have one or more missing dependancy as skipped, as import would.'
+    })
+    .option('excludeKeys', {
+      type: 'boolean',
+      boolean: true,
+      describe: 'Ignore delivery keys, as import would with the same option.'
+    })
+    .options(RenderingOptions);
+};
+
+export type ContentItemDiffAction = 'CREATE' | 'UPDATE' | 'UNCHANGED' | 'SKIP';
+
+export interface ContentItemDiff {
+  action: ContentItemDiffAction;
+  id: string;
+  targetId?: string;
+  label: string;
+  folder: string;
+  reason?: string;
+  changes: JsonDiffEntry[];
+}
+
+interface DiffContext {
+  repo: ContentRepository;
+  basePath: string;
+  folderPaths: Map<string, string>;
+  baseFolder: Folder | null;
+}
+
+// The content is prepared by import, as if making a plan. Its detail lines and progress are kept out of the diff output.
+class DiffLog extends FileLog {
+  progress = new ProgressReporter(process.stderr);
+
+  public appendLine(text?: string): void {
+    super.appendLine(text, true);
+  }
+}
+
+export const diffTableOptions = {
+  columns: {
+    0: { width: 36 },
+    1: { width: 30 },
+    2: { width: 20 },
+    3: { width: 80 }
+  }
+};
+
+const actionTitles: { [action in ContentItemDiffAction]: string } = {
+  CREATE: 'Content items that would be created',
+  UPDATE: 'Content items that would be updated',
+  UNCHANGED: 'Content items that are unchanged',
+  SKIP: 'Content items that would be skipped'
+};
+
+// Paths are compared with forward slashes, so that they are the same on every platform.
+const toPosix = (path: string): string => path.split('\\').join('/');
+
+export const getFolderPaths = async (
+  repo: ContentRepository,
+  baseFolder: Folder | null
+): Promise<Map<string, string>> => {
+  const folderPaths = new Map<string, string>();
+  let level: { folder: Folder; path: string }[] = [];
+
+  if (baseFolder != null) {
+    folderPaths.set(baseFolder.id as string, '');
+    level = (await paginator(baseFolder.related.folders.list)).map(folder => ({
+      folder,
+      path: folder.name as string
+    }));
+  } else {
+    const folders = await paginator(repo.related.folders.list);
+    for (const folder of folders) {
+      try {
+        await folder.related.folders.parent();
+      } catch {
+        // When there is no parent, this will throw.
+        level.push({ folder, path: folder.name as string });
+      }
+    }
+  }
+
+  while (level.length > 0) {
+    const nextLevel: { folder: Folder; path: string }[] = [];
+    for (const { folder, path } of level) {
+      folderPaths.set(folder.id as string, path);
+      const subfolders = await paginator(folder.related.folders.list);
+      subfolders.forEach(subfolder => nextLevel.push({ folder: subfolder, path: `${path}/${subfolder.name}` }));
+    }
+    level = nextLevel;
+  }
+
+  return folderPaths;
+};
+
+const getFolder = (context: DiffContext, item: ContentItem, plan: ImportPlan): string => {
+  const folderId = item.folderId || null;
+  if (folderId === (context.baseFolder == null ? null : context.baseFolder.id)) {
+    return '';
+  }
+
+  const planned = plan.folders.find(folder => folder.id === folderId);
+  if (planned) {
+    return toPosix(planned.path);
+  }
+
+  const path = folderId == null ? undefined : context.folderPaths.get(folderId);
+  return path === undefined ? `<outside of the base (${folderId || 'repository root'})>` : path;
+};
+
+const comparable = (
+  item: ContentItem,
+  folder: string,
+  excludeKeys?: boolean
+): { label?: string; folder: string; deliveryKey?: string; body: Body } => {
+  const body = JSON.parse(JSON.stringify(item.body));
+  const deliveryKey = body._meta.deliveryKey || undefined;
+  delete body._meta.deliveryKey;
+
+  return {
+    label: item.label,
+    folder,
+    deliveryKey: excludeKeys ? undefined : deliveryKey,
+    body
+  };
+};
+
+const rewriteDependancies = (tree: ContentDependancyTree, mapping: ContentMapping): void => {
+  tree.all.forEach(item => {
+    item.dependancies.forEach(dep => {
+      const id = mapping.getContentItem(dep.dependancy.id);
+      if (id == null) {
+        return;
+      }
+
+      if (dep.dependancy._meta.schema === '_hierarchy') {
+        item.owner.content.body._meta.hierarchy.parentId = id;
+      } else {
+        dep.dependancy.id = id;
+      }
+    });
+  });
+};
+
+export const diffContent = async (
+  client: DynamicContent,
+  hub: Hub,
+  contexts: DiffContext[],
+  mapping: ContentMapping,
+  argv: Arguments<DiffItemBuilderOptions & ConfigurationParameters>
+): Promise<ContentItemDiff[] | null> => {
+  const plan = new ImportPlan(hub.id, '');
+  const loaded: RepositoryContentItem[] = [];
+  const baseFolder = contexts.length === 1 ? contexts[0].baseFolder : null;
+
+  const tree = await prepareContentForImport(
+    client,
+    hub,
+    contexts,
+    baseFolder,
+    mapping,
+    new DiffLog(),
+    { ...argv, force: true, logFile: new DiffLog(), revertLog: Promise.resolve(undefined) },
+    plan,
+    loaded
+  );
+
+  if (tree == null) {
+    return null;
+  }
+
+  rewriteDependancies(tree, mapping);
+
+  const prepared = new Set(tree.all.map(item => item.owner.content));
+  const result: ContentItemDiff[] = [];
+
+  for (const { repo, content } of loaded) {
+    const context = contexts.find(context => context.repo === repo) as DiffContext;
+    const folder = getFolder(context, content, plan);
+    const id = content.id as string;
+    const label = content.label as string;
+    const targetId = mapping.getContentItem(id);
+
+    if (!prepared.has(content)) {
+      const reason = 'Import would skip it, as its content type schema or a dependancy is missing.';
+      result.push({ action: 'SKIP', id, targetId, label, folder, reason, changes: [] });
+      continue;
+    }
+
+    if (targetId == null) {
+      result.push({ action: 'CREATE', id, label, folder, changes: [] });
+      continue;
+    }
+
+    let remote: ContentItem;
+    try {
+      remote = await client.contentItems.get(targetId);
+    } catch {
+      const reason = `The mapped content item ${targetId} could not be found on the hub.`;
+      result.push({ action: 'SKIP', id, targetId, label, folder, reason, changes: [] });
+      continue;
+    }
+
+    const changes = jsonDiff(
+      comparable(remote, getFolder(context, remote, plan), argv.excludeKeys),
+      comparable(content, folder, argv.excludeKeys)
+    );
+
+    result.push({ action: changes.length > 0 ? 'UPDATE' : 'UNCHANGED', id, targetId, label, folder, changes });
+  }
+
+  return result;
+};
+
+const getContexts = async (
+  client: DynamicContent,
+  hub: Hub,
+  argv: Arguments<DiffItemBuilderOptions & ConfigurationParameters>
+): Promise<DiffContext[]> => {
+  const { dir, baseRepo, baseFolder } = argv;
+
+  if (baseFolder != null) {
+    const folder = await client.folders.get(baseFolder);
+    const repo = await folder.related.contentRepository();
+    return [{ repo, basePath: dir, folderPaths: await getFolderPaths(repo, folder), baseFolder: folder }];
+  } else if (baseRepo != null) {
+    const repo = await client.contentRepositories.get(baseRepo);
+    return [{ repo, basePath: dir, folderPaths: await getFolderPaths(repo, null), baseFolder: null }];
+  }
+
+  // Match repositories by label, as import does.
+  const repos = await paginator(hub.related.contentRepositories.list);
+  const contexts: DiffContext[] = [];
+
+  for (const name of await promisify(readdir)(dir)) {
+    const path = join(dir, name);
+    if (!(await promisify(lstat)(path)).isDirectory()) {
+      continue;
+    }
+
+    const repo = repos.find(repo => repo.label === name);
+    if (repo) {
+      contexts.push({ repo, basePath: path, folderPaths: await getFolderPaths(repo, null), baseFolder: null });
+    } else {
+      console.log(`Skipping '${name}', as there is no repository with that label on the hub.`);
+    }
+  }
+
+  return contexts;
+};
+
+export const itemMapFn = ({ id, targetId, label, folder, reason, changes }: ContentItemDiff): object => ({
+  id: targetId || id,
+  label,
+  folder,
+  changes: reason || changes.map(describeJsonDiff).join('\n')
+});
+
+export const handler = async (
+  argv: Arguments<DiffItemBuilderOptions & ConfigurationParameters & RenderingArguments>
+): Promise<void> => {
+  const { baseRepo, baseFolder } = argv;
+  const client = dynamicContentClientFactory(argv);
+  const hub = await client.hubs.get(argv.hubId);
+
+  let mapFile = argv.mapFile;
+  if (mapFile == null) {
+    const importTitle =
+      baseFolder != null ? `folder-${baseFolder}` : baseRepo != null ? `repo-${baseRepo}` : `hub-${hub.id}`;
+    mapFile = getDefaultMappingPath(importTitle);
+  }
+
+  const mapping = new ContentMapping();
+  if (!(await mapping.load(mapFile))) {
+    console.log(`No mapping file found at '${mapFile}', so all content items are treated as new.`);
+  }
+
+  const contexts = await getContexts(client, hub, argv);
+  const diff = await diffContent(client, hub, contexts, mapping, argv);
+  if (diff == null) {
+    console.error('Import would stop before importing any content, so nothing was compared.');
+    process.exitCode = 1;
+    return;
+  }
+
+  const actions: ContentItemDiffAction[] = ['CREATE', 'UPDATE', 'UNCHANGED', 'SKIP'];
+
+  if (argv.json) {
+    const grouped: { [action: string]: ContentItemDiff[] } = {};
+    actions.forEach(action => (grouped[action.toLowerCase()] = diff.filter(item => item.action === action)));
+    new DataPresenter(grouped).render({ json: true });
+    return;
+  }
+
+  actions.forEach(action => {
+    const items = diff.filter(item => item.action === action);
+    console.log(`=== ${actionTitles[action]} (${items.length}) ===`);
+    if (items.length > 0) {
+      new DataPresenter(items).render({ itemMapFn, tableUserConfig: diffTableOptions });
+    }
+  });
+};
@@ -0,0 +1,232 @@
+import { builder, command, getEditOperations, handler, LOG_FILENAME, parseSetOperation } from './edit';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { MockContent } from '../../common/dc-management-sdk-js/mock-content';
+import { FileLog } from '../../common/file-log';
+import { getDefaultLogPath } from '../../common/log-helpers';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
+import Yargs from 'yargs/yargs';
+import readline from 'readline';
+import rmdir from 'rimraf';
+
+jest.mock('readline');
+jest.mock('../../services/dynamic-content-client-factory');
+jest.mock('../../common/log-helpers', () => ({
+  ...jest.requireActual('../../common/log-helpers'),
+  getDefaultLogPath: jest.fn()
+}));
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+describe('content-item edit command', () => {
+  const yargArgs = {
+    $0: 'test',
+    _: ['test']
+  };
+  const config = {
+    clientId: 'client-id',
+    clientSecret: 'client-id',
+    hubId: 'hub-id'
+  };
+
+  const createContent = (): MockContent => {
+    const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+    mockContent.createMockRepository('repo');
+    mockContent.registerContentType('http://banner', 'banner', 'repo', {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        links: { type: 'array', items: { type: 'object', properties: { url: { type: 'string' } } } }
+      }
+    });
+    mockContent.registerContentType('http://card', 'card', 'repo', {
+      type: 'object',
+      properties: { title: { type: 'string' } }
+    });
+    mockContent.importItemTemplates([
+      {
+        id: 'id1',
+        label: 'item1',
+        repoId: 'repo',
+        typeSchemaUri: 'http://banner',
+        version: 1,
+        body: { title: 'a', links: [{ url: 'http://example.com/a' }] }
+      },
+      {
+        id: 'id2',
+        label: 'item2',
+        repoId: 'repo',
+        typeSchemaUri: 'http://banner',
+        version: 2,
+        body: { title: 'b', links: [{ url: 'http://example.com/b' }, { url: 'http://example.com/c' }] }
+      },
+      { id: 'id3', label: 'item3', repoId: 'repo', typeSchemaUri: 'http://card', version: 1, body: { title: 'c' } }
+    ]);
+    return mockContent;
+  };
+
+  beforeEach(() => {
+    process.exitCode = 0;
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    process.exitCode = 0;
+    jest.restoreAllMocks();
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('edit [id]');
+  });
+
+  it('should use getDefaultLogPath for LOG_FILENAME with process.platform as default', function() {
+    LOG_FILENAME();
+
+    expect(getDefaultLogPath).toHaveBeenCalledWith('content-item', 'edit', process.platform);
+  });
+
+  describe('builder tests', function() {
+    it('should configure yargs', function() {
+      const argv = Yargs(process.argv.slice(2));
+      const spyPositional = jest.spyOn(argv, 'positional').mockReturnThis();
+      const spyOption = jest.spyOn(argv, 'option').mockReturnThis();
+      jest.spyOn(argv, 'alias').mockReturnThis();
+
+      builder(argv);
+
+      expect(spyPositional).toHaveBeenCalledWith('id', {
+        type: 'string',
+        describe:
+          'The ID of a content item to be edited. If id is not provided, this command will edit ALL content items through all content repositories in the hub.'
+      });
+      expect(spyOption).toHaveBeenCalledWith('revertLog', {
+        type: 'string',
+        describe:
+          'Path to a log file from a previous run of the edit command, or of an import.\nWhen provided, edits the content items listed as UPDATE in the log file.',
+        requiresArg: false
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('unset', {
+        type: 'string',
+        describe:
+          'Remove the values selected by a JSONPath, such as $.links[0].\nMultiple --unset options may be given.'
+      });
+      expect(spyOption).toHaveBeenCalledWith('replace', {
+        type: 'string',
+        nargs: 3,
+        describe:
+          'Replace matches of a regex in the string values selected by a JSONPath, written as <jsonpath> <regex> <replacement>. All matches are replaced, unless the regex is given as /pattern/flags.\nMultiple --replace options may be given.'
+      });
+    });
+  });
+
+  describe('getEditOperations tests', function() {
+    it('should split --set at the first = outside brackets, and parse the value as JSON where possible', function() {
+      expect(parseSetOperation("$['a=b']=1")).toEqual({ type: 'set', path: "$['a=b']", value: 1 });
+      expect(parseSetOperation('$.title={"x":true}')).toEqual({ type: 'set', path: '$.title', value: { x: true } });
+      expect(parseSetOperation('$.title=a=b')).toEqual({ type: 'set', path: '$.title', value: 'a=b' });
+      expect(() => parseSetOperation('$.title')).toThrowError('Expected <jsonpath>=<value> in --set $.title.');
+    });
+
+    it('should group --replace arguments in threes', function() {
+      const logFile = new FileLog();
+
+      expect(getEditOperations({ replace: ['$.a', '/x/i', 'y'], logFile })).toEqual([
+        { type: 'replace', path: '$.a', pattern: /x/i, replacement: 'y' }
+      ]);
+      expect(() => getEditOperations({ replace: ['$.a', 'x'], logFile })).toThrowError(
+        'Each --replace needs a JSONPath, a regex and a replacement.'
+      );
+      expect(() => getEditOperations({ logFile })).toThrowError(
+        'No edits were given. Use --set, --unset or --replace.'
+      );
+    });
+  });
+
+  describe('handler tests', function() {
+    it('should edit the matching content items, and log the versions for an import revert', async () => {
+      const mockContent = createContent();
+      const logFile = new FileLog();
+
+      await handler({
+        ...yargArgs,
+        ...config,
+        contentType: 'http://banner',
+        set: '$.title="Sale"',
+        replace: ['$.links[*].url', 'http:', 'https:'],
+        unset: '$.links[1]',
+        force: true,
+        logFile
+      });
+
+      expect(mockContent.items.map(item => item.body.title)).toEqual(['Sale', 'Sale', 'c']);
+      expect(mockContent.items.map(item => item.body.links)).toEqual([
+        [{ url: 'https://example.com/a' }],
+        [{ url: 'https://example.com/b' }],
+        undefined
+      ]);
+      expect(logFile.getData('UPDATE')).toEqual(['id1 1 2', 'id2 2 3']);
+      expect(console.log).toHaveBeenCalledWith('   ~ /title: "a" -> "Sale"');
+      expect(console.log).toHaveBeenLastCalledWith('Edited 2 content items.');
+    });
+
+    it('should edit the content items listed as UPDATE in the --revertLog', async () => {
+      const mockContent = createContent();
+      const revertLog = `temp_${process.env.JEST_WORKER_ID}/edit/revert.log`;
+      const logFile = new FileLog();
+      logFile.addAction('UPDATE', ['id2', '2', '3']);
+      await ensureDirectoryExists(`temp_${process.env.JEST_WORKER_ID}/edit`);
+      await logFile.writeToFile(revertLog);
+
+      await handler({ ...yargArgs, ...config, revertLog, set: '$.title="x"', force: true, logFile: new FileLog() });
+
+      expect(mockContent.items.map(item => item.body.title)).toEqual(['a', 'x', 'c']);
+
+      await rimraf(`temp_${process.env.JEST_WORKER_ID}/edit`);
+    });
+
+    it('should only show the changes in a dry run', async () => {
+      const mockContent = createContent();
+
+      await handler({ ...yargArgs, ...config, set: '$.title=x', dryRun: true, logFile: new FileLog() });
+
+      expect(mockContent.items.map(item => item.body.title)).toEqual(['a', 'b', 'c']);
+      expect(console.log).toHaveBeenLastCalledWith('Total: 3');
+    });
+
+    it('should ask before editing, and change nothing when the answer is no', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (readline as any).setResponses(['n']);
+      const mockContent = createContent();
+
+      await handler({ ...yargArgs, ...config, name: 'item1', set: '$.title=x', logFile: new FileLog() });
+
+      expect(mockContent.items.map(item => item.body.title)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should update nothing when an edit would leave a content item invalid', async () => {
+      const mockContent = createContent();
+
+      await handler({ ...yargArgs, ...config, set: '$.title=1', force: true, logFile: new FileLog() });
+
+      expect(mockContent.items.map(item => item.body.title)).toEqual(['a', 'b', 'c']);
+      expect(console.error).toHaveBeenCalledWith(' item1 (id1) /title: should be string');
+      expect(process.exitCode).toEqual(1);
+    });
+
+    it('should fail before loading content when a JSONPath is invalid', async () => {
+      await handler({ ...yargArgs, ...config, unset: '$.links[?(@.url)]', logFile: new FileLog() });
+
+      expect(console.error).toHaveBeenCalledWith(
+        'Could not read the edits: Unsupported JSONPath selector [?(@.url)] in $.links[?(@.url)].'
+      );
+      expect(process.exitCode).toEqual(1);
+      expect(dynamicContentClientFactory).not.toHaveBeenCalled();
+    });
+  });
+});
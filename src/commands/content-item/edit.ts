@@ -0,0 +1,206 @@
+import { Arguments, Argv } from 'yargs';
+import { chunk, flattenDeep } from 'lodash';
+import { ConfigurationParameters } from '../configure';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { ConcurrencyArgument } from '../../common/concurrency';
+import { parseJsonPath, replaceJsonPath, setJsonPath, unsetJsonPath } from '../../common/json-path/json-path';
+import { FileLog } from '../../common/file-log';
+import { createLog, getDefaultLogPath } from '../../common/log-helpers';
+import { EditItemBuilderOptions } from '../../interfaces/edit-item-builder-options.interface';
+import { contentItemFilterOptions, getFilteredContentItems } from '../../common/archive/archive-helpers';
+import { migrateContent } from './migrate';
+
+export const command = 'edit [id]';
+
+export const desc = 'Set, remove or replace values in the body of Content Items with JSONPath, and validate the result';
+
+export const LOG_FILENAME = (platform: string = process.platform): string =>
+  getDefaultLogPath('content-item', 'edit', platform);
+
+export const coerceLog = (logFile: string): FileLog => createLog(logFile, 'Content Items Edit Log');
+
+export const builder = (yargs: Argv): void => {
+  contentItemFilterOptions(yargs, 'edit')
+    .option('revertLog', {
+      type: 'string',
+      describe:
+        'Path to a log file from a previous run of the edit command, or of an import.\nWhen provided, edits the content items listed as UPDATE in the log file.',
+      requiresArg: false
+    })
+    .option('set', {
+      type: 'string',
+      describe:
+        'Set the values selected by a JSONPath, written as <jsonpath>=<value>, such as $.title="Sale". The value is parsed as JSON, or used as a string if it is not valid JSON.\nMultiple --set options may be given.'
+    })
+    .option('unset', {
+      type: 'string',
+      describe: 'Remove the values selected by a JSONPath, such as $.links[0].\nMultiple --unset options may be given.'
+    })
+    .option('replace', {
+      type: 'string',
+      nargs: 3,
+      describe:
+        'Replace matches of a regex in the string values selected by a JSONPath, written as <jsonpath> <regex> <replacement>. All matches are replaced, unless the regex is given as /pattern/flags.\nMultiple --replace options may be given.'
+    })
+    .option('dryRun', {
+      type: 'boolean',
+      boolean: true,
+      describe: 'Show the changes that would be made, without updating any content items.'
+    })
+    .option('logFile', {
+      type: 'string',
+      default: LOG_FILENAME,
+      describe: 'Path to a log file to write to.',
+      coerce: coerceLog
+    });
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ContentBody = any;
+
+export type EditOperation =
+  | { type: 'set'; path: string; value: ContentBody }
+  | { type: 'unset'; path: string }
+  | { type: 'replace'; path: string; pattern: RegExp; replacement: string };
+
+const toArray = (value?: string | string[]): string[] => (value == null ? [] : Array.isArray(value) ? value : [value]);
+
+/**
+ * Splits a --set argument into its JSONPath and value, at the first = that is not inside brackets or quotes.
+ */
+export const parseSetOperation = (text: string): EditOperation => {
+  let depth = 0;
+  let quote: string | undefined;
+  let split = -1;
+
+  for (let i = 0; i < text.length && split === -1; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+    } else if (char === '=' && depth === 0) {
+      split = i;
+    }
+  }
+
+  if (split <= 0) {
+    throw new Error(`Expected <jsonpath>=<value> in --set ${text}.`);
+  }
+
+  const path = text.substring(0, split).trim();
+  const valueText = text.substring(split + 1);
+  let value: ContentBody;
+  try {
+    value = JSON.parse(valueText);
+  } catch {
+    value = valueText;
+  }
+
+  return { type: 'set', path, value };
+};
+
+/**
+ * Parses the regex of a --replace argument. A regex written as /pattern/flags uses those flags,
+ * otherwise the text is used as the pattern and all matches are replaced.
+ */
+export const parseReplacePattern = (text: string): RegExp => {
+  const literal = /^\/([\s\S]*)\/([gimsuy]*)$/.exec(text);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(text, 'g');
+};
+
+/**
+ * Reads the edit operations from the command arguments, checking that each JSONPath can be parsed.
+ * Sets are applied first, then replacements, then removals.
+ */
+export const getEditOperations = (argv: EditItemBuilderOptions): EditOperation[] => {
+  const replaceArgs = flattenDeep<string>(toArray(argv.replace)).map(String);
+  if (replaceArgs.length % 3 !== 0) {
+    throw new Error('Each --replace needs a JSONPath, a regex and a replacement.');
+  }
+
+  const operations: EditOperation[] = [
+    ...toArray(argv.set).map(parseSetOperation),
+    ...chunk(replaceArgs, 3).map(
+      ([path, pattern, replacement]): EditOperation => ({
+        type: 'replace',
+        path,
+        pattern: parseReplacePattern(pattern),
+        replacement
+      })
+    ),
+    ...toArray(argv.unset).map((path): EditOperation => ({ type: 'unset', path }))
+  ];
+
+  if (operations.length === 0) {
+    throw new Error('No edits were given. Use --set, --unset or --replace.');
+  }
+
+  operations.forEach(operation => parseJsonPath(operation.path));
+
+  return operations;
+};
+
+export const applyEdits = (body: ContentBody, operations: EditOperation[]): void => {
+  operations.forEach(operation => {
+    switch (operation.type) {
+      case 'set':
+        setJsonPath(body, operation.path, operation.value);
+        break;
+      case 'unset':
+        unsetJsonPath(body, operation.path);
+        break;
+      case 'replace':
+        // A global regex keeps its lastIndex between calls, so each value is given a fresh copy.
+        replaceJsonPath(body, operation.path, new RegExp(operation.pattern), operation.replacement);
+        break;
+    }
+  });
+};
+
+export const handler = async (
+  argv: Arguments<EditItemBuilderOptions & ConfigurationParameters & ConcurrencyArgument>
+): Promise<void> => {
+  const { logFile, dryRun, force, silent, hubId, concurrency } = argv;
+
+  let operations: EditOperation[];
+  try {
+    operations = getEditOperations(argv);
+  } catch (e) {
+    console.error(`Could not read the edits: ${e.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const client = dynamicContentClientFactory(argv);
+
+  const filtered = await getFilteredContentItems(client, argv, 'edit', 'UPDATE');
+  if (!filtered) {
+    return;
+  }
+
+  const { contentItems, missingContent, allContent } = filtered;
+
+  await migrateContent(client, hubId, contentItems, body => applyEdits(body, operations), {
+    action: 'edit',
+    actioned: 'edited',
+    logFile,
+    dryRun,
+    force,
+    silent,
+    concurrency,
+    allContent,
+    missingContent
+  });
+};
+
+// log format:
+// UPDATE <content item id> <version before edit> <version after edit>
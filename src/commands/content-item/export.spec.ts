@@ -4,12 +4,14 @@ import dynamicContentClientFactory from '../../services/dynamic-content-client-f
 import Yargs from 'yargs/yargs';
 import { ItemTemplate, getItemInfo, getItemName, MockContent } from '../../common/dc-management-sdk-js/mock-content';
 import { createLog, getDefaultLogPath } from '../../common/log-helpers';
-import { exists } from 'fs';
+import { exists, readFile, unlink, writeFile } from 'fs';
+import { join } from 'path';
 import { promisify } from 'util';
 import readline from 'readline';
 
 import rmdir from 'rimraf';
 import { FileLog } from '../../common/file-log';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
 
 jest.mock('readline');
 jest.mock('../../services/dynamic-content-client-factory');
@@ -80,6 +82,25 @@ describe('content-item export command', () => {
         describe: 'When available, export the last published version of a content item rather than its newest version.'
       });
 
+      expect(spyOption).toHaveBeenCalledWith('since', {
+        type: 'string',
+        describe: 'Only export content items that were last modified on or after the given ISO 8601 date.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('incremental', {
+        type: 'boolean',
+        boolean: true,
+        describe:
+          'Only write files for content items that changed since the last incremental export to the same directory, which is tracked in .dc-cli-export-state. Files for content items that are no longer exported, such as archived items, are removed.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('stable', {
+        type: 'boolean',
+        boolean: true,
+        describe:
+          'Write content items in a stable format: files are named by delivery key or ID, object keys are sorted and metadata that changes on every save is left out. Exporting an unchanged hub twice gives identical files.'
+      });
+
       expect(spyOption).toHaveBeenCalledWith('logFile', {
         type: 'string',
         default: LOG_FILENAME,
@@ -831,5 +852,224 @@ describe('content-item export command', () => {
 
       await rimraf(`temp_${process.env.JEST_WORKER_ID}/export/exportedIds/`);
     });
+
+    it('should only export content modified on or after the date passed with --since', async () => {
+      const exists: ItemTemplate[] = [
+        { label: 'item1', repoId: 'repo1', typeSchemaUri: 'http://type', lastModifiedDate: '2020-06-01T00:00:00.000Z' },
+        { label: 'item2', repoId: 'repo1', typeSchemaUri: 'http://type', lastModifiedDate: '2020-05-01T00:00:00.000Z' }
+      ];
+
+      const skips: ItemTemplate[] = [
+        { label: 'item3', repoId: 'repo1', typeSchemaUri: 'http://type', lastModifiedDate: '2020-04-30T23:59:59.000Z' }
+      ];
+
+      new MockContent(dynamicContentClientFactory as jest.Mock).importItemTemplates(exists.concat(skips));
+
+      const argv = {
+        ...yargArgs,
+        ...config,
+        dir: `temp_${process.env.JEST_WORKER_ID}/export/since/`,
+        since: '2020-05-01'
+      };
+      await handler(argv);
+
+      await itemsExist(`temp_${process.env.JEST_WORKER_ID}/export/since/`, exists);
+      await itemsDontExist(`temp_${process.env.JEST_WORKER_ID}/export/since/`, skips);
+
+      await rimraf(`temp_${process.env.JEST_WORKER_ID}/export/since/`);
+    });
+
+    it('should not export anything if the date passed with --since is invalid', async () => {
+      const templates: ItemTemplate[] = [{ label: 'item1', repoId: 'repo1', typeSchemaUri: 'http://type' }];
+
+      new MockContent(dynamicContentClientFactory as jest.Mock).importItemTemplates(templates);
+
+      const argv = {
+        ...yargArgs,
+        ...config,
+        dir: `temp_${process.env.JEST_WORKER_ID}/export/sinceInvalid/`,
+        since: 'not a date'
+      };
+      await handler(argv);
+
+      await itemsDontExist(`temp_${process.env.JEST_WORKER_ID}/export/sinceInvalid/`, templates);
+    });
+
+    it('should only rewrite changed content items and remove archived ones when exporting with --incremental', async () => {
+      const dir = `temp_${process.env.JEST_WORKER_ID}/export/incremental/`;
+      const date = '2020-01-01T00:00:00.000Z';
+      const templates: ItemTemplate[] = [
+        { id: 'id1', label: 'item1', repoId: 'repo1', typeSchemaUri: 'http://type', lastModifiedDate: date },
+        { id: 'id2', label: 'item2', repoId: 'repo1', typeSchemaUri: 'http://type', lastModifiedDate: date },
+        { id: 'id3', label: 'item3', repoId: 'repo1', typeSchemaUri: 'http://type', lastModifiedDate: date }
+      ];
+
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.importItemTemplates(templates);
+
+      const argv = {
+        ...yargArgs,
+        ...config,
+        dir,
+        incremental: true
+      };
+      await handler(argv);
+
+      await itemsExist(dir, templates);
+      expect(await promisify(exists)(join(dir, '.dc-cli-export-state'))).toBeTruthy();
+
+      // Mark the exported files, so we can tell which are rewritten.
+      for (const template of templates) {
+        await promisify(writeFile)(join(dir, `${template.label}.json`), 'unchanged');
+      }
+
+      const client = (dynamicContentClientFactory as jest.Mock)();
+      const changed = await client.contentItems.get('id2');
+      changed.version = 2;
+      changed.lastModifiedDate = '2020-02-01T00:00:00.000Z';
+      const archived = await client.contentItems.get('id3');
+      archived.status = 'ARCHIVED';
+
+      const added: ItemTemplate = { id: 'id4', label: 'item1', repoId: 'repo1', typeSchemaUri: 'http://type' };
+      mockContent.importItemTemplates([added]);
+
+      await handler(argv);
+
+      const read = (file: string): Promise<string> => promisify(readFile)(join(dir, file), { encoding: 'utf8' });
+
+      expect(await read('item1.json')).toEqual('unchanged');
+      expect(JSON.parse(await read('item2.json')).version).toEqual(2);
+      expect(await promisify(exists)(join(dir, 'item3.json'))).toBeFalsy();
+
+      // The new item with the same label as an existing one gets a new unique filename.
+      expect(JSON.parse(await read('item1-1.json')).id).toEqual('id4');
+
+      await rimraf(dir);
+    });
+
+    it('should rewrite the file of an unchanged content item with --incremental when it has been deleted', async () => {
+      const dir = `temp_${process.env.JEST_WORKER_ID}/export/incrementalDeleted/`;
+      const templates: ItemTemplate[] = [
+        { id: 'id1', label: 'item1', repoId: 'repo1', typeSchemaUri: 'http://type' },
+        { id: 'id2', label: 'item2', repoId: 'repo1', typeSchemaUri: 'http://type' }
+      ];
+
+      new MockContent(dynamicContentClientFactory as jest.Mock).importItemTemplates(templates);
+
+      const argv = {
+        ...yargArgs,
+        ...config,
+        dir,
+        incremental: true
+      };
+      await handler(argv);
+
+      await promisify(unlink)(join(dir, 'item1.json'));
+
+      await handler(argv);
+
+      await itemsExist(dir, templates);
+
+      await rimraf(dir);
+    });
+
+    it('should not export unmodified content linked from modified content as a dependancy with --since and --incremental', async () => {
+      const dir = `temp_${process.env.JEST_WORKER_ID}/export/sinceIncremental/`;
+      const date = '2020-01-01T00:00:00.000Z';
+      const templates: ItemTemplate[] = [
+        { id: 'id1', label: 'item1', repoId: 'repo1', typeSchemaUri: 'http://type', lastModifiedDate: date },
+        {
+          id: 'id2',
+          label: 'item2',
+          repoId: 'repo1',
+          typeSchemaUri: 'http://typeD',
+          lastModifiedDate: date,
+          body: dependsOn(['id1'])
+        }
+      ];
+
+      new MockContent(dynamicContentClientFactory as jest.Mock).importItemTemplates(templates);
+
+      const argv = {
+        ...yargArgs,
+        ...config,
+        dir,
+        incremental: true
+      };
+      await handler(argv);
+      await promisify(writeFile)(join(dir, 'item1.json'), 'unchanged');
+
+      const client = (dynamicContentClientFactory as jest.Mock)();
+      const changed = await client.contentItems.get('id2');
+      changed.version = 2;
+      changed.lastModifiedDate = '2020-02-01T00:00:00.000Z';
+
+      await handler({ ...argv, since: '2020-01-15' });
+
+      expect(await promisify(readFile)(join(dir, 'item1.json'), { encoding: 'utf8' })).toEqual('unchanged');
+      expect(await promisify(exists)(join(dir, '_dependancies'))).toBeFalsy();
+
+      await rimraf(dir);
+    });
+
+    it('should fail with a clear error when the state of the last incremental export is corrupt', async () => {
+      const dir = `temp_${process.env.JEST_WORKER_ID}/export/incrementalCorrupt/`;
+      new MockContent(dynamicContentClientFactory as jest.Mock).importItemTemplates([
+        { label: 'item1', repoId: 'repo1', typeSchemaUri: 'http://type' }
+      ]);
+
+      await ensureDirectoryExists(dir);
+      await promisify(writeFile)(join(dir, '.dc-cli-export-state'), '{ not json');
+
+      await expect(handler({ ...yargArgs, ...config, dir, incremental: true })).rejects.toThrowError(
+        `The export state in ${join(dir, '.dc-cli-export-state')} could not be read`
+      );
+
+      await rimraf(dir);
+    });
+
+    it('should write identical files for an unchanged hub when exporting with --stable', async () => {
+      const dir1 = `temp_${process.env.JEST_WORKER_ID}/export/stable1/`;
+      const dir2 = `temp_${process.env.JEST_WORKER_ID}/export/stable2/`;
+      const templates: ItemTemplate[] = [
+        {
+          id: 'id1',
+          label: 'item1',
+          repoId: 'repo1',
+          typeSchemaUri: 'http://type',
+          body: { _meta: { deliveryKey: 'home/page' }, title: 'Home' }
+        },
+        { id: 'id2', label: 'item2', repoId: 'repo1', typeSchemaUri: 'http://type', version: 3 }
+      ];
+
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.importItemTemplates(templates);
+
+      await handler({ ...yargArgs, ...config, dir: dir1, stable: true });
+
+      // Saving an item changes its metadata, but not its content.
+      const client = (dynamicContentClientFactory as jest.Mock)();
+      const saved = await client.contentItems.get('id2');
+      saved.version = 4;
+      saved.lastModifiedDate = '2020-02-01T00:00:00.000Z';
+
+      await handler({ ...yargArgs, ...config, dir: dir2, stable: true });
+
+      const read = (dir: string, file: string): Promise<string> =>
+        promisify(readFile)(join(dir, file), { encoding: 'utf8' });
+
+      // Items are named by delivery key, or by id when they don't have one.
+      for (const file of ['home_page.json', 'id2.json']) {
+        expect(await read(dir1, file)).toEqual(await read(dir2, file));
+      }
+
+      const item = JSON.parse(await read(dir2, 'id2.json'));
+      expect(item.version).toBeUndefined();
+      expect(item.lastModifiedDate).toBeUndefined();
+      expect(Object.keys(item)).toEqual(Object.keys(item).sort());
+
+      await rimraf(dir1);
+      await rimraf(dir2);
+    });
   });
 });
@@ -2,10 +2,18 @@ import { Arguments, Argv } from 'yargs';
 import { ConfigurationParameters } from '../configure';
 import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
 import { FileLog } from '../../common/file-log';
-import { join } from 'path';
+import { basename, dirname, join, relative, resolve } from 'path';
+import { exists, unlink } from 'fs';
+import { promisify } from 'util';
 import { equalsOrRegex } from '../../common/filter/filter';
 import sanitize from 'sanitize-filename';
-import { uniqueFilenamePath, writeJsonToFile } from '../../services/export.service';
+import {
+  stableFilenamePath,
+  uniqueFilenamePath,
+  VOLATILE_FIELDS,
+  writeJsonToFile,
+  writeStableJsonToFile
+} from '../../services/export.service';
 
 import { ExportItemBuilderOptions } from '../../interfaces/export-item-builder-options.interface';
 import paginator from '../../common/dc-management-sdk-js/paginator';
@@ -16,12 +24,16 @@ import { ContentDependancyTree, RepositoryContentItem } from '../../common/conte
 import { ContentMapping } from '../../common/content-mapping';
 import { createLog, getDefaultLogPath } from '../../common/log-helpers';
 import { AmplienceSchemaValidator, defaultSchemaLookup } from '../../common/content-item/amplience-schema-validator';
+import { ExportState, EXPORT_STATE_FILENAME } from '../../common/content-item/export-state';
 
 interface PublishedContentItem {
   lastPublishedVersion?: number;
   lastPublishedDate?: string;
 }
 
+// The last published version is kept, as import uses it to decide what to publish.
+const VOLATILE_ITEM_FIELDS = [...VOLATILE_FIELDS, 'lastUnpublishedVersion'];
+
 export const command = 'export <dir>';
 
 export const desc = 'Export Content Items';
@@ -61,6 +73,21 @@ export const builder = (yargs: Argv): void => {
       boolean: true,
       describe: 'When available, export the last published version of a content item rather than its newest version.'
     })
+    .option('since', {
+      type: 'string',
+      describe: 'Only export content items that were last modified on or after the given ISO 8601 date.'
+    })
+    .option('incremental', {
+      type: 'boolean',
+      boolean: true,
+      describe: `Only write files for content items that changed since the last incremental export to the same directory, which is tracked in ${EXPORT_STATE_FILENAME}. Files for content items that are no longer exported, such as archived items, are removed.`
+    })
+    .option('stable', {
+      type: 'boolean',
+      boolean: true,
+      describe:
+        'Write content items in a stable format: files are named by delivery key or ID, object keys are sorted and metadata that changes on every save is left out. Exporting an unchanged hub twice gives identical files.'
+    })
     .option('logFile', {
       type: 'string',
       default: LOG_FILENAME,
@@ -215,14 +242,55 @@ const getContentItems = async (
   return items;
 };
 
+const removeExportedFile = async (filename: string, log: FileLog): Promise<void> => {
+  try {
+    if (await promisify(exists)(filename)) {
+      await promisify(unlink)(filename);
+    }
+  } catch (e) {
+    log.warn(`Could not remove ${filename}.`, e);
+  }
+};
+
+// Incremental exports keep the filename from the last export, unless the item's folder or label have changed.
+const isFilenameFor = (filename: string, directory: string, file: string): boolean => {
+  if (resolve(dirname(filename)) !== resolve(directory)) {
+    return false;
+  }
+
+  const name = basename(filename, '.json');
+  return name === file || (name.startsWith(file + '-') && /^\d+$/.test(name.substring(file.length + 1)));
+};
+
+// Stable exports name content items by delivery key when they have one, and by ID otherwise.
+const stableItemFilename = (directory: string, item: ContentItem, exportFilenames: string[]): string => {
+  const deliveryKey = item.body._meta.deliveryKey;
+  if (deliveryKey) {
+    const filename = stableFilenamePath(directory, deliveryKey, 'json');
+    if (!exportFilenames.find(existing => existing.toLowerCase() === filename.toLowerCase())) {
+      return filename;
+    }
+  }
+
+  return stableFilenamePath(directory, item.id as string, 'json');
+};
+
 export const handler = async (argv: Arguments<ExportItemBuilderOptions & ConfigurationParameters>): Promise<void> => {
-  const { dir, repoId, folderId, schemaId, name, logFile, publish } = argv;
+  const { dir, repoId, folderId, schemaId, name, logFile, publish, since, incremental, stable } = argv;
 
   const dummyRepo = new ContentRepository();
 
   const folderToPathMap: Map<string, string> = new Map();
   const client = dynamicContentClientFactory(argv);
   const log = logFile.open();
+
+  const sinceDate = since == null ? undefined : new Date(since);
+  if (sinceDate != null && isNaN(sinceDate.getTime())) {
+    log.error(`'${since}' is not a valid date. Dates should be in ISO 8601 format, such as 2020-01-31T12:00:00Z.`);
+    await log.close();
+    return;
+  }
+
   const hub = await client.hubs.get(argv.hubId);
 
   log.appendLine('Retrieving content items, please wait.');
@@ -242,6 +310,17 @@ export const handler = async (argv: Arguments<ExportItemBuilderOptions & Configu
     );
   }
 
+  // Items left out by --since are still part of the export, so their files shouldn't be removed by an incremental export.
+  const matchedIds = new Set(items.map(({ item }) => item.id as string));
+
+  if (sinceDate != null) {
+    items = items.filter(
+      ({ item }: { item: ContentItem }) =>
+        item.lastModifiedDate == null || new Date(item.lastModifiedDate).getTime() >= sinceDate.getTime()
+    );
+    log.appendLine(`${items.length} content items were modified since ${since}.`);
+  }
+
   log.appendLine('Scanning for dependancies.');
 
   const repoItems: RepositoryContentItem[] = items.map(item => ({ repo: dummyRepo, content: item.item }));
@@ -253,7 +332,10 @@ export const handler = async (argv: Arguments<ExportItemBuilderOptions & Configu
 
     newMissingIDs = new Set();
     tree.filterAny(item => {
-      const missingDeps = item.dependancies.filter(dep => !tree.byId.has(dep.dependancy.id as string));
+      // Content left out by --since is exported already, so it isn't a missing dependancy.
+      const missingDeps = item.dependancies.filter(
+        dep => !tree.byId.has(dep.dependancy.id as string) && !matchedIds.has(dep.dependancy.id as string)
+      );
       missingDeps.forEach(dep => {
         const id = dep.dependancy.id as string;
         if (!missingIDs.has(id)) {
@@ -312,6 +394,39 @@ export const handler = async (argv: Arguments<ExportItemBuilderOptions & Configu
   log.appendLine('Saving content items.');
   const filenames: string[] = [];
 
+  const state = new ExportState();
+  const reusedFilenames = new Map<ContentItem, string>();
+  if (incremental) {
+    if (await state.load(dir)) {
+      log.appendLine(
+        `Loaded the state of the last export (${state.lastExport}). Only changed content items will be saved.`
+      );
+    } else {
+      log.appendLine('No state from a previous incremental export was found. All content items will be saved.');
+    }
+
+    // Reserve the existing filenames first, so that new items can't take them.
+    for (const { item, path } of items) {
+      const entry = state.get(item.id);
+      if (entry == null) {
+        continue;
+      }
+
+      const filename = join(dir, entry.path);
+      const matchesName = stable
+        ? resolve(filename) === resolve(stableItemFilename(join(dir, path), item, []))
+        : isFilenameFor(filename, join(dir, path), sanitize(item.label as string));
+
+      if (matchesName && (await promisify(exists)(filename))) {
+        reusedFilenames.set(item, filename);
+        filenames.push(filename);
+      }
+    }
+  }
+
+  const previousItems = new Map(state.items);
+  let unchanged = 0;
+
   const schemas = await paginator(hub.related.contentTypeSchema.list);
   const types = await paginator(hub.related.contentTypes.list);
 
@@ -320,6 +435,16 @@ export const handler = async (argv: Arguments<ExportItemBuilderOptions & Configu
   for (let i = 0; i < items.length; i++) {
     const { item, path } = items[i];
 
+    if (argv.exportedIds) {
+      argv.exportedIds.push(item.id as string);
+    }
+
+    const reusedFilename = reusedFilenames.get(item);
+    if (reusedFilename != null && state.isUnchanged(item)) {
+      unchanged++;
+      continue;
+    }
+
     try {
       const errors = await validator.validate(item.body);
       if (errors.length > 0) {
@@ -334,16 +459,47 @@ export const handler = async (argv: Arguments<ExportItemBuilderOptions & Configu
     resolvedPath = path;
 
     const directory = join(dir, resolvedPath);
-    resolvedPath = uniqueFilenamePath(directory, `${sanitize(item.label as string)}`, 'json', filenames);
-    filenames.push(resolvedPath);
+    if (reusedFilename != null) {
+      resolvedPath = reusedFilename;
+    } else {
+      resolvedPath = stable
+        ? stableItemFilename(directory, item, filenames)
+        : uniqueFilenamePath(directory, `${sanitize(item.label as string)}`, 'json', filenames);
+      filenames.push(resolvedPath);
+    }
     log.appendLine(resolvedPath);
     await ensureDirectoryExists(directory);
 
-    if (argv.exportedIds) {
-      argv.exportedIds.push(item.id as string);
+    if (stable) {
+      writeStableJsonToFile(resolvedPath, item, VOLATILE_ITEM_FIELDS);
+    } else {
+      writeJsonToFile(resolvedPath, item);
+    }
+
+    if (incremental) {
+      const previous = state.get(item.id);
+      if (previous != null && reusedFilename == null && resolve(dir, previous.path) !== resolve(resolvedPath)) {
+        // The item has been moved or renamed, so its old file is replaced.
+        await removeExportedFile(join(dir, previous.path), log);
+      }
+
+      state.register(item, relative(dir, resolvedPath));
+    }
+  }
+
+  if (incremental) {
+    const exportedIds = new Set(items.map(({ item }) => item.id as string));
+
+    for (const [id, entry] of Array.from(previousItems)) {
+      if (!exportedIds.has(id) && !matchedIds.has(id)) {
+        log.appendLine(`Content item ${id} is no longer exported, it may have been archived. Removing ${entry.path}.`);
+        await removeExportedFile(join(dir, entry.path), log);
+        state.items.delete(id);
+      }
     }
 
-    writeJsonToFile(resolvedPath, item);
+    log.appendLine(`${unchanged} content items were unchanged since the last export.`);
+    await state.save(dir);
   }
 
   await log.close();
@@ -0,0 +1,96 @@
+import { command, handler } from './history';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { MockContent } from '../../common/dc-management-sdk-js/mock-content';
+import { ContentItem } from 'dc-management-sdk-js';
+
+jest.mock('../../services/dynamic-content-client-factory');
+
+describe('content-item history command', () => {
+  const yargArgs = {
+    $0: 'test',
+    _: ['test']
+  };
+  const config = {
+    clientId: 'client-id',
+    clientSecret: 'client-id',
+    hubId: 'hub-id'
+  };
+
+  let stdout: string;
+
+  beforeEach(() => {
+    stdout = '';
+    process.exitCode = 0;
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    jest.spyOn(process.stdout, 'write').mockImplementation((text: string | Uint8Array) => {
+      stdout += text;
+      return true;
+    });
+
+    const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+    mockContent.createMockRepository('repo');
+    mockContent.registerContentType('http://type', 'type', 'repo');
+    mockContent.importItemTemplates([
+      { id: 'id1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type', version: 2, body: { title: 'new' } }
+    ]);
+
+    const item = mockContent.items[0];
+    item.lastModifiedBy = 'editor';
+    item.lastModifiedDate = '2020-02-01T00:00:00.000Z';
+    item.related.contentItemVersion = jest.fn(
+      async (version: number): Promise<ContentItem> =>
+        new ContentItem({
+          ...item.toJSON(),
+          version,
+          lastModifiedBy: 'author',
+          lastModifiedDate: '2020-01-01T00:00:00.000Z',
+          body: { ...item.body, title: 'old' }
+        })
+    );
+  });
+
+  afterEach((): void => {
+    process.exitCode = 0;
+    jest.restoreAllMocks();
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('history <id>');
+  });
+
+  describe('handler tests', function() {
+    it('should list every version with its date, author and changes', async () => {
+      await handler({ ...yargArgs, ...config, id: 'id1' });
+
+      expect(console.log).toHaveBeenCalledWith('item1 (id1) has 2 versions:');
+      expect(stdout).toContain('2020-01-01T00:00:00.000Z');
+      expect(stdout).toContain('author');
+      expect(stdout).toContain('Created');
+      expect(stdout).toContain('editor');
+      expect(stdout).toContain('~ /title');
+    });
+
+    it('should output the versions as JSON with --json', async () => {
+      await handler({ ...yargArgs, ...config, id: 'id1', json: true });
+
+      const summaries = JSON.parse(stdout);
+      expect(summaries.length).toEqual(2);
+      expect(summaries[1]).toEqual({
+        version: 2,
+        date: '2020-02-01T00:00:00.000Z',
+        author: 'editor',
+        label: 'item1',
+        changes: [{ path: '/title', type: 'changed', before: 'old', after: 'new' }]
+      });
+    });
+
+    it('should fail when the content item does not exist', async () => {
+      await handler({ ...yargArgs, ...config, id: 'missing' });
+
+      expect(console.error).toHaveBeenCalled();
+      expect(process.exitCode).toEqual(1);
+      expect(stdout).toEqual('');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { Arguments, Argv } from 'yargs';
+import { ConfigurationParameters } from '../configure';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { ContentItem } from 'dc-management-sdk-js';
+import {
+  ContentItemVersionSummary,
+  getVersions,
+  summariseChanges,
+  summariseVersions
+} from '../../common/content-item/version-history';
+import DataPresenter, { RenderingArguments, RenderingOptions } from '../../view/data-presenter';
+
+export const command = 'history <id>';
+
+export const desc = 'List every version of a Content Item, with its date, author and a summary of its changes';
+
+export const builder = (yargs: Argv): void => {
+  yargs
+    .positional('id', {
+      type: 'string',
+      describe: 'The ID of the content item to list the versions of.'
+    })
+    .options(RenderingOptions);
+};
+
+interface HistoryOptions {
+  id: string;
+}
+
+export const historyTableOptions = {
+  columns: {
+    0: { width: 8 },
+    1: { width: 24 },
+    2: { width: 36 },
+    3: { width: 30 },
+    4: { width: 60 }
+  }
+};
+
+export const itemMapFn = ({ version, date, author, label, changes }: ContentItemVersionSummary): object => ({
+  version,
+  date,
+  author,
+  label,
+  changes: summariseChanges(version, changes)
+});
+
+export const handler = async (
+  argv: Arguments<HistoryOptions & ConfigurationParameters & RenderingArguments>
+): Promise<void> => {
+  const client = dynamicContentClientFactory(argv);
+
+  let item: ContentItem;
+  try {
+    item = await client.contentItems.get(argv.id);
+  } catch (e) {
+    console.error(`Could not find content item with id ${argv.id}: ${e.toString()}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let versions: ContentItem[];
+  try {
+    versions = await getVersions(item);
+  } catch (e) {
+    console.error(`Could not fetch the versions of ${item.label} (${item.id}): ${e.toString()}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const summaries = summariseVersions(versions);
+
+  if (argv.json) {
+    new DataPresenter(summaries).render({ json: true });
+  } else {
+    console.log(`${item.label} (${item.id}) has ${summaries.length} versions:`);
+    new DataPresenter(summaries).render({ itemMapFn, tableUserConfig: historyTableOptions });
+  }
+};
@@ -17,7 +17,7 @@ export const revert = async (argv: Arguments<ImportItemBuilderOptions & Configur
   const client = dynamicContentClientFactory(argv);
 
   const toArchive = log.getData('CREATE'); // Undo created content by archiving it.
-  const toDowngrade = log.getData('UPDATE'); // Undo updated content by downgrading it.
+  const toDowngrade = log.getArgs('UPDATE'); // Undo updated content by downgrading it.
 
   const items: { item: ContentItem; oldVersion: number; newVersion: number }[] = [];
 
@@ -35,7 +35,7 @@ export const revert = async (argv: Arguments<ImportItemBuilderOptions & Configur
   let unchanged = 0;
 
   for (let i = 0; i < toDowngrade.length; i++) {
-    const split = toDowngrade[i].split(' ');
+    const split = toDowngrade[i];
     if (split.length !== 3) {
       continue; // Must be in format (id, oldVersion, newVersion)
     }
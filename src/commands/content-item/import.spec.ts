@@ -6,7 +6,7 @@ import { createLog, getDefaultLogPath } from '../../common/log-helpers';
 import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
 import { Folder } from 'dc-management-sdk-js';
 import Yargs from 'yargs/yargs';
-import { writeFile } from 'fs';
+import { readFile, writeFile } from 'fs';
 import { join, dirname, basename } from 'path';
 import { promisify } from 'util';
 import readline from 'readline';
@@ -130,6 +130,12 @@ describe('content-item import command', () => {
           "Detect and rewrite media links to match assets in the target account's DAM. Your client must have DAM permissions configured."
       });
 
+      expect(spyOption).toHaveBeenCalledWith('plan', {
+        type: 'string',
+        describe:
+          'Write every action the import would take to the given plan file, without changing the hub. Use "content-item apply" to carry out the plan.'
+      });
+
       expect(spyOption).toHaveBeenCalledWith('logFile', {
         type: 'string',
         default: LOG_FILENAME,
@@ -1216,6 +1222,41 @@ describe('content-item import command', () => {
       await rimraf(`temp_${process.env.JEST_WORKER_ID}/import/circular/`);
     });
 
+    it('should import items in each dependancy level concurrently when passed --concurrency', async () => {
+      const templates: ItemTemplate[] = [
+        { id: 'id1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type' },
+        { id: 'id2', label: 'item2', repoId: 'repo', typeSchemaUri: 'http://type' },
+        { id: 'id3', label: 'item3', repoId: 'repo', typeSchemaUri: 'http://type' },
+        { id: 'id4', label: 'item4', repoId: 'repo', typeSchemaUri: 'http://type', body: dependsOn(['id1', 'id2']) },
+        { id: 'id5', label: 'item5', repoId: 'repo', typeSchemaUri: 'http://type', body: dependsOn(['id3', 'id4']) }
+      ];
+
+      await createContent(`temp_${process.env.JEST_WORKER_ID}/import/concurrent/`, templates, false);
+
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('targetRepo');
+      mockContent.registerContentType('http://type', 'type', 'targetRepo');
+
+      const argv = {
+        ...yargArgs,
+        ...config,
+        dir: `temp_${process.env.JEST_WORKER_ID}/import/concurrent/`,
+        mapFile: `temp_${process.env.JEST_WORKER_ID}/import/concurrent.json`,
+        baseRepo: 'targetRepo',
+        concurrency: 4
+      };
+      expect(await handler(argv)).toBeTruthy();
+
+      expect(mockContent.metrics.itemsCreated).toEqual(5);
+      expect(mockContent.metrics.itemsUpdated).toEqual(0);
+
+      const matches = await mockContent.filterMatch(templates, '', false);
+
+      expect(matches.length).toEqual(templates.length);
+
+      await rimraf(`temp_${process.env.JEST_WORKER_ID}/import/concurrent/`);
+    });
+
     it('should not import any content if passed --validate', async () => {
       const templates: ItemTemplate[] = [{ label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type' }];
 
@@ -1242,6 +1283,67 @@ describe('content-item import command', () => {
       await rimraf(`temp_${process.env.JEST_WORKER_ID}/import/validate/`);
     });
 
+    it('should write the planned actions to a plan file without changing the hub if passed --plan', async () => {
+      const templates: ItemTemplate[] = [
+        { id: 'old1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type', body: dependsOn(['old2']) },
+        { id: 'old2', label: 'item2', repoId: 'repo', typeSchemaUri: 'http://type', folderPath: 'folderTest/nested' },
+        { id: 'old3', label: 'item3', repoId: 'repo', typeSchemaUri: 'http://type', lastPublishedVersion: 1 }
+      ];
+
+      await createContent(`temp_${process.env.JEST_WORKER_ID}/import/plan/`, templates, false);
+      await promisify(writeFile)(
+        `temp_${process.env.JEST_WORKER_ID}/import/plan.json`,
+        JSON.stringify({ contentItems: [['old3', 'new3']] })
+      );
+
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('targetRepo');
+      mockContent.registerContentType('http://type', 'type', 'targetRepo');
+      mockContent.importItemTemplates([
+        { id: 'new3', label: 'item3', repoId: 'targetRepo', typeSchemaUri: 'http://type', version: 4 }
+      ]);
+      mockContent.metrics.reset();
+
+      const planFile = `temp_${process.env.JEST_WORKER_ID}/import/plan-output.json`;
+      const argv = {
+        ...yargArgs,
+        ...config,
+        dir: `temp_${process.env.JEST_WORKER_ID}/import/plan/`,
+        mapFile: `temp_${process.env.JEST_WORKER_ID}/import/plan.json`,
+        baseRepo: 'targetRepo',
+        publish: true,
+        force: true,
+        plan: planFile
+      };
+      expect(await handler(argv)).toBeTruthy();
+
+      // Nothing should have been changed on the hub.
+      expect(mockContent.metrics.itemsCreated).toEqual(0);
+      expect(mockContent.metrics.itemsUpdated).toEqual(0);
+      expect(mockContent.metrics.foldersCreated).toEqual(0);
+
+      const plan = JSON.parse(await promisify(readFile)(planFile, { encoding: 'utf8' }));
+
+      expect(plan.hubId).toEqual('hub-id');
+      expect(plan.publish).toBeTruthy();
+      expect(plan.folders.map((folder: { path: string }) => folder.path)).toEqual(['folderTest', 'folderTest/nested']);
+      expect(plan.folders[1].parentId).toEqual(plan.folders[0].id);
+
+      const planned = new Map(plan.contentItems.map((item: { content: { id: string } }) => [item.content.id, item]));
+      expect(planned.get('old1')).toEqual(expect.objectContaining({ action: 'CREATE', publish: false }));
+      expect(planned.get('old2')).toEqual(
+        expect.objectContaining({
+          action: 'CREATE',
+          content: expect.objectContaining({ folderId: plan.folders[1].id })
+        })
+      );
+      expect(planned.get('old3')).toEqual(
+        expect.objectContaining({ action: 'UPDATE', targetId: 'new3', version: 4, publish: true })
+      );
+
+      await rimraf(`temp_${process.env.JEST_WORKER_ID}/import/plan/`);
+    });
+
     it('should ask for imported dependancies to be nullified if they are missing, and then skipped if invalid', async () => {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       (readline as any).setResponses(['y']);
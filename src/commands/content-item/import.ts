@@ -33,6 +33,8 @@ import { createLog, getDefaultLogPath } from '../../common/log-helpers';
 import { asyncQuestion } from '../../common/question-helpers';
 import { PublishQueue } from '../../common/import/publish-queue';
 import { MediaRewriter } from '../../common/media/media-rewriter';
+import { ImportPlan } from '../../common/import/import-plan';
+import { forEachConcurrently, ConcurrencyArgument } from '../../common/concurrency';
 
 export function getDefaultMappingPath(name: string, platform: string = process.platform): string {
   return join(
@@ -123,6 +125,12 @@ export const builder = (yargs: Argv): void => {
         "Detect and rewrite media links to match assets in the target account's DAM. Your client must have DAM permissions configured."
     })
 
+    .option('plan', {
+      type: 'string',
+      describe:
+        'Write every action the import would take to the given plan file, without changing the hub. Use "content-item apply" to carry out the plan.'
+    })
+
     .option('logFile', {
       type: 'string',
       default: LOG_FILENAME,
@@ -141,6 +149,7 @@ interface ImportContext {
   mapping: ContentMapping;
   rootFolders: Folder[];
   log: FileLog;
+  plan?: ImportPlan;
 }
 
 const getSubfolders = (context: ImportContext, folder: Folder): Promise<Folder[]> => {
@@ -148,7 +157,8 @@ const getSubfolders = (context: ImportContext, folder: Folder): Promise<Folder[]
     return context.folderToSubfolderMap.get(folder.id as string) as Promise<Folder[]>;
   }
 
-  const subfolders = paginator(folder.related.folders.list);
+  // Folders that are only planned can't contain anything yet.
+  const subfolders = ImportPlan.isPlannedId(folder.id) ? Promise.resolve([]) : paginator(folder.related.folders.list);
 
   context.folderToSubfolderMap.set(folder.id as string, subfolders);
   return subfolders;
@@ -173,7 +183,10 @@ const getOrCreateFolder = async (context: ImportContext, rel: string): Promise<F
 
     const containerName = parent == null ? context.repo.label : parent.name;
 
-    if (result == null) {
+    if (result == null && context.plan) {
+      result = context.plan.planFolder(context.repo, parent, folderInfo.name, rel);
+      context.log.appendLine(`Planned folder in ${containerName}: '${rel}'.`);
+    } else if (result == null) {
       if (parent == null) {
         result = await context.repo.related.folders.create(new Folder(folderInfo));
       } else {
@@ -284,14 +297,17 @@ const trySaveMapping = async (mapFile: string | undefined, mapping: ContentMappi
   }
 };
 
-const prepareContentForImport = async (
+// Every content item read from the import directories is added to loaded, including those that are later skipped.
+export const prepareContentForImport = async (
   client: DynamicContent,
   hub: Hub,
   repos: { basePath: string; repo: ContentRepository }[],
   folder: Folder | null,
   mapping: ContentMapping,
   log: FileLog,
-  argv: Arguments<ImportItemBuilderOptions & ConfigurationParameters>
+  argv: Arguments<ImportItemBuilderOptions & ConfigurationParameters>,
+  plan?: ImportPlan,
+  loaded?: RepositoryContentItem[]
 ): Promise<ContentDependancyTree | null> => {
   // traverse folder structure and find content items
   // replicate relative path string in target repo/folder (create if does not exist)
@@ -319,7 +335,8 @@ const prepareContentForImport = async (
       folderToSubfolderMap: new Map(),
       mapping,
       rootFolders: [],
-      log
+      log,
+      plan
     });
   });
 
@@ -356,6 +373,7 @@ const prepareContentForImport = async (
     }
 
     log.appendLine(`Scanning structure and content in '${repos[i].basePath}' for repository '${repo.label}'...`);
+    log.progress.start(`Scanning ${repo.label}`);
 
     await traverseRecursive(resolve(repos[i].basePath), async path => {
       // Is this valid content? Must have extension .json to be considered, for a start.
@@ -394,7 +412,14 @@ const prepareContentForImport = async (
       schemaNames.add(contentJSON.body._meta.schema);
 
       contentItems.push({ repo: repo, content: new ContentItem(filteredContent) });
+      log.progress.increment();
     });
+
+    log.progress.finish();
+  }
+
+  if (loaded) {
+    loaded.push(...contentItems);
   }
 
   log.appendLine('Done. Validating content...');
@@ -454,17 +479,20 @@ const prepareContentForImport = async (
         return null;
       }
 
-      log.warn(`Creating ${existing.length} missing content types.`);
+      log.warn(`${plan ? 'Planning' : 'Creating'} ${existing.length} missing content types.`);
 
       // Create the content types
 
       for (let i = 0; i < existing.length; i++) {
         const missing = existing[i];
-        let type = new ContentType({
-          contentTypeUri: missing.schemaId,
-          settings: { label: basename(missing.schemaId as string) } // basename on a URL is valid.
-        });
-        type = await hub.related.contentTypes.register(type);
+        const label = basename(missing.schemaId as string); // basename on a URL is valid.
+        let type: ContentType;
+        if (plan) {
+          type = plan.planContentType(missing.schemaId as string, label);
+        } else {
+          type = new ContentType({ contentTypeUri: missing.schemaId, settings: { label } });
+          type = await hub.related.contentTypes.register(type);
+        }
         types.push(type);
         typesBySchema.set(missing.schemaId as string, type);
       }
@@ -519,15 +547,19 @@ const prepareContentForImport = async (
       return null;
     }
 
-    log.warn(`Creating ${missingRepoAssignments.length} missing repo assignments.`);
+    log.warn(`${plan ? 'Planning' : 'Creating'} ${missingRepoAssignments.length} missing repo assignments.`);
 
-    try {
-      await Promise.all(
-        missingRepoAssignments.map(([repo, type]) => repo.related.contentTypes.assign(type.id as string))
-      );
-    } catch (e) {
-      log.error('Failed creating repo assignments:', e);
-      return null;
+    if (plan) {
+      missingRepoAssignments.forEach(([repo, type]) => plan.planAssignment(repo, type));
+    } else {
+      try {
+        await Promise.all(
+          missingRepoAssignments.map(([repo, type]) => repo.related.contentTypes.assign(type.id as string))
+        );
+      } catch (e) {
+        log.error('Failed creating repo assignments:', e);
+        return null;
+      }
     }
   }
 
@@ -604,6 +636,7 @@ const prepareContentForImport = async (
 
   const validator = new AmplienceSchemaValidator(defaultSchemaLookup(types, schemas));
 
+  log.progress.start('Validating', tree.all.length);
   const allInvalid = await Promise.all(
     tree.all.map(async item => {
       try {
@@ -621,10 +654,14 @@ const prepareContentForImport = async (
           e
         );
         return item;
+      } finally {
+        log.progress.increment();
       }
       return null;
     })
   );
+  log.progress.finish();
+
   if (allInvalid.filter(Boolean).length) {
     log.appendLine(
       `Number of invalid content items ${allInvalid.filter(Boolean).length} validated against schemas. Aborting`
@@ -736,12 +773,16 @@ const rewriteDependancy = (dep: ContentDependancyInfo, mapping: ContentMapping,
   }
 };
 
-const importTree = async (
+export type ImportTreeOptions = ConfigurationParameters &
+  ConcurrencyArgument &
+  Pick<ImportItemBuilderOptions, 'publish' | 'republish'>;
+
+export const importTree = async (
   client: DynamicContent,
   tree: ContentDependancyTree,
   mapping: ContentMapping,
   log: FileLog,
-  argv: Arguments<ImportItemBuilderOptions & ConfigurationParameters>
+  argv: ImportTreeOptions
 ): Promise<boolean> => {
   const abort = (error: Error): void => {
     log.appendLine(`Importing content item failed, aborting. Error: ${error.toString()}`);
@@ -749,11 +790,13 @@ const importTree = async (
 
   let publishable: { item: ContentItem; node: ItemContentDependancies }[] = [];
 
+  // Items within a level do not depend on each other, so they can be imported concurrently.
+  // Each level must be complete before the next starts, as it may depend on items from the levels before it.
   for (let i = 0; i < tree.levels.length; i++) {
     const level = tree.levels[i];
+    log.progress.start(`Importing level ${i + 1}/${tree.levels.length}`, level.items.length);
 
-    for (let j = 0; j < level.items.length; j++) {
-      const item = level.items[j];
+    const levelSucceeded = await forEachConcurrently(level.items, argv.concurrency, async item => {
       const content = item.owner.content;
 
       // Replace any dependancies with the existing mapping.
@@ -785,7 +828,7 @@ const importTree = async (
       log.addComment(`${updated ? 'Updated' : 'Created'} ${content.label}.`);
       log.addAction(
         updated ? 'UPDATE' : 'CREATE',
-        (newItem.id || 'unknown') + (updated ? ` ${oldVersion} ${newItem.version}` : '')
+        updated ? [newItem.id || 'unknown', `${oldVersion}`, `${newItem.version}`] : newItem.id || 'unknown'
       );
 
       if (itemShouldPublish(content) && (newItem.version != oldVersion || argv.republish)) {
@@ -793,6 +836,13 @@ const importTree = async (
       }
 
       mapping.registerContentItem(originalId as string, newItem.id as string);
+      log.progress.increment();
+    });
+
+    log.progress.finish();
+
+    if (!levelSucceeded) {
+      return false;
     }
   }
 
@@ -827,6 +877,7 @@ const importTree = async (
   for (let pass = 0; pass < 2; pass++) {
     const mode = pass === 0 ? 'Creating' : 'Resolving';
     log.appendLine(`${mode} circular dependants.`);
+    log.progress.start(`${mode} circular dependants`, tree.circularLinks.length);
 
     for (let i = 0; i < tree.circularLinks.length; i++) {
       const item = tree.circularLinks[i];
@@ -862,7 +913,7 @@ const importTree = async (
         log.addComment(`${updated ? 'Updated' : 'Created'} ${content.label}.`);
         log.addAction(
           updated ? 'UPDATE' : 'CREATE',
-          (newItem.id || 'unknown') + (updated ? ` ${oldVersion} ${newItem.version}` : '')
+          updated ? [newItem.id || 'unknown', `${oldVersion}`, `${newItem.version}`] : newItem.id || 'unknown'
         );
 
         newDependants[i] = newItem;
@@ -873,12 +924,17 @@ const importTree = async (
           publishable.push({ item: newItem, node: item });
         }
       }
+
+      log.progress.increment();
     }
+
+    log.progress.finish();
   }
 
   if (argv.publish) {
     const pubQueue = new PublishQueue(argv);
     log.appendLine(`Publishing ${publishable.length} items. (${publishChildren} children included)`);
+    log.progress.start('Publishing', publishable.length);
 
     for (let i = 0; i < publishable.length; i++) {
       const item = publishable[i].item;
@@ -889,8 +945,12 @@ const importTree = async (
       } catch (e) {
         log.appendLine(`Failed to initiate publish for ${item.label}: ${e.toString()}`);
       }
+
+      log.progress.increment();
     }
 
+    log.progress.finish();
+
     log.appendLine(`Waiting for all publishes to complete...`);
     await pubQueue.waitForAll();
 
@@ -904,6 +964,34 @@ const importTree = async (
   return true;
 };
 
+const planTree = async (
+  client: DynamicContent,
+  tree: ContentDependancyTree,
+  mapping: ContentMapping,
+  plan: ImportPlan,
+  log: FileLog
+): Promise<boolean> => {
+  for (const item of tree.all) {
+    const { repo, content } = item.owner;
+    const targetId = mapping.getContentItem(content.id);
+
+    let existing: ContentItem | undefined;
+    if (targetId != null) {
+      try {
+        // The current version is recorded, so that apply can detect changes made after planning.
+        existing = await client.contentItems.get(targetId);
+      } catch (e) {
+        log.error(`Couldn't get existing content item ${targetId} for ${content.label}:`, e);
+        return false;
+      }
+    }
+
+    plan.planContentItem(repo, content, Boolean(itemShouldPublish(content)), existing);
+  }
+
+  return true;
+};
+
 export const handler = async (
   argv: Arguments<ImportItemBuilderOptions & ConfigurationParameters>
 ): Promise<boolean> => {
@@ -911,7 +999,7 @@ export const handler = async (
     return revert(argv);
   }
 
-  const { dir, baseRepo, baseFolder, validate, logFile } = argv;
+  const { dir, baseRepo, baseFolder, validate, logFile, plan: planFile } = argv;
   const force = argv.force || false;
   let { mapFile } = argv;
   argv.publish = argv.publish || argv.republish;
@@ -952,6 +1040,8 @@ export const handler = async (
     log.appendLine(`Creating new mapping file at '${mapFile}'.`);
   }
 
+  const plan = planFile ? new ImportPlan(argv.hubId, mapFile, argv.publish, argv.republish) : undefined;
+
   let tree: ContentDependancyTree | null;
   if (baseFolder != null) {
     let repo: ContentRepository;
@@ -965,7 +1055,7 @@ export const handler = async (
       closeLog();
       return false;
     }
-    tree = await prepareContentForImport(client, hub, [{ repo, basePath: dir }], folder, mapping, log, argv);
+    tree = await prepareContentForImport(client, hub, [{ repo, basePath: dir }], folder, mapping, log, argv, plan);
   } else if (baseRepo != null) {
     let repo: ContentRepository;
     try {
@@ -975,7 +1065,7 @@ export const handler = async (
       closeLog();
       return false;
     }
-    tree = await prepareContentForImport(client, hub, [{ repo, basePath: dir }], null, mapping, log, argv);
+    tree = await prepareContentForImport(client, hub, [{ repo, basePath: dir }], null, mapping, log, argv, plan);
   } else {
     // Match repositories by label.
     let repos: ContentRepository[];
@@ -1034,11 +1124,25 @@ export const handler = async (
       return false;
     }
 
-    tree = await prepareContentForImport(client, hub, importRepos, null, mapping, log, argv);
+    tree = await prepareContentForImport(client, hub, importRepos, null, mapping, log, argv, plan);
   }
 
   let result = true;
 
+  if (plan != null) {
+    result = tree != null && (await planTree(client, tree, mapping, plan, log));
+
+    if (result) {
+      await plan.save(planFile as string);
+      log.appendLine(`Import plan with ${plan.contentItems.length} content items written to '${planFile}'.`);
+    } else {
+      log.appendLine('No import plan was written.');
+    }
+
+    closeLog();
+    return result;
+  }
+
   if (tree != null) {
     if (!validate) {
       result = await importTree(client, tree, mapping, log, argv);
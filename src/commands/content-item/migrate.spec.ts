@@ -0,0 +1,217 @@
+import { builder, command, handler, LOG_FILENAME } from './migrate';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { MockContent } from '../../common/dc-management-sdk-js/mock-content';
+import { FileLog } from '../../common/file-log';
+import { getDefaultLogPath } from '../../common/log-helpers';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
+import Yargs from 'yargs/yargs';
+import readline from 'readline';
+import { writeFile } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import rmdir from 'rimraf';
+
+jest.mock('readline');
+jest.mock('../../services/dynamic-content-client-factory');
+jest.mock('../../common/log-helpers', () => ({
+  ...jest.requireActual('../../common/log-helpers'),
+  getDefaultLogPath: jest.fn()
+}));
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+describe('content-item migrate command', () => {
+  const yargArgs = {
+    $0: 'test',
+    _: ['test']
+  };
+  const config = {
+    clientId: 'client-id',
+    clientSecret: 'client-id',
+    hubId: 'hub-id'
+  };
+
+  const baseDir = `temp_${process.env.JEST_WORKER_ID}/migrate/`;
+  let scriptCount = 0;
+
+  // Each script gets a new filename, as required modules are cached.
+  const writeScript = async (source: string): Promise<string> => {
+    await ensureDirectoryExists(baseDir);
+    const filename = join(baseDir, `migrate${scriptCount++}.js`);
+    await promisify(writeFile)(filename, source);
+    return filename;
+  };
+
+  const renameTitle = `module.exports = function(body) {
+  body.heading = body.title;
+  delete body.title;
+  return body;
+};`;
+
+  const createContent = (): MockContent => {
+    const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+    mockContent.createMockRepository('repo');
+    mockContent.registerContentType('http://banner', 'banner', 'repo', {
+      type: 'object',
+      properties: { heading: { type: 'string' } },
+      additionalProperties: true
+    });
+    mockContent.registerContentType('http://card', 'card', 'repo', {
+      type: 'object',
+      properties: { title: { type: 'string' } }
+    });
+    mockContent.importItemTemplates([
+      { id: 'id1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://banner', version: 1, body: { title: 'a' } },
+      { id: 'id2', label: 'item2', repoId: 'repo', typeSchemaUri: 'http://banner', version: 2, body: { title: 'b' } },
+      { id: 'id3', label: 'item3', repoId: 'repo', typeSchemaUri: 'http://card', version: 1, body: { title: 'c' } }
+    ]);
+    return mockContent;
+  };
+
+  beforeEach(async () => {
+    process.exitCode = 0;
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    await rimraf(baseDir);
+  });
+
+  afterEach(async () => {
+    process.exitCode = 0;
+    jest.restoreAllMocks();
+    await rimraf(baseDir);
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('migrate');
+  });
+
+  it('should use getDefaultLogPath for LOG_FILENAME with process.platform as default', function() {
+    LOG_FILENAME();
+
+    expect(getDefaultLogPath).toHaveBeenCalledWith('content-item', 'migrate', process.platform);
+  });
+
+  describe('builder tests', function() {
+    it('should configure yargs', function() {
+      const argv = Yargs(process.argv.slice(2));
+      const spyOption = jest.spyOn(argv, 'option').mockReturnThis();
+      jest.spyOn(argv, 'alias').mockReturnThis();
+
+      builder(argv);
+
+      expect(spyOption).toHaveBeenCalledWith('schemaId', {
+        type: 'string',
+        describe:
+          'The Schema ID of the content items to migrate. A regex can be provided, such as /banner/.\nMultiple --schemaId options may be given.',
+        demandOption: true
+      });
+      expect(spyOption).toHaveBeenCalledWith('script', {
+        type: 'string',
+        describe:
+          'Path to a JavaScript module that exports the migration function. It is called with a copy of the body and the content item, and returns the new body.',
+        demandOption: true
+      });
+      expect(spyOption).toHaveBeenCalledWith('dryRun', {
+        type: 'boolean',
+        boolean: true,
+        describe: 'Show the changes that would be made, without updating any content items.'
+      });
+    });
+  });
+
+  describe('handler tests', function() {
+    it('should migrate the content items of a schema, and log the versions for an import revert', async () => {
+      const mockContent = createContent();
+      const script = await writeScript(renameTitle);
+      const logFile = new FileLog();
+
+      await handler({ ...yargArgs, ...config, schemaId: 'http://banner', script, force: true, logFile });
+
+      expect(mockContent.items.map(item => item.body.heading)).toEqual(['a', 'b', undefined]);
+      expect(mockContent.items.map(item => item.body.title)).toEqual([undefined, undefined, 'c']);
+      expect(logFile.getData('UPDATE')).toEqual(['id1 1 2', 'id2 2 3']);
+      expect(console.log).toHaveBeenCalledWith('   - /title: "a"');
+      expect(console.log).toHaveBeenCalledWith('   + /heading: "a"');
+      expect(console.log).toHaveBeenLastCalledWith('Migrated 2 content items.');
+    });
+
+    it('should accept a migration that changes the body without returning it, and skip unchanged items', async () => {
+      const mockContent = createContent();
+      const script = await writeScript(`exports.migrate = async (body, item) => {
+  if (item.id === 'id2') body.heading = body.title.toUpperCase();
+};`);
+
+      await handler({ ...yargArgs, ...config, schemaId: 'http://banner', script, force: true, logFile: new FileLog() });
+
+      expect(mockContent.items.map(item => item.body.heading)).toEqual([undefined, 'B', undefined]);
+      expect(console.log).toHaveBeenLastCalledWith('Migrated 1 content items.');
+    });
+
+    it('should only show the changes in a dry run', async () => {
+      const mockContent = createContent();
+      const script = await writeScript(renameTitle);
+
+      await handler({
+        ...yargArgs,
+        ...config,
+        schemaId: 'http://banner',
+        script,
+        dryRun: true,
+        logFile: new FileLog()
+      });
+
+      expect(mockContent.items.map(item => item.body.title)).toEqual(['a', 'b', 'c']);
+      expect(console.log).toHaveBeenLastCalledWith('Total: 2');
+    });
+
+    it('should ask before migrating, and change nothing when the answer is no', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (readline as any).setResponses(['n']);
+      const mockContent = createContent();
+      const script = await writeScript(renameTitle);
+
+      await handler({ ...yargArgs, ...config, schemaId: 'http://banner', script, logFile: new FileLog() });
+
+      expect(mockContent.items.map(item => item.body.title)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should update nothing when a migrated body is not valid for its schema', async () => {
+      const mockContent = createContent();
+      const script = await writeScript(
+        `module.exports = body => ({ ...body, heading: body.title === 'a' ? 1 : 'ok' });`
+      );
+
+      await handler({ ...yargArgs, ...config, schemaId: 'http://banner', script, force: true, logFile: new FileLog() });
+
+      expect(mockContent.items.map(item => item.body.heading)).toEqual([undefined, undefined, undefined]);
+      expect(console.error).toHaveBeenCalledWith(' item1 (id1) /heading: should be string');
+      expect(process.exitCode).toEqual(1);
+    });
+
+    it('should update nothing when the migration throws', async () => {
+      const mockContent = createContent();
+      const script = await writeScript(`module.exports = () => { throw new Error('No title'); };`);
+
+      await handler({ ...yargArgs, ...config, schemaId: 'http://card', script, force: true, logFile: new FileLog() });
+
+      expect(mockContent.items[2].body.title).toEqual('c');
+      expect(console.error).toHaveBeenCalledWith(' item3 (id3) /: The migration failed: No title');
+      expect(process.exitCode).toEqual(1);
+    });
+
+    it('should fail when the script does not export a migration function', async () => {
+      const script = await writeScript(`module.exports = { version: 1 };`);
+
+      await handler({ ...yargArgs, ...config, schemaId: 'http://banner', script, logFile: new FileLog() });
+
+      expect(console.error).toHaveBeenCalledWith(
+        `Could not load the migration script ${script}: The script does not export a migration function.`
+      );
+      expect(process.exitCode).toEqual(1);
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import { Arguments, Argv } from 'yargs';
+import { resolve } from 'path';
+import { cloneDeep, upperFirst } from 'lodash';
+import { ContentItem, DynamicContent } from 'dc-management-sdk-js';
+import { ConfigurationParameters } from '../configure';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import paginator from '../../common/dc-management-sdk-js/paginator';
+import {
+  AmplienceSchemaValidator,
+  defaultSchemaLookup,
+  describeSchemaError,
+  toJsonPointer
+} from '../../common/content-item/amplience-schema-validator';
+import { coreSchemaLookup } from '../../common/content-item/core-schema';
+import { confirmAction, getFilteredContentItems } from '../../common/archive/archive-helpers';
+import { forEachConcurrently, ConcurrencyArgument } from '../../common/concurrency';
+import { describeJsonDiff, jsonDiff, JsonDiffEntry } from '../../common/json-diff/json-diff';
+import { FileLog } from '../../common/file-log';
+import { createLog, getDefaultLogPath } from '../../common/log-helpers';
+import { MigrateItemBuilderOptions } from '../../interfaces/migrate-item-builder-options.interface';
+
+export const command = 'migrate';
+
+export const desc = 'Transform the body of Content Items with a migration script, and validate the result';
+
+export const LOG_FILENAME = (platform: string = process.platform): string =>
+  getDefaultLogPath('content-item', 'migrate', platform);
+
+export const coerceLog = (logFile: string): FileLog => createLog(logFile, 'Content Items Migrate Log');
+
+export const builder = (yargs: Argv): void => {
+  yargs
+    .option('schemaId', {
+      type: 'string',
+      describe:
+        'The Schema ID of the content items to migrate. A regex can be provided, such as /banner/.\nMultiple --schemaId options may be given.',
+      demandOption: true
+    })
+    .option('script', {
+      type: 'string',
+      describe:
+        'Path to a JavaScript module that exports the migration function. It is called with a copy of the body and the content item, and returns the new body.',
+      demandOption: true
+    })
+    .option('repoId', {
+      type: 'string',
+      describe: 'The ID of a content repository to search items in to be migrated.',
+      requiresArg: false
+    })
+    .option('folderId', {
+      type: 'string',
+      describe: 'The ID of a folder to search items in to be migrated.',
+      requiresArg: false
+    })
+    .option('dryRun', {
+      type: 'boolean',
+      boolean: true,
+      describe: 'Show the changes that would be made, without updating any content items.'
+    })
+    .alias('f', 'force')
+    .option('f', {
+      type: 'boolean',
+      boolean: true,
+      describe: 'If present, there will be no confirmation prompt before updating the migrated content.'
+    })
+    .alias('s', 'silent')
+    .option('s', {
+      type: 'boolean',
+      boolean: true,
+      describe: 'If present, no log file will be produced.'
+    })
+    .option('logFile', {
+      type: 'string',
+      default: LOG_FILENAME,
+      describe: 'Path to a log file to write to.',
+      coerce: coerceLog
+    });
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ContentBody = any;
+
+export type MigrationFunction = (body: ContentBody, item: ContentItem) => ContentBody | Promise<ContentBody>;
+
+export interface MigrationPlan {
+  item: ContentItem;
+  body: ContentBody;
+  changes: JsonDiffEntry[];
+}
+
+export interface MigrationError {
+  item: ContentItem;
+  pointer: string;
+  message: string;
+}
+
+/**
+ * Loads the migration function from a script. The script can export the function itself,
+ * or export it as `migrate` or `default`.
+ */
+export const loadMigrationScript = (script: string): MigrationFunction => {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const exported = require(resolve(script));
+  const migrate = typeof exported === 'function' ? exported : exported.migrate || exported.default;
+
+  if (typeof migrate !== 'function') {
+    throw new Error('The script does not export a migration function.');
+  }
+
+  return migrate;
+};
+
+/**
+ * Runs the migration on each content item, and validates the migrated bodies against their schemas.
+ * The migration is given a copy of the body, which it can change and return, or return a new body.
+ * Content items that would not change are left out.
+ */
+export const planMigration = async (
+  contentItems: ContentItem[],
+  migrate: MigrationFunction,
+  validator: AmplienceSchemaValidator
+): Promise<{ plans: MigrationPlan[]; errors: MigrationError[] }> => {
+  const plans: MigrationPlan[] = [];
+  const errors: MigrationError[] = [];
+
+  for (const item of contentItems) {
+    let body: ContentBody;
+    try {
+      const copy = cloneDeep(item.body);
+      const result = await migrate(copy, new ContentItem(cloneDeep(item.toJSON())));
+      body = result === undefined ? copy : result;
+    } catch (e) {
+      errors.push({ item, pointer: '', message: `The migration failed: ${e.message}` });
+      continue;
+    }
+
+    const changes = jsonDiff(item.body, body);
+    if (changes.length === 0) {
+      continue;
+    }
+
+    try {
+      const schemaErrors = await validator.validate(body);
+      schemaErrors.forEach(error => {
+        errors.push({ item, pointer: toJsonPointer(error.dataPath), message: describeSchemaError(error) });
+      });
+    } catch (e) {
+      errors.push({ item, pointer: '/_meta/schema', message: `Could not validate the migrated body: ${e.message}` });
+      continue;
+    }
+
+    plans.push({ item, body, changes });
+  }
+
+  return { plans, errors };
+};
+
+export const getMigrationValidator = async (
+  client: DynamicContent,
+  hubId: string
+): Promise<AmplienceSchemaValidator> => {
+  const hub = await client.hubs.get(hubId);
+  const types = await paginator(hub.related.contentTypes.list);
+  const schemas = await paginator(hub.related.contentTypeSchema.list);
+
+  const hubLookup = defaultSchemaLookup(types, schemas);
+
+  return new AmplienceSchemaValidator(async uri => coreSchemaLookup(uri) || hubLookup(uri));
+};
+
+export interface MigrateContentOptions {
+  // The name of the change, such as migrate or edit, and its past tense.
+  action: string;
+  actioned: string;
+  logFile: FileLog;
+  dryRun?: boolean;
+  force?: boolean;
+  silent?: boolean;
+  concurrency?: number;
+  allContent?: boolean;
+  missingContent?: boolean;
+}
+
+/**
+ * Changes the body of each content item with the migration function. The changes are validated and listed first,
+ * and nothing is updated if any of them fail. Updates are logged in the same format as an import,
+ * so that an import revert can undo them.
+ */
+export const migrateContent = async (
+  client: DynamicContent,
+  hubId: string,
+  contentItems: ContentItem[],
+  migrate: MigrationFunction,
+  options: MigrateContentOptions
+): Promise<void> => {
+  const { action, actioned, logFile, dryRun, force, silent, concurrency } = options;
+  const { plans, errors } = await planMigration(contentItems, migrate, await getMigrationValidator(client, hubId));
+
+  if (errors.length > 0) {
+    console.error(`Could not ${action} these content items, as the change failed or would leave them invalid:`);
+    errors.forEach(({ item, pointer, message }) => {
+      console.error(` ${item.label} (${item.id}) ${pointer || '/'}: ${message}`);
+    });
+    console.error('Nothing was updated.');
+    process.exitCode = 1;
+    return;
+  }
+
+  if (plans.length == 0) {
+    console.log(`Nothing to ${action} in ${contentItems.length} content items, aborting.`);
+    return;
+  }
+
+  console.log(`The following content items will be ${actioned}:`);
+  plans.forEach(({ item, changes }) => {
+    console.log(` ${item.label} (${item.id}):`);
+    changes.forEach(change => console.log(`   ${describeJsonDiff(change)}`));
+  });
+  console.log(`Total: ${plans.length}`);
+
+  if (dryRun) {
+    return;
+  }
+
+  if (!force) {
+    const yes = await confirmAction(action, 'content items', !!options.allContent, !!options.missingContent);
+    if (!yes) {
+      return;
+    }
+  }
+
+  const log = logFile.open();
+
+  let successCount = 0;
+
+  log.progress.start('Updating', plans.length);
+
+  await forEachConcurrently(plans, concurrency, async ({ item, body }) => {
+    const oldVersion = item.version;
+
+    try {
+      const updated = await item.related.update(new ContentItem({ label: item.label, body, version: item.version }));
+
+      log.addAction('UPDATE', [item.id as string, `${oldVersion}`, `${updated.version}`]);
+      successCount++;
+    } catch (e) {
+      log.warn(`Failed to ${action} ${item.label} (${item.id}), continuing.`, e);
+    } finally {
+      log.progress.increment();
+    }
+  });
+
+  log.progress.finish();
+
+  await log.close(!silent);
+
+  console.log(`${upperFirst(actioned)} ${successCount} content items.`);
+};
+
+export const handler = async (
+  argv: Arguments<MigrateItemBuilderOptions & ConfigurationParameters & ConcurrencyArgument>
+): Promise<void> => {
+  const { schemaId, script, logFile, dryRun, force, silent, hubId, repoId, folderId, concurrency } = argv;
+
+  let migrate: MigrationFunction;
+  try {
+    migrate = loadMigrationScript(script);
+  } catch (e) {
+    console.error(`Could not load the migration script ${script}: ${e.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const client = dynamicContentClientFactory(argv);
+
+  const filtered = await getFilteredContentItems(client, { hubId, repoId, folderId, contentType: schemaId }, 'migrate');
+  if (!filtered) {
+    return;
+  }
+
+  const { contentItems } = filtered;
+
+  await migrateContent(client, hubId, contentItems, migrate, {
+    action: 'migrate',
+    actioned: 'migrated',
+    logFile,
+    dryRun,
+    force,
+    silent,
+    concurrency
+  });
+};
+
+// log format:
+// UPDATE <content item id> <version before migration> <version after migration>
@@ -191,7 +191,10 @@ export const handler = async (argv: Arguments<CopyItemBuilderOptions & Configura
     const yargArgs = {
       $0: '',
       _: [],
-      json: true
+      json: true,
+      maxRetries: argv.maxRetries,
+      requestsPerSecond: argv.requestsPerSecond,
+      concurrency: argv.concurrency
     };
 
     await revert({
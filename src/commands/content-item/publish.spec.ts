@@ -0,0 +1,235 @@
+import { builder, command, handler, LOG_FILENAME } from './publish';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import * as publishQueue from '../../common/import/publish-queue';
+import { PublishQueue } from '../../common/import/publish-queue';
+import { MockContent, ItemTemplate } from '../../common/dc-management-sdk-js/mock-content';
+import { FileLog } from '../../common/file-log';
+import { getDefaultLogPath } from '../../common/log-helpers';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
+import Yargs from 'yargs/yargs';
+import readline from 'readline';
+import { writeFile } from 'fs';
+import { promisify } from 'util';
+import rmdir from 'rimraf';
+import { dependsOn } from './__mocks__/dependant-content-helper';
+
+jest.mock('readline');
+jest.mock('../../services/dynamic-content-client-factory');
+jest.mock('../../common/import/publish-queue');
+jest.mock('../../common/log-helpers', () => ({
+  ...jest.requireActual('../../common/log-helpers'),
+  getDefaultLogPath: jest.fn()
+}));
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+describe('content-item publish command', () => {
+  const yargArgs = {
+    $0: 'test',
+    _: ['test']
+  };
+  const config = {
+    clientId: 'client-id',
+    clientSecret: 'client-id',
+    hubId: 'hub-id'
+  };
+
+  const templates: ItemTemplate[] = [
+    { id: 'id1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type' },
+    { id: 'id2', label: 'item2', repoId: 'repo', typeSchemaUri: 'http://type' },
+    { id: 'id3', label: 'other', repoId: 'repo', typeSchemaUri: 'http://type2' }
+  ];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const publishCalls = (publishQueue as any).publishCalls;
+
+  const createContent = (): MockContent => {
+    const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+    mockContent.createMockRepository('repo');
+    mockContent.registerContentType('http://type', 'type', 'repo');
+    mockContent.registerContentType('http://type2', 'type2', 'repo');
+    mockContent.importItemTemplates(templates);
+
+    return mockContent;
+  };
+
+  beforeEach(() => {
+    process.exitCode = 0;
+    publishCalls.splice(0, publishCalls.length);
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach((): void => {
+    process.exitCode = 0;
+    jest.restoreAllMocks();
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('publish [id]');
+  });
+
+  it('should use getDefaultLogPath for LOG_FILENAME with process.platform as default', function() {
+    LOG_FILENAME();
+
+    expect(getDefaultLogPath).toHaveBeenCalledWith('content-item', 'publish', process.platform);
+  });
+
+  describe('builder tests', function() {
+    it('should configure yargs', function() {
+      const argv = Yargs(process.argv.slice(2));
+      const spyPositional = jest.spyOn(argv, 'positional').mockReturnThis();
+      const spyOption = jest.spyOn(argv, 'option').mockReturnThis();
+      const spyAlias = jest.spyOn(argv, 'alias').mockReturnThis();
+
+      builder(argv);
+
+      expect(spyPositional).toHaveBeenCalledWith('id', {
+        type: 'string',
+        describe:
+          'The ID of a content item to be published. If id is not provided, this command will publish ALL content items through all content repositories in the hub.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('repoId', {
+        type: 'string',
+        describe: 'The ID of a content repository to search items in to be published.',
+        requiresArg: false
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('folderId', {
+        type: 'string',
+        describe: 'The ID of a folder to search items in to be published.',
+        requiresArg: false
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('revertLog', {
+        type: 'string',
+        describe:
+          'Path to a log file containing content items unpublished in a previous run of the unpublish command.\nWhen provided, publishes all content items listed as UNPUBLISH in the log file.',
+        requiresArg: false
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('publishDependencies', {
+        type: 'boolean',
+        boolean: true,
+        describe:
+          'If present, content linked or referenced by the content items is also published when it is unpublished or has a newer version. Dependencies are published first, in dependency order.'
+      });
+
+      expect(spyAlias).toHaveBeenCalledWith('f', 'force');
+      expect(spyAlias).toHaveBeenCalledWith('s', 'silent');
+
+      expect(spyOption).toHaveBeenCalledWith('logFile', {
+        type: 'string',
+        default: LOG_FILENAME,
+        describe: 'Path to a log file to write to.',
+        coerce: expect.any(Function)
+      });
+    });
+  });
+
+  describe('handler tests', function() {
+    it('should publish content items matching the name filter, and log them', async () => {
+      createContent();
+      const logFile = new FileLog();
+
+      await handler({ ...yargArgs, ...config, name: '/item/', force: true, logFile });
+
+      expect(publishCalls.map((item: { id: string }) => item.id)).toEqual(['id1', 'id2']);
+      expect(logFile.getData('PUBLISH')).toEqual(['id1', 'id2']);
+      expect(console.log).toHaveBeenLastCalledWith('Published 2 content items.');
+      expect(process.exitCode).toEqual(0);
+    });
+
+    it('should publish content items matching the content type filter', async () => {
+      createContent();
+
+      await handler({ ...yargArgs, ...config, contentType: 'http://type2', force: true, logFile: new FileLog() });
+
+      expect(publishCalls.map((item: { id: string }) => item.id)).toEqual(['id3']);
+    });
+
+    it('should ask before publishing, and publish nothing when the answer is no', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (readline as any).setResponses(['n']);
+      createContent();
+
+      await handler({ ...yargArgs, ...config, logFile: new FileLog() });
+
+      expect(publishCalls.length).toEqual(0);
+    });
+
+    it('should report failed publish jobs, and not log them', async () => {
+      createContent();
+      jest.spyOn(PublishQueue.prototype, 'waitForAll').mockImplementation(async function(this: PublishQueue) {
+        this.failedJobs.push({ item: publishCalls[1], href: '//job' });
+      });
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const logFile = new FileLog();
+
+      await handler({ ...yargArgs, ...config, name: '/item/', force: true, logFile });
+
+      expect(logFile.getData('PUBLISH')).toEqual(['id1']);
+      expect(errorSpy).toHaveBeenCalledWith('ERROR: The publish job for item2 (id2) failed.');
+      expect(console.log).toHaveBeenLastCalledWith('Published 1 content items, with 1 failed jobs.');
+      expect(process.exitCode).toEqual(1);
+    });
+
+    it('should exit with an error when a publish fails to start', async () => {
+      createContent();
+      jest.spyOn(PublishQueue.prototype, 'publish').mockRejectedValueOnce(new Error('Publish failed'));
+      jest.spyOn(console, 'error').mockImplementation();
+      const logFile = new FileLog();
+
+      await handler({ ...yargArgs, ...config, name: '/item/', force: true, logFile });
+
+      expect(logFile.getData('PUBLISH')).toEqual(['id2']);
+      expect(process.exitCode).toEqual(1);
+    });
+
+    it('should publish unpublished dependencies first with --publishDependencies, and report them', async () => {
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('repo');
+      mockContent.registerContentType('http://type', 'type', 'repo');
+      mockContent.importItemTemplates([
+        { id: 'page', label: 'page', repoId: 'repo', typeSchemaUri: 'http://type', body: dependsOn(['slot']) },
+        { id: 'slot', label: 'slot', repoId: 'repo', typeSchemaUri: 'http://type', body: dependsOn(['link', 'done']) },
+        {
+          id: 'link',
+          label: 'link',
+          repoId: 'repo',
+          typeSchemaUri: 'http://type',
+          version: 2,
+          lastPublishedVersion: 1
+        },
+        { id: 'done', label: 'done', repoId: 'repo', typeSchemaUri: 'http://type', version: 1, lastPublishedVersion: 1 }
+      ]);
+      const waitSpy = jest.spyOn(PublishQueue.prototype, 'waitForAll');
+      const logFile = new FileLog();
+
+      await handler({ ...yargArgs, ...config, id: 'page', publishDependencies: true, force: true, logFile });
+
+      expect(publishCalls.map((item: { id: string }) => item.id)).toEqual(['link', 'slot', 'page']);
+      expect(waitSpy).toHaveBeenCalledTimes(3);
+      expect(logFile.getData('PUBLISH')).toEqual(['link', 'slot', 'page']);
+      expect(console.log).toHaveBeenCalledWith('The following dependencies will be published first:');
+      expect(console.log).toHaveBeenLastCalledWith('Published 1 content items and 2 dependencies.');
+    });
+
+    it('should publish the content items listed as UNPUBLISH in the --revertLog', async () => {
+      const dir = `temp_${process.env.JEST_WORKER_ID}/publish/`;
+      await ensureDirectoryExists(dir);
+      await promisify(writeFile)(dir + 'unpublish.log', '// Unpublish\nUNPUBLISH id2\nSUCCESS');
+      createContent();
+
+      await handler({ ...yargArgs, ...config, revertLog: dir + 'unpublish.log', force: true, logFile: new FileLog() });
+
+      expect(publishCalls.map((item: { id: string }) => item.id)).toEqual(['id2']);
+
+      await rimraf(dir);
+    });
+  });
+});
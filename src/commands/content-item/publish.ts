@@ -0,0 +1,202 @@
+import { Arguments, Argv } from 'yargs';
+import { ConfigurationParameters } from '../configure';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { ContentItem } from 'dc-management-sdk-js';
+import { confirmAction, contentItemFilterOptions, getFilteredContentItems } from '../../common/archive/archive-helpers';
+import { ConcurrencyArgument } from '../../common/concurrency';
+import { findPublishDependencies, PublishDependencies } from '../../common/content-item/publish-dependencies';
+import { FileLog } from '../../common/file-log';
+import { PublishQueue } from '../../common/import/publish-queue';
+import { createLog, getDefaultLogPath } from '../../common/log-helpers';
+import { PublishItemBuilderOptions } from '../../interfaces/publish-item-builder-options.interface';
+
+export const command = 'publish [id]';
+
+export const desc = 'Publish Content Items';
+
+export type PublishAction = 'publish' | 'unpublish';
+
+export const LOG_FILENAME = (platform: string = process.platform): string =>
+  getDefaultLogPath('content-item', 'publish', platform);
+
+export const coerceLog = (logFile: string): FileLog => createLog(logFile, 'Content Items Publish Log');
+
+export const builder = (yargs: Argv): void => {
+  contentItemFilterOptions(yargs, 'publish')
+    .option('revertLog', {
+      type: 'string',
+      describe:
+        'Path to a log file containing content items unpublished in a previous run of the unpublish command.\nWhen provided, publishes all content items listed as UNPUBLISH in the log file.',
+      requiresArg: false
+    })
+    .option('publishDependencies', {
+      type: 'boolean',
+      boolean: true,
+      describe:
+        'If present, content linked or referenced by the content items is also published when it is unpublished or has a newer version. Dependencies are published first, in dependency order.'
+    })
+    .option('logFile', {
+      type: 'string',
+      default: LOG_FILENAME,
+      describe: 'Path to a log file to write to.',
+      coerce: coerceLog
+    });
+};
+
+const describeItem = (item: ContentItem): string => `${item.label} (${item.id})`;
+
+// Starts a publish or unpublish job for each content item, then waits for all of them to complete.
+// Only items whose jobs completed are recorded in the log, so that it can be used to revert them.
+// When dependencies are given, each of their levels is published and waited for before the content items.
+export const processItems = async ({
+  action,
+  contentItems,
+  dependencies,
+  force,
+  silent,
+  logFile,
+  allContent,
+  missingContent,
+  queue
+}: {
+  action: PublishAction;
+  contentItems: ContentItem[];
+  dependencies?: PublishDependencies;
+  force?: boolean;
+  silent?: boolean;
+  logFile: FileLog;
+  allContent: boolean;
+  missingContent: boolean;
+  queue: PublishQueue;
+}): Promise<void> => {
+  if (contentItems.length == 0) {
+    console.log(`Nothing found to ${action}, aborting.`);
+    return;
+  }
+
+  console.log(`The following content items will be ${action}ed:`);
+  contentItems.forEach((contentItem: ContentItem) => {
+    console.log(` ${describeItem(contentItem)}`);
+  });
+  console.log(`Total: ${contentItems.length}`);
+
+  const dependencyLevels = dependencies ? dependencies.levels : [];
+  const dependencyItems = ([] as ContentItem[]).concat(...dependencyLevels);
+
+  if (dependencyItems.length > 0) {
+    console.log(`The following dependencies will be ${action}ed first:`);
+    dependencyItems.forEach((contentItem: ContentItem) => {
+      console.log(` ${describeItem(contentItem)}`);
+    });
+    console.log(`Total: ${dependencyItems.length}`);
+  }
+
+  if (!force) {
+    const yes = await confirmAction(action, 'content item', allContent, missingContent);
+    if (!yes) {
+      return;
+    }
+  }
+
+  const log = logFile.open();
+  const started: ContentItem[] = [];
+  let failedToStart = 0;
+
+  if (dependencies) {
+    dependencies.missing.forEach(id => log.warn(`Dependency ${id} could not be found or is archived, so was skipped.`));
+  }
+
+  const batches = [...dependencyLevels, contentItems];
+
+  log.progress.start(
+    action === 'publish' ? 'Publishing' : 'Unpublishing',
+    contentItems.length + dependencyItems.length
+  );
+
+  for (let i = 0; i < batches.length; i++) {
+    for (const item of batches[i]) {
+      try {
+        await queue[action](item);
+        started.push(item);
+      } catch (e) {
+        log.warn(`Failed to start ${action} for ${describeItem(item)}.`, e);
+        failedToStart++;
+      }
+
+      log.progress.increment();
+    }
+
+    if (i < batches.length - 1) {
+      // Dependencies must be complete before the content that links to them.
+      await queue.waitForAll();
+    }
+  }
+
+  log.progress.finish();
+
+  log.appendLine(`Waiting for all ${action}es to complete...`);
+  await queue.waitForAll();
+
+  const failed = queue.failedJobs.map(job => job.item);
+  failed.forEach(item => log.error(`The ${action} job for ${describeItem(item)} failed.`));
+
+  const completed = started.filter(item => failed.indexOf(item) === -1);
+  completed.forEach(item => log.addAction(action.toUpperCase(), item.id as string));
+
+  const completedDependencies = completed.filter(item => dependencyItems.indexOf(item) !== -1);
+  if (completedDependencies.length > 0) {
+    log.appendLine(
+      `Also ${action}ed ${completedDependencies.length} dependencies: ${completedDependencies
+        .map(describeItem)
+        .join(', ')}`
+    );
+  }
+
+  await log.close(!silent);
+
+  console.log(
+    `${action === 'publish' ? 'Published' : 'Unpublished'} ${completed.length -
+      completedDependencies.length} content items` +
+      (completedDependencies.length > 0 ? ` and ${completedDependencies.length} dependencies` : '') +
+      (failed.length > 0 ? `, with ${failed.length} failed jobs.` : '.')
+  );
+
+  if (failed.length > 0 || failedToStart > 0) {
+    process.exitCode = 1;
+  }
+};
+
+export const handler = async (
+  argv: Arguments<PublishItemBuilderOptions & ConfigurationParameters & ConcurrencyArgument>
+): Promise<void> => {
+  const { logFile, force, silent, publishDependencies } = argv;
+  const client = dynamicContentClientFactory(argv);
+
+  const filtered = await getFilteredContentItems(client, argv, 'publish', 'UNPUBLISH');
+  if (!filtered) {
+    return;
+  }
+
+  const { contentItems, missingContent, allContent } = filtered;
+
+  let dependencies: PublishDependencies | undefined;
+  if (publishDependencies && contentItems.length > 0) {
+    console.log('Finding dependencies...');
+    dependencies = await findPublishDependencies(client, contentItems);
+  }
+
+  await processItems({
+    action: 'publish',
+    contentItems,
+    dependencies,
+    force,
+    silent,
+    logFile,
+    allContent,
+    missingContent,
+    queue: new PublishQueue(argv)
+  });
+};
+
+// log format:
+// PUBLISH <content item id>
@@ -0,0 +1,181 @@
+import { builder, command, handler, LOG_FILENAME } from './rollback';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { MockContent } from '../../common/dc-management-sdk-js/mock-content';
+import { FileLog } from '../../common/file-log';
+import { getDefaultLogPath } from '../../common/log-helpers';
+import { ContentItem } from 'dc-management-sdk-js';
+import Yargs from 'yargs/yargs';
+import readline from 'readline';
+
+jest.mock('readline');
+jest.mock('../../services/dynamic-content-client-factory');
+jest.mock('../../common/log-helpers', () => ({
+  ...jest.requireActual('../../common/log-helpers'),
+  getDefaultLogPath: jest.fn()
+}));
+
+describe('content-item rollback command', () => {
+  const yargArgs = {
+    $0: 'test',
+    _: ['test']
+  };
+  const config = {
+    clientId: 'client-id',
+    clientSecret: 'client-id',
+    hubId: 'hub-id'
+  };
+
+  const versionDate = (version: number): string => `2020-0${version}-01T00:00:00.000Z`;
+
+  // Each version of an item has its version number in the title, and was made on the first of the month with that number.
+  const createContent = (): MockContent => {
+    const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+    mockContent.createMockRepository('repo');
+    mockContent.registerContentType('http://type', 'type', 'repo');
+    mockContent.importItemTemplates([
+      { id: 'id1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type', version: 3, body: { title: 'v3' } },
+      { id: 'id2', label: 'item2', repoId: 'repo', typeSchemaUri: 'http://type', version: 1, body: { title: 'v1' } },
+      { id: 'id3', label: 'item3', repoId: 'repo', typeSchemaUri: 'http://type', version: 4, body: { title: 'v4' } }
+    ]);
+
+    mockContent.items.forEach(item => {
+      item.lastModifiedDate = versionDate(item.version);
+      item.related.contentItemVersion = jest.fn(
+        async (version: number): Promise<ContentItem> =>
+          new ContentItem({
+            ...item.toJSON(),
+            version,
+            lastModifiedDate: versionDate(version),
+            body: { ...item.body, title: `v${version}` }
+          })
+      );
+    });
+
+    return mockContent;
+  };
+
+  const titles = (mockContent: MockContent): string[] => mockContent.items.map(item => item.body.title);
+
+  beforeEach(() => {
+    process.exitCode = 0;
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach((): void => {
+    process.exitCode = 0;
+    jest.restoreAllMocks();
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('rollback [id]');
+  });
+
+  it('should use getDefaultLogPath for LOG_FILENAME with process.platform as default', function() {
+    LOG_FILENAME();
+
+    expect(getDefaultLogPath).toHaveBeenCalledWith('content-item', 'rollback', process.platform);
+  });
+
+  describe('builder tests', function() {
+    it('should configure yargs, replacing the version flag with the version to restore', function() {
+      const argv = Yargs(process.argv.slice(2));
+      const spyOption = jest.spyOn(argv, 'option').mockReturnThis();
+      const spyVersion = jest.spyOn(argv, 'version').mockReturnThis();
+      jest.spyOn(argv, 'positional').mockReturnThis();
+      jest.spyOn(argv, 'alias').mockReturnThis();
+
+      builder(argv);
+
+      expect(spyVersion).toHaveBeenCalledWith(false);
+      expect(spyOption).toHaveBeenCalledWith('version', {
+        type: 'number',
+        describe: 'The version to restore the content item to. Requires a content item ID.'
+      });
+      expect(spyOption).toHaveBeenCalledWith('timestamp', {
+        type: 'string',
+        describe:
+          'A date and time, such as 2020-01-31T12:00:00Z. Each content item is restored to the version it had at that time.'
+      });
+    });
+  });
+
+  describe('handler tests', function() {
+    it('should restore the body of a chosen version as a new version, and log it', async () => {
+      const mockContent = createContent();
+      const logFile = new FileLog();
+
+      await handler({ ...yargArgs, ...config, id: 'id1', version: 1, force: true, logFile });
+
+      expect(titles(mockContent)).toEqual(['v1', 'v1', 'v4']);
+      expect(mockContent.items[0].version).toEqual(4);
+      expect(logFile.getData('UPDATE')).toEqual(['id1 3 4']);
+      expect(console.log).toHaveBeenLastCalledWith('Rolled back 1 content items.');
+    });
+
+    it('should roll back all matching content items to their state at a timestamp', async () => {
+      const mockContent = createContent();
+      const logFile = new FileLog();
+
+      await handler({
+        ...yargArgs,
+        ...config,
+        repoId: 'repo',
+        timestamp: '2020-02-15T00:00:00Z',
+        force: true,
+        logFile
+      });
+
+      // item2 only has one version, so is unchanged.
+      expect(titles(mockContent)).toEqual(['v2', 'v1', 'v2']);
+      expect(logFile.getData('UPDATE')).toEqual(['id1 3 4', 'id3 4 5']);
+    });
+
+    it('should skip content items that did not exist at the timestamp', async () => {
+      const mockContent = createContent();
+
+      await handler({
+        ...yargArgs,
+        ...config,
+        repoId: 'repo',
+        timestamp: '2019-12-01T00:00:00Z',
+        force: true,
+        logFile: new FileLog()
+      });
+
+      expect(titles(mockContent)).toEqual(['v3', 'v1', 'v4']);
+      expect(console.log).toHaveBeenCalledWith('item1 (id1) did not exist at 2019-12-01T00:00:00.000Z, skipping.');
+      expect(console.log).toHaveBeenLastCalledWith('Nothing found to roll back, aborting.');
+    });
+
+    it('should ask before rolling back, and change nothing when the answer is no', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (readline as any).setResponses(['n']);
+      const mockContent = createContent();
+
+      await handler({ ...yargArgs, ...config, id: 'id3', version: 2, logFile: new FileLog() });
+
+      expect(titles(mockContent)).toEqual(['v3', 'v1', 'v4']);
+    });
+
+    it('should fail unless exactly one of --version and --timestamp is given', async () => {
+      await handler({ ...yargArgs, ...config, id: 'id1', logFile: new FileLog() });
+      expect(process.exitCode).toEqual(1);
+
+      process.exitCode = 0;
+      await handler({ ...yargArgs, ...config, id: 'id1', version: 1, timestamp: '2020-01-01', logFile: new FileLog() });
+      expect(process.exitCode).toEqual(1);
+    });
+
+    it('should fail when a --version is given without a content item ID, or with an invalid timestamp', async () => {
+      await handler({ ...yargArgs, ...config, repoId: 'repo', version: 1, logFile: new FileLog() });
+      expect(console.error).toHaveBeenCalledWith(
+        'Rolling back to a --version requires the ID of a single content item.'
+      );
+
+      await handler({ ...yargArgs, ...config, repoId: 'repo', timestamp: 'yesterday', logFile: new FileLog() });
+      expect(console.error).toHaveBeenCalledWith('Could not parse the timestamp "yesterday".');
+      expect(process.exitCode).toEqual(1);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { Arguments, Argv } from 'yargs';
+import { ConfigurationParameters } from '../configure';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { ContentItem } from 'dc-management-sdk-js';
+import { confirmAction, contentItemFilterOptions, getFilteredContentItems } from '../../common/archive/archive-helpers';
+import { forEachConcurrently, ConcurrencyArgument } from '../../common/concurrency';
+import { findVersionAt, restoreVersion } from '../../common/content-item/version-history';
+import { FileLog } from '../../common/file-log';
+import { createLog, getDefaultLogPath } from '../../common/log-helpers';
+import { RollbackItemBuilderOptions } from '../../interfaces/rollback-item-builder-options.interface';
+
+export const command = 'rollback [id]';
+
+export const desc = 'Restore Content Items to an older version, or to their state at a given time';
+
+export const LOG_FILENAME = (platform: string = process.platform): string =>
+  getDefaultLogPath('content-item', 'rollback', platform);
+
+export const coerceLog = (logFile: string): FileLog => createLog(logFile, 'Content Items Rollback Log');
+
+export const builder = (yargs: Argv): void => {
+  contentItemFilterOptions(yargs, 'roll back', 'rolled back', 'rolling back')
+    // --version selects the version to restore, rather than showing the version of the CLI.
+    .version(false)
+    .option('version', {
+      type: 'number',
+      describe: 'The version to restore the content item to. Requires a content item ID.'
+    })
+    .option('timestamp', {
+      type: 'string',
+      describe:
+        'A date and time, such as 2020-01-31T12:00:00Z. Each content item is restored to the version it had at that time.'
+    })
+    .option('logFile', {
+      type: 'string',
+      default: LOG_FILENAME,
+      describe: 'Path to a log file to write to.',
+      coerce: coerceLog
+    });
+};
+
+export interface RollbackPlan {
+  item: ContentItem;
+  target: ContentItem;
+}
+
+// Finds the version each content item should be restored to. Items that would not change are left out.
+export const planRollback = async (
+  contentItems: ContentItem[],
+  version: number | undefined,
+  timestamp: Date | undefined
+): Promise<RollbackPlan[]> => {
+  const plans: RollbackPlan[] = [];
+
+  for (const item of contentItems) {
+    try {
+      if (version != null) {
+        if (version < 1 || version > item.version) {
+          console.log(`${item.label} (${item.id}) has no version ${version}, skipping.`);
+        } else if (version !== item.version) {
+          plans.push({ item, target: await item.related.contentItemVersion(version) });
+        }
+      } else if (timestamp != null) {
+        const target = await findVersionAt(item, timestamp);
+
+        if (target == null) {
+          console.log(`${item.label} (${item.id}) did not exist at ${timestamp.toISOString()}, skipping.`);
+        } else if (target.version !== item.version) {
+          plans.push({ item, target });
+        }
+      }
+    } catch (e) {
+      console.log(`Could not get the versions of ${item.label} (${item.id}), skipping.\n${e.toString()}`);
+    }
+  }
+
+  return plans;
+};
+
+export const handler = async (
+  argv: Arguments<RollbackItemBuilderOptions & ConfigurationParameters & ConcurrencyArgument>
+): Promise<void> => {
+  const { id, version, timestamp, logFile, force, silent, concurrency } = argv;
+
+  if ((version == null) === (timestamp == null)) {
+    console.error('Please specify either --version or --timestamp - not both.');
+    process.exitCode = 1;
+    return;
+  }
+
+  if (version != null && (id == null || Array.isArray(id))) {
+    console.error('Rolling back to a --version requires the ID of a single content item.');
+    process.exitCode = 1;
+    return;
+  }
+
+  const date = timestamp != null ? new Date(timestamp) : undefined;
+  if (date != null && isNaN(date.getTime())) {
+    console.error(`Could not parse the timestamp "${timestamp}".`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const client = dynamicContentClientFactory(argv);
+
+  const filtered = await getFilteredContentItems(client, argv, 'roll back', undefined, 'rolling back');
+  if (!filtered) {
+    return;
+  }
+
+  const { contentItems, missingContent, allContent } = filtered;
+
+  const plans = await planRollback(contentItems, version, date);
+
+  if (plans.length == 0) {
+    console.log('Nothing found to roll back, aborting.');
+    return;
+  }
+
+  console.log('The following content items will be rolled back:');
+  plans.forEach(({ item, target }) => {
+    console.log(` ${item.label} (${item.id}): version ${item.version} -> version ${target.version}`);
+  });
+  console.log(`Total: ${plans.length}`);
+
+  if (!force) {
+    const yes = await confirmAction('roll back', 'content item', allContent, missingContent);
+    if (!yes) {
+      return;
+    }
+  }
+
+  const log = logFile.open();
+
+  let successCount = 0;
+
+  log.progress.start('Rolling back', plans.length);
+
+  await forEachConcurrently(plans, concurrency, async ({ item, target }) => {
+    const oldVersion = item.version;
+
+    try {
+      const updated = await restoreVersion(item, target);
+
+      // The same format as an import log, so that an import revert can undo the rollback.
+      log.addAction('UPDATE', [item.id as string, `${oldVersion}`, `${updated.version}`]);
+      successCount++;
+    } catch (e) {
+      log.warn(`Failed to roll back ${item.label} (${item.id}), continuing.`, e);
+    } finally {
+      log.progress.increment();
+    }
+  });
+
+  log.progress.finish();
+
+  await log.close(!silent);
+
+  console.log(`Rolled back ${successCount} content items.`);
+};
+
+// log format:
+// UPDATE <content item id> <version before rollback> <version after rollback>
@@ -13,7 +13,8 @@ import { ensureDirectoryExists } from '../../common/import/directory-utils';
 import rmdir from 'rimraf';
 import { getDefaultLogPath } from '../../common/log-helpers';
 
-import { ItemTemplate } from '../../common/dc-management-sdk-js/mock-content';
+import { ItemTemplate, MockContent } from '../../common/dc-management-sdk-js/mock-content';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
 import { dependsOn } from '../../commands/content-item/__mocks__/dependant-content-helper';
 import { ContentItem, Status } from 'dc-management-sdk-js';
 
@@ -35,19 +36,59 @@ describe('content-item tree command', () => {
   });
 
   it('should command should defined', function() {
-    expect(command).toEqual('tree <dir>');
+    expect(command).toEqual('tree [dir]');
   });
 
   describe('builder tests', function() {
     it('should configure yargs', function() {
       const argv = Yargs(process.argv.slice(2));
       const spyPositional = jest.spyOn(argv, 'positional').mockReturnThis();
+      const spyOption = jest.spyOn(argv, 'option').mockReturnThis();
 
       builder(argv);
 
       expect(spyPositional).toHaveBeenCalledWith('dir', {
         type: 'string',
-        describe: 'Path to the content items to build a tree from. Should be in the same format as an export.'
+        describe:
+          'Path to the content items to build a tree from. Should be in the same format as an export. If not provided, content is loaded from the hub.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('repoId', {
+        type: 'string',
+        describe:
+          'The ID of a content repository to load content from, when no directory is given. Multiple --repoId options may be given.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('folderId', {
+        type: 'string',
+        describe:
+          'The ID of a folder to load content from, when no directory is given. Multiple --folderId options may be given.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('id', {
+        type: 'string',
+        describe:
+          'The ID of a content item to load, along with the content it depends on, when no directory is given. Multiple --id options may be given.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('format', {
+        type: 'string',
+        choices: ['text', 'dot', 'mermaid', 'json'],
+        default: 'text',
+        describe:
+          'The format to print the tree in. dot (Graphviz), mermaid and json print the full dependency graph, with circular links highlighted.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('root', {
+        type: 'string',
+        describe: 'The ID of a content item. Only the content reachable from this item is printed.'
+      });
+
+      expect(spyOption).toHaveBeenCalledWith('dependants', {
+        type: 'boolean',
+        boolean: true,
+        describe:
+          'Print the content that depends on the item given with --root or --id, rather than the content it depends on. With --id, the content in the hub, or the repositories given with --repoId, is searched for dependants.'
       });
     });
   });
@@ -281,6 +322,134 @@ describe('content-item tree command', () => {
       expect(consoleLogSpy.mock.calls.map(args => args[0]).join('\n')).toMatchSnapshot();
     });
 
+    const createGraphContent = async (name: string): Promise<string> => {
+      const basePath = `temp_${process.env.JEST_WORKER_ID}/tree/${name}/repo1`;
+      await ensureDirectoryExists(basePath);
+
+      const shared = { typeSchemaUri: 'http://type.com', repoId: 'repo1' };
+
+      await createContent(basePath, { label: 'item1', id: 'id1', body: dependsOn(['id2', 'id3']), ...shared });
+      await createContent(basePath, { label: 'item2', id: 'id2', body: dependsOn(['id4']), ...shared });
+      await createContent(basePath, { label: 'item3', id: 'id3', body: {}, ...shared });
+      await createContent(basePath, { label: 'item4', id: 'id4', body: dependsOn(['id1']), ...shared });
+      await createContent(basePath, { label: 'item5', id: 'id5', body: dependsOn(['id3']), ...shared });
+
+      return `temp_${process.env.JEST_WORKER_ID}/tree/${name}`;
+    };
+
+    it('should print the dependency graph in the DOT format', async () => {
+      const dir = await createGraphContent('dot');
+
+      await handler({ ...yargArgs, ...config, dir, format: 'dot' });
+
+      expect(consoleLogSpy.mock.calls.map(args => args[0]).join('\n')).toMatchSnapshot();
+    });
+
+    it('should print the dependency graph in the mermaid format', async () => {
+      const dir = await createGraphContent('mermaid');
+
+      await handler({ ...yargArgs, ...config, dir, format: 'mermaid' });
+
+      expect(consoleLogSpy.mock.calls.map(args => args[0]).join('\n')).toMatchSnapshot();
+    });
+
+    it('should print the graph reachable from the root item as json', async () => {
+      const dir = await createGraphContent('json');
+
+      await handler({ ...yargArgs, ...config, dir, format: 'json', root: 'id2' });
+
+      const graph = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+      expect(graph.nodes.map((node: { id: string }) => node.id)).toEqual(['id1', 'id2', 'id3', 'id4']);
+      expect(graph.edges).toContainEqual({ from: 'id1', to: 'id3', type: 'link', circular: false });
+      expect(graph.edges).toContainEqual({ from: 'id4', to: 'id1', type: 'link', circular: true });
+    });
+
+    it('should print the text tree from the root item only', async () => {
+      const dir = await createGraphContent('root');
+
+      await handler({ ...yargArgs, ...config, dir, root: 'id5' });
+
+      expect(consoleLogSpy.mock.calls.map(args => args[0]).join('\n')).toEqual('item5 \n└─ item3 \n');
+    });
+
+    it('should print an error when the root item is not in the content', async () => {
+      const dir = await createGraphContent('missing');
+
+      await handler({ ...yargArgs, ...config, dir, format: 'dot', root: 'missing' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Could not find content item missing.');
+      expect(consoleLogSpy).not.toHaveBeenCalled();
+      process.exitCode = 0;
+    });
+
+    const createHubContent = (): MockContent => {
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.createMockRepository('repo1');
+      mockContent.createMockRepository('repo2');
+      mockContent.registerContentType('http://type.com', 'type', ['repo1', 'repo2']);
+
+      const shared = { typeSchemaUri: 'http://type.com' };
+      mockContent.importItemTemplates([
+        { label: 'item1', id: 'id1', repoId: 'repo1', body: dependsOn(['id2']), ...shared },
+        { label: 'item2', id: 'id2', repoId: 'repo2', body: dependsOn(['id3']), ...shared },
+        { label: 'item3', id: 'id3', repoId: 'repo2', body: {}, ...shared },
+        { label: 'item4', id: 'id4', repoId: 'repo1', body: dependsOn(['id3']), ...shared },
+        { label: 'item5', id: 'id5', repoId: 'repo1', body: {}, ...shared }
+      ]);
+
+      return mockContent;
+    };
+
+    const output = (): string => consoleLogSpy.mock.calls.map(args => args[0]).join('\n');
+
+    it('should load content from the given repositories in the hub, along with the content it depends on', async () => {
+      createHubContent();
+
+      await handler({ ...yargArgs, ...config, repoId: 'repo1' });
+
+      expect(output()).toMatchSnapshot();
+    });
+
+    it('should load content items by id from the hub, along with the content they depend on', async () => {
+      createHubContent();
+
+      await handler({ ...yargArgs, ...config, id: 'id1', format: 'json' });
+
+      const graph = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+      expect(graph.nodes.map((node: { id: string; repository: string }) => [node.id, node.repository])).toEqual([
+        ['id1', 'repo1'],
+        ['id2', 'repo2'],
+        ['id3', 'repo2']
+      ]);
+    });
+
+    it('should print the content in the hub that depends on the given content item', async () => {
+      createHubContent();
+
+      await handler({ ...yargArgs, ...config, id: 'id3', dependants: true });
+
+      expect(output()).toEqual('item3 \n├─ item2 \n│  └─ item1 \n└─ item4 \n');
+    });
+
+    it('should print the dependants of the root item in exported content', async () => {
+      const dir = await createGraphContent('dependants');
+
+      await handler({ ...yargArgs, ...config, dir, root: 'id3', dependants: true, format: 'json' });
+
+      const graph = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+      expect(graph.nodes.map((node: { id: string }) => node.id)).toEqual(['id1', 'id2', 'id3', 'id4', 'id5']);
+    });
+
+    it('should print an error when dependants are requested without an item', async () => {
+      await handler({ ...yargArgs, ...config, dependants: true });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Provide the content item to print the dependants of with --root or --id.'
+      );
+      expect(process.exitCode).toEqual(1);
+      process.exitCode = 0;
+    });
+
     it('should print an error when invalid json is found', async () => {
       const basePath = `temp_${process.env.JEST_WORKER_ID}/tree/invalud/repo1`;
       await ensureDirectoryExists(basePath);
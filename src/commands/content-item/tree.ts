@@ -5,30 +5,74 @@ import { ConfigurationParameters } from '../configure';
 import { lstat, readdir, readFile } from 'fs';
 import { promisify } from 'util';
 
-import { ContentItem, ContentRepository } from 'dc-management-sdk-js';
+import { ContentItem, ContentRepository, DynamicContent, Status } from 'dc-management-sdk-js';
 import {
   ContentDependancyTree,
   ItemContentDependancies,
   RepositoryContentItem
 } from '../../common/content-item/content-dependancy-tree';
 import { ContentMapping } from '../../common/content-mapping';
+import { buildDependencyGraph, GraphFormat, renderGraph } from '../../common/content-item/dependency-graph';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import paginator from '../../common/dc-management-sdk-js/paginator';
 
-export const command = 'tree <dir>';
+export const command = 'tree [dir]';
 
-export const desc = 'Print a content dependency tree from content in the given folder.';
+export const desc =
+  'Print a content dependency tree from content in the given folder, or from content in the hub when no folder is given.';
 
 export const LOG_FILENAME = (platform: string = process.platform): string =>
   getDefaultLogPath('item', 'tree', platform);
 
 export const builder = (yargs: Argv): void => {
-  yargs.positional('dir', {
-    type: 'string',
-    describe: 'Path to the content items to build a tree from. Should be in the same format as an export.'
-  });
+  yargs
+    .positional('dir', {
+      type: 'string',
+      describe:
+        'Path to the content items to build a tree from. Should be in the same format as an export. If not provided, content is loaded from the hub.'
+    })
+    .option('repoId', {
+      type: 'string',
+      describe:
+        'The ID of a content repository to load content from, when no directory is given. Multiple --repoId options may be given.'
+    })
+    .option('folderId', {
+      type: 'string',
+      describe:
+        'The ID of a folder to load content from, when no directory is given. Multiple --folderId options may be given.'
+    })
+    .option('id', {
+      type: 'string',
+      describe:
+        'The ID of a content item to load, along with the content it depends on, when no directory is given. Multiple --id options may be given.'
+    })
+    .option('format', {
+      type: 'string',
+      choices: ['text', 'dot', 'mermaid', 'json'],
+      default: 'text',
+      describe:
+        'The format to print the tree in. dot (Graphviz), mermaid and json print the full dependency graph, with circular links highlighted.'
+    })
+    .option('root', {
+      type: 'string',
+      describe: 'The ID of a content item. Only the content reachable from this item is printed.'
+    })
+    .option('dependants', {
+      type: 'boolean',
+      boolean: true,
+      describe:
+        'Print the content that depends on the item given with --root or --id, rather than the content it depends on. With --id, the content in the hub, or the repositories given with --repoId, is searched for dependants.'
+    });
 };
 
 interface TreeOptions {
-  dir: string;
+  dir?: string;
+  format?: 'text' | GraphFormat;
+  root?: string;
+  repoId?: string | string[];
+  folderId?: string | string[];
+  id?: string | string[];
+  dependants?: boolean;
 }
 
 export const traverseRecursive = async (path: string, action: (path: string) => Promise<void>): Promise<void> => {
@@ -79,6 +123,84 @@ export const prepareContentForTree = async (repo: {
   return new ContentDependancyTree(contentItems, new ContentMapping());
 };
 
+const toArray = (value?: string | string[]): string[] => (value == null ? [] : Array.isArray(value) ? value : [value]);
+
+const unresolvedDependancies = (items: RepositoryContentItem[]): string[] => {
+  const tree = new ContentDependancyTree(items, new ContentMapping());
+  const ids = new Set<string>();
+  tree.all.forEach(item =>
+    item.dependancies.filter(dep => dep.resolved == null).forEach(dep => ids.add(dep.dependancy.id as string))
+  );
+
+  return Array.from(ids);
+};
+
+/**
+ * Loads content items from the hub to build a tree from, in the given repositories, folders, or by ID.
+ * With no repositories or folders, all content in the hub is loaded, unless only IDs are given and dependants are not
+ * needed. Content that the loaded items depend on is also loaded, so that the tree is complete.
+ */
+export const loadContentForTree = async (
+  client: DynamicContent,
+  options: {
+    hubId: string;
+    repoId?: string | string[];
+    folderId?: string | string[];
+    id?: string | string[];
+    dependants?: boolean;
+  }
+): Promise<RepositoryContentItem[]> => {
+  const { hubId, repoId, folderId, id, dependants } = options;
+  const items = new Map<string, RepositoryContentItem>();
+  const add = (repo: ContentRepository, content: ContentItem): void => {
+    items.set(content.id as string, { repo, content });
+  };
+
+  if (folderId != null) {
+    for (const folder of await Promise.all(toArray(folderId).map(id => client.folders.get(id)))) {
+      const repo = await folder.related.contentRepository();
+      const folderItems = await paginator(folder.related.contentItems.list);
+      folderItems.filter(item => item.status === Status.ACTIVE).forEach(item => add(repo, item));
+    }
+  }
+
+  // Dependants can only be found by searching the content that links to them, so they need more than the given items.
+  if (repoId != null || (folderId == null && (id == null || dependants))) {
+    const hub = await client.hubs.get(hubId);
+    const repos = await (repoId != null
+      ? Promise.all(toArray(repoId).map(id => client.contentRepositories.get(id)))
+      : paginator(hub.related.contentRepositories.list));
+
+    for (const repo of repos) {
+      const repoItems = await paginator(repo.related.contentItems.list, { status: Status.ACTIVE });
+      repoItems.forEach(item => add(repo, item));
+    }
+  }
+
+  // Content requested by ID, and the content that loaded items depend on, is fetched one item at a time.
+  const missing = new Set<string>();
+  let ids = [...toArray(id), ...unresolvedDependancies(Array.from(items.values()))].filter(id => !items.has(id));
+  while (ids.length > 0) {
+    for (const id of ids) {
+      try {
+        const item = await client.contentItems.get(id);
+
+        if (item.status === Status.ACTIVE) {
+          add(await item.related.contentRepository(), item);
+        } else {
+          missing.add(id);
+        }
+      } catch {
+        missing.add(id);
+      }
+    }
+
+    ids = unresolvedDependancies(Array.from(items.values())).filter(id => !missing.has(id));
+  }
+
+  return Array.from(items.values());
+};
+
 type LineIndexFrom = number;
 type LineIndexTo = number;
 type CircularLink = [LineIndexFrom, LineIndexTo];
@@ -99,7 +221,7 @@ export class TreeBuilder {
   lines: string[] = [];
   circularLinks: CircularLink[] = [];
 
-  constructor(public evaluated: Set<ItemContentDependancies>) {}
+  constructor(public evaluated: Set<ItemContentDependancies>, public dependants = false) {}
 
   addDependency(item: ItemContentDependancies, evalThis: ParentReference[], fst: number, prefix: string): boolean {
     const depth = evalThis.length - 1;
@@ -122,7 +244,8 @@ export class TreeBuilder {
     evalThis.push({ item, line: this.lines.length - 1 });
     this.evaluated.add(item);
 
-    const filteredItems = item.dependancies.filter(dep => dep.resolved);
+    const links = this.dependants ? item.dependants : item.dependancies;
+    const filteredItems = links.filter(dep => dep.resolved);
     filteredItems.forEach((dep, index) => {
       const subFst = firstSecondThird(index, filteredItems.length);
       const subPrefix = depth == -1 ? '' : fst === 2 ? '   ' : '│  ';
@@ -153,8 +276,12 @@ export const fillWhitespace = (original: string, current: string, char: string,
   return current;
 };
 
-export const printTree = (item: ItemContentDependancies, evaluated: Set<ItemContentDependancies>): boolean => {
-  const builder = new TreeBuilder(evaluated);
+export const printTree = (
+  item: ItemContentDependancies,
+  evaluated: Set<ItemContentDependancies>,
+  dependants = false
+): boolean => {
+  const builder = new TreeBuilder(evaluated, dependants);
 
   const result = builder.addDependency(item, [], 0, '');
 
@@ -201,9 +328,54 @@ export const printTree = (item: ItemContentDependancies, evaluated: Set<ItemCont
 };
 
 export const handler = async (argv: Arguments<TreeOptions & ConfigurationParameters>): Promise<void> => {
-  const dir = argv.dir;
+  const { dir, root, id, dependants } = argv;
+  const format = argv.format || 'text';
+
+  // With --dependants, the items given by ID are the roots of the tree.
+  const roots = root != null ? [root] : dependants ? toArray(id) : [];
+  if (dependants && roots.length === 0) {
+    console.error('Provide the content item to print the dependants of with --root or --id.');
+    process.exitCode = 1;
+    return;
+  }
+
+  let tree: ContentDependancyTree;
+  if (dir != null) {
+    tree = await prepareContentForTree({ basePath: dir, repo: new ContentRepository() });
+  } else {
+    try {
+      const items = await loadContentForTree(dynamicContentClientFactory(argv), argv);
+      tree = new ContentDependancyTree(items, new ContentMapping());
+    } catch (e) {
+      console.error(`Could not load content from the hub: ${e.toString()}`);
+      process.exitCode = 1;
+      return;
+    }
+  }
 
-  const tree = await prepareContentForTree({ basePath: dir, repo: new ContentRepository() });
+  if (format !== 'text') {
+    try {
+      console.log(renderGraph(buildDependencyGraph(tree, roots, dependants), format));
+    } catch (e) {
+      console.error(e.message);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  if (roots.length > 0) {
+    const evaluated = new Set<ItemContentDependancies>();
+    roots.forEach(root => {
+      const item = tree.byId.get(root);
+      if (item == null) {
+        console.error(`Could not find content item ${root}.`);
+        process.exitCode = 1;
+      } else {
+        printTree(item, evaluated, dependants);
+      }
+    });
+    return;
+  }
 
   // Print the items in the tree.
   // Keep a set of all items that have already been printed.
@@ -3,11 +3,12 @@ import { ConfigurationParameters } from '../configure';
 import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
 import { ArchiveLog } from '../../common/archive/archive-log';
 import paginator from '../../common/dc-management-sdk-js/paginator';
-import { confirmArchive } from '../../common/archive/archive-helpers';
+import { confirmAction } from '../../common/archive/archive-helpers';
 import UnarchiveOptions from '../../common/archive/unarchive-options';
 import { ContentItem, DynamicContent, Status } from 'dc-management-sdk-js';
 import { equalsOrRegex } from '../../common/filter/filter';
 import { getDefaultLogPath } from '../../common/log-helpers';
+import { forEachConcurrently, ConcurrencyArgument } from '../../common/concurrency';
 
 export const command = 'unarchive [id]';
 
@@ -89,14 +90,13 @@ export const filterContentItems = async ({
 
     if (revertLog != null) {
       const log = await new ArchiveLog().loadFromFile(revertLog);
-      const archived = log.getData('ARCHIVE');
-      const items = archived.map(args => args.split(' '));
+      const archived = log.getArgs('ARCHIVE');
 
       // The archive actions may include delivery keys that were removed.
       // Add these back to the content item, which will cause the unarchive to assign them later.
       const contentItemsFiltered = contentItems
         .map(contentItem => {
-          const entry = items.find(item => item[0] === contentItem.id || '');
+          const entry = archived.find(item => item[0] === contentItem.id || '');
           if (entry) {
             contentItem.body._meta.deliveryKey = entry[1];
             return contentItem;
@@ -238,7 +238,8 @@ export const processItems = async ({
   logFile,
   allContent,
   missingContent,
-  ignoreError
+  ignoreError,
+  concurrency
 }: {
   contentItems: ContentItem[];
   force?: boolean;
@@ -247,6 +248,7 @@ export const processItems = async ({
   allContent: boolean;
   missingContent: boolean;
   ignoreError?: boolean;
+  concurrency?: number;
 }): Promise<void> => {
   if (contentItems.length == 0) {
     console.log('Nothing found to unarchive, aborting.');
@@ -260,7 +262,7 @@ export const processItems = async ({
   console.log(`Total: ${contentItems.length}`);
 
   if (!force) {
-    const yes = await confirmArchive('unarchive', 'content item', allContent, missingContent);
+    const yes = await confirmAction('unarchive', 'content item', allContent, missingContent);
     if (!yes) {
       return;
     }
@@ -271,7 +273,7 @@ export const processItems = async ({
 
   let successCount = 0;
 
-  for (let i = 0; i < contentItems.length; i++) {
+  await forEachConcurrently(contentItems, concurrency, async (_, i) => {
     try {
       const deliveryKey = contentItems[i].body._meta.deliveryKey;
       contentItems[i] = await contentItems[i].related.unarchive();
@@ -292,10 +294,10 @@ export const processItems = async ({
         log.warn(`Failed to unarchive ${contentItems[i].label} (${contentItems[i].id}), continuing.`, e);
       } else {
         log.error(`Failed to unarchive ${contentItems[i].label} (${contentItems[i].id}), aborting.`, e);
-        break;
+        return false;
       }
     }
-  }
+  });
 
   if (!silent && logFile) {
     await log.writeToFile(logFile.replace('<DATE>', timestamp));
@@ -304,8 +306,23 @@ export const processItems = async ({
   console.log(`Unarchived ${successCount} content items.`);
 };
 
-export const handler = async (argv: Arguments<UnarchiveOptions & ConfigurationParameters>): Promise<void> => {
-  const { id, logFile, force, silent, ignoreError, hubId, revertLog, repoId, folderId, name, contentType } = argv;
+export const handler = async (
+  argv: Arguments<UnarchiveOptions & ConfigurationParameters & ConcurrencyArgument>
+): Promise<void> => {
+  const {
+    id,
+    logFile,
+    force,
+    silent,
+    ignoreError,
+    hubId,
+    revertLog,
+    repoId,
+    folderId,
+    name,
+    contentType,
+    concurrency
+  } = argv;
   const client = dynamicContentClientFactory(argv);
 
   const allContent = !id && !name && !contentType && !revertLog && !folderId && !repoId;
@@ -345,7 +362,8 @@ export const handler = async (argv: Arguments<UnarchiveOptions & ConfigurationPa
     logFile,
     allContent,
     missingContent,
-    ignoreError
+    ignoreError,
+    concurrency
   });
 };
 
@@ -0,0 +1,92 @@
+import { command, handler, LOG_FILENAME } from './unpublish';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import * as publishQueue from '../../common/import/publish-queue';
+import { MockContent, ItemTemplate } from '../../common/dc-management-sdk-js/mock-content';
+import { FileLog } from '../../common/file-log';
+import { getDefaultLogPath } from '../../common/log-helpers';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
+import { writeFile } from 'fs';
+import { promisify } from 'util';
+import rmdir from 'rimraf';
+
+jest.mock('readline');
+jest.mock('../../services/dynamic-content-client-factory');
+jest.mock('../../common/import/publish-queue');
+jest.mock('../../common/log-helpers', () => ({
+  ...jest.requireActual('../../common/log-helpers'),
+  getDefaultLogPath: jest.fn()
+}));
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+describe('content-item unpublish command', () => {
+  const yargArgs = {
+    $0: 'test',
+    _: ['test']
+  };
+  const config = {
+    clientId: 'client-id',
+    clientSecret: 'client-id',
+    hubId: 'hub-id'
+  };
+
+  const templates: ItemTemplate[] = [
+    { id: 'id1', label: 'item1', repoId: 'repo', typeSchemaUri: 'http://type', lastPublishedVersion: 1 },
+    { id: 'id2', label: 'item2', repoId: 'repo', typeSchemaUri: 'http://type', lastPublishedVersion: 1 }
+  ];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const unpublishCalls = (publishQueue as any).unpublishCalls;
+
+  beforeEach(() => {
+    unpublishCalls.splice(0, unpublishCalls.length);
+    jest.spyOn(console, 'log').mockImplementation();
+
+    const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+    mockContent.createMockRepository('repo');
+    mockContent.registerContentType('http://type', 'type', 'repo');
+    mockContent.importItemTemplates(templates);
+  });
+
+  afterEach((): void => {
+    jest.restoreAllMocks();
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('unpublish [id]');
+  });
+
+  it('should use getDefaultLogPath for LOG_FILENAME with process.platform as default', function() {
+    LOG_FILENAME();
+
+    expect(getDefaultLogPath).toHaveBeenCalledWith('content-item', 'unpublish', process.platform);
+  });
+
+  describe('handler tests', function() {
+    it('should unpublish a content item by id, and log it', async () => {
+      const logFile = new FileLog();
+
+      await handler({ ...yargArgs, ...config, id: 'id2', force: true, logFile });
+
+      expect(unpublishCalls.map((item: { id: string }) => item.id)).toEqual(['id2']);
+      expect(logFile.getData('UNPUBLISH')).toEqual(['id2']);
+      expect(console.log).toHaveBeenLastCalledWith('Unpublished 1 content items.');
+    });
+
+    it('should unpublish the content items listed as PUBLISH in the --revertLog', async () => {
+      const dir = `temp_${process.env.JEST_WORKER_ID}/unpublish/`;
+      await ensureDirectoryExists(dir);
+      await promisify(writeFile)(dir + 'publish.log', '// Publish\nPUBLISH id1\nSUCCESS');
+
+      await handler({ ...yargArgs, ...config, revertLog: dir + 'publish.log', force: true, logFile: new FileLog() });
+
+      expect(unpublishCalls.map((item: { id: string }) => item.id)).toEqual(['id1']);
+
+      await rimraf(dir);
+    });
+  });
+});
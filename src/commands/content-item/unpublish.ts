@@ -0,0 +1,63 @@
+import { Arguments, Argv } from 'yargs';
+import { ConfigurationParameters } from '../configure';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { contentItemFilterOptions, getFilteredContentItems } from '../../common/archive/archive-helpers';
+import { ConcurrencyArgument } from '../../common/concurrency';
+import { FileLog } from '../../common/file-log';
+import { PublishQueue } from '../../common/import/publish-queue';
+import { createLog, getDefaultLogPath } from '../../common/log-helpers';
+import { PublishItemBuilderOptions } from '../../interfaces/publish-item-builder-options.interface';
+import { processItems } from './publish';
+
+export const command = 'unpublish [id]';
+
+export const desc = 'Unpublish Content Items';
+
+export const LOG_FILENAME = (platform: string = process.platform): string =>
+  getDefaultLogPath('content-item', 'unpublish', platform);
+
+export const coerceLog = (logFile: string): FileLog => createLog(logFile, 'Content Items Unpublish Log');
+
+export const builder = (yargs: Argv): void => {
+  contentItemFilterOptions(yargs, 'unpublish')
+    .option('revertLog', {
+      type: 'string',
+      describe:
+        'Path to a log file containing content items published in a previous run of the publish command.\nWhen provided, unpublishes all content items listed as PUBLISH in the log file.',
+      requiresArg: false
+    })
+    .option('logFile', {
+      type: 'string',
+      default: LOG_FILENAME,
+      describe: 'Path to a log file to write to.',
+      coerce: coerceLog
+    });
+};
+
+export const handler = async (
+  argv: Arguments<PublishItemBuilderOptions & ConfigurationParameters & ConcurrencyArgument>
+): Promise<void> => {
+  const { logFile, force, silent } = argv;
+  const client = dynamicContentClientFactory(argv);
+
+  const filtered = await getFilteredContentItems(client, argv, 'unpublish', 'PUBLISH');
+  if (!filtered) {
+    return;
+  }
+
+  const { contentItems, missingContent, allContent } = filtered;
+
+  await processItems({
+    action: 'unpublish',
+    contentItems,
+    force,
+    silent,
+    logFile,
+    allContent,
+    missingContent,
+    queue: new PublishQueue(argv)
+  });
+};
+
+// log format:
+// UNPUBLISH <content item id>
@@ -0,0 +1,176 @@
+import { command, handler } from './validate';
+import { toJsonPointer } from '../../common/content-item/amplience-schema-validator';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
+import { writeFile } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import rmdir from 'rimraf';
+import fetch from 'node-fetch';
+
+jest.mock('node-fetch');
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+describe('content-item validate command', () => {
+  const yargArgs = {
+    $0: 'test',
+    _: ['test']
+  };
+
+  const baseDir = `temp_${process.env.JEST_WORKER_ID}/validate/`;
+  const contentDir = join(baseDir, 'content');
+  const schemaDir = join(baseDir, 'schemas');
+
+  const schemaBody = {
+    $schema: 'http://bigcontent.io/cms/schema/v1/schema#',
+    id: 'http://type',
+    allOf: [{ $ref: 'http://bigcontent.io/cms/schema/v1/core#/definitions/content' }],
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      links: {
+        type: 'array',
+        items: { allOf: [{ $ref: 'http://bigcontent.io/cms/schema/v1/core#/definitions/content-link' }] }
+      }
+    },
+    required: ['title']
+  };
+
+  const link = (id: string): object => ({
+    _meta: { schema: 'http://bigcontent.io/cms/schema/v1/core#/definitions/content-link' },
+    contentType: 'http://type',
+    id
+  });
+
+  const item = (id: string, body: object, deliveryKey?: string): object => ({
+    id,
+    label: id,
+    body: { _meta: { schema: 'http://type', deliveryKey }, ...body }
+  });
+
+  const writeJson = async (path: string, json: object): Promise<void> => {
+    await promisify(writeFile)(path, JSON.stringify(json));
+  };
+
+  const writeSchema = async (body: object = schemaBody): Promise<void> => {
+    await ensureDirectoryExists(join(schemaDir, 'schemas'));
+    await writeJson(join(schemaDir, 'schemas', 'type.json'), body);
+    await writeJson(join(schemaDir, 'type.json'), { schemaId: 'http://type', body: './schemas/type.json' });
+  };
+
+  const writeContent = async (items: object[]): Promise<void> => {
+    await ensureDirectoryExists(join(contentDir, 'folder'));
+    for (let i = 0; i < items.length; i++) {
+      await writeJson(join(contentDir, i % 2 ? 'folder' : '', `item${i}.json`), items[i]);
+    }
+  };
+
+  const output = (): string => (console.log as jest.Mock).mock.calls.map(call => call[0]).join('\n');
+
+  beforeEach(async () => {
+    process.exitCode = 0;
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    await rimraf(baseDir);
+  });
+
+  afterEach(async () => {
+    process.exitCode = 0;
+    jest.restoreAllMocks();
+    await rimraf(baseDir);
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('validate <dir>');
+  });
+
+  describe('toJsonPointer tests', () => {
+    it('should convert ajv data paths to JSON pointers', () => {
+      expect(toJsonPointer('')).toEqual('');
+      expect(toJsonPointer('.links[0].title')).toEqual('/links/0/title');
+      expect(toJsonPointer(".links[1]['delivery-key']['a/b']")).toEqual('/links/1/delivery-key/a~1b');
+    });
+  });
+
+  describe('handler tests', () => {
+    it('should pass valid content with resolved links, without fetching anything', async () => {
+      await writeSchema();
+      await writeContent([item('id1', { title: 'one', links: [link('id2')] }, 'key1'), item('id2', { title: 'two' })]);
+
+      await handler({ ...yargArgs, dir: contentDir, schemaDir });
+
+      expect(process.exitCode).toEqual(0);
+      expect(console.log).toHaveBeenLastCalledWith('Validated 2 content items: no errors found.');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should report schema errors per file with JSON pointers, and exit with a non-zero code', async () => {
+      await writeSchema();
+      await writeContent([item('id1', { title: 5 }), item('id2', {})]);
+
+      await handler({ ...yargArgs, dir: contentDir, schemaDir });
+
+      expect(process.exitCode).toEqual(1);
+      expect(output()).toContain(join(contentDir, 'item0.json') + '\n  /body/title: should be string');
+      expect(output()).toContain(
+        join(contentDir, 'folder', 'item1.json') + "\n  /body: should have required property 'title'"
+      );
+      expect(console.log).toHaveBeenLastCalledWith('Validated 2 content items: found 2 errors in 2 files.');
+    });
+
+    it('should report unresolved content links and duplicate delivery keys', async () => {
+      await writeSchema();
+      await writeContent([
+        item('id1', { title: 'one', links: [link('id2'), link('missing')] }, 'key'),
+        item('id2', { title: 'two' }, 'key')
+      ]);
+
+      await handler({ ...yargArgs, dir: contentDir, schemaDir });
+
+      expect(output()).toContain(
+        '  /body/links/1: Links to content item missing, which is not in the exported content.'
+      );
+      expect(output()).toContain(
+        `  /body/_meta/deliveryKey: The delivery key "key" is also used by ${join(contentDir, 'folder', 'item1.json')}.`
+      );
+      expect(process.exitCode).toEqual(1);
+    });
+
+    it('should report content whose schema is not in the schema directory', async () => {
+      await writeSchema();
+      await writeContent([{ id: 'id1', body: { _meta: { schema: 'http://other' } } }]);
+
+      await handler({ ...yargArgs, dir: contentDir, schemaDir });
+
+      expect(output()).toContain(
+        '  /body/_meta/schema: Could not validate with the schema http://other: Could not find the schema http://other locally.'
+      );
+      expect(fetch).not.toHaveBeenCalled();
+      expect(process.exitCode).toEqual(1);
+    });
+
+    it('should report files that are not valid content items', async () => {
+      await writeSchema();
+      await ensureDirectoryExists(contentDir);
+      await promisify(writeFile)(join(contentDir, 'broken.json'), '{ not json');
+
+      await handler({ ...yargArgs, dir: contentDir, schemaDir });
+
+      expect(output()).toContain(join(contentDir, 'broken.json') + '\n  /: Could not read the file');
+      expect(process.exitCode).toEqual(1);
+    });
+
+    it('should fail when a directory does not exist', async () => {
+      await writeSchema();
+
+      await handler({ ...yargArgs, dir: join(baseDir, 'missing'), schemaDir });
+
+      expect(console.error).toHaveBeenCalledWith(`Could not find the directory ${join(baseDir, 'missing')}.`);
+      expect(process.exitCode).toEqual(1);
+    });
+  });
+});
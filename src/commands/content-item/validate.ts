@@ -0,0 +1,230 @@
+import { Arguments, Argv } from 'yargs';
+import { extname, relative, resolve } from 'path';
+import { existsSync, readFile } from 'fs';
+import { promisify } from 'util';
+import { ContentTypeSchema } from 'dc-management-sdk-js';
+import {
+  AmplienceSchemaValidator,
+  describeSchemaError,
+  toJsonPointer
+} from '../../common/content-item/amplience-schema-validator';
+import { coreSchemaLookup } from '../../common/content-item/core-schema';
+import { referenceTypes } from '../../common/content-item/content-dependancy-tree';
+import { loadJsonFromDirectory } from '../../services/import.service';
+import { resolveSchemaBody } from '../../services/resolve-schema-body';
+import { escapePointer } from '../../common/json-diff/json-diff';
+import { traverseRecursive } from './tree';
+
+export const command = 'validate <dir>';
+
+export const desc =
+  'Validate exported Content Items against exported Content Type Schemas, offline and without connecting to a hub';
+
+export const builder = (yargs: Argv): void => {
+  yargs
+    .positional('dir', {
+      describe: 'Directory containing the exported content items to validate.',
+      type: 'string'
+    })
+    .option('schemaDir', {
+      type: 'string',
+      describe:
+        'Directory containing content type schemas exported with the content-type-schema export command. Schemas are only read from this directory, and are never fetched.',
+      demandOption: true
+    });
+};
+
+interface ValidateOptions {
+  dir: string;
+  schemaDir: string;
+}
+
+export interface ContentValidationError {
+  file: string;
+  pointer: string;
+  message: string;
+}
+
+interface LocalContentItem {
+  file: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  content: any;
+}
+
+// Loads the exported schemas, without resolving any schema bodies that would need to be fetched.
+export const loadLocalSchemas = async (
+  schemaDir: string
+): Promise<{ schemas: ContentTypeSchema[]; errors: ContentValidationError[] }> => {
+  const errors: ContentValidationError[] = [];
+  const files = loadJsonFromDirectory<ContentTypeSchema>(schemaDir, ContentTypeSchema);
+  const local: { [filename: string]: ContentTypeSchema } = {};
+
+  Object.entries(files).forEach(([filename, schema]) => {
+    if (schema.body && schema.body.match(/^(http|https):\/\//)) {
+      errors.push({
+        file: relative(process.cwd(), filename),
+        pointer: '/body',
+        message: 'Remote schema bodies cannot be read offline.'
+      });
+    } else {
+      local[filename] = schema;
+    }
+  });
+
+  const [resolved, resolveErrors] = await resolveSchemaBody(local, schemaDir);
+  Object.entries(resolveErrors).forEach(([filename, error]) => {
+    errors.push({ file: relative(process.cwd(), filename), pointer: '/body', message: error.toString() });
+  });
+
+  const schemas = Object.keys(resolved)
+    .filter(filename => resolveErrors[filename] == null)
+    .map(filename => resolved[filename]);
+
+  return { schemas, errors };
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const findLinks = (value: any, pointer: string, result: { pointer: string; id: string }[]): void => {
+  if (Array.isArray(value)) {
+    value.forEach((contained, index) => findLinks(contained, `${pointer}/${index}`, result));
+  } else if (value != null && typeof value === 'object') {
+    if (value._meta && referenceTypes.indexOf(value._meta.schema) !== -1 && typeof value.id === 'string') {
+      result.push({ pointer, id: value.id });
+      return;
+    }
+
+    Object.keys(value).forEach(key => findLinks(value[key], `${pointer}/${escapePointer(key)}`, result));
+  }
+};
+
+export const validateContent = async (
+  items: LocalContentItem[],
+  schemas: ContentTypeSchema[]
+): Promise<ContentValidationError[]> => {
+  const errors: ContentValidationError[] = [];
+  const validator = new AmplienceSchemaValidator(
+    async uri => schemas.find(schema => schema.schemaId === uri) || coreSchemaLookup(uri),
+    false
+  );
+
+  const ids = new Set(items.map(item => item.content.id));
+  const deliveryKeys = new Map<string, LocalContentItem[]>();
+
+  for (const item of items) {
+    const { file, content } = item;
+    const schemaId = content.body._meta.schema;
+
+    try {
+      const schemaErrors = await validator.validate(content.body);
+      schemaErrors.forEach(error => {
+        errors.push({ file, pointer: '/body' + toJsonPointer(error.dataPath), message: describeSchemaError(error) });
+      });
+    } catch (e) {
+      errors.push({
+        file,
+        pointer: '/body/_meta/schema',
+        message: `Could not validate with the schema ${schemaId}: ${e.message}`
+      });
+    }
+
+    const links: { pointer: string; id: string }[] = [];
+    findLinks(content.body, '/body', links);
+    links
+      .filter(link => !ids.has(link.id))
+      .forEach(link => {
+        errors.push({
+          file,
+          pointer: link.pointer,
+          message: `Links to content item ${link.id}, which is not in the exported content.`
+        });
+      });
+
+    const hierarchy = content.body._meta.hierarchy;
+    if (hierarchy && hierarchy.parentId && !ids.has(hierarchy.parentId)) {
+      errors.push({
+        file,
+        pointer: '/body/_meta/hierarchy/parentId',
+        message: `The parent content item ${hierarchy.parentId} is not in the exported content.`
+      });
+    }
+
+    const deliveryKey = content.body._meta.deliveryKey;
+    if (deliveryKey) {
+      deliveryKeys.set(deliveryKey, [...(deliveryKeys.get(deliveryKey) || []), item]);
+    }
+  }
+
+  deliveryKeys.forEach((keyItems, deliveryKey) => {
+    if (keyItems.length > 1) {
+      keyItems.forEach(item => {
+        const others = keyItems.filter(other => other !== item).map(other => other.file);
+        errors.push({
+          file: item.file,
+          pointer: '/body/_meta/deliveryKey',
+          message: `The delivery key "${deliveryKey}" is also used by ${others.join(', ')}.`
+        });
+      });
+    }
+  });
+
+  return errors;
+};
+
+export const handler = async (argv: Arguments<ValidateOptions>): Promise<void> => {
+  const dir = resolve(argv.dir);
+  const schemaDir = resolve(argv.schemaDir);
+
+  if (!existsSync(dir) || !existsSync(schemaDir)) {
+    console.error(`Could not find the directory ${existsSync(dir) ? argv.schemaDir : argv.dir}.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let schemas: ContentTypeSchema[];
+  let errors: ContentValidationError[];
+  try {
+    ({ schemas, errors } = await loadLocalSchemas(schemaDir));
+  } catch (e) {
+    console.error(`Could not load the schemas in ${argv.schemaDir}: ${e.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const items: LocalContentItem[] = [];
+
+  await traverseRecursive(dir, async path => {
+    if (extname(path) !== '.json') {
+      return;
+    }
+
+    const file = relative(process.cwd(), path);
+    try {
+      const content = JSON.parse(await promisify(readFile)(path, { encoding: 'utf8' }));
+
+      if (content.body && content.body._meta && content.body._meta.schema) {
+        items.push({ file, content });
+      } else {
+        errors.push({ file, pointer: '/body/_meta/schema', message: 'Not a content item, as it has no schema.' });
+      }
+    } catch (e) {
+      errors.push({ file, pointer: '', message: `Could not read the file: ${e.message}` });
+    }
+  });
+
+  errors.push(...(await validateContent(items, schemas)));
+
+  const files = Array.from(new Set(errors.map(error => error.file)));
+  files.forEach(file => {
+    console.log(file);
+    errors
+      .filter(error => error.file === file)
+      .forEach(error => console.log(`  ${error.pointer || '/'}: ${error.message}`));
+  });
+
+  if (errors.length > 0) {
+    console.log(`Validated ${items.length} content items: found ${errors.length} errors in ${files.length} files.`);
+    process.exitCode = 1;
+  } else {
+    console.log(`Validated ${items.length} content items: no errors found.`);
+  }
+};
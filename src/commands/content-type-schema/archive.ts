@@ -5,10 +5,11 @@ import dynamicContentClientFactory from '../../services/dynamic-content-client-f
 import { ArchiveLog } from '../../common/archive/archive-log';
 import paginator from '../../common/dc-management-sdk-js/paginator';
 import { equalsOrRegex } from '../../common/filter/filter';
-import { confirmArchive } from '../../common/archive/archive-helpers';
+import { confirmAction } from '../../common/archive/archive-helpers';
 import ArchiveOptions from '../../common/archive/archive-options';
 import { createLog, getDefaultLogPath } from '../../common/log-helpers';
 import { FileLog } from '../../common/file-log';
+import { forEachConcurrently, ConcurrencyArgument } from '../../common/concurrency';
 
 export const command = 'archive [id]';
 
@@ -62,8 +63,10 @@ export const builder = (yargs: Argv): void => {
     });
 };
 
-export const handler = async (argv: Arguments<ArchiveOptions & ConfigurationParameters>): Promise<void> => {
-  const { id, logFile, force, silent, ignoreError, hubId, revertLog, schemaId } = argv;
+export const handler = async (
+  argv: Arguments<ArchiveOptions & ConfigurationParameters & ConcurrencyArgument>
+): Promise<void> => {
+  const { id, logFile, force, silent, ignoreError, hubId, revertLog, schemaId, concurrency } = argv;
   const client = dynamicContentClientFactory(argv);
 
   if (id != null && schemaId != null) {
@@ -129,7 +132,7 @@ export const handler = async (argv: Arguments<ArchiveOptions & ConfigurationPara
   });
 
   if (!force) {
-    const yes = await confirmArchive('archive', 'content type schema', allContent, missingContent);
+    const yes = await confirmAction('archive', 'content type schema', allContent, missingContent);
     if (!yes) {
       return;
     }
@@ -139,7 +142,7 @@ export const handler = async (argv: Arguments<ArchiveOptions & ConfigurationPara
 
   let successCount = 0;
 
-  for (let i = 0; i < schemas.length; i++) {
+  await forEachConcurrently(schemas, concurrency, async (_, i) => {
     try {
       await schemas[i].related.archive();
 
@@ -153,10 +156,10 @@ export const handler = async (argv: Arguments<ArchiveOptions & ConfigurationPara
         log.warn(`Failed to archive ${schemas[i].schemaId}, continuing.`, e);
       } else {
         log.error(`Failed to archive ${schemas[i].schemaId}, aborting.`, e);
-        break;
+        return false;
       }
     }
-  }
+  });
 
   await log.close(!silent);
 
@@ -0,0 +1,161 @@
+import { builder, command, handler } from './codegen';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { MockContent } from '../../common/dc-management-sdk-js/mock-content';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
+import Yargs from 'yargs/yargs';
+import { existsSync, readFile, writeFile } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import rmdir from 'rimraf';
+
+jest.mock('../../services/dynamic-content-client-factory');
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+describe('content-type-schema codegen command', () => {
+  const yargArgs = {
+    $0: 'test',
+    _: ['test']
+  };
+  const config = {
+    clientId: 'client-id',
+    clientSecret: 'client-id',
+    hubId: 'hub-id'
+  };
+
+  const baseDir = `temp_${process.env.JEST_WORKER_ID}/codegen/`;
+  const outDir = join(baseDir, 'out');
+  const schemaDir = join(baseDir, 'schemas');
+
+  const bannerBody = {
+    $id: 'https://example.com/banner.json',
+    title: 'Banner',
+    allOf: [{ $ref: 'http://bigcontent.io/cms/schema/v1/core#/definitions/content' }],
+    type: 'object',
+    properties: {
+      cta: { $ref: 'https://example.com/partials.json#/definitions/cta' }
+    }
+  };
+
+  const partialsBody = {
+    $id: 'https://example.com/partials.json',
+    definitions: {
+      cta: { type: 'object', properties: { label: { type: 'string' } } }
+    }
+  };
+
+  const output = async (filename: string): Promise<string> =>
+    promisify(readFile)(join(outDir, filename), { encoding: 'utf8' });
+
+  beforeEach(async () => {
+    process.exitCode = 0;
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    await rimraf(baseDir);
+  });
+
+  afterEach(async () => {
+    process.exitCode = 0;
+    jest.restoreAllMocks();
+    await rimraf(baseDir);
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('codegen <outDir>');
+  });
+
+  describe('builder tests', function() {
+    it('should configure yargs', function() {
+      const argv = Yargs(process.argv.slice(2));
+      const spyPositional = jest.spyOn(argv, 'positional').mockReturnThis();
+      const spyOption = jest.spyOn(argv, 'option').mockReturnThis();
+
+      builder(argv);
+
+      expect(spyPositional).toHaveBeenCalledWith('outDir', {
+        describe: 'Output directory for the generated TypeScript files.',
+        type: 'string'
+      });
+      expect(spyOption).toHaveBeenCalledWith('schemaDir', {
+        type: 'string',
+        describe:
+          'Directory containing content type schemas exported with the content-type-schema export command. If not provided, the schemas are read from the hub.'
+      });
+      expect(spyOption).toHaveBeenCalledWith('schemaId', {
+        type: 'string',
+        describe:
+          'The Schema ID of a Content Type Schema to generate declarations for, along with the schemas it refers to.\nIf no --schemaId option is given, declarations are generated for all schemas.\nMultiple --schemaId options may be given.'
+      });
+    });
+  });
+
+  describe('handler tests', function() {
+    it('should generate declarations for the schemas in the hub', async () => {
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.registerContentType('https://example.com/banner.json', 'banner', [], bannerBody);
+      mockContent.registerContentType('https://example.com/partials.json', 'partials', [], partialsBody, true);
+
+      await handler({ ...yargArgs, ...config, outDir });
+
+      expect(await output('banner.ts')).toContain("import { PartialsCta } from './partials';");
+      expect(await output('partials.ts')).toContain('export interface PartialsCta {');
+      expect(await output('amplience.ts')).toContain('export interface ContentBody {');
+      expect(await output('index.ts')).toContain("export * from './banner';");
+      expect(console.log).toHaveBeenLastCalledWith(`Generated 4 files in ${outDir}.`);
+    });
+
+    it('should generate declarations for the schemas in an export, and the schemas they refer to', async () => {
+      await ensureDirectoryExists(join(schemaDir, 'schemas'));
+      await promisify(writeFile)(join(schemaDir, 'schemas', 'banner.json'), JSON.stringify(bannerBody));
+      await promisify(writeFile)(
+        join(schemaDir, 'banner.json'),
+        JSON.stringify({ schemaId: 'https://example.com/banner.json', body: './schemas/banner.json' })
+      );
+      await promisify(writeFile)(
+        join(schemaDir, 'partials.json'),
+        JSON.stringify({ schemaId: 'https://example.com/partials.json', body: JSON.stringify(partialsBody) })
+      );
+      await promisify(writeFile)(
+        join(schemaDir, 'other.json'),
+        JSON.stringify({ schemaId: 'https://example.com/other.json', body: JSON.stringify({ type: 'object' }) })
+      );
+
+      await handler({ ...yargArgs, ...config, outDir, schemaDir, schemaId: 'https://example.com/banner.json' });
+
+      expect(existsSync(join(outDir, 'banner.ts'))).toBeTruthy();
+      expect(existsSync(join(outDir, 'partials.ts'))).toBeTruthy();
+      expect(existsSync(join(outDir, 'other.ts'))).toBeFalsy();
+      expect(dynamicContentClientFactory).not.toHaveBeenCalled();
+    });
+
+    it('should warn about $refs that cannot be resolved', async () => {
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.registerContentType('https://example.com/banner.json', 'banner', [], bannerBody);
+
+      await handler({ ...yargArgs, ...config, outDir });
+
+      expect(console.log).toHaveBeenCalledWith(
+        'Warning: Could not resolve the $ref https://example.com/partials.json#/definitions/cta in https://example.com/banner.json.'
+      );
+      expect(await output('banner.ts')).toContain('  cta?: unknown;');
+    });
+
+    it('should fail when a given schema does not exist', async () => {
+      const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+      mockContent.registerContentType('https://example.com/banner.json', 'banner', [], bannerBody);
+
+      await handler({ ...yargArgs, ...config, outDir, schemaId: 'https://example.com/missing.json' });
+
+      expect(console.error).toHaveBeenCalledWith(
+        'Could not find the content type schemas: https://example.com/missing.json'
+      );
+      expect(process.exitCode).toEqual(1);
+      expect(existsSync(outDir)).toBeFalsy();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { Arguments, Argv } from 'yargs';
+import { join, relative } from 'path';
+import { writeFile } from 'fs';
+import { promisify } from 'util';
+import { ContentTypeSchema, Status } from 'dc-management-sdk-js';
+import { ConfigurationParameters } from '../configure';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import paginator from '../../common/dc-management-sdk-js/paginator';
+import { loadJsonFromDirectory } from '../../services/import.service';
+import { resolveSchemaBody } from '../../services/resolve-schema-body';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
+import { generateTypeScript, SchemaSource } from '../../common/json-schema/typescript-generator';
+
+export const command = 'codegen <outDir>';
+
+export const desc = 'Generate TypeScript declarations for Content Type Schemas';
+
+export const builder = (yargs: Argv): void => {
+  yargs
+    .positional('outDir', {
+      describe: 'Output directory for the generated TypeScript files.',
+      type: 'string'
+    })
+    .option('schemaDir', {
+      type: 'string',
+      describe:
+        'Directory containing content type schemas exported with the content-type-schema export command. If not provided, the schemas are read from the hub.'
+    })
+    .option('schemaId', {
+      type: 'string',
+      describe:
+        'The Schema ID of a Content Type Schema to generate declarations for, along with the schemas it refers to.\nIf no --schemaId option is given, declarations are generated for all schemas.\nMultiple --schemaId options may be given.'
+    });
+};
+
+interface CodegenOptions {
+  outDir: string;
+  schemaDir?: string;
+  schemaId?: string | string[];
+}
+
+const loadSchemas = async (
+  argv: Arguments<CodegenOptions & ConfigurationParameters>
+): Promise<ContentTypeSchema[] | undefined> => {
+  const { schemaDir } = argv;
+
+  if (schemaDir == null) {
+    const client = dynamicContentClientFactory(argv);
+    const hub = await client.hubs.get(argv.hubId);
+    return paginator(hub.related.contentTypeSchema.list, { status: Status.ACTIVE });
+  }
+
+  const [schemas, errors] = await resolveSchemaBody(
+    loadJsonFromDirectory<ContentTypeSchema>(schemaDir, ContentTypeSchema),
+    schemaDir
+  );
+
+  const failed = Object.entries(errors);
+  if (failed.length > 0) {
+    failed.forEach(([filename, error]) => {
+      console.error(`Could not load the schema body for ${relative(process.cwd(), filename)}: ${error.toString()}`);
+    });
+    return undefined;
+  }
+
+  return Object.values(schemas);
+};
+
+export const handler = async (argv: Arguments<CodegenOptions & ConfigurationParameters>): Promise<void> => {
+  const { outDir, schemaId } = argv;
+
+  let schemas: ContentTypeSchema[] | undefined;
+  try {
+    schemas = await loadSchemas(argv);
+  } catch (e) {
+    console.error(`Could not load the content type schemas: ${e.toString()}`);
+  }
+
+  if (schemas == null) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const sources: SchemaSource[] = [];
+  schemas.forEach(schema => {
+    try {
+      sources.push({ schemaId: schema.schemaId as string, body: JSON.parse(schema.body as string) });
+    } catch (e) {
+      console.log(`Warning: Skipping ${schema.schemaId}, as its body is not valid JSON.`);
+    }
+  });
+
+  const schemaIds = schemaId == null ? undefined : Array.isArray(schemaId) ? schemaId : [schemaId];
+  const missing = (schemaIds || []).filter(id => !sources.some(source => source.schemaId === id));
+  if (missing.length > 0) {
+    console.error(`Could not find the content type schemas: ${missing.join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const { files, warnings } = generateTypeScript(sources, schemaIds);
+
+  await ensureDirectoryExists(outDir);
+  for (const file of files) {
+    await promisify(writeFile)(join(outDir, file.filename), file.content);
+  }
+
+  warnings.forEach(warning => console.log(`Warning: ${warning}`));
+  console.log(`Generated ${files.length} files in ${outDir}.`);
+};
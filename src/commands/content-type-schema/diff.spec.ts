@@ -0,0 +1,167 @@
+import Yargs = require('yargs/yargs');
+
+import { builder, command, diffContentTypeSchemas, handler } from './diff';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { ContentTypeSchema, Hub, ValidationLevel } from 'dc-management-sdk-js';
+import paginator from '../../common/dc-management-sdk-js/paginator';
+import { loadJsonFromDirectory } from '../../services/import.service';
+import { resolveSchemaBody } from '../../services/resolve-schema-body';
+import { RenderingOptions } from '../../view/data-presenter';
+
+jest.mock('../../common/dc-management-sdk-js/paginator');
+jest.mock('../../services/dynamic-content-client-factory');
+jest.mock('../../services/import.service');
+jest.mock('../../services/resolve-schema-body');
+
+const schemaId = 'https://example.com/banner.json';
+
+const schema = (body: object, validationLevel = ValidationLevel.CONTENT_TYPE): ContentTypeSchema =>
+  new ContentTypeSchema({ schemaId, body: JSON.stringify(body), validationLevel });
+
+const storedBody = {
+  $id: schemaId,
+  type: 'object',
+  properties: { headline: { type: 'string' }, subtitle: { type: 'string' } }
+};
+
+describe('content-type-schema diff command', (): void => {
+  afterEach((): void => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+    process.exitCode = 0;
+  });
+
+  it('should implement a diff command', () => {
+    expect(command).toEqual('diff <dir>');
+  });
+
+  describe('builder tests', () => {
+    it('should configure yargs', () => {
+      const argv = Yargs(process.argv.slice(2));
+      const spyPositional = jest.spyOn(argv, 'positional').mockReturnThis();
+      const spyOptions = jest.spyOn(argv, 'options').mockReturnThis();
+
+      builder(argv);
+
+      expect(spyPositional).toHaveBeenCalledWith('dir', {
+        describe: 'Directory containing Content Type Schema definitions, in the same format as an import.',
+        type: 'string'
+      });
+      expect(spyOptions).toHaveBeenCalledWith(RenderingOptions);
+    });
+  });
+
+  describe('diffContentTypeSchemas tests', () => {
+    const stored = new ContentTypeSchema({
+      ...schema(storedBody).toJSON(),
+      id: 'stored-id'
+    });
+
+    it('should report schemas that are not on the hub as created', () => {
+      const created = new ContentTypeSchema({ schemaId: 'https://example.com/new.json', body: '{}' });
+
+      expect(diffContentTypeSchemas([created], [stored])).toEqual([
+        { action: 'CREATE', schemaId: 'https://example.com/new.json', breaking: false, changes: [] }
+      ]);
+    });
+
+    it('should report unchanged schemas', () => {
+      expect(diffContentTypeSchemas([schema(storedBody)], [stored])).toEqual([
+        { action: 'UNCHANGED', schemaId, breaking: false, changes: [] }
+      ]);
+    });
+
+    it('should classify the changes to updated schemas', () => {
+      const body = { ...storedBody, properties: { headline: { type: 'string' } }, title: 'Banner' };
+
+      expect(diffContentTypeSchemas([schema(body)], [stored])).toEqual([
+        {
+          action: 'UPDATE',
+          schemaId,
+          breaking: true,
+          changes: [
+            { path: '', breaking: false, description: 'Added title "Banner".' },
+            { path: '/properties/subtitle', breaking: true, description: 'Removed the property.' }
+          ]
+        }
+      ]);
+    });
+
+    it('should treat a changed validation level as breaking', () => {
+      expect(diffContentTypeSchemas([schema(storedBody, ValidationLevel.SLOT)], [stored])).toEqual([
+        {
+          action: 'UPDATE',
+          schemaId,
+          breaking: true,
+          changes: [
+            {
+              path: '',
+              breaking: true,
+              description: 'Changed the validation level from CONTENT_TYPE to SLOT.'
+            }
+          ]
+        }
+      ]);
+    });
+  });
+
+  describe('handler tests', () => {
+    const yargArgs = {
+      $0: 'test',
+      _: ['test']
+    };
+    const config = {
+      clientId: 'client-id',
+      clientSecret: 'client-id',
+      hubId: 'hub-id'
+    };
+    const argv = { ...yargArgs, ...config, dir: 'my-dir' };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'error').mockImplementation();
+      (dynamicContentClientFactory as jest.Mock).mockReturnValue({
+        hubs: { get: jest.fn().mockResolvedValue(new Hub()) }
+      });
+      (paginator as jest.Mock).mockResolvedValue([new ContentTypeSchema({ ...schema(storedBody).toJSON() })]);
+    });
+
+    it('should compare the schemas in a directory with the hub', async () => {
+      const local = schema({ ...storedBody, required: ['headline'] });
+      (loadJsonFromDirectory as jest.Mock).mockReturnValue({ 'my-dir/banner.json': local });
+      (resolveSchemaBody as jest.Mock).mockImplementation(schemas => [schemas, {}]);
+      const stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      await handler(argv);
+
+      expect(loadJsonFromDirectory).toHaveBeenCalledWith('my-dir', ContentTypeSchema);
+      expect(stdoutSpy.mock.calls[0][0]).toContain('! /properties/headline: Now required.');
+      expect(console.log).toHaveBeenLastCalledWith(
+        '1 content type schemas have breaking changes. Lines starting with ! are breaking changes.'
+      );
+    });
+
+    it('should output the changes as json', async () => {
+      (loadJsonFromDirectory as jest.Mock).mockReturnValue({ 'my-dir/banner.json': schema(storedBody) });
+      (resolveSchemaBody as jest.Mock).mockImplementation(schemas => [schemas, {}]);
+      const stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      await handler({ ...argv, json: true });
+
+      expect(JSON.parse(stdoutSpy.mock.calls[0][0] as string)).toEqual([
+        { action: 'UNCHANGED', schemaId, breaking: false, changes: [] }
+      ]);
+    });
+
+    it('should report schema bodies that could not be resolved', async () => {
+      (loadJsonFromDirectory as jest.Mock).mockReturnValue({});
+      (resolveSchemaBody as jest.Mock).mockResolvedValue([{}, { 'banner.json': new Error('Not found') }]);
+
+      await handler(argv);
+
+      expect(console.error).toHaveBeenCalledWith('Could not load the schema body for banner.json: Error: Not found');
+      expect(process.exitCode).toEqual(1);
+      expect(paginator).not.toHaveBeenCalled();
+    });
+  });
+});
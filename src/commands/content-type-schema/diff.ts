@@ -0,0 +1,139 @@
+import { Arguments, Argv } from 'yargs';
+import { ConfigurationParameters } from '../configure';
+import { ContentTypeSchema } from 'dc-management-sdk-js';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import paginator from '../../common/dc-management-sdk-js/paginator';
+import { loadJsonFromDirectory } from '../../services/import.service';
+import { resolveSchemaBody } from '../../services/resolve-schema-body';
+import { bundleLocalRefs } from '../../services/bundle-local-refs';
+import { describeSchemaChange, diffSchemas, SchemaChange } from '../../common/json-schema/schema-diff';
+import DataPresenter, { RenderingArguments, RenderingOptions } from '../../view/data-presenter';
+
+export const command = 'diff <dir>';
+
+export const desc = 'Compare local Content Type Schemas with the hub, and report breaking changes';
+
+export const builder = (yargs: Argv): void => {
+  yargs
+    .positional('dir', {
+      describe: 'Directory containing Content Type Schema definitions, in the same format as an import.',
+      type: 'string'
+    })
+    .options(RenderingOptions);
+};
+
+export interface DiffSchemaBuilderOptions {
+  dir: string;
+}
+
+export type ContentTypeSchemaDiffAction = 'CREATE' | 'UPDATE' | 'UNCHANGED';
+
+export interface ContentTypeSchemaDiff {
+  action: ContentTypeSchemaDiffAction;
+  schemaId: string;
+  breaking: boolean;
+  changes: SchemaChange[];
+}
+
+export const diffTableOptions = {
+  columns: {
+    0: { width: 50 },
+    1: { width: 10 },
+    2: { width: 80 }
+  }
+};
+
+const parseBody = (schema: ContentTypeSchema): object | undefined => {
+  try {
+    return JSON.parse(schema.body as string);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Compares the schemas that would be imported with the schemas stored on the hub, matching them by schema ID.
+ */
+export const diffContentTypeSchemas = (
+  schemas: ContentTypeSchema[],
+  storedSchemas: ContentTypeSchema[]
+): ContentTypeSchemaDiff[] =>
+  schemas.map(schema => {
+    const schemaId = schema.schemaId as string;
+    const stored = storedSchemas.find(stored => stored.schemaId === schemaId);
+
+    if (stored == null) {
+      return { action: 'CREATE', schemaId, breaking: false, changes: [] };
+    }
+
+    const before = parseBody(stored);
+    const after = parseBody(schema);
+    const changes: SchemaChange[] =
+      before == null || after == null
+        ? [{ path: '', breaking: true, description: 'The schema body is not valid JSON.' }]
+        : diffSchemas(before, after);
+
+    if (schema.validationLevel != null && schema.validationLevel !== stored.validationLevel) {
+      changes.unshift({
+        path: '',
+        breaking: true,
+        description: `Changed the validation level from ${stored.validationLevel} to ${schema.validationLevel}.`
+      });
+    }
+
+    return {
+      action: changes.length > 0 ? 'UPDATE' : 'UNCHANGED',
+      schemaId,
+      breaking: changes.some(change => change.breaking),
+      changes
+    };
+  });
+
+export const itemMapFn = ({ action, schemaId, breaking, changes }: ContentTypeSchemaDiff): object => ({
+  schemaId,
+  result: action === 'UPDATE' && breaking ? 'BREAKING' : action,
+  changes: changes.map(describeSchemaChange).join('\n')
+});
+
+export const handler = async (
+  argv: Arguments<DiffSchemaBuilderOptions & ConfigurationParameters & RenderingArguments>
+): Promise<void> => {
+  const { dir } = argv;
+  const client = dynamicContentClientFactory(argv);
+  const hub = await client.hubs.get(argv.hubId);
+
+  const schemas = loadJsonFromDirectory<ContentTypeSchema>(dir, ContentTypeSchema);
+  const [resolvedSchemas, resolveSchemaErrors, bodySources] = await resolveSchemaBody(schemas, dir);
+  const failed = Object.entries(resolveSchemaErrors);
+  if (failed.length > 0) {
+    failed.forEach(([filename, error]) => console.error(`Could not load the schema body for ${filename}: ${error}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  let bundledSchemas: ContentTypeSchema[];
+  try {
+    bundledSchemas = bundleLocalRefs(resolvedSchemas, bodySources);
+  } catch (e) {
+    console.error(`Could not resolve the local schema references: ${e.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const storedSchemas = await paginator(hub.related.contentTypeSchema.list);
+  const diff = diffContentTypeSchemas(bundledSchemas, storedSchemas);
+
+  if (argv.json) {
+    new DataPresenter(diff).render({ json: true });
+    return;
+  }
+
+  new DataPresenter(diff).render({ itemMapFn, tableUserConfig: diffTableOptions });
+
+  const breaking = diff.filter(schema => schema.breaking).length;
+  console.log(
+    breaking > 0
+      ? `${breaking} content type schemas have breaking changes. Lines starting with ! are breaking changes.`
+      : 'No breaking changes found.'
+  );
+};
@@ -74,6 +74,12 @@ describe('content-type-schema export command', (): void => {
         describe: 'If present, archived content type schemas will also be considered.',
         boolean: true
       });
+      expect(spyOption).toHaveBeenCalledWith('stable', {
+        type: 'boolean',
+        boolean: true,
+        describe:
+          'Write content type schemas in a stable format: files are named by schema ID and object keys are sorted. Schema bodies are written as they are stored. Exporting an unchanged hub twice gives identical files.'
+      });
       expect(spyOption).toHaveBeenCalledWith('logFile', {
         type: 'string',
         default: LOG_FILENAME,
@@ -159,7 +165,12 @@ describe('content-type-schema export command', (): void => {
       await processContentTypeSchemas('export-dir', {}, contentTypeSchemasToProcess, new FileLog(), false);
 
       expect(mockGetContentTypeSchemaExports).toHaveBeenCalledTimes(1);
-      expect(mockGetContentTypeSchemaExports).toHaveBeenCalledWith('export-dir', {}, contentTypeSchemasToProcess);
+      expect(mockGetContentTypeSchemaExports).toHaveBeenCalledWith(
+        'export-dir',
+        {},
+        contentTypeSchemasToProcess,
+        false
+      );
 
       expect(mockEnsureDirectory).toHaveBeenCalledTimes(1);
 
@@ -210,7 +221,8 @@ describe('content-type-schema export command', (): void => {
       expect(mockGetContentTypeSchemaExports).toHaveBeenCalledWith(
         'export-dir',
         previouslyExportedContentTypeSchemas,
-        contentTypeSchemasToProcess
+        contentTypeSchemasToProcess,
+        false
       );
 
       expect(mockEnsureDirectory).toHaveBeenCalledTimes(1);
@@ -273,7 +285,8 @@ describe('content-type-schema export command', (): void => {
       expect(mockGetContentTypeSchemaExports).toHaveBeenCalledWith(
         'export-dir',
         previouslyExportedContentTypeSchemas,
-        mutatedContentTypeSchemas
+        mutatedContentTypeSchemas,
+        false
       );
 
       expect(mockEnsureDirectory).toHaveBeenCalledTimes(1);
@@ -344,7 +357,8 @@ describe('content-type-schema export command', (): void => {
       expect(mockGetContentTypeSchemaExports).toHaveBeenCalledWith(
         'export-dir',
         previouslyExportedContentTypeSchemas,
-        mutatedContentTypeSchemas
+        mutatedContentTypeSchemas,
+        false
       );
 
       expect(mockEnsureDirectory).toHaveBeenCalledTimes(0);
@@ -353,6 +367,46 @@ describe('content-type-schema export command', (): void => {
       expect(mockTable).toHaveBeenCalledTimes(0);
     });
 
+    it('should write the schemas in the stable format and remove files from a previous export when stable', async () => {
+      const mockWriteStableJsonToFile = jest.spyOn(exportServiceModule, 'writeStableJsonToFile').mockImplementation();
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+
+      mockGetContentTypeSchemaExports.mockReturnValueOnce([
+        [
+          {
+            filename: 'export-dir/content-type-schema-id-1.json',
+            status: 'UP-TO-DATE',
+            contentTypeSchema: contentTypeSchemasToProcess[0]
+          },
+          {
+            filename: 'export-dir/content-type-schema-id-2.json',
+            status: 'UPDATED',
+            contentTypeSchema: contentTypeSchemasToProcess[1],
+            previousFilename: 'export-dir/export-filename-2.json'
+          }
+        ],
+        []
+      ]);
+
+      await processContentTypeSchemas('export-dir', {}, contentTypeSchemasToProcess, new FileLog(), true, true);
+
+      expect(mockWriteJsonToFile).toHaveBeenCalledTimes(0);
+      expect(mockWriteSchemaBody).toHaveBeenCalledTimes(2);
+      expect(mockWriteStableJsonToFile).toHaveBeenCalledTimes(2);
+      expect(mockWriteStableJsonToFile).toHaveBeenNthCalledWith(
+        2,
+        'export-dir/content-type-schema-id-2.json',
+        expect.objectContaining({
+          body: './schemas/content-type-schema-id-2-schema.json',
+          schemaId: 'content-type-schema-id-2'
+        })
+      );
+
+      expect(fs.unlinkSync).toHaveBeenCalledTimes(2);
+      expect(fs.unlinkSync).toHaveBeenCalledWith('export-dir/export-filename-2.json');
+      expect(fs.unlinkSync).toHaveBeenCalledWith('export-dir/schemas/export-filename-2-schema.json');
+    });
+
     it('should not do anything if the list of schemas to export is empty', async () => {
       const stdoutSpy = jest.spyOn(process.stdout, 'write');
       stdoutSpy.mockImplementation();
@@ -563,6 +617,29 @@ describe('content-type-schema export command', (): void => {
         contentTypeSchema: newContentTypeSchemaToExport
       });
     });
+
+    it('should name the file by schema ID and replace a previous export with a different name when stable', async () => {
+      const newContentTypeSchemaToExport = new ContentTypeSchema({
+        schemaId: 'content-type-schema-id-2',
+        body: schemaBody2,
+        validationLevel: ValidationLevel.CONTENT_TYPE
+      });
+
+      const result = getExportRecordForContentTypeSchema(
+        newContentTypeSchemaToExport,
+        'export-dir',
+        exportedContentTypeSchemas,
+        true
+      );
+
+      expect(uniqueFilenameSpy).toHaveBeenCalledTimes(0);
+      expect(result).toEqual({
+        filename: 'export-dir/content-type-schema-id-2.json',
+        status: 'UPDATED',
+        contentTypeSchema: newContentTypeSchemaToExport,
+        previousFilename: 'export-dir/export-filename-2.json'
+      });
+    });
   });
 
   describe('filterContentTypeSchemasBySchemaId', () => {
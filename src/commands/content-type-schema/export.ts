@@ -10,8 +10,10 @@ import {
   ExportResult,
   nothingExportedExit,
   promptToOverwriteExports,
+  stableFilenamePath,
   uniqueFilename,
-  writeJsonToFile
+  writeJsonToFile,
+  writeStableJsonToFile
 } from '../../services/export.service';
 import { loadJsonFromDirectory } from '../../services/import.service';
 import { ExportBuilderOptions } from '../../interfaces/export-builder-options.interface';
@@ -74,6 +76,12 @@ export const builder = (yargs: Argv): void => {
       describe: 'If present, archived content type schemas will also be considered.',
       boolean: true
     })
+    .option('stable', {
+      type: 'boolean',
+      boolean: true,
+      describe:
+        'Write content type schemas in a stable format: files are named by schema ID and object keys are sorted. Schema bodies are written as they are stored. Exporting an unchanged hub twice gives identical files.'
+    })
     .option('logFile', {
       type: 'string',
       default: LOG_FILENAME,
@@ -89,6 +97,7 @@ interface ExportRecord {
   readonly filename: string;
   readonly status: ExportResult;
   readonly contentTypeSchema: ContentTypeSchema;
+  readonly previousFilename?: string;
 }
 
 type ExportsMap = {
@@ -127,14 +136,43 @@ export const writeSchemaBody = (filename: string, body?: string): void => {
   }
 };
 
+const removeExportedSchema = (outputDir: string, filename: string): void => {
+  const schemaFilename = outputDir + path.sep + generateSchemaPath(filename);
+  for (const file of [filename, schemaFilename]) {
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+  }
+};
+
 export const getExportRecordForContentTypeSchema = (
   contentTypeSchema: ContentTypeSchema,
   outputDir: string,
-  previouslyExportedContentTypeSchemas: { [filename: string]: ContentTypeSchema }
+  previouslyExportedContentTypeSchemas: { [filename: string]: ContentTypeSchema },
+  stable = false
 ): ExportRecord => {
   const indexOfExportedContentTypeSchema = Object.values(previouslyExportedContentTypeSchemas).findIndex(
     c => c.schemaId === contentTypeSchema.schemaId
   );
+
+  if (stable) {
+    const filename = stableFilenamePath(outputDir, contentTypeSchema.schemaId as string, 'json');
+    if (indexOfExportedContentTypeSchema < 0) {
+      previouslyExportedContentTypeSchemas[filename] = contentTypeSchema;
+      return { filename, status: 'CREATED', contentTypeSchema };
+    }
+
+    // A previous export may have named the file differently, in which case it is replaced.
+    const previousFilename = Object.keys(previouslyExportedContentTypeSchemas)[indexOfExportedContentTypeSchema];
+    const previouslyExportedContentTypeSchema = Object.values(previouslyExportedContentTypeSchemas)[
+      indexOfExportedContentTypeSchema
+    ];
+    if (previousFilename === filename && equals(previouslyExportedContentTypeSchema, contentTypeSchema)) {
+      return { filename, status: 'UP-TO-DATE', contentTypeSchema };
+    }
+    return { filename, status: 'UPDATED', contentTypeSchema, previousFilename };
+  }
+
   if (indexOfExportedContentTypeSchema < 0) {
     const filename = uniqueFilename(
       outputDir,
@@ -190,7 +228,8 @@ export const filterContentTypeSchemasBySchemaId = (
 export const getContentTypeSchemaExports = (
   outputDir: string,
   previouslyExportedContentTypeSchemas: { [filename: string]: ContentTypeSchema },
-  contentTypeSchemasBeingExported: ContentTypeSchema[]
+  contentTypeSchemasBeingExported: ContentTypeSchema[],
+  stable = false
 ): [ExportRecord[], ExportsMap[]] => {
   const allExports: ExportRecord[] = [];
   const updatedExportsMap: ExportsMap[] = []; // uri x filename
@@ -202,7 +241,8 @@ export const getContentTypeSchemaExports = (
     const exportRecord = getExportRecordForContentTypeSchema(
       contentTypeSchema,
       outputDir,
-      previouslyExportedContentTypeSchemas
+      previouslyExportedContentTypeSchemas,
+      stable
     );
     allExports.push(exportRecord);
     if (exportRecord.status === 'UPDATED') {
@@ -217,7 +257,8 @@ export const processContentTypeSchemas = async (
   previouslyExportedContentTypeSchemas: { [filename: string]: ContentTypeSchema },
   storedContentTypeSchemas: ContentTypeSchema[],
   log: FileLog,
-  force: boolean
+  force: boolean,
+  stable = false
 ): Promise<void> => {
   if (storedContentTypeSchemas.length === 0) {
     nothingExportedExit(log, 'No content type schemas to export from this hub, exiting.');
@@ -227,7 +268,8 @@ export const processContentTypeSchemas = async (
   const [allExports, updatedExportsMap] = getContentTypeSchemaExports(
     outputDir,
     previouslyExportedContentTypeSchemas,
-    storedContentTypeSchemas
+    storedContentTypeSchemas,
+    stable
   );
   if (
     allExports.length === 0 ||
@@ -241,9 +283,10 @@ export const processContentTypeSchemas = async (
 
   const data: string[][] = [];
   data.push([chalk.bold('File'), chalk.bold('Schema file'), chalk.bold('Schema ID'), chalk.bold('Result')]);
-  for (const { filename, status, contentTypeSchema } of allExports) {
+  for (const { filename, status, contentTypeSchema, previousFilename } of allExports) {
     let schemaFilename = '';
-    if (status !== 'UP-TO-DATE') {
+    // Stable exports rewrite files that are up to date, in case they were written by an export that was not stable.
+    if (status !== 'UP-TO-DATE' || stable) {
       delete contentTypeSchema.id; // do not export id
       const schemaBody = contentTypeSchema.body;
       const schemaBodyFilename = generateSchemaPath(filename);
@@ -251,14 +294,21 @@ export const processContentTypeSchemas = async (
       contentTypeSchema.body = '.' + path.posix.sep + posixFilename;
       schemaFilename = outputDir + path.sep + schemaBodyFilename;
       writeSchemaBody(schemaFilename, schemaBody);
-      writeJsonToFile(
-        filename,
-        new ContentTypeSchema({
-          body: contentTypeSchema.body,
-          schemaId: contentTypeSchema.schemaId,
-          validationLevel: contentTypeSchema.validationLevel
-        })
-      );
+      const exported = new ContentTypeSchema({
+        body: contentTypeSchema.body,
+        schemaId: contentTypeSchema.schemaId,
+        validationLevel: contentTypeSchema.validationLevel
+      });
+
+      if (stable) {
+        writeStableJsonToFile(filename, exported);
+      } else {
+        writeJsonToFile(filename, exported);
+      }
+
+      if (previousFilename && previousFilename !== filename) {
+        removeExportedSchema(outputDir, previousFilename);
+      }
     }
     data.push([filename, schemaFilename, contentTypeSchema.schemaId || '', status]);
   }
@@ -267,7 +317,7 @@ export const processContentTypeSchemas = async (
 };
 
 export const handler = async (argv: Arguments<ExportBuilderOptions & ConfigurationParameters>): Promise<void> => {
-  const { dir, schemaId, logFile, force } = argv;
+  const { dir, schemaId, logFile, force, stable } = argv;
   const [contentTypeSchemas] = await resolveSchemaBody(
     loadJsonFromDirectory<ContentTypeSchema>(dir, ContentTypeSchema),
     dir
@@ -281,7 +331,14 @@ export const handler = async (argv: Arguments<ExportBuilderOptions & Configurati
   );
   const schemaIdArray: string[] = schemaId ? (Array.isArray(schemaId) ? schemaId : [schemaId]) : [];
   const filteredContentTypeSchemas = filterContentTypeSchemasBySchemaId(storedContentTypeSchemas, schemaIdArray);
-  await processContentTypeSchemas(dir, contentTypeSchemas, filteredContentTypeSchemas, log, force || false);
+  await processContentTypeSchemas(
+    dir,
+    contentTypeSchemas,
+    filteredContentTypeSchemas,
+    log,
+    force || false,
+    stable || false
+  );
 
   await log.close();
 };
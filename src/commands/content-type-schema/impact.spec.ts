@@ -0,0 +1,247 @@
+import { builder, command, ContentItemImpact, handler, loadProposedSchema } from './impact';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import { MockContent } from '../../common/dc-management-sdk-js/mock-content';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
+import Yargs from 'yargs/yargs';
+import { writeFile } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import rmdir from 'rimraf';
+
+jest.mock('../../services/dynamic-content-client-factory');
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+describe('content-type-schema impact command', () => {
+  const yargArgs = {
+    $0: 'test',
+    _: ['test']
+  };
+  const config = {
+    clientId: 'client-id',
+    clientSecret: 'client-id',
+    hubId: 'hub-id'
+  };
+
+  const baseDir = `temp_${process.env.JEST_WORKER_ID}/impact/`;
+  const schemaId = 'https://example.com/banner.json';
+
+  const proposedBody = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: schemaId,
+    allOf: [{ $ref: 'http://bigcontent.io/cms/schema/v1/core#/definitions/content' }],
+    type: 'object',
+    properties: {
+      headline: { type: 'string', maxLength: 5 },
+      cta: { $ref: 'https://example.com/partials.json#/definitions/cta' }
+    },
+    required: ['headline']
+  };
+
+  const partialsBody = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: 'https://example.com/partials.json',
+    definitions: {
+      cta: { type: 'object', properties: { label: { type: 'string' } } }
+    }
+  };
+
+  const writeSchema = async (filename: string, json: object): Promise<string> => {
+    await ensureDirectoryExists(baseDir);
+    await promisify(writeFile)(join(baseDir, filename), JSON.stringify(json));
+    return join(baseDir, filename);
+  };
+
+  const createContent = (): MockContent => {
+    const mockContent = new MockContent(dynamicContentClientFactory as jest.Mock);
+    mockContent.createMockRepository('repo');
+    mockContent.registerContentType(schemaId, 'banner', 'repo', { ...proposedBody, required: [] });
+    mockContent.registerContentType('https://example.com/partials.json', 'partials', [], partialsBody, true);
+    mockContent.importItemTemplates([
+      { id: 'valid', label: 'Valid', repoId: 'repo', typeSchemaUri: schemaId, body: { headline: 'Hi' } },
+      { id: 'long', label: 'Long', repoId: 'repo', typeSchemaUri: schemaId, body: { headline: 'Too long' } },
+      { id: 'cta', label: 'CTA', repoId: 'repo', typeSchemaUri: schemaId, body: { headline: 'Hi', cta: { label: 1 } } },
+      { id: 'missing', label: 'Missing', repoId: 'repo', typeSchemaUri: schemaId, body: {} },
+      { id: 'archived', label: 'Archived', repoId: 'repo', typeSchemaUri: schemaId, status: 'ARCHIVED', body: {} },
+      { id: 'other', label: 'Other', repoId: 'repo', typeSchemaUri: 'https://example.com/other.json', body: {} }
+    ]);
+    return mockContent;
+  };
+
+  beforeEach(async () => {
+    process.exitCode = 0;
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    await rimraf(baseDir);
+  });
+
+  afterEach(async () => {
+    process.exitCode = 0;
+    jest.restoreAllMocks();
+    await rimraf(baseDir);
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('impact <schemaFile>');
+  });
+
+  describe('builder tests', function() {
+    it('should configure yargs', function() {
+      const argv = Yargs(process.argv.slice(2));
+      const spyPositional = jest.spyOn(argv, 'positional').mockReturnThis();
+      const spyOption = jest.spyOn(argv, 'option').mockReturnThis();
+
+      builder(argv);
+
+      expect(spyPositional).toHaveBeenCalledWith('schemaFile', {
+        describe:
+          'A Content Type Schema definition, as exported by the content-type-schema export command, or a schema body with an $id.',
+        type: 'string'
+      });
+      expect(spyOption).toHaveBeenCalledWith('format', {
+        type: 'string',
+        choices: ['table', 'json', 'csv'],
+        default: 'table',
+        describe: 'The format of the report.'
+      });
+    });
+  });
+
+  describe('loadProposedSchema tests', function() {
+    it('should load an exported schema definition, resolving its body', async () => {
+      await writeSchema('banner-body.json', proposedBody);
+      const file = await writeSchema('banner.json', { schemaId, body: './banner-body.json' });
+
+      const { schema, partials } = await loadProposedSchema(file);
+
+      expect(schema.schemaId).toEqual(schemaId);
+      expect(JSON.parse(schema.body as string)).toEqual(proposedBody);
+      expect(partials).toEqual([]);
+    });
+
+    it('should load a schema body, taking the schema ID from its $id', async () => {
+      const file = await writeSchema('banner.json', proposedBody);
+
+      const { schema } = await loadProposedSchema(file);
+
+      expect(schema.schemaId).toEqual(schemaId);
+    });
+
+    it('should bundle local files that the schema refers to with relative $refs as partials', async () => {
+      await writeSchema('local-partials.json', { ...partialsBody, $id: 'https://example.com/local-partials.json' });
+      const file = await writeSchema('banner.json', {
+        ...proposedBody,
+        properties: { ...proposedBody.properties, cta: { $ref: './local-partials.json#/definitions/cta' } }
+      });
+
+      const { schema, partials } = await loadProposedSchema(file);
+
+      expect(JSON.parse(schema.body as string).properties.cta).toEqual({
+        $ref: 'https://example.com/local-partials.json#/definitions/cta'
+      });
+      expect(partials.map(partial => partial.schemaId)).toEqual(['https://example.com/local-partials.json']);
+    });
+  });
+
+  describe('handler tests', function() {
+    it('should report the active content items that fail the proposed schema, with error paths', async () => {
+      createContent();
+      const schemaFile = await writeSchema('banner.json', proposedBody);
+      const stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      await handler({ ...yargArgs, ...config, schemaFile, format: 'json' });
+
+      expect(JSON.parse(stdoutSpy.mock.calls[0][0] as string)).toEqual([
+        {
+          id: 'long',
+          label: 'Long',
+          repository: 'repo',
+          pointer: '/headline',
+          message: 'should NOT be longer than 5 characters'
+        },
+        { id: 'cta', label: 'CTA', repository: 'repo', pointer: '/cta/label', message: 'should be string' },
+        {
+          id: 'missing',
+          label: 'Missing',
+          repository: 'repo',
+          pointer: '/',
+          message: "should have required property 'headline'"
+        }
+      ]);
+    });
+
+    it('should report every error in a content item', async () => {
+      createContent();
+      const schemaFile = await writeSchema('banner.json', { ...proposedBody, required: ['headline', 'cta'] });
+      const stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      await handler({ ...yargArgs, ...config, schemaFile, format: 'json' });
+
+      const impact: ContentItemImpact[] = JSON.parse(stdoutSpy.mock.calls[0][0] as string);
+      expect(impact.map(row => [row.id, row.message])).toEqual([
+        ['valid', "should have required property 'cta'"],
+        ['long', 'should NOT be longer than 5 characters'],
+        ['long', "should have required property 'cta'"],
+        ['cta', 'should be string'],
+        ['missing', "should have required property 'headline'"],
+        ['missing', "should have required property 'cta'"]
+      ]);
+    });
+
+    it('should validate against local partials that the proposed schema refers to', async () => {
+      createContent();
+      await writeSchema('local-partials.json', { ...partialsBody, $id: 'https://example.com/local-partials.json' });
+      const schemaFile = await writeSchema('banner.json', {
+        ...proposedBody,
+        properties: { headline: { type: 'string' }, cta: { $ref: './local-partials.json#/definitions/cta' } },
+        required: []
+      });
+      const stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      await handler({ ...yargArgs, ...config, schemaFile, format: 'json' });
+
+      expect(JSON.parse(stdoutSpy.mock.calls[0][0] as string)).toEqual([
+        { id: 'cta', label: 'CTA', repository: 'repo', pointer: '/cta/label', message: 'should be string' }
+      ]);
+    });
+
+    it('should write a CSV report', async () => {
+      createContent();
+      const schemaFile = await writeSchema('banner.json', proposedBody);
+      const stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      await handler({ ...yargArgs, ...config, schemaFile, format: 'csv' });
+
+      const lines = (stdoutSpy.mock.calls[0][0] as string).split('\n');
+      expect(lines[0]).toEqual('id,label,repository,pointer,message');
+      expect(lines[1]).toEqual('long,Long,repo,/headline,should NOT be longer than 5 characters');
+    });
+
+    it('should summarise the impact in a table', async () => {
+      createContent();
+      const schemaFile = await writeSchema('banner.json', proposedBody);
+      jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      await handler({ ...yargArgs, ...config, schemaFile, format: 'table' });
+
+      expect(console.log).toHaveBeenCalledWith(
+        `Validated 4 content items of ${schemaId} against the proposed schema: 3 would fail.`
+      );
+    });
+
+    it('should fail when the schema file cannot be loaded', async () => {
+      const schemaFile = join(baseDir, 'missing.json');
+
+      await handler({ ...yargArgs, ...config, schemaFile, format: 'table' });
+
+      expect((console.error as jest.Mock).mock.calls[0][0]).toMatch(`Could not load the schema in ${schemaFile}: `);
+      expect(process.exitCode).toEqual(1);
+      expect(dynamicContentClientFactory).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { Arguments, Argv } from 'yargs';
+import { dirname, resolve } from 'path';
+import { readFile } from 'fs';
+import { promisify } from 'util';
+import { ContentItem, ContentRepository, ContentTypeSchema, Hub, Status } from 'dc-management-sdk-js';
+import { ConfigurationParameters } from '../configure';
+import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
+import paginator from '../../common/dc-management-sdk-js/paginator';
+import { resolveSchemaBody } from '../../services/resolve-schema-body';
+import { bundleLocalRefs } from '../../services/bundle-local-refs';
+import {
+  AmplienceSchemaValidator,
+  defaultSchemaLookup,
+  describeSchemaError,
+  toJsonPointer
+} from '../../common/content-item/amplience-schema-validator';
+import { coreSchemaLookup } from '../../common/content-item/core-schema';
+import DataPresenter from '../../view/data-presenter';
+
+export const command = 'impact <schemaFile>';
+
+export const desc =
+  'Report the content items on the hub that would fail validation against a proposed Content Type Schema';
+
+export type ImpactFormat = 'table' | 'json' | 'csv';
+
+export const builder = (yargs: Argv): void => {
+  yargs
+    .positional('schemaFile', {
+      describe:
+        'A Content Type Schema definition, as exported by the content-type-schema export command, or a schema body with an $id.',
+      type: 'string'
+    })
+    .option('format', {
+      type: 'string',
+      choices: ['table', 'json', 'csv'],
+      default: 'table',
+      describe: 'The format of the report.'
+    });
+};
+
+interface ImpactOptions {
+  schemaFile: string;
+  format: ImpactFormat;
+}
+
+export interface ContentItemImpact {
+  id: string;
+  label: string;
+  repository: string;
+  pointer: string;
+  message: string;
+}
+
+export const impactTableOptions = {
+  columns: {
+    0: { width: 36 },
+    1: { width: 30 },
+    2: { width: 20 },
+    3: { width: 30 },
+    4: { width: 50 }
+  }
+};
+
+export interface ProposedSchema {
+  schema: ContentTypeSchema;
+  // Local files that the schema refers to with relative $refs, which are not on the hub.
+  partials: ContentTypeSchema[];
+}
+
+// Loads the proposed schema, which can either be an exported schema definition or a schema body.
+export const loadProposedSchema = async (schemaFile: string): Promise<ProposedSchema> => {
+  const filename = resolve(schemaFile);
+  const json = JSON.parse(await promisify(readFile)(filename, { encoding: 'utf8' }));
+  const schema =
+    typeof json.body === 'string' ? new ContentTypeSchema(json) : new ContentTypeSchema({ body: JSON.stringify(json) });
+
+  const [resolved, errors, sources] = await resolveSchemaBody({ [filename]: schema }, dirname(filename));
+  if (errors[filename]) {
+    throw errors[filename];
+  }
+
+  const result = resolved[filename];
+  if (!result.schemaId) {
+    throw new Error('The schema has no schema ID. Add an $id to its body.');
+  }
+
+  const partials = bundleLocalRefs(resolved, sources).filter(bundled => bundled !== result);
+  return { schema: result, partials };
+};
+
+const loadContentItems = async (
+  hub: Hub,
+  schemaId: string
+): Promise<{ repo: ContentRepository; content: ContentItem }[]> => {
+  const repos = await paginator(hub.related.contentRepositories.list);
+  const items: { repo: ContentRepository; content: ContentItem }[] = [];
+
+  for (const repo of repos) {
+    const content = await paginator(repo.related.contentItems.list, { status: Status.ACTIVE });
+    content
+      .filter(item => item.status === Status.ACTIVE && item.body._meta.schema === schemaId)
+      .forEach(item => items.push({ repo, content: item }));
+  }
+
+  return items;
+};
+
+/**
+ * Validates the given content items against a proposed schema, rather than the schema deployed to the hub.
+ * Schemas that the proposed schema refers to are read from its local partials, or otherwise from the hub.
+ */
+export const findImpact = async (
+  hub: Hub,
+  { schema: proposed, partials }: ProposedSchema,
+  items: { repo: ContentRepository; content: ContentItem }[]
+): Promise<ContentItemImpact[]> => {
+  const types = await paginator(hub.related.contentTypes.list);
+  const schemas = await paginator(hub.related.contentTypeSchema.list);
+  const hubLookup = defaultSchemaLookup(types, schemas);
+
+  const localSchemas = [proposed, ...partials];
+
+  // Report every error in each content item, so that editors can fix them all in one pass.
+  const validator = new AmplienceSchemaValidator(
+    async uri => localSchemas.find(schema => schema.schemaId === uri) || coreSchemaLookup(uri) || hubLookup(uri),
+    true,
+    { allErrors: true }
+  );
+
+  const result: ContentItemImpact[] = [];
+  for (const { repo, content } of items) {
+    const errors = await validator.validate(content.body);
+    errors.forEach(error => {
+      result.push({
+        id: content.id,
+        label: content.label,
+        repository: repo.label as string,
+        pointer: toJsonPointer(error.dataPath) || '/',
+        message: describeSchemaError(error)
+      });
+    });
+  }
+
+  return result;
+};
+
+export const handler = async (argv: Arguments<ImpactOptions & ConfigurationParameters>): Promise<void> => {
+  const { schemaFile, format } = argv;
+
+  let proposed: ProposedSchema;
+  try {
+    proposed = await loadProposedSchema(schemaFile);
+  } catch (e) {
+    console.error(`Could not load the schema in ${schemaFile}: ${e.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const client = dynamicContentClientFactory(argv);
+  const hub = await client.hubs.get(argv.hubId);
+  const items = await loadContentItems(hub, proposed.schema.schemaId as string);
+
+  let impact: ContentItemImpact[];
+  try {
+    impact = await findImpact(hub, proposed, items);
+  } catch (e) {
+    console.error(`Could not validate content with the proposed schema: ${e.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (format === 'json') {
+    new DataPresenter(impact).render({ json: true });
+  } else if (format === 'csv') {
+    new DataPresenter(impact).render({ csv: true });
+  } else {
+    const failing = new Set(impact.map(row => row.id)).size;
+    console.log(
+      `Validated ${items.length} content items of ${proposed.schema.schemaId} against the proposed schema: ${failing} would fail.`
+    );
+    if (impact.length > 0) {
+      new DataPresenter(impact).render({ tableUserConfig: impactTableOptions });
+    }
+  }
+};
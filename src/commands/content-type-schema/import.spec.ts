@@ -64,6 +64,13 @@ describe('content-type-schema import command', (): void => {
         describe: 'Path to a log file to write to.',
         coerce: createLog
       });
+
+      expect(spyOption).toHaveBeenCalledWith('failOnBreaking', {
+        type: 'boolean',
+        boolean: true,
+        describe:
+          'Compare the schemas with the hub before importing, and import nothing if any of them have breaking changes, such as removed properties or new required fields.'
+      });
     });
   });
 
@@ -388,5 +395,89 @@ describe('content-type-schema import command', (): void => {
       ]);
       await expect(handler(argv)).rejects.toThrowErrorMatchingSnapshot();
     });
+
+    it('should import partial schemas before the schemas that refer to them with relative refs', async () => {
+      const banner = {
+        schemaId: 'https://example.com/banner.json',
+        body: JSON.stringify({ properties: { cta: { $ref: './cta.json#/definitions/cta' } } }),
+        validationLevel: ValidationLevel.CONTENT_TYPE
+      };
+      const cta = {
+        schemaId: 'https://example.com/cta.json',
+        body: JSON.stringify({ definitions: { cta: { type: 'object' } } }),
+        validationLevel: ValidationLevel.PARTIAL
+      };
+
+      mockGetHub.mockResolvedValue(new Hub());
+      (loadJsonFromDirectory as jest.Mock).mockReturnValueOnce({ '/dir/banner.json': banner, '/dir/cta.json': cta });
+      (resolveSchemaBody as jest.Mock).mockImplementation(args => [
+        args,
+        {},
+        { '/dir/banner.json': '/dir/banner.json', '/dir/cta.json': '/dir/cta.json' }
+      ]);
+      (paginator as jest.Mock).mockResolvedValue([]);
+
+      const processSchemasSpy = jest
+        .spyOn(importModule, 'processSchemas')
+        // eslint-disable-next-line @typescript-eslint/no-empty-function
+        .mockImplementation(async (): Promise<void> => {});
+
+      await handler(argv);
+
+      const [processed] = processSchemasSpy.mock.calls[0];
+      expect(processed.map(schema => schema.schemaId)).toEqual([cta.schemaId, banner.schemaId]);
+      expect(JSON.parse(processed[1].body as string)).toEqual({
+        properties: { cta: { $ref: 'https://example.com/cta.json#/definitions/cta' } }
+      });
+    });
+
+    describe('failOnBreaking', () => {
+      const storedSchema = {
+        id: 'stored-id',
+        schemaId: 'update-schema-id',
+        body: JSON.stringify({ type: 'object', properties: { title: { type: 'string' } } }),
+        validationLevel: ValidationLevel.CONTENT_TYPE
+      };
+
+      const importSchemas = async (body: object): Promise<jest.SpyInstance> => {
+        mockGetHub.mockResolvedValue(new Hub());
+        const schema = { ...storedSchema, id: undefined, body: JSON.stringify(body) };
+        (loadJsonFromDirectory as jest.Mock).mockReturnValueOnce({ 'dir/update.json': schema });
+        (resolveSchemaBody as jest.Mock).mockImplementation(args => [args, {}]);
+        (paginator as jest.Mock).mockResolvedValue([storedSchema]);
+
+        return (
+          jest
+            .spyOn(importModule, 'processSchemas')
+            // eslint-disable-next-line @typescript-eslint/no-empty-function
+            .mockImplementation(async (): Promise<void> => {})
+        );
+      };
+
+      it('should not import anything when a schema has breaking changes', async () => {
+        const processSchemasSpy = await importSchemas({ type: 'object', properties: {} });
+
+        await expect(handler({ ...argv, failOnBreaking: true })).rejects.toThrowError(
+          'The following content type schemas have breaking changes, so nothing was imported:\n* update-schema-id\n  ! /properties/title: Removed the property.'
+        );
+        expect(processSchemasSpy).not.toHaveBeenCalled();
+      });
+
+      it('should import schemas that only have non-breaking changes', async () => {
+        const processSchemasSpy = await importSchemas({
+          type: 'object',
+          properties: { title: { type: 'string' }, subtitle: { type: 'string' } }
+        });
+
+        await handler({ ...argv, failOnBreaking: true });
+
+        expect(processSchemasSpy).toHaveBeenCalledWith(
+          [expect.objectContaining({ id: 'stored-id' })],
+          expect.any(Object),
+          expect.any(Object),
+          expect.any(Object)
+        );
+      });
+    });
   });
 });
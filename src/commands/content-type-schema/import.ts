@@ -11,8 +11,11 @@ import { createContentTypeSchema } from './create.service';
 import { updateContentTypeSchema } from './update.service';
 import { ImportResult, loadJsonFromDirectory, UpdateStatus } from '../../services/import.service';
 import { resolveSchemaBody } from '../../services/resolve-schema-body';
+import { bundleLocalRefs } from '../../services/bundle-local-refs';
 import { FileLog } from '../../common/file-log';
 import { createLog, getDefaultLogPath } from '../../common/log-helpers';
+import { describeSchemaChange } from '../../common/json-schema/schema-diff';
+import { diffContentTypeSchemas } from './diff';
 
 export const command = 'import <dir>';
 
@@ -22,6 +25,10 @@ export interface SchemaOptions {
   validation: ValidationLevel;
 }
 
+export interface SchemaImportOptions {
+  failOnBreaking?: boolean;
+}
+
 export const LOG_FILENAME = (platform: string = process.platform): string =>
   getDefaultLogPath('schema', 'import', platform);
 
@@ -37,6 +44,13 @@ export const builder = (yargs: Argv): void => {
     describe: 'Path to a log file to write to.',
     coerce: createLog
   });
+
+  yargs.option('failOnBreaking', {
+    type: 'boolean',
+    boolean: true,
+    describe:
+      'Compare the schemas with the hub before importing, and import nothing if any of them have breaking changes, such as removed properties or new required fields.'
+  });
 };
 
 export const storedSchemaMapper = (
@@ -94,7 +108,7 @@ export const doUpdate = async (
       schema.validationLevel || ValidationLevel.CONTENT_TYPE
     );
 
-    log.addAction('UPDATE', `${retrievedSchema.id} ${retrievedSchema.version} ${updatedSchema.version}`);
+    log.addAction('UPDATE', [`${retrievedSchema.id}`, `${retrievedSchema.version}`, `${updatedSchema.version}`]);
 
     return { contentTypeSchema: updatedSchema, updateStatus: UpdateStatus.UPDATED };
   } catch (err) {
@@ -128,13 +142,15 @@ export const processSchemas = async (
   log.appendLine(table(data, streamTableOptions));
 };
 
-export const handler = async (argv: Arguments<ImportBuilderOptions & ConfigurationParameters>): Promise<void> => {
-  const { dir, logFile } = argv;
+export const handler = async (
+  argv: Arguments<ImportBuilderOptions & SchemaImportOptions & ConfigurationParameters>
+): Promise<void> => {
+  const { dir, logFile, failOnBreaking } = argv;
   const client = dynamicContentClientFactory(argv);
   const hub = await client.hubs.get(argv.hubId);
   const log = logFile.open();
   const schemas = loadJsonFromDirectory<ContentTypeSchema>(dir, ContentTypeSchema);
-  const [resolvedSchemas, resolveSchemaErrors] = await resolveSchemaBody(schemas, dir);
+  const [resolvedSchemas, resolveSchemaErrors, bodySources] = await resolveSchemaBody(schemas, dir);
   if (Object.keys(resolveSchemaErrors).length > 0) {
     const errors = Object.entries(resolveSchemaErrors)
       .map(value => {
@@ -144,10 +160,23 @@ export const handler = async (argv: Arguments<ImportBuilderOptions & Configurati
       .join('\n');
     throw new Error(`Unable to resolve the body for the following files:\n${errors}`);
   }
+  const bundledSchemas = bundleLocalRefs(resolvedSchemas, bodySources);
   const storedSchemas = await paginator(hub.related.contentTypeSchema.list);
-  const schemasToProcess = Object.values(resolvedSchemas).map(resolvedSchema =>
-    storedSchemaMapper(resolvedSchema, storedSchemas)
-  );
+
+  if (failOnBreaking) {
+    const breaking = diffContentTypeSchemas(bundledSchemas, storedSchemas).filter(schema => schema.breaking);
+    if (breaking.length > 0) {
+      const changes = breaking
+        .map(schema => {
+          const lines = schema.changes.filter(change => change.breaking).map(describeSchemaChange);
+          return `* ${schema.schemaId}\n${lines.map(line => `  ${line}`).join('\n')}`;
+        })
+        .join('\n');
+      throw new Error(`The following content type schemas have breaking changes, so nothing was imported:\n${changes}`);
+    }
+  }
+
+  const schemasToProcess = bundledSchemas.map(bundledSchema => storedSchemaMapper(bundledSchema, storedSchemas));
 
   await processSchemas(schemasToProcess, client, hub, log);
 
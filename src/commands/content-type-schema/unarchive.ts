@@ -5,9 +5,10 @@ import dynamicContentClientFactory from '../../services/dynamic-content-client-f
 import { ArchiveLog } from '../../common/archive/archive-log';
 import { equalsOrRegex } from '../../common/filter/filter';
 import paginator from '../../common/dc-management-sdk-js/paginator';
-import { confirmArchive } from '../../common/archive/archive-helpers';
+import { confirmAction } from '../../common/archive/archive-helpers';
 import UnarchiveOptions from '../../common/archive/unarchive-options';
 import { getDefaultLogPath } from '../../common/log-helpers';
+import { forEachConcurrently, ConcurrencyArgument } from '../../common/concurrency';
 
 export const LOG_FILENAME = (platform: string = process.platform): string =>
   getDefaultLogPath('schema', 'unarchive', platform);
@@ -59,8 +60,10 @@ export const builder = (yargs: Argv): void => {
     });
 };
 
-export const handler = async (argv: Arguments<UnarchiveOptions & ConfigurationParameters>): Promise<void> => {
-  const { id, schemaId, revertLog, ignoreError, logFile, silent, force } = argv;
+export const handler = async (
+  argv: Arguments<UnarchiveOptions & ConfigurationParameters & ConcurrencyArgument>
+): Promise<void> => {
+  const { id, schemaId, revertLog, ignoreError, logFile, silent, force, concurrency } = argv;
   const client = dynamicContentClientFactory(argv);
 
   if (id != null && schemaId != null) {
@@ -125,7 +128,7 @@ export const handler = async (argv: Arguments<UnarchiveOptions & ConfigurationPa
   });
 
   if (!force) {
-    const yes = await confirmArchive('unarchive', 'content type schema', allContent, missingContent);
+    const yes = await confirmAction('unarchive', 'content type schema', allContent, missingContent);
     if (!yes) {
       return;
     }
@@ -136,7 +139,7 @@ export const handler = async (argv: Arguments<UnarchiveOptions & ConfigurationPa
 
   let successCount = 0;
 
-  for (let i = 0; i < schemas.length; i++) {
+  await forEachConcurrently(schemas, concurrency, async (_, i) => {
     try {
       await schemas[i].related.unarchive();
 
@@ -150,11 +153,11 @@ export const handler = async (argv: Arguments<UnarchiveOptions & ConfigurationPa
         log.warn(`Failed to unarchive ${schemas[i].schemaId}, continuing.`, e);
       } else {
         log.error(`Failed to unarchive ${schemas[i].schemaId}, aborting.`, e);
-        break;
+        return false;
       }
     }
     console.log('Unarchived: ' + schemas[i].schemaId);
-  }
+  });
 
   if (!silent && logFile) {
     await log.writeToFile(logFile.replace('<DATE>', timestamp));
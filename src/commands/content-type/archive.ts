@@ -6,10 +6,11 @@ import { ArchiveLog } from '../../common/archive/archive-log';
 import paginator from '../../common/dc-management-sdk-js/paginator';
 import { equalsOrRegex } from '../../common/filter/filter';
 
-import { confirmArchive } from '../../common/archive/archive-helpers';
+import { confirmAction } from '../../common/archive/archive-helpers';
 import ArchiveOptions from '../../common/archive/archive-options';
 import { createLog, getDefaultLogPath } from '../../common/log-helpers';
 import { FileLog } from '../../common/file-log';
+import { forEachConcurrently, ConcurrencyArgument } from '../../common/concurrency';
 
 export const command = 'archive [id]';
 
@@ -63,8 +64,10 @@ export const builder = (yargs: Argv): void => {
     });
 };
 
-export const handler = async (argv: Arguments<ArchiveOptions & ConfigurationParameters>): Promise<void> => {
-  const { id, logFile, force, silent, ignoreError, revertLog } = argv;
+export const handler = async (
+  argv: Arguments<ArchiveOptions & ConfigurationParameters & ConcurrencyArgument>
+): Promise<void> => {
+  const { id, logFile, force, silent, ignoreError, revertLog, concurrency } = argv;
   const { schemaId } = argv;
   const client = dynamicContentClientFactory(argv);
 
@@ -131,7 +134,7 @@ export const handler = async (argv: Arguments<ArchiveOptions & ConfigurationPara
   });
 
   if (!force) {
-    const yes = await confirmArchive('archive', 'content types', allContent, missingContent);
+    const yes = await confirmAction('archive', 'content types', allContent, missingContent);
     if (!yes) {
       return;
     }
@@ -141,7 +144,7 @@ export const handler = async (argv: Arguments<ArchiveOptions & ConfigurationPara
 
   let successCount = 0;
 
-  for (let i = 0; i < types.length; i++) {
+  await forEachConcurrently(types, concurrency, async (_, i) => {
     const settings = types[i].settings;
     const label = settings === undefined ? 'unknown' : settings.label;
     try {
@@ -157,10 +160,10 @@ export const handler = async (argv: Arguments<ArchiveOptions & ConfigurationPara
         log.warn(`Failed to archive ${label}, continuing.`, e);
       } else {
         log.error(`Failed to archive ${label}, aborting.`, e);
-        break;
+        return false;
       }
     }
-  }
+  });
 
   await log.close(!silent);
 
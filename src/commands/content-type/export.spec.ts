@@ -71,6 +71,12 @@ describe('content-type export command', (): void => {
         describe: 'If present, archived content types will also be considered.',
         boolean: true
       });
+      expect(spyOption).toHaveBeenCalledWith('stable', {
+        type: 'boolean',
+        boolean: true,
+        describe:
+          'Write content types in a stable format: files are named by schema ID, object keys are sorted and metadata that changes on every save is left out. Exporting an unchanged hub twice gives identical files.'
+      });
       expect(spyOption).toHaveBeenCalledWith('logFile', {
         type: 'string',
         default: LOG_FILENAME,
@@ -304,6 +310,39 @@ describe('content-type export command', (): void => {
         contentType: unchangedContentTypeToExport
       });
     });
+
+    it('should name the export by schema ID and replace a previous export with a different name when stable', async () => {
+      const exportedContentTypes = {
+        'export-dir/export-filename-1.json': new ContentType({
+          contentTypeUri: 'https://schema.localhost/type-1.json',
+          settings: {
+            label: 'content type 1'
+          }
+        })
+      };
+      const contentTypeToExport = new ContentType({
+        id: 'content-type-id-1',
+        contentTypeUri: 'https://schema.localhost/type-1.json',
+        settings: {
+          label: 'content type 1'
+        }
+      });
+
+      const result = getExportRecordForContentType(
+        contentTypeToExport,
+        'export-dir',
+        exportedContentTypes,
+        undefined,
+        true
+      );
+
+      expect(result).toEqual({
+        filename: 'export-dir/https___schema.localhost_type-1.json.json',
+        status: 'UPDATED',
+        contentType: contentTypeToExport,
+        previousFilename: 'export-dir/export-filename-1.json'
+      });
+    });
   });
 
   describe('filterContentTypesByUri', () => {
@@ -496,7 +535,8 @@ describe('content-type export command', (): void => {
         'export-dir',
         previouslyExportedContentTypes,
         contentTypesToProcess,
-        undefined
+        undefined,
+        false
       );
 
       expect(mockEnsureDirectory).toHaveBeenCalledTimes(1);
@@ -531,6 +571,40 @@ describe('content-type export command', (): void => {
       );
     });
 
+    it('should write every content type in the stable format when stable', async () => {
+      jest.spyOn(exportServiceModule, 'writeStableJsonToFile').mockImplementation();
+      jest.spyOn(exportModule, 'getContentTypeExports').mockReturnValueOnce([
+        [
+          {
+            filename: 'export-dir/export-filename-1.json',
+            status: 'UP-TO-DATE',
+            contentType: contentTypesToProcess[0]
+          },
+          {
+            filename: 'export-dir/export-filename-2.json',
+            status: 'CREATED',
+            contentType: contentTypesToProcess[1]
+          }
+        ],
+        []
+      ]);
+
+      await processContentTypes('export-dir', {}, contentTypesToProcess, undefined, new FileLog(), false, true);
+
+      expect(exportServiceModule.writeJsonToFile).toHaveBeenCalledTimes(0);
+      expect(exportServiceModule.writeStableJsonToFile).toHaveBeenCalledTimes(2);
+      expect(exportServiceModule.writeStableJsonToFile).toHaveBeenNthCalledWith(
+        1,
+        'export-dir/export-filename-1.json',
+        expect.objectContaining(exportedContentTypes[0])
+      );
+      expect(exportServiceModule.writeStableJsonToFile).toHaveBeenNthCalledWith(
+        2,
+        'export-dir/export-filename-2.json',
+        expect.objectContaining(exportedContentTypes[1])
+      );
+    });
+
     it('should output a message if no content types to export from hub', async () => {
       jest.spyOn(exportModule, 'getContentTypeExports').mockReturnValueOnce([[], []]);
 
@@ -584,7 +658,8 @@ describe('content-type export command', (): void => {
         'export-dir',
         previouslyExportedContentTypes,
         contentTypesToProcess,
-        undefined
+        undefined,
+        false
       );
 
       expect(mockEnsureDirectory).toHaveBeenCalledTimes(1);
@@ -657,7 +732,8 @@ describe('content-type export command', (): void => {
         'export-dir',
         previouslyExportedContentTypes,
         mutatedContentTypes,
-        undefined
+        undefined,
+        false
       );
 
       expect(mockEnsureDirectory).toHaveBeenCalledTimes(1);
@@ -729,7 +805,8 @@ describe('content-type export command', (): void => {
         'export-dir',
         previouslyExportedContentTypes,
         mutatedContentTypes,
-        undefined
+        undefined,
+        false
       );
 
       expect(mockEnsureDirectory).toHaveBeenCalledTimes(0);
@@ -816,6 +893,7 @@ describe('content-type export command', (): void => {
         filteredContentTypesToExport,
         [],
         expect.any(FileLog),
+        false,
         false
       );
     });
@@ -851,6 +929,7 @@ describe('content-type export command', (): void => {
         filteredContentTypesToExport,
         [],
         expect.any(FileLog),
+        false,
         false
       );
     });
@@ -875,6 +954,7 @@ describe('content-type export command', (): void => {
         filteredContentTypesToExport,
         [],
         expect.any(FileLog),
+        false,
         false
       );
     });
@@ -10,12 +10,16 @@ import {
   ExportResult,
   nothingExportedExit,
   promptToOverwriteExports,
+  stableFilenamePath,
   uniqueFilename,
-  writeJsonToFile
+  writeJsonToFile,
+  writeStableJsonToFile
 } from '../../services/export.service';
 import { loadJsonFromDirectory } from '../../services/import.service';
 import { validateNoDuplicateContentTypeUris } from './import';
 import { isEqual, compact } from 'lodash';
+import { unlink } from 'fs';
+import { promisify } from 'util';
 import { ExportBuilderOptions } from '../../interfaces/export-builder-options.interface';
 import { ensureDirectoryExists } from '../../common/import/directory-utils';
 import { FileLog } from '../../common/file-log';
@@ -51,6 +55,12 @@ export const builder = (yargs: Argv): void => {
       describe: 'If present, archived content types will also be considered.',
       boolean: true
     })
+    .option('stable', {
+      type: 'boolean',
+      boolean: true,
+      describe:
+        'Write content types in a stable format: files are named by schema ID, object keys are sorted and metadata that changes on every save is left out. Exporting an unchanged hub twice gives identical files.'
+    })
     .option('logFile', {
       type: 'string',
       default: LOG_FILENAME,
@@ -70,6 +80,7 @@ interface ExportRecord {
   readonly filename: string;
   readonly status: ExportResult;
   readonly contentType: ContentTypeWithRepositories;
+  readonly previousFilename?: string;
 }
 
 export const filterContentTypesByUri = (listToFilter: ContentType[], contentTypeUriList: string[]): ContentType[] => {
@@ -112,13 +123,32 @@ export const getExportRecordForContentType = (
   contentType: ContentTypeWithRepositories,
   outputDir: string,
   previouslyExportedContentTypes: { [filename: string]: ContentType },
-  repositories?: ContentRepository[]
+  repositories?: ContentRepository[],
+  stable = false
 ): ExportRecord => {
   const indexOfExportedContentType = Object.values(previouslyExportedContentTypes).findIndex(
     c => c.contentTypeUri === contentType.contentTypeUri
   );
   contentType.repositories = getReposNamesForContentType(repositories, contentType);
 
+  if (stable) {
+    contentType.repositories.sort();
+
+    const filename = stableFilenamePath(outputDir, contentType.contentTypeUri as string, 'json');
+    if (indexOfExportedContentType < 0) {
+      previouslyExportedContentTypes[filename] = contentType;
+      return { filename, status: 'CREATED', contentType };
+    }
+
+    // A previous export may have named the file differently, in which case it is replaced.
+    const previousFilename = Object.keys(previouslyExportedContentTypes)[indexOfExportedContentType];
+    const previouslyExportedContentType = Object.values(previouslyExportedContentTypes)[indexOfExportedContentType];
+    if (previousFilename === filename && equals(previouslyExportedContentType, contentType)) {
+      return { filename, status: 'UP-TO-DATE', contentType };
+    }
+    return { filename, status: 'UPDATED', contentType, previousFilename };
+  }
+
   if (indexOfExportedContentType < 0) {
     const filename = uniqueFilename(
       outputDir,
@@ -157,7 +187,8 @@ export const getContentTypeExports = (
   outputDir: string,
   previouslyExportedContentTypes: { [filename: string]: ContentType },
   contentTypesBeingExported: ContentType[],
-  repositories?: ContentRepository[]
+  repositories?: ContentRepository[],
+  stable = false
 ): [ExportRecord[], ExportsMap[]] => {
   const allExports: ExportRecord[] = [];
   const updatedExportsMap: ExportsMap[] = []; // uri x filename
@@ -170,7 +201,8 @@ export const getContentTypeExports = (
       contentType,
       outputDir,
       previouslyExportedContentTypes,
-      repositories
+      repositories,
+      stable
     );
 
     allExports.push(exportRecord);
@@ -188,7 +220,8 @@ export const processContentTypes = async (
   contentTypesBeingExported: ContentType[],
   repositories: ContentRepository[] | undefined,
   log: FileLog,
-  force: boolean
+  force: boolean,
+  stable = false
 ): Promise<void> => {
   if (contentTypesBeingExported.length === 0) {
     nothingExportedExit(log, 'No content types to export from this hub, exiting.');
@@ -199,7 +232,8 @@ export const processContentTypes = async (
     outputDir,
     previouslyExportedContentTypes,
     contentTypesBeingExported,
-    repositories
+    repositories,
+    stable
   );
   if (
     allExports.length === 0 ||
@@ -214,8 +248,16 @@ export const processContentTypes = async (
   const data: string[][] = [];
 
   data.push([chalk.bold('File'), chalk.bold('Schema ID'), chalk.bold('Result')]);
-  for (const { filename, status, contentType } of allExports) {
-    if (status !== 'UP-TO-DATE') {
+  for (const { filename, status, contentType, previousFilename } of allExports) {
+    if (stable) {
+      // Files that are up to date are still rewritten, in case they were written by an export that was not stable.
+      delete contentType.id; // do not export id
+      writeStableJsonToFile(filename, contentType);
+
+      if (previousFilename && previousFilename !== filename) {
+        await promisify(unlink)(previousFilename);
+      }
+    } else if (status !== 'UP-TO-DATE') {
       delete contentType.id; // do not export id
       writeJsonToFile(filename, contentType);
     }
@@ -226,7 +268,7 @@ export const processContentTypes = async (
 };
 
 export const handler = async (argv: Arguments<ExportBuilderOptions & ConfigurationParameters>): Promise<void> => {
-  const { dir, schemaId, logFile, force } = argv;
+  const { dir, schemaId, logFile, force, stable } = argv;
   const client = dynamicContentClientFactory(argv);
   const hub = await client.hubs.get(argv.hubId);
   const log = logFile.open();
@@ -248,7 +290,8 @@ export const handler = async (argv: Arguments<ExportBuilderOptions & Configurati
     filteredContentTypes,
     repositories,
     log,
-    force || false
+    force || false,
+    stable || false
   );
 
   await log.close();
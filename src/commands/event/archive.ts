@@ -2,7 +2,7 @@ import { Arguments, Argv } from 'yargs';
 import { ConfigurationParameters } from '../configure';
 import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
 import paginator from '../../common/dc-management-sdk-js/paginator';
-import { confirmArchive } from '../../common/archive/archive-helpers';
+import { confirmAction } from '../../common/archive/archive-helpers';
 import ArchiveOptions from '../../common/archive/archive-options';
 import { Edition, Event, DynamicContent } from 'dc-management-sdk-js';
 import { equalsOrRegex } from '../../common/filter/filter';
@@ -204,7 +204,7 @@ export const processItems = async ({
     console.log(`Total: ${events.length}`);
 
     if (!force) {
-      const yes = await confirmArchive('perform', 'actions', false, missingContent);
+      const yes = await confirmAction('perform', 'actions', false, missingContent);
       if (!yes) {
         return;
       }
@@ -66,6 +66,12 @@ describe('extension export command', (): void => {
         boolean: true,
         describe: 'Overwrite extensions without asking.'
       });
+      expect(spyOption).toHaveBeenCalledWith('stable', {
+        type: 'boolean',
+        boolean: true,
+        describe:
+          'Write extensions in a stable format: files are named by extension name, object keys are sorted and metadata that changes on every save is left out. Exporting an unchanged hub twice gives identical files.'
+      });
       expect(spyOption).toHaveBeenCalledWith('logFile', {
         type: 'string',
         default: LOG_FILENAME,
@@ -254,6 +260,38 @@ describe('extension export command', (): void => {
         extension: unchangedExtensionToExport
       });
     });
+
+    it('should name the export by extension name and replace a previous export with a different name when stable', async () => {
+      const exportedExtensions = {
+        'export-dir/export-filename-1.json': new Extension({
+          name: 'extension-name-1',
+          label: 'extension 1'
+        })
+      };
+      const extensionToExport = new Extension({
+        id: 'extension-id-1',
+        name: 'extension-name-1',
+        label: 'extension 1'
+      });
+
+      const result = getExportRecordForExtension(extensionToExport, 'export-dir', exportedExtensions, true);
+
+      expect(result).toEqual({
+        filename: 'export-dir/extension-name-1.json',
+        status: 'UPDATED',
+        extension: extensionToExport,
+        previousFilename: 'export-dir/export-filename-1.json'
+      });
+
+      const unchanged = getExportRecordForExtension(
+        extensionToExport,
+        'export-dir',
+        { 'export-dir/extension-name-1.json': exportedExtensions['export-dir/export-filename-1.json'] },
+        true
+      );
+
+      expect(unchanged.status).toEqual('UP-TO-DATE');
+    });
   });
 
   describe('filterExtensionsById', () => {
@@ -375,7 +413,8 @@ describe('extension export command', (): void => {
       expect(exportModule.getExtensionExports).toHaveBeenCalledWith(
         'export-dir',
         previouslyExportedExtensions,
-        extensionsToProcess
+        extensionsToProcess,
+        false
       );
 
       expect(mockEnsureDirectory).toHaveBeenCalledTimes(1);
@@ -410,6 +449,40 @@ describe('extension export command', (): void => {
       );
     });
 
+    it('should write every extension in the stable format when stable', async () => {
+      jest.spyOn(exportServiceModule, 'writeStableJsonToFile').mockImplementation();
+      jest.spyOn(exportModule, 'getExtensionExports').mockReturnValueOnce([
+        [
+          {
+            filename: 'export-dir/extension-name-1.json',
+            status: 'UP-TO-DATE',
+            extension: extensionsToProcess[0]
+          },
+          {
+            filename: 'export-dir/extension-name-2.json',
+            status: 'CREATED',
+            extension: extensionsToProcess[1]
+          }
+        ],
+        []
+      ]);
+
+      await processExtensions('export-dir', {}, extensionsToProcess, new FileLog(), false, true);
+
+      expect(exportServiceModule.writeJsonToFile).toHaveBeenCalledTimes(0);
+      expect(exportServiceModule.writeStableJsonToFile).toHaveBeenCalledTimes(2);
+      expect(exportServiceModule.writeStableJsonToFile).toHaveBeenNthCalledWith(
+        1,
+        'export-dir/extension-name-1.json',
+        expect.objectContaining(exportedExtensions[0])
+      );
+      expect(exportServiceModule.writeStableJsonToFile).toHaveBeenNthCalledWith(
+        2,
+        'export-dir/extension-name-2.json',
+        expect.objectContaining(exportedExtensions[1])
+      );
+    });
+
     it('should output a message if no extensions to export from hub', async () => {
       jest.spyOn(exportModule, 'getExtensionExports').mockReturnValueOnce([[], []]);
 
@@ -455,7 +528,8 @@ describe('extension export command', (): void => {
       expect(exportModule.getExtensionExports).toHaveBeenCalledWith(
         'export-dir',
         previouslyExportedExtensions,
-        extensionsToProcess
+        extensionsToProcess,
+        false
       );
 
       expect(mockEnsureDirectory).toHaveBeenCalledTimes(1);
@@ -521,7 +595,8 @@ describe('extension export command', (): void => {
       expect(exportModule.getExtensionExports).toHaveBeenCalledWith(
         'export-dir',
         previouslyExportedExtensions,
-        mutatedExtensions
+        mutatedExtensions,
+        false
       );
 
       expect(mockEnsureDirectory).toHaveBeenCalledTimes(1);
@@ -586,7 +661,8 @@ describe('extension export command', (): void => {
       expect(exportModule.getExtensionExports).toHaveBeenCalledWith(
         'export-dir',
         previouslyExportedExtensions,
-        mutatedExtensions
+        mutatedExtensions,
+        false
       );
 
       expect(mockEnsureDirectory).toHaveBeenCalledTimes(0);
@@ -676,6 +752,7 @@ describe('extension export command', (): void => {
         [],
         filteredExtensionsToExport,
         expect.any(FileLog),
+        false,
         false
       );
     });
@@ -699,6 +776,7 @@ describe('extension export command', (): void => {
         [],
         filteredExtensionsToExport,
         expect.any(FileLog),
+        false,
         false
       );
     });
@@ -10,11 +10,15 @@ import {
   ExportResult,
   nothingExportedExit,
   promptToOverwriteExports,
+  stableFilenamePath,
   uniqueFilenamePath,
-  writeJsonToFile
+  writeJsonToFile,
+  writeStableJsonToFile
 } from '../../services/export.service';
 import { loadJsonFromDirectory } from '../../services/import.service';
 import { isEqual } from 'lodash';
+import { unlink } from 'fs';
+import { promisify } from 'util';
 import { ExportBuilderOptions } from '../../interfaces/export-builder-options.interface';
 import { ensureDirectoryExists } from '../../common/import/directory-utils';
 import { FileLog } from '../../common/file-log';
@@ -46,6 +50,12 @@ export const builder = (yargs: Argv): void => {
       boolean: true,
       describe: 'Overwrite extensions without asking.'
     })
+    .option('stable', {
+      type: 'boolean',
+      boolean: true,
+      describe:
+        'Write extensions in a stable format: files are named by extension name, object keys are sorted and metadata that changes on every save is left out. Exporting an unchanged hub twice gives identical files.'
+    })
     .option('logFile', {
       type: 'string',
       default: LOG_FILENAME,
@@ -69,6 +79,7 @@ interface ExportRecord {
   readonly filename: string;
   readonly status: ExportResult;
   readonly extension: Extension;
+  readonly previousFilename?: string;
 }
 
 export const filterExtensionsById = (listToFilter: Extension[], extensionUriList: string[]): Extension[] => {
@@ -93,12 +104,29 @@ export const filterExtensionsById = (listToFilter: Extension[], extensionUriList
 export const getExportRecordForExtension = (
   extension: Extension,
   outputDir: string,
-  previouslyExportedExtensions: { [filename: string]: Extension }
+  previouslyExportedExtensions: { [filename: string]: Extension },
+  stable = false
 ): ExportRecord => {
   const indexOfExportedExtension = Object.values(previouslyExportedExtensions).findIndex(
     c => c.name === extension.name
   );
 
+  if (stable) {
+    const filename = stableFilenamePath(outputDir, extension.name as string, 'json');
+    if (indexOfExportedExtension < 0) {
+      previouslyExportedExtensions[filename] = extension;
+      return { filename, status: 'CREATED', extension };
+    }
+
+    // A previous export may have named the file differently, in which case it is replaced.
+    const previousFilename = Object.keys(previouslyExportedExtensions)[indexOfExportedExtension];
+    const previouslyExportedExtension = Object.values(previouslyExportedExtensions)[indexOfExportedExtension];
+    if (previousFilename === filename && equals(previouslyExportedExtension, extension)) {
+      return { filename, status: 'UP-TO-DATE', extension };
+    }
+    return { filename, status: 'UPDATED', extension, previousFilename };
+  }
+
   if (indexOfExportedExtension < 0) {
     const filename = uniqueFilenamePath(outputDir, extension.name, 'json', Object.keys(previouslyExportedExtensions));
 
@@ -131,7 +159,8 @@ type ExportsMap = {
 export const getExtensionExports = (
   outputDir: string,
   previouslyExportedExtensions: { [filename: string]: Extension },
-  extensionsBeingExported: Extension[]
+  extensionsBeingExported: Extension[],
+  stable = false
 ): [ExportRecord[], ExportsMap[]] => {
   const allExports: ExportRecord[] = [];
   const updatedExportsMap: ExportsMap[] = []; // uri x filename
@@ -140,7 +169,7 @@ export const getExtensionExports = (
       continue;
     }
 
-    const exportRecord = getExportRecordForExtension(extension, outputDir, previouslyExportedExtensions);
+    const exportRecord = getExportRecordForExtension(extension, outputDir, previouslyExportedExtensions, stable);
 
     allExports.push(exportRecord);
 
@@ -156,7 +185,8 @@ export const processExtensions = async (
   previouslyExportedExtensions: { [filename: string]: Extension },
   extensionsBeingExported: Extension[],
   log: FileLog,
-  force: boolean
+  force: boolean,
+  stable = false
 ): Promise<void> => {
   if (extensionsBeingExported.length === 0) {
     nothingExportedExit(log, 'No extensions to export from this hub, exiting.');
@@ -166,7 +196,8 @@ export const processExtensions = async (
   const [allExports, updatedExportsMap] = getExtensionExports(
     outputDir,
     previouslyExportedExtensions,
-    extensionsBeingExported
+    extensionsBeingExported,
+    stable
   );
   if (
     allExports.length === 0 ||
@@ -181,8 +212,16 @@ export const processExtensions = async (
   const data: string[][] = [];
 
   data.push([chalk.bold('File'), chalk.bold('Name'), chalk.bold('Result')]);
-  for (const { filename, status, extension } of allExports) {
-    if (status !== 'UP-TO-DATE') {
+  for (const { filename, status, extension, previousFilename } of allExports) {
+    if (stable) {
+      // Files that are up to date are still rewritten, in case they were written by an export that was not stable.
+      delete extension.id; // do not export id
+      writeStableJsonToFile(filename, extension);
+
+      if (previousFilename && previousFilename !== filename) {
+        await promisify(unlink)(previousFilename);
+      }
+    } else if (status !== 'UP-TO-DATE') {
       delete extension.id; // do not export id
       writeJsonToFile(filename, extension);
     }
@@ -193,7 +232,7 @@ export const processExtensions = async (
 };
 
 export const handler = async (argv: Arguments<ExportBuilderOptions & ConfigurationParameters>): Promise<void> => {
-  const { dir, id, logFile, force } = argv;
+  const { dir, id, logFile, force, stable } = argv;
   const client = dynamicContentClientFactory(argv);
   const hub = await client.hubs.get(argv.hubId);
   const log = logFile.open();
@@ -205,7 +244,7 @@ export const handler = async (argv: Arguments<ExportBuilderOptions & Configurati
 
   const idArray: string[] = id ? (Array.isArray(id) ? id : [id]) : [];
   const filteredExtensions = filterExtensionsById(storedExtensions, idArray);
-  await processExtensions(dir, previouslyExportedExtensions, filteredExtensions, log, force || false);
+  await processExtensions(dir, previouslyExportedExtensions, filteredExtensions, log, force || false, stable || false);
 
   await log.close();
 };
@@ -172,7 +172,10 @@ export const handler = async (argv: Arguments<CloneHubBuilderOptions & Configura
 
   const argvCore = {
     $0: argv.$0,
-    _: argv._
+    _: argv._,
+    maxRetries: argv.maxRetries,
+    requestsPerSecond: argv.requestsPerSecond,
+    concurrency: argv.concurrency
   };
 
   const state: CloneHubState = {
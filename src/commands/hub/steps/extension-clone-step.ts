@@ -59,7 +59,7 @@ export class ExtensionCloneStep implements CloneHubStep {
 
   async revert(state: CloneHubState): Promise<boolean> {
     // Deleting extensions leaves names reserved and unusable, so CREATE actions are ignored.
-    const toUpdate = (state.revertLog as FileLog).getData('UPDATE', this.getName());
+    const toUpdate = (state.revertLog as FileLog).getArgs('UPDATE', this.getName());
 
     // Update using the oldExtension folder.
     if (toUpdate.length > 0 && existsSync(join(state.path, 'oldExtension'))) {
@@ -70,7 +70,7 @@ export class ExtensionCloneStep implements CloneHubStep {
             logFile: state.logFile,
             ...state.to
           },
-          toUpdate.map(item => item.split(' ')[0])
+          toUpdate.map(args => args[0])
         );
       } catch (e) {
         state.logFile.appendLine(`ERROR: Could not import old extensions. \n${e}`);
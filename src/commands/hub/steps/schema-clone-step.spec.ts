@@ -179,7 +179,7 @@ describe('schema clone step', () => {
     const fakeLog = new FileLog();
     fakeLog.switchGroup('Clone Content Type Schemas');
     fakeLog.addAction('CREATE', 'type');
-    fakeLog.addAction('UPDATE', 'type2 0 1');
+    fakeLog.addAction('UPDATE', ['type2', '0', '1']);
 
     await ensureDirectoryExists(`temp_${process.env.JEST_WORKER_ID}/clone-schema/revert-update/oldType`);
 
@@ -200,7 +200,7 @@ describe('schema clone step', () => {
     const fakeLog = new FileLog();
     fakeLog.switchGroup('Clone Content Type Schemas');
     fakeLog.addAction('CREATE', 'type');
-    fakeLog.addAction('UPDATE', 'type2 0 1');
+    fakeLog.addAction('UPDATE', ['type2', '0', '1']);
 
     await ensureDirectoryExists(`temp_${process.env.JEST_WORKER_ID}/clone-schema/revert-fail/oldType`);
 
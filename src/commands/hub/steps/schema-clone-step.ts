@@ -53,7 +53,7 @@ export class SchemaCloneStep implements CloneHubStep {
 
     const revertLog = state.revertLog as FileLog;
     const toArchive = revertLog.getData('CREATE', this.getName());
-    const toUpdate = revertLog.getData('UPDATE', this.getName());
+    const toUpdate = revertLog.getArgs('UPDATE', this.getName());
 
     for (const id of toArchive) {
       try {
@@ -66,9 +66,7 @@ export class SchemaCloneStep implements CloneHubStep {
       }
     }
 
-    for (const id of toUpdate) {
-      const updateArgs = id.split(' ');
-
+    for (const updateArgs of toUpdate) {
       try {
         const schema = await client.contentTypeSchemas.getByVersion(updateArgs[0], Number(updateArgs[1]));
         await schema.related.update(schema);
@@ -78,7 +76,7 @@ export class SchemaCloneStep implements CloneHubStep {
           typeToSync.related.contentTypeSchema.update();
         }
       } catch (e) {
-        state.logFile.appendLine(`Error while updating ${id}. Continuing...`);
+        state.logFile.appendLine(`Error while updating ${updateArgs.join(' ')}. Continuing...`);
       }
     }
 
@@ -201,7 +201,7 @@ describe('type clone step', () => {
     const fakeLog = new FileLog();
     fakeLog.switchGroup('Clone Content Types');
     fakeLog.addAction('CREATE', 'type');
-    fakeLog.addAction('UPDATE', 'type2 0 1');
+    fakeLog.addAction('UPDATE', ['type2', '0', '1']);
 
     await ensureDirectoryExists(`temp_${process.env.JEST_WORKER_ID}/clone-type/revert-update/oldType`);
 
@@ -230,7 +230,7 @@ describe('type clone step', () => {
     const fakeLog = new FileLog();
     fakeLog.switchGroup('Clone Content Types');
     fakeLog.addAction('CREATE', 'type');
-    fakeLog.addAction('UPDATE', 'type2 0 1');
+    fakeLog.addAction('UPDATE', ['type2', '0', '1']);
 
     await ensureDirectoryExists(`temp_${process.env.JEST_WORKER_ID}/clone-type/revert-update/oldType`);
 
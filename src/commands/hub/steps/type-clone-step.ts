@@ -63,7 +63,7 @@ export class TypeCloneStep implements CloneHubStep {
     const client = dynamicContentClientFactory(state.to);
 
     const toArchive = (state.revertLog as FileLog).getData('CREATE', this.getName());
-    const toUpdate = (state.revertLog as FileLog).getData('UPDATE', this.getName());
+    const toUpdate = (state.revertLog as FileLog).getArgs('UPDATE', this.getName());
 
     for (let i = 0; i < toArchive.length; i++) {
       try {
@@ -85,7 +85,7 @@ export class TypeCloneStep implements CloneHubStep {
             logFile: state.logFile,
             ...state.to
           },
-          toUpdate.map(item => item.split(' ')[0])
+          toUpdate.map(args => args[0])
         );
       } catch (e) {
         state.logFile.appendLine(`ERROR: Could not import old types. \n${e}`);
@@ -0,0 +1,12 @@
+import { builder } from './log';
+import YargsCommandBuilderOptions from '../common/yargs/yargs-command-builder-options';
+import Yargs from 'yargs/yargs';
+
+describe('log command', function() {
+  it('should include the commands in the log dir', () => {
+    const argv = Yargs(process.argv.slice(2));
+    const spyCommandDir = jest.spyOn(argv, 'commandDir').mockReturnValue(argv);
+    builder(argv);
+    expect(spyCommandDir).toHaveBeenCalledWith('log', YargsCommandBuilderOptions);
+  });
+});
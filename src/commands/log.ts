@@ -0,0 +1,16 @@
+import { Argv } from 'yargs';
+import YargsCommandBuilderOptions from '../common/yargs/yargs-command-builder-options';
+
+export const command = 'log';
+
+export const desc = 'Log';
+
+export const builder = (yargs: Argv): Argv =>
+  yargs
+    .commandDir('log', YargsCommandBuilderOptions)
+    .demandCommand()
+    .help();
+
+export const handler = (): void => {
+  /* do nothing */
+};
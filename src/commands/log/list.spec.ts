@@ -0,0 +1,87 @@
+import { builder, command, handler, itemMapFn } from './list';
+import Yargs from 'yargs/yargs';
+import DataPresenter, { RenderingOptions } from '../../view/data-presenter';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
+import { writeFile } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import rmdir from 'rimraf';
+
+jest.mock('../../view/data-presenter');
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+describe('log list command', () => {
+  const dir = `temp_${process.env.JEST_WORKER_ID}/log-list/`;
+
+  afterEach((): void => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await rimraf(dir);
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('list');
+  });
+
+  describe('builder tests', function() {
+    it('should configure yargs', function() {
+      const argv = Yargs(process.argv.slice(2));
+      const spyOption = jest.spyOn(argv, 'option').mockReturnThis();
+      const spyOptions = jest.spyOn(argv, 'options').mockReturnThis();
+
+      builder(argv);
+
+      expect(spyOption).toHaveBeenCalledWith('dir', {
+        type: 'string',
+        default: expect.any(String),
+        describe: 'Directory containing the log files.'
+      });
+      expect(spyOptions).toHaveBeenCalledWith(RenderingOptions);
+    });
+  });
+
+  describe('handler tests', function() {
+    it('should render the log files in the directory', async () => {
+      await ensureDirectoryExists(dir);
+      await promisify(writeFile)(join(dir, 'item-export-1000.log'), '// Title\nACTION 1\nSUCCESS');
+      await promisify(writeFile)(join(dir, 'item-import-2000.log'), '// Title\nWARNING \nWARNING');
+
+      const mockRender = jest.fn();
+      (DataPresenter as jest.Mock).mockImplementation(() => ({ render: mockRender }));
+
+      await handler({ $0: 'test', _: ['test'], dir, json: true });
+
+      expect(DataPresenter).toHaveBeenCalledWith([
+        expect.objectContaining({ filename: 'item-import-2000.log', command: 'item import', result: 'WARNING' }),
+        expect.objectContaining({ filename: 'item-export-1000.log', command: 'item export', result: 'SUCCESS' })
+      ]);
+      expect(mockRender).toHaveBeenCalledWith({ json: true, itemMapFn });
+    });
+  });
+
+  describe('itemMapFn tests', function() {
+    it('should map a log file to a row', function() {
+      const row = itemMapFn({
+        filename: 'item-export-1000.log',
+        path: join(dir, 'item-export-1000.log'),
+        command: 'item export',
+        date: new Date(1000),
+        result: 'SUCCESS'
+      });
+
+      expect(row).toEqual({
+        File: 'item-export-1000.log',
+        Command: 'item export',
+        Date: '1970-01-01T00:00:01.000Z',
+        Result: expect.stringContaining('SUCCESS')
+      });
+    });
+  });
+});
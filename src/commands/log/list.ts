@@ -0,0 +1,43 @@
+import { Arguments, Argv } from 'yargs';
+import chalk from 'chalk';
+import DataPresenter, { RenderingArguments, RenderingOptions } from '../../view/data-presenter';
+import { getLogDirectory } from '../../common/log-helpers';
+import { LogFileInfo, listLogFiles } from '../../common/log-files';
+
+export const command = 'list';
+
+export const desc = 'List the log files written by previous commands';
+
+export const builder = (yargs: Argv): void => {
+  yargs
+    .option('dir', {
+      type: 'string',
+      default: getLogDirectory(),
+      describe: 'Directory containing the log files.'
+    })
+    .options(RenderingOptions);
+};
+
+export const colourResult = (result: string): string => {
+  switch (result) {
+    case 'SUCCESS':
+      return chalk.green(result);
+    case 'WARNING':
+      return chalk.yellow(result);
+    default:
+      return chalk.red(result);
+  }
+};
+
+export const itemMapFn = ({ filename, command, date, result }: LogFileInfo): object => ({
+  File: filename,
+  Command: command,
+  Date: date.toISOString(),
+  Result: colourResult(result)
+});
+
+export const handler = async (argv: Arguments<{ dir: string } & RenderingArguments>): Promise<void> => {
+  const logs = await listLogFiles(argv.dir);
+
+  new DataPresenter(logs).render({ json: argv.json, itemMapFn });
+};
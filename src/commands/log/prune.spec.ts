@@ -0,0 +1,113 @@
+import { builder, command, handler } from './prune';
+import Yargs from 'yargs/yargs';
+import readline from 'readline';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
+import { exists, writeFile } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import rmdir from 'rimraf';
+
+jest.mock('readline');
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+describe('log prune command', () => {
+  const dir = `temp_${process.env.JEST_WORKER_ID}/log-prune/`;
+  const day = 24 * 60 * 60 * 1000;
+
+  const oldLog = `item-export-${Date.now() - 40 * day}.log`;
+  const newLog = `item-export-${Date.now() - day}.log`;
+
+  beforeEach(async () => {
+    await ensureDirectoryExists(dir);
+    await promisify(writeFile)(join(dir, oldLog), '// Old\nSUCCESS');
+    await promisify(writeFile)(join(dir, newLog), '// New\nSUCCESS');
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    process.exitCode = 0;
+    await rimraf(dir);
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('prune');
+  });
+
+  describe('builder tests', function() {
+    it('should configure yargs', function() {
+      const argv = Yargs(process.argv.slice(2));
+      const spyOption = jest.spyOn(argv, 'option').mockReturnThis();
+      const spyAlias = jest.spyOn(argv, 'alias').mockReturnThis();
+
+      builder(argv);
+
+      expect(spyOption).toHaveBeenCalledWith('olderThan', {
+        type: 'string',
+        demandOption: true,
+        describe:
+          'Delete log files older than this age, given as a number followed by h (hours), d (days) or w (weeks), such as 30d.'
+      });
+      expect(spyOption).toHaveBeenCalledWith('dir', {
+        type: 'string',
+        default: expect.any(String),
+        describe: 'Directory containing the log files.'
+      });
+      expect(spyAlias).toHaveBeenCalledWith('f', 'force');
+      expect(spyOption).toHaveBeenCalledWith('f', {
+        type: 'boolean',
+        boolean: true,
+        describe: 'Delete the log files without asking.'
+      });
+    });
+  });
+
+  describe('handler tests', function() {
+    it('should delete log files older than the given age', async () => {
+      await handler({ $0: 'test', _: ['test'], olderThan: '30d', dir, force: true });
+
+      expect(await promisify(exists)(join(dir, oldLog))).toBeFalsy();
+      expect(await promisify(exists)(join(dir, newLog))).toBeTruthy();
+      expect(console.log).toHaveBeenLastCalledWith('Deleted 1 log files.');
+    });
+
+    it('should ask before deleting log files', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (readline as any).setResponses(['n']);
+
+      await handler({ $0: 'test', _: ['test'], olderThan: '30d', dir });
+
+      expect(await promisify(exists)(join(dir, oldLog))).toBeTruthy();
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (readline as any).setResponses(['y']);
+
+      await handler({ $0: 'test', _: ['test'], olderThan: '30d', dir });
+
+      expect(await promisify(exists)(join(dir, oldLog))).toBeFalsy();
+    });
+
+    it('should not delete anything when no log files are old enough', async () => {
+      await handler({ $0: 'test', _: ['test'], olderThan: '8w', dir, force: true });
+
+      expect(await promisify(exists)(join(dir, oldLog))).toBeTruthy();
+      expect(console.log).toHaveBeenCalledWith('No log files are older than 8w.');
+    });
+
+    it('should report an error for an invalid age', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      await handler({ $0: 'test', _: ['test'], olderThan: 'a month', dir });
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        '"a month" is not a valid age. Use a number followed by h, d or w, such as 30d.'
+      );
+      expect(process.exitCode).toEqual(1);
+    });
+  });
+});
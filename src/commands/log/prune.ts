@@ -0,0 +1,69 @@
+import { Arguments, Argv } from 'yargs';
+import { unlink } from 'fs';
+import { promisify } from 'util';
+import { getLogDirectory } from '../../common/log-helpers';
+import { listLogFiles, parseDuration } from '../../common/log-files';
+import { asyncQuestion } from '../../common/question-helpers';
+
+export const command = 'prune';
+
+export const desc = 'Delete log files older than a given age';
+
+export const builder = (yargs: Argv): void => {
+  yargs
+    .option('olderThan', {
+      type: 'string',
+      demandOption: true,
+      describe:
+        'Delete log files older than this age, given as a number followed by h (hours), d (days) or w (weeks), such as 30d.'
+    })
+    .option('dir', {
+      type: 'string',
+      default: getLogDirectory(),
+      describe: 'Directory containing the log files.'
+    })
+    .alias('f', 'force')
+    .option('f', {
+      type: 'boolean',
+      boolean: true,
+      describe: 'Delete the log files without asking.'
+    });
+};
+
+export const handler = async (argv: Arguments<{ olderThan: string; dir: string; force?: boolean }>): Promise<void> => {
+  const { olderThan, dir, force } = argv;
+
+  const age = parseDuration(olderThan);
+  if (age == null) {
+    console.error(`"${olderThan}" is not a valid age. Use a number followed by h, d or w, such as 30d.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const cutoff = Date.now() - age;
+  const logs = (await listLogFiles(dir)).filter(log => log.date.getTime() < cutoff);
+
+  if (logs.length === 0) {
+    console.log(`No log files are older than ${olderThan}.`);
+    return;
+  }
+
+  console.log(`The following ${logs.length} log files are older than ${olderThan}:`);
+  logs.forEach(log => console.log(`  ${log.filename}`));
+
+  if (!force && !(await asyncQuestion('Do you want to delete them (y/n)?: '))) {
+    return;
+  }
+
+  let deleted = 0;
+  for (const log of logs) {
+    try {
+      await promisify(unlink)(log.path);
+      deleted++;
+    } catch (e) {
+      console.error(`Could not delete ${log.filename}. ${e.toString()}`);
+    }
+  }
+
+  console.log(`Deleted ${deleted} log files.`);
+};
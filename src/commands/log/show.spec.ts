@@ -0,0 +1,117 @@
+import { builder, command, handler } from './show';
+import Yargs from 'yargs/yargs';
+import DataPresenter, { RenderingOptions } from '../../view/data-presenter';
+import { ensureDirectoryExists } from '../../common/import/directory-utils';
+import { writeFile } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import rmdir from 'rimraf';
+
+jest.mock('../../view/data-presenter');
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+const textLog = `// Clone hub
+// Command: dc-cli hub clone
+> Clone Types
+CREATE type1
+CREATE type2
+UPDATE type3
+WARNING 
+// WARNING: Could not update type4
+> Clone Items
+CREATE item1
+WARNING`;
+
+describe('log show command', () => {
+  const dir = `temp_${process.env.JEST_WORKER_ID}/log-show/`;
+
+  beforeAll(async () => {
+    await ensureDirectoryExists(dir);
+    await promisify(writeFile)(join(dir, 'hub-clone-1000.log'), textLog);
+  });
+
+  afterEach((): void => {
+    jest.restoreAllMocks();
+    process.exitCode = 0;
+  });
+
+  afterAll(async () => {
+    await rimraf(dir);
+  });
+
+  it('should command should defined', function() {
+    expect(command).toEqual('show <file>');
+  });
+
+  describe('builder tests', function() {
+    it('should configure yargs', function() {
+      const argv = Yargs(process.argv.slice(2));
+      const spyPositional = jest.spyOn(argv, 'positional').mockReturnThis();
+      const spyOption = jest.spyOn(argv, 'option').mockReturnThis();
+      const spyOptions = jest.spyOn(argv, 'options').mockReturnThis();
+
+      builder(argv);
+
+      expect(spyPositional).toHaveBeenCalledWith('file', {
+        describe: 'Path to the log file, or the name of a file in the log directory.',
+        type: 'string'
+      });
+      expect(spyOption).toHaveBeenCalledWith('dir', {
+        type: 'string',
+        default: expect.any(String),
+        describe: 'Directory containing the log files.'
+      });
+      expect(spyOptions).toHaveBeenCalledWith(RenderingOptions);
+    });
+  });
+
+  describe('handler tests', function() {
+    it('should print a summary of the actions in each group', async () => {
+      const logSpy = jest.spyOn(console, 'log').mockImplementation();
+
+      await handler({ $0: 'test', _: ['test'], file: 'hub-clone-1000.log', dir });
+
+      const output = logSpy.mock.calls.map(args => args.join(' ')).join('\n');
+      expect(output).toContain('Clone hub');
+      expect(output).toContain('WARNING');
+      expect(output).toContain('Clone Types');
+      expect(output).toMatch(/CREATE.*2/);
+      expect(output).toMatch(/UPDATE.*1/);
+      expect(output).toContain('WARNING: Could not update type4');
+      expect(output).toContain('Clone Items');
+      expect(output).toMatch(/CREATE.*1/);
+    });
+
+    it('should render the summary as json', async () => {
+      const mockRender = jest.fn();
+      (DataPresenter as jest.Mock).mockImplementation(() => ({ render: mockRender }));
+
+      await handler({ $0: 'test', _: ['test'], file: join(dir, 'hub-clone-1000.log'), dir: 'unused', json: true });
+
+      expect(DataPresenter).toHaveBeenCalledWith({
+        title: 'Clone hub',
+        result: 'WARNING',
+        groups: [
+          { group: '_default', actions: {}, errors: [] },
+          { group: 'Clone Types', actions: { CREATE: 2, UPDATE: 1 }, errors: ['WARNING: Could not update type4'] },
+          { group: 'Clone Items', actions: { CREATE: 1 }, errors: [] }
+        ]
+      });
+      expect(mockRender).toHaveBeenCalledWith({ json: true });
+    });
+
+    it('should report an error when the log file does not exist', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      await handler({ $0: 'test', _: ['test'], file: 'missing.log', dir });
+
+      expect(errorSpy).toHaveBeenCalledWith('Could not find the log file "missing.log".');
+      expect(process.exitCode).toEqual(1);
+    });
+  });
+});
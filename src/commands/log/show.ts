@@ -0,0 +1,82 @@
+import { Arguments, Argv } from 'yargs';
+import chalk from 'chalk';
+import { exists } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import DataPresenter, { RenderingArguments, RenderingOptions } from '../../view/data-presenter';
+import { ArchiveLog } from '../../common/archive/archive-log';
+import { getLogDirectory } from '../../common/log-helpers';
+import { summariseLog } from '../../common/log-files';
+import { colourResult } from './list';
+
+export const command = 'show <file>';
+
+export const desc = 'Summarise the actions recorded in a log file';
+
+export const builder = (yargs: Argv): void => {
+  yargs
+    .positional('file', {
+      describe: 'Path to the log file, or the name of a file in the log directory.',
+      type: 'string'
+    })
+    .option('dir', {
+      type: 'string',
+      default: getLogDirectory(),
+      describe: 'Directory containing the log files.'
+    })
+    .options(RenderingOptions);
+};
+
+const resolveLogPath = async (file: string, dir: string): Promise<string | undefined> => {
+  for (const path of [file, join(dir, file)]) {
+    if (await promisify(exists)(path)) {
+      return path;
+    }
+  }
+
+  return undefined;
+};
+
+export const handler = async (argv: Arguments<{ file: string; dir: string } & RenderingArguments>): Promise<void> => {
+  const path = await resolveLogPath(argv.file, argv.dir);
+  if (path == null) {
+    console.error(`Could not find the log file "${argv.file}".`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let log: ArchiveLog;
+  try {
+    log = await new ArchiveLog().loadFromFile(path);
+  } catch (e) {
+    console.error(`Could not read the log file "${path}". ${e.toString()}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const groups = summariseLog(log);
+  const result = log.getResultCode();
+
+  if (argv.json) {
+    new DataPresenter({ title: log.title, result, groups }).render({ json: true });
+    return;
+  }
+
+  console.log(chalk.bold((log.title || path).trim()));
+  console.log(`Result: ${colourResult(result)}`);
+
+  for (const { group, actions, errors } of groups) {
+    console.log('');
+    console.log(chalk.bold(group === '_default' ? '(default)' : group));
+
+    const actionNames = Object.keys(actions);
+    if (actionNames.length === 0 && errors.length === 0) {
+      console.log('  No actions.');
+    }
+
+    const width = Math.max(0, ...actionNames.map(action => action.length));
+    actionNames.forEach(action => console.log(`  ${chalk.cyan(action.padEnd(width))}  ${actions[action]}`));
+
+    errors.forEach(error => console.log(`  ${error.startsWith('WARNING') ? chalk.yellow(error) : chalk.red(error)}`));
+  }
+};
@@ -5,7 +5,7 @@ import { Hub, WorkflowState } from 'dc-management-sdk-js';
 import readline from 'readline';
 import MockPage from '../../common/dc-management-sdk-js/mock-page';
 import { promisify } from 'util';
-import { exists, unlink } from 'fs';
+import { exists, readFile, unlink } from 'fs';
 import { FileLog } from '../../common/file-log';
 import { createLog, getDefaultLogPath } from '../../common/log-helpers';
 
@@ -48,6 +48,13 @@ describe('settings export command', (): void => {
         describe: 'Overwrite settings without asking.'
       });
 
+      expect(spyOption).toHaveBeenCalledWith('stable', {
+        type: 'boolean',
+        boolean: true,
+        describe:
+          'Write settings in a stable format: object keys and workflow states are sorted, and metadata that changes on every save is left out. Exporting an unchanged hub twice gives identical files.'
+      });
+
       expect(spyOption).toHaveBeenCalledWith('logFile', {
         type: 'string',
         default: LOG_FILENAME,
@@ -271,5 +278,30 @@ describe('settings export command', (): void => {
 
       await promisify(unlink)('./hub-settings-5db1727bcff47e0001ce5fd1-amplienceclone1.json');
     });
+
+    it('should export settings without volatile metadata when stable', async () => {
+      const argv = {
+        ...yargArgs,
+        ...config,
+        dir: './',
+        force: true,
+        stable: true,
+        logFile: new FileLog()
+      };
+
+      await handler(argv);
+
+      const filename = './hub-settings-5db1727bcff47e0001ce5fd1-amplienceclone1.json';
+      const text = await promisify(readFile)(filename, { encoding: 'utf8' });
+      const settings = JSON.parse(text);
+
+      expect(Object.keys(settings)).toEqual(['id', 'label', 'name', 'settings', 'workflowStates']);
+      expect(settings.workflowStates).toEqual([
+        { color: 'rgb(25,195,151)', id: '5dcc2f0b4cedfd0001d3ef41', label: 'new' }
+      ]);
+      expect(text.endsWith('}\n')).toBeTruthy();
+
+      await promisify(unlink)(filename);
+    });
   });
 });
@@ -3,7 +3,13 @@ import { ConfigurationParameters } from '../configure';
 import dynamicContentClientFactory from '../../services/dynamic-content-client-factory';
 import paginator from '../../common/dc-management-sdk-js/paginator';
 import { Hub, Settings, WorkflowState } from 'dc-management-sdk-js';
-import { nothingExportedExit, promptToExportSettings, writeJsonToFile } from '../../services/export.service';
+import {
+  nothingExportedExit,
+  promptToExportSettings,
+  toStableJson,
+  writeJsonToFile,
+  writeStableJsonToFile
+} from '../../services/export.service';
 import { ExportBuilderOptions } from '../../interfaces/export-builder-options.interface';
 import * as path from 'path';
 import { FileLog } from '../../common/file-log';
@@ -29,6 +35,12 @@ export const builder = (yargs: Argv): void => {
       boolean: true,
       describe: 'Overwrite settings without asking.'
     })
+    .option('stable', {
+      type: 'boolean',
+      boolean: true,
+      describe:
+        'Write settings in a stable format: object keys and workflow states are sorted, and metadata that changes on every save is left out. Exporting an unchanged hub twice gives identical files.'
+    })
     .option('logFile', {
       type: 'string',
       default: LOG_FILENAME,
@@ -42,7 +54,8 @@ export const processSettings = async (
   hubToExport: Hub,
   workflowStates: WorkflowState[],
   log: FileLog,
-  force: boolean
+  force: boolean,
+  stable = false
 ): Promise<void> => {
   const { id, name, label, settings = new Settings() } = hubToExport;
   let dir = outputDir;
@@ -60,7 +73,7 @@ export const processSettings = async (
     return nothingExportedExit(log);
   }
 
-  writeJsonToFile(uniqueFilename, {
+  const exported = {
     id,
     name,
     label,
@@ -70,20 +83,30 @@ export const processSettings = async (
       localization: settings.localization
     },
     workflowStates: workflowStates
-  });
+  };
+
+  if (stable) {
+    const sortedStates = [...workflowStates].sort((a, b) => (a.id as string).localeCompare(b.id as string));
+    writeStableJsonToFile(uniqueFilename, {
+      ...exported,
+      workflowStates: sortedStates.map(state => toStableJson(state))
+    });
+  } else {
+    writeJsonToFile(uniqueFilename, exported);
+  }
 
   log.appendLine('Settings exported successfully!');
 };
 
 export const handler = async (argv: Arguments<ExportBuilderOptions & ConfigurationParameters>): Promise<void> => {
-  const { dir, logFile, force } = argv;
+  const { dir, logFile, force, stable } = argv;
 
   const client = dynamicContentClientFactory(argv);
   const hub = await client.hubs.get(argv.hubId);
   const log = logFile.open();
   const workflowStates = await paginator(hub.related.workflowStates.list);
 
-  await processSettings(dir, hub, workflowStates, log, force || false);
+  await processSettings(dir, hub, workflowStates, log, force || false, stable || false);
 
   await log.close();
 };
@@ -1,6 +1,11 @@
+import { Argv } from 'yargs';
+import { ContentItem, DynamicContent, Status } from 'dc-management-sdk-js';
 import { asyncQuestion } from '../question-helpers';
+import { ArchiveLog } from './archive-log';
+import paginator from '../dc-management-sdk-js/paginator';
+import { equalsOrRegex } from '../filter/filter';
 
-export async function confirmArchive(
+export async function confirmAction(
   action: string,
   type: string,
   allContent: boolean,
@@ -14,3 +19,250 @@ export async function confirmArchive(
 
   return await asyncQuestion(question);
 }
+
+export const filterContentItems = async ({
+  revertLog,
+  revertAction = 'UNARCHIVE',
+  name,
+  contentType,
+  contentItems
+}: {
+  revertLog?: string;
+  revertAction?: string;
+  name?: string | string[];
+  contentType?: string | string[];
+  contentItems: ContentItem[];
+}): Promise<{ contentItems: ContentItem[]; missingContent: boolean } | undefined> => {
+  try {
+    let missingContent = false;
+
+    if (revertLog != null) {
+      const log = await new ArchiveLog().loadFromFile(revertLog);
+      // The first argument of each action is the content item ID, such as in UPDATE <id> <old version> <new version>.
+      const ids = log.getArgs(revertAction).map(args => args[0]);
+      const contentItemsFiltered = contentItems.filter(contentItem => ids.indexOf(contentItem.id || '') != -1);
+      if (contentItems.length != ids.length) {
+        missingContent = true;
+      }
+
+      return {
+        contentItems: contentItemsFiltered,
+        missingContent
+      };
+    }
+
+    if (name != null) {
+      const itemsArray: string[] = Array.isArray(name) ? name : [name];
+      const contentItemsFiltered = contentItems.filter(
+        item => itemsArray.findIndex(id => equalsOrRegex(item.label || '', id)) != -1
+      );
+
+      return {
+        contentItems: contentItemsFiltered,
+        missingContent
+      };
+    }
+
+    if (contentType != null) {
+      const itemsArray: string[] = Array.isArray(contentType) ? contentType : [contentType];
+      const contentItemsFiltered = contentItems.filter(item => {
+        return itemsArray.findIndex(id => equalsOrRegex(item.body._meta.schema, id)) != -1;
+      });
+
+      return {
+        contentItems: contentItemsFiltered,
+        missingContent
+      };
+    }
+
+    return {
+      contentItems,
+      missingContent
+    };
+  } catch (err) {
+    console.log(err);
+    return {
+      contentItems: [],
+      missingContent: false
+    };
+  }
+};
+
+export const getContentItems = async ({
+  client,
+  id,
+  hubId,
+  repoId,
+  folderId,
+  revertLog,
+  revertAction,
+  name,
+  contentType
+}: {
+  client: DynamicContent;
+  id?: string | string[];
+  hubId: string;
+  repoId?: string | string[];
+  folderId?: string | string[];
+  revertLog?: string;
+  revertAction?: string;
+  name?: string | string[];
+  contentType?: string | string[];
+}): Promise<{ contentItems: ContentItem[]; missingContent: boolean }> => {
+  try {
+    const contentItems: ContentItem[] = [];
+
+    if (id != null) {
+      const itemIds = Array.isArray(id) ? id : [id];
+      const items = await Promise.all(itemIds.map(id => client.contentItems.get(id)));
+      contentItems.push(...items);
+
+      return {
+        contentItems,
+        missingContent: false
+      };
+    }
+
+    const hub = await client.hubs.get(hubId);
+    const repoIds = typeof repoId === 'string' ? [repoId] : repoId || [];
+    const folderIds = typeof folderId === 'string' ? [folderId] : folderId || [];
+    const contentRepositories = await (repoId != null
+      ? Promise.all(repoIds.map(id => client.contentRepositories.get(id)))
+      : paginator(hub.related.contentRepositories.list));
+
+    const folders = folderId != null ? await Promise.all(folderIds.map(id => client.folders.get(id))) : [];
+
+    folderId != null
+      ? await Promise.all(
+          folders.map(async source => {
+            const items = await paginator(source.related.contentItems.list);
+
+            contentItems.push(...items.filter(item => item.status == 'ACTIVE'));
+          })
+        )
+      : await Promise.all(
+          contentRepositories.map(async source => {
+            const items = await paginator(source.related.contentItems.list, { status: Status.ACTIVE });
+            contentItems.push(...items);
+          })
+        );
+
+    return (
+      (await filterContentItems({
+        revertLog,
+        revertAction,
+        name,
+        contentType,
+        contentItems
+      })) || {
+        contentItems: [],
+        missingContent: false
+      }
+    );
+  } catch (err) {
+    console.log(err);
+
+    return {
+      contentItems: [],
+      missingContent: false
+    };
+  }
+};
+
+// Adds the options that select content items to a command that applies an action to them, such as publish.
+// The past tense and present participle of the action can be given when they are not formed with -ed and -ing.
+export const contentItemFilterOptions = (
+  yargs: Argv,
+  action: string,
+  actioned = `${action}ed`,
+  actioning = `${action}ing`
+): Argv =>
+  yargs
+    .positional('id', {
+      type: 'string',
+      describe: `The ID of a content item to be ${actioned}. If id is not provided, this command will ${action} ALL content items through all content repositories in the hub.`
+    })
+    .option('repoId', {
+      type: 'string',
+      describe: `The ID of a content repository to search items in to be ${actioned}.`,
+      requiresArg: false
+    })
+    .option('folderId', {
+      type: 'string',
+      describe: `The ID of a folder to search items in to be ${actioned}.`,
+      requiresArg: false
+    })
+    .option('name', {
+      type: 'string',
+      describe: `The name of a Content Item to be ${actioned}.\nA regex can be provided to select multiple items with similar or matching names (eg /.header/).\nA single --name option may be given to match a single content item pattern.\nMultiple --name options may be given to match multiple content items patterns at the same time, or even multiple regex.`
+    })
+    .option('contentType', {
+      type: 'string',
+      describe: `A pattern which will only ${action} content items with a matching Content Type Schema ID. A single --contentType option may be given to match a single schema id pattern.\nMultiple --contentType options may be given to match multiple schema patterns at the same time.`
+    })
+    .alias('f', 'force')
+    .option('f', {
+      type: 'boolean',
+      boolean: true,
+      describe: `If present, there will be no confirmation prompt before ${actioning} the found content.`
+    })
+    .alias('s', 'silent')
+    .option('s', {
+      type: 'boolean',
+      boolean: true,
+      describe: 'If present, no log file will be produced.'
+    });
+
+export interface ContentItemFilter {
+  id?: string | string[];
+  hubId: string;
+  repoId?: string | string[];
+  folderId?: string | string[];
+  revertLog?: string;
+  name?: string | string[];
+  contentType?: string | string[];
+}
+
+// Loads the content items selected by the options from contentItemFilterOptions, or from the given action in a revert log.
+// Returns undefined when the options conflict.
+export const getFilteredContentItems = async (
+  client: DynamicContent,
+  filter: ContentItemFilter,
+  action: string,
+  revertAction?: string,
+  actioning = `${action}ing`
+): Promise<{ contentItems: ContentItem[]; missingContent: boolean; allContent: boolean } | undefined> => {
+  const { id, hubId, repoId, folderId, revertLog, name, contentType } = filter;
+  const allContent = !id && !name && !contentType && !revertLog && !folderId && !repoId;
+
+  if (repoId && id) {
+    console.log('ID of content item is specified, ignoring repository ID');
+  }
+
+  if (id && name) {
+    console.log('Please specify either a item name or an ID - not both.');
+    return undefined;
+  }
+
+  if (repoId && folderId) {
+    console.log('Folder is specified, ignoring repository ID');
+  }
+
+  if (allContent) {
+    console.log(`No filter was given, ${actioning} all content`);
+  }
+
+  const { contentItems, missingContent } = await getContentItems({
+    client,
+    id,
+    hubId,
+    repoId,
+    folderId,
+    revertLog,
+    revertAction,
+    contentType,
+    name
+  });
+
+  return { contentItems, missingContent, allContent };
+};
@@ -1,5 +1,5 @@
-import { ArchiveLog, LogErrorLevel } from './archive-log';
-import { writeFile, unlink } from 'fs';
+import { ArchiveLog, LogErrorLevel, LogFormat } from './archive-log';
+import { readFile, writeFile, unlink } from 'fs';
 import { promisify } from 'util';
 import * as directoryUtils from '../import/directory-utils';
 import { ensureDirectoryExists } from '../import/directory-utils';
@@ -47,5 +47,86 @@ describe('archive-log', () => {
         await promisify(unlink)(path);
       }
     });
+
+    it('should write a json log with a typed record for each entry', async () => {
+      const path = `temp_${process.env.JEST_WORKER_ID}/json-write.log`;
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      const log = new ArchiveLog('Json Log');
+      log.format = 'json';
+      log.addAction('UPDATE', ['id1', '1', '2']);
+      log.switchGroup('Group With Spaces');
+      log.addComment('A comment');
+      log.warn('Something happened');
+
+      await log.writeToFile(path);
+
+      const text = await promisify(readFile)(path, 'utf8');
+      const records = text
+        .trim()
+        .split('\n')
+        .map(line => JSON.parse(line));
+
+      records.forEach(record => expect(typeof record.timestamp).toEqual('string'));
+      expect(records.map(record => ({ ...record, timestamp: undefined }))).toEqual([
+        { type: 'title', title: 'Json Log' },
+        { type: 'action', action: 'UPDATE', data: ['id1', '1', '2'] },
+        { type: 'group', group: 'Group With Spaces' },
+        { type: 'comment', message: 'A comment' },
+        { type: 'error', level: 'WARNING', message: 'Something happened' },
+        { type: 'comment', message: 'WARNING: Something happened' },
+        { type: 'result', result: 'WARNING' }
+      ]);
+
+      await promisify(unlink)(path);
+    });
+
+    it('should keep action arguments that contain spaces in a json log', async () => {
+      const path = `temp_${process.env.JEST_WORKER_ID}/json-args.log`;
+      jest.spyOn(console, 'log').mockImplementation();
+
+      const log = new ArchiveLog('Json Args');
+      log.format = 'json';
+      log.addAction('ARCHIVE', ['id1', 'key with spaces']);
+      log.addAction('CREATE', 'label with spaces');
+
+      await log.writeToFile(path);
+
+      const loaded = await new ArchiveLog().loadFromFile(path);
+
+      expect(loaded.getArgs('ARCHIVE')).toEqual([['id1', 'key with spaces']]);
+      expect(loaded.getArgs('CREATE')).toEqual([['label with spaces']]);
+
+      await promisify(unlink)(path);
+    });
+
+    it('should load logs in either format', async () => {
+      const path = `temp_${process.env.JEST_WORKER_ID}/json-load.log`;
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'error').mockImplementation();
+
+      for (const format of ['text', 'json'] as LogFormat[]) {
+        const log = new ArchiveLog('Round Trip');
+        log.format = format;
+        log.addAction('ARCHIVE', ['id1', 'delivery-key']);
+        log.switchGroup('Second');
+        log.addAction('CREATE', 'id2');
+        log.error('Failed');
+
+        await log.writeToFile(path);
+
+        const loaded = await new ArchiveLog().loadFromFile(path);
+
+        expect(loaded.format).toEqual(format);
+        expect(loaded.title).toEqual('Round Trip');
+        expect(loaded.getData('ARCHIVE')).toEqual(['id1 delivery-key']);
+        expect(loaded.getArgs('ARCHIVE')).toEqual([['id1', 'delivery-key']]);
+        expect(loaded.getData('CREATE', 'Second')).toEqual(['id2']);
+        expect(loaded.errorLevel).toEqual(LogErrorLevel.ERROR);
+      }
+
+      await promisify(unlink)(path);
+    });
   });
 });
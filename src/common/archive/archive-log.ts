@@ -7,8 +7,22 @@ export interface ArchiveLogItem {
   comment: boolean;
   action?: string;
   data: string;
+  args?: string[]; // The arguments of an action, which data joins with spaces.
+  message?: string; // Only present for errors and warnings.
+  timestamp?: string;
 }
 
+export type LogFormat = 'text' | 'json';
+
+// A line of a log written in the JSON Lines format.
+export type LogRecord =
+  | { type: 'title'; timestamp: string; title: string }
+  | { type: 'group'; timestamp: string; group: string }
+  | { type: 'action'; timestamp: string; action: string; data: string[] }
+  | { type: 'comment'; timestamp: string; message: string }
+  | { type: 'error'; timestamp: string; level: string; message: string }
+  | { type: 'result'; timestamp: string; result: string };
+
 export enum LogErrorLevel {
   NONE = 0,
   WARNING,
@@ -19,15 +33,78 @@ export enum LogErrorLevel {
 export class ArchiveLog {
   errorLevel: LogErrorLevel = LogErrorLevel.NONE;
   items: Map<string, ArchiveLogItem[]> = new Map([['_default', []]]);
+  format: LogFormat = 'text';
 
   public accessGroup: ArchiveLogItem[];
 
+  private created = new Date().toISOString();
+  private groupCreated: Map<string, string> = new Map();
+
   constructor(public title?: string) {
     this.accessGroup = this.items.get('_default') as ArchiveLogItem[];
   }
 
   async loadFromFile(path: string): Promise<ArchiveLog> {
     const log = await promisify(readFile)(path, 'utf8');
+
+    if (log.trimLeft().startsWith('{')) {
+      this.format = 'json';
+      this.loadRecords(log);
+    } else {
+      this.loadText(log);
+    }
+
+    this.switchGroup('_default');
+    return this;
+  }
+
+  private loadRecords(log: string): void {
+    this.switchGroup('_default');
+
+    log.split('\n').forEach(line => {
+      if (line.trim().length === 0) {
+        return;
+      }
+
+      const record = JSON.parse(line) as LogRecord;
+      switch (record.type) {
+        case 'title':
+          this.title = record.title;
+          this.created = record.timestamp;
+          break;
+        case 'group':
+          this.switchGroup(record.group);
+          this.groupCreated.set(record.group, record.timestamp);
+          break;
+        case 'action':
+          this.accessGroup.push({
+            comment: false,
+            action: record.action,
+            data: record.data.join(' '),
+            args: record.data,
+            timestamp: record.timestamp
+          });
+          break;
+        case 'comment':
+          this.accessGroup.push({ comment: true, data: record.message, timestamp: record.timestamp });
+          break;
+        case 'error':
+          this.accessGroup.push({
+            comment: false,
+            action: record.level,
+            data: '',
+            message: record.message,
+            timestamp: record.timestamp
+          });
+          break;
+        case 'result':
+          this.errorLevel = this.parseResultCode(record.result);
+          break;
+      }
+    });
+  }
+
+  private loadText(log: string): void {
     const logLines = log.split('\n');
 
     this.switchGroup('_default');
@@ -52,16 +129,13 @@ export class ArchiveLog {
       } else {
         const lineSplit = line.split(' ');
         if (lineSplit.length >= 2) {
-          this.addAction(lineSplit[0], lineSplit.slice(1).join(' '));
+          this.addAction(lineSplit[0], lineSplit.slice(1));
         }
       }
     });
-
-    this.switchGroup('_default');
-    return this;
   }
 
-  private getResultCode(): string {
+  getResultCode(): string {
     switch (this.errorLevel) {
       case LogErrorLevel.NONE:
         return 'SUCCESS';
@@ -83,24 +157,59 @@ export class ArchiveLog {
     }
   }
 
-  async writeToFile(path: string): Promise<boolean> {
-    try {
-      let log = `// ${this.title}\n`;
-      this.items.forEach((group, groupName) => {
-        if (groupName !== '_default') {
-          log += `> ${groupName}\n`;
+  private toText(): string {
+    let log = `// ${this.title}\n`;
+    this.items.forEach((group, groupName) => {
+      if (groupName !== '_default') {
+        log += `> ${groupName}\n`;
+      }
+
+      group.forEach(item => {
+        if (item.comment) {
+          log += `// ${item.data}\n`;
+        } else {
+          log += `${item.action} ${item.data}\n`;
         }
+      });
+    });
+
+    return log + this.getResultCode();
+  }
 
-        group.forEach(item => {
-          if (item.comment) {
-            log += `// ${item.data}\n`;
-          } else {
-            log += `${item.action} ${item.data}\n`;
-          }
-        });
+  toRecords(): LogRecord[] {
+    const records: LogRecord[] = [{ type: 'title', timestamp: this.created, title: this.title || '' }];
+    let timestamp = this.created;
+
+    this.items.forEach((group, groupName) => {
+      if (groupName !== '_default') {
+        timestamp = this.groupCreated.get(groupName) || timestamp;
+        records.push({ type: 'group', timestamp, group: groupName });
+      }
+
+      group.forEach(item => {
+        timestamp = item.timestamp || timestamp;
+        if (item.comment) {
+          records.push({ type: 'comment', timestamp, message: item.data });
+        } else if (item.message !== undefined) {
+          records.push({ type: 'error', timestamp, level: item.action as string, message: item.message });
+        } else {
+          records.push({ type: 'action', timestamp, action: item.action as string, data: item.args || [item.data] });
+        }
       });
+    });
 
-      log += this.getResultCode();
+    records.push({ type: 'result', timestamp: new Date().toISOString(), result: this.getResultCode() });
+    return records;
+  }
+
+  async writeToFile(path: string): Promise<boolean> {
+    try {
+      const log =
+        this.format === 'json'
+          ? this.toRecords()
+              .map(record => JSON.stringify(record) + '\n')
+              .join('')
+          : this.toText();
 
       const dir = dirname(path);
       await ensureDirectoryExists(dir);
@@ -119,7 +228,13 @@ export class ArchiveLog {
       this.errorLevel = level;
     }
 
-    this.addAction(LogErrorLevel[level], '');
+    this.accessGroup.push({
+      comment: false,
+      action: LogErrorLevel[level],
+      data: '',
+      message,
+      timestamp: new Date().toISOString()
+    });
     this.addComment(LogErrorLevel[level] + ': ' + message);
 
     const errorLog = level == LogErrorLevel.ERROR ? console.error : console.warn;
@@ -148,29 +263,47 @@ export class ArchiveLog {
       targetGroup = [];
 
       this.items.set(group, targetGroup);
+      this.groupCreated.set(group, new Date().toISOString());
     }
 
     this.accessGroup = targetGroup;
   }
 
   addComment(comment: string): void {
+    const timestamp = new Date().toISOString();
     const lines = comment.split('\n');
     lines.forEach(line => {
-      this.accessGroup.push({ comment: true, data: line });
+      this.accessGroup.push({ comment: true, data: line, timestamp });
     });
   }
 
-  addAction(action: string, data: string): void {
-    this.accessGroup.push({ comment: false, action: action, data: data });
+  addAction(action: string, data: string | string[]): void {
+    const args = Array.isArray(data) ? data : [data];
+    this.accessGroup.push({
+      comment: false,
+      action: action,
+      data: args.join(' '),
+      args,
+      timestamp: new Date().toISOString()
+    });
   }
 
-  getData(action: string, group = '_default'): string[] {
+  private getActions(action: string, group: string): ArchiveLogItem[] {
     const items = this.items.get(group);
 
     if (!items) {
       throw new Error(`Group ${group} was missing from the log file.`);
     }
 
-    return items.filter(item => !item.comment && item.action === action).map(item => item.data);
+    return items.filter(item => !item.comment && item.action === action);
+  }
+
+  getData(action: string, group = '_default'): string[] {
+    return this.getActions(action, group).map(item => item.data);
+  }
+
+  // The arguments of each matching action. JSON logs keep them as written, even when they contain spaces.
+  getArgs(action: string, group = '_default'): string[][] {
+    return this.getActions(action, group).map(item => item.args || item.data.split(' '));
   }
 }
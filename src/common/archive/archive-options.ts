@@ -12,4 +12,6 @@ export default interface ArchiveOptions {
   force?: boolean;
   silent?: boolean;
   ignoreError?: boolean;
+  checkDependants?: boolean;
+  cascade?: boolean;
 }
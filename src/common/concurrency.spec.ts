@@ -0,0 +1,67 @@
+import { forEachConcurrently, getConcurrency } from './concurrency';
+
+describe('concurrency', () => {
+  const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+  describe('getConcurrency tests', () => {
+    it('should default to one task at a time', () => {
+      expect(getConcurrency()).toEqual(1);
+      expect(getConcurrency(0)).toEqual(1);
+      expect(getConcurrency(-2)).toEqual(1);
+      expect(getConcurrency(4)).toEqual(4);
+      expect(getConcurrency(2.5)).toEqual(2);
+    });
+  });
+
+  describe('forEachConcurrently tests', () => {
+    it('should run a task for every item, with at most the given number in progress', async () => {
+      let inProgress = 0;
+      let maxInProgress = 0;
+      const seen: number[] = [];
+
+      const result = await forEachConcurrently([1, 2, 3, 4, 5, 6, 7], 3, async (item, index) => {
+        inProgress++;
+        maxInProgress = Math.max(maxInProgress, inProgress);
+        await delay(item % 2 == 0 ? 5 : 1);
+        seen[index] = item;
+        inProgress--;
+      });
+
+      expect(result).toBeTruthy();
+      expect(seen).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(maxInProgress).toEqual(3);
+    });
+
+    it('should run tasks in order when no concurrency is given', async () => {
+      const order: string[] = [];
+
+      await forEachConcurrently(['a', 'b', 'c'], undefined, async item => {
+        order.push(`start ${item}`);
+        await delay(1);
+        order.push(`end ${item}`);
+      });
+
+      expect(order).toEqual(['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+    });
+
+    it('should stop starting tasks when a task returns false', async () => {
+      const started: number[] = [];
+
+      const result = await forEachConcurrently([1, 2, 3, 4, 5], 2, async item => {
+        started.push(item);
+        await delay(1);
+        return item !== 2;
+      });
+
+      expect(result).toBeFalsy();
+      expect(started).toEqual([1, 2, 3]);
+    });
+
+    it('should resolve to true for an empty list', async () => {
+      const task = jest.fn();
+
+      expect(await forEachConcurrently([], 4, task)).toBeTruthy();
+      expect(task).not.toHaveBeenCalled();
+    });
+  });
+});
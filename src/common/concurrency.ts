@@ -0,0 +1,40 @@
+export type ConcurrencyArgument = {
+  concurrency?: number;
+};
+
+export const DEFAULT_CONCURRENCY = 1;
+
+export const getConcurrency = (concurrency?: number): number =>
+  concurrency != null && concurrency >= 1 ? Math.floor(concurrency) : DEFAULT_CONCURRENCY;
+
+/**
+ * Runs a task for each item, with at most `concurrency` tasks in progress at once.
+ * A task can return false to stop any more tasks from starting. Tasks already in progress are allowed to finish.
+ * Resolves to false if the tasks were stopped, or true if a task was run for every item.
+ */
+export const forEachConcurrently = async <T>(
+  items: T[],
+  concurrency: number | undefined,
+  task: (item: T, index: number) => Promise<boolean | void>
+): Promise<boolean> => {
+  let next = 0;
+  let stopped = false;
+
+  const worker = async (): Promise<void> => {
+    while (!stopped && next < items.length) {
+      const index = next++;
+      if ((await task(items[index], index)) === false) {
+        stopped = true;
+      }
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(getConcurrency(concurrency), items.length); i++) {
+    workers.push(worker());
+  }
+
+  await Promise.all(workers);
+
+  return !stopped;
+};
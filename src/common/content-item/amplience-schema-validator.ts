@@ -2,6 +2,7 @@ import Ajv, { ErrorObject } from 'ajv';
 import { ContentTypeSchema, ContentType, CachedSchema } from 'dc-management-sdk-js';
 import { Body } from './body';
 import fetch from 'node-fetch';
+import { escapePointer } from '../json-diff/json-diff';
 
 export function defaultSchemaLookup(types: ContentType[], schemas: ContentTypeSchema[]) {
   return async (uri: string): Promise<ContentTypeSchema | undefined> => {
@@ -29,13 +30,39 @@ export function defaultSchemaLookup(types: ContentType[], schemas: ContentTypeSc
   };
 }
 
+// Converts an ajv data path, such as .links[0]['delivery-key'], to a JSON pointer, such as /links/0/delivery-key.
+export const toJsonPointer = (dataPath: string): string => {
+  const tokens: string[] = [];
+  const pattern = /\.([^.[]+)|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(dataPath)) !== null) {
+    const token = match[1] != null ? match[1] : match[2] != null ? match[2] : match[3].replace(/\\(.)/g, '$1');
+    tokens.push(escapePointer(token));
+  }
+
+  return tokens.map(token => '/' + token).join('');
+};
+
+export const describeSchemaError = (error: ErrorObject): string =>
+  error.params && 'additionalProperty' in error.params
+    ? `${error.message}: '${error.params.additionalProperty}'`
+    : (error.message as string);
+
 export class AmplienceSchemaValidator {
   private ajv: Ajv.Ajv;
   private cache: Map<string, PromiseLike<Ajv.ValidateFunction>>;
   private schemas: ContentTypeSchema[] = [];
 
-  constructor(private schemaLookup: (uri: string) => Promise<ContentTypeSchema | undefined>) {
+  // When fetchRemote is false, schemas that are not found by the lookup are never fetched from their URI.
+  // Other Ajv options, such as allErrors, can be given with ajvOptions.
+  constructor(
+    private schemaLookup: (uri: string) => Promise<ContentTypeSchema | undefined>,
+    private fetchRemote = true,
+    ajvOptions: Ajv.Options = {}
+  ) {
     const ajv = new Ajv({
+      ...ajvOptions,
       loadSchema: this.loadSchema.bind(this),
       unknownFormats: ['symbol', 'color', 'markdown', 'text'],
       schemaId: 'auto'
@@ -46,6 +73,7 @@ export class AmplienceSchemaValidator {
 
     ajv.addMetaSchema(draft4);
     ajv.addMetaSchema(draft4, 'http://bigcontent.io/cms/schema/v1/schema.json');
+    ajv.addMetaSchema(draft4, 'http://bigcontent.io/cms/schema/v1/schema');
 
     this.ajv = ajv;
     this.cache = new Map();
@@ -62,6 +90,10 @@ export class AmplienceSchemaValidator {
     let body: object;
 
     if (internal === undefined) {
+      if (!this.fetchRemote) {
+        throw new Error(`Could not find the schema ${uri} locally.`);
+      }
+
       try {
         const result = await (await fetch(uri)).text();
         body = JSON.parse(result.trim());
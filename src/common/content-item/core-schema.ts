@@ -0,0 +1,93 @@
+import { ContentTypeSchema } from 'dc-management-sdk-js';
+
+export const CORE_SCHEMA_ID = 'http://bigcontent.io/cms/schema/v1/core';
+
+// Links must name their definition as their schema, as that is how they are found in content.
+const metaWithSchema = (definition?: string): object => ({
+  type: 'object',
+  properties: {
+    schema: definition
+      ? { type: 'string', enum: [`${CORE_SCHEMA_ID}#/definitions/${definition}`] }
+      : { type: 'string' },
+    name: { type: 'string' }
+  },
+  required: ['schema']
+});
+
+const linkDefinition = (definition: string): object => ({
+  type: 'object',
+  properties: {
+    _meta: metaWithSchema(definition),
+    contentType: { type: 'string' },
+    id: { type: 'string' }
+  },
+  required: ['_meta', 'contentType', 'id']
+});
+
+const mediaDefinition = (): object => ({
+  type: 'object',
+  properties: {
+    _meta: metaWithSchema(),
+    id: { type: 'string' },
+    name: { type: 'string' },
+    endpoint: { type: 'string' },
+    defaultHost: { type: 'string' }
+  },
+  required: ['_meta', 'id']
+});
+
+const localizedDefinition = (value: object): object => ({
+  type: 'object',
+  properties: {
+    _meta: metaWithSchema(),
+    values: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          locale: { type: 'string' },
+          value
+        },
+        required: ['locale', 'value']
+      }
+    }
+  },
+  required: ['_meta', 'values']
+});
+
+/**
+ * A local copy of the definitions in the Amplience core schema that content type schemas refer to, so that content
+ * can be validated without fetching it. It is only as strict as needed to validate exported content.
+ */
+export const coreSchema = {
+  $schema: 'http://json-schema.org/draft-04/schema#',
+  id: CORE_SCHEMA_ID,
+  definitions: {
+    content: {
+      type: 'object',
+      properties: {
+        _meta: {
+          type: 'object',
+          properties: {
+            schema: { type: 'string' },
+            name: { type: 'string' },
+            deliveryKey: { type: ['string', 'null'] }
+          },
+          required: ['schema']
+        }
+      },
+      required: ['_meta']
+    },
+    'content-link': linkDefinition('content-link'),
+    'content-reference': linkDefinition('content-reference'),
+    'image-link': mediaDefinition(),
+    'video-link': mediaDefinition(),
+    'localized-value': localizedDefinition({}),
+    'localized-string': localizedDefinition({ type: 'string' })
+  }
+};
+
+export const coreSchemaLookup = (uri: string): ContentTypeSchema | undefined =>
+  uri.split('#')[0] === CORE_SCHEMA_ID
+    ? new ContentTypeSchema({ schemaId: CORE_SCHEMA_ID, body: JSON.stringify(coreSchema) })
+    : undefined;
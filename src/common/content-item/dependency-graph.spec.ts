@@ -0,0 +1,114 @@
+import { ContentItem, ContentRepository } from 'dc-management-sdk-js';
+import { ContentDependancyTree } from './content-dependancy-tree';
+import { ContentMapping } from '../content-mapping';
+import { buildDependencyGraph, renderDot, renderMermaid } from './dependency-graph';
+
+describe('dependency-graph', () => {
+  const repo = new ContentRepository({ id: 'repo1', label: 'Repository 1' });
+
+  const reference = (id: string, type = 'content-link'): object => ({
+    _meta: { schema: `http://bigcontent.io/cms/schema/v1/core#/definitions/${type}` },
+    contentType: 'http://type',
+    id
+  });
+
+  const item = (id: string, body: object, parentId?: string): ContentItem =>
+    new ContentItem({
+      id,
+      label: `label "${id}"`,
+      body: { _meta: { schema: 'http://type', hierarchy: parentId ? { parentId } : undefined }, ...body }
+    });
+
+  const createTree = (): ContentDependancyTree =>
+    new ContentDependancyTree(
+      [
+        item('a', { link: reference('b'), ref: reference('c', 'content-reference') }),
+        item('b', { links: [reference('a'), reference('missing')] }),
+        item('c', {}, 'd'),
+        item('d', {}),
+        item('e', { link: reference('e') })
+      ].map(content => ({ repo, content })),
+      new ContentMapping()
+    );
+
+  describe('buildDependencyGraph tests', () => {
+    it('should create nodes with their label, schema and repository, and typed edges for resolved dependencies', () => {
+      const graph = buildDependencyGraph(createTree());
+
+      expect(graph.nodes[0]).toEqual({
+        id: 'a',
+        label: 'label "a"',
+        schema: 'http://type',
+        repository: 'Repository 1',
+        circular: true
+      });
+      expect(graph.edges).toEqual([
+        { from: 'a', to: 'b', type: 'link', circular: true },
+        { from: 'a', to: 'c', type: 'reference', circular: false },
+        { from: 'b', to: 'a', type: 'link', circular: true },
+        { from: 'c', to: 'd', type: 'hierarchy', circular: false },
+        { from: 'e', to: 'e', type: 'link', circular: true }
+      ]);
+      expect(graph.nodes.filter(node => node.circular).map(node => node.id)).toEqual(['a', 'b', 'e']);
+    });
+
+    it('should only include the items reachable from the root item', () => {
+      const graph = buildDependencyGraph(createTree(), ['c']);
+
+      expect(graph.nodes.map(node => node.id)).toEqual(['c', 'd']);
+      expect(graph.edges).toEqual([{ from: 'c', to: 'd', type: 'hierarchy', circular: false }]);
+    });
+
+    it('should only include the items that depend on the root items when dependants is set', () => {
+      const graph = buildDependencyGraph(createTree(), ['d'], true);
+
+      expect(graph.nodes.map(node => node.id)).toEqual(['a', 'b', 'c', 'd']);
+      expect(graph.edges).toEqual([
+        { from: 'a', to: 'b', type: 'link', circular: true },
+        { from: 'a', to: 'c', type: 'reference', circular: false },
+        { from: 'b', to: 'a', type: 'link', circular: true },
+        { from: 'c', to: 'd', type: 'hierarchy', circular: false }
+      ]);
+    });
+
+    it('should throw when the root item is not in the tree', () => {
+      expect(() => buildDependencyGraph(createTree(), ['missing'])).toThrowError(
+        'Could not find content item missing.'
+      );
+    });
+  });
+
+  describe('render tests', () => {
+    it('should escape labels and style edges by type in the DOT format', () => {
+      const dot = renderDot(buildDependencyGraph(createTree(), ['c']));
+
+      expect(dot.split('\n')).toEqual([
+        'digraph content {',
+        '  node [shape=box];',
+        '  "c" [label="label \\"c\\"\\nhttp://type\\nRepository 1"];',
+        '  "d" [label="label \\"d\\"\\nhttp://type\\nRepository 1"];',
+        '  "c" -> "d" [label="hierarchy", style=dotted];',
+        '}'
+      ]);
+    });
+
+    it('should escape labels and use generated node names in the mermaid format', () => {
+      const mermaid = renderMermaid(buildDependencyGraph(createTree(), ['a']));
+
+      expect(mermaid.split('\n')).toEqual([
+        'graph LR',
+        '  n0["label #quot;a#quot;<br/>http://type<br/>Repository 1"]',
+        '  n1["label #quot;b#quot;<br/>http://type<br/>Repository 1"]',
+        '  n2["label #quot;c#quot;<br/>http://type<br/>Repository 1"]',
+        '  n3["label #quot;d#quot;<br/>http://type<br/>Repository 1"]',
+        '  n0 -->|link| n1',
+        '  n0 -.->|reference| n2',
+        '  n1 -->|link| n0',
+        '  n2 ==>|hierarchy| n3',
+        '  classDef circular stroke:#f00,stroke-width:2px',
+        '  class n0,n1 circular',
+        '  linkStyle 0,2 stroke:#f00'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import { ContentDependancyInfo, ContentDependancyTree, ItemContentDependancies } from './content-dependancy-tree';
+
+export type GraphFormat = 'dot' | 'mermaid' | 'json';
+
+export type GraphEdgeType = 'link' | 'reference' | 'hierarchy';
+
+export interface GraphNode {
+  id: string;
+  label: string;
+  schema: string;
+  repository?: string;
+  circular: boolean;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  type: GraphEdgeType;
+  circular: boolean;
+}
+
+export interface DependencyGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+const edgeType = (dep: ContentDependancyInfo): GraphEdgeType => {
+  switch (dep.dependancy._meta.schema) {
+    case '_hierarchy':
+      return 'hierarchy';
+    case 'http://bigcontent.io/cms/schema/v1/core#/definitions/content-reference':
+      return 'reference';
+    default:
+      return 'link';
+  }
+};
+
+const resolvedDependancies = (item: ItemContentDependancies): ItemContentDependancies[] =>
+  item.dependancies.filter(dep => dep.resolved).map(dep => dep.resolved as ItemContentDependancies);
+
+// Finds all items reachable from the given items by following their dependencies, or their dependants.
+const reachableFrom = (roots: ItemContentDependancies[], dependants: boolean): Set<ItemContentDependancies> => {
+  const reached = new Set<ItemContentDependancies>(roots);
+  const queue = [...roots];
+
+  while (queue.length > 0) {
+    const item = queue.shift() as ItemContentDependancies;
+    const links = dependants ? item.dependants : item.dependancies;
+    links.forEach(link => {
+      const target = link.resolved;
+      if (target != null && !reached.has(target)) {
+        reached.add(target);
+        queue.push(target);
+      }
+    });
+  }
+
+  return reached;
+};
+
+/**
+ * Groups the given items into strongly connected components (Tarjan's algorithm), so that every item in a component
+ * can reach every other. Items that are not part of a cycle end up in a component by themselves.
+ */
+const findComponents = (items: ItemContentDependancies[]): Map<ItemContentDependancies, number> => {
+  const candidates = new Set(items);
+  const component = new Map<ItemContentDependancies, number>();
+  const index = new Map<ItemContentDependancies, number>();
+  const lowLink = new Map<ItemContentDependancies, number>();
+  const stack: ItemContentDependancies[] = [];
+  let nextIndex = 0;
+  let nextComponent = 0;
+
+  const connect = (item: ItemContentDependancies): void => {
+    index.set(item, nextIndex);
+    lowLink.set(item, nextIndex++);
+    stack.push(item);
+
+    resolvedDependancies(item)
+      .filter(target => candidates.has(target))
+      .forEach(target => {
+        if (!index.has(target)) {
+          connect(target);
+          lowLink.set(item, Math.min(lowLink.get(item) as number, lowLink.get(target) as number));
+        } else if (!component.has(target)) {
+          lowLink.set(item, Math.min(lowLink.get(item) as number, index.get(target) as number));
+        }
+      });
+
+    if (lowLink.get(item) === index.get(item)) {
+      let member: ItemContentDependancies;
+      do {
+        member = stack.pop() as ItemContentDependancies;
+        component.set(member, nextComponent);
+      } while (member !== item);
+      nextComponent++;
+    }
+  };
+
+  items.forEach(item => {
+    if (!index.has(item)) {
+      connect(item);
+    }
+  });
+
+  return component;
+};
+
+/**
+ * Builds a graph of the content items in a dependency tree and the links, references and hierarchy parents between
+ * them. Items and links that are part of a cycle are marked as circular. When root items are given, the graph only
+ * contains the items that can be reached from them, or that depend on them when `dependants` is set.
+ */
+export const buildDependencyGraph = (
+  tree: ContentDependancyTree,
+  rootIds: string[] = [],
+  dependants = false
+): DependencyGraph => {
+  let items = tree.all;
+
+  if (rootIds.length > 0) {
+    const roots = rootIds.map(id => {
+      const root = tree.byId.get(id);
+      if (root == null) {
+        throw new Error(`Could not find content item ${id}.`);
+      }
+      return root;
+    });
+
+    const reached = reachableFrom(roots, dependants);
+    items = items.filter(item => reached.has(item));
+  }
+
+  const included = new Set(items);
+
+  // Cycles can only contain items that could not be placed in a dependency level.
+  const components = findComponents(tree.circularLinks.filter(item => included.has(item)));
+  const sameCycle = (from: ItemContentDependancies, to: ItemContentDependancies): boolean =>
+    components.has(from) && components.get(from) === components.get(to);
+
+  const edges: GraphEdge[] = [];
+  const circular = new Set<ItemContentDependancies>();
+
+  items.forEach(item => {
+    item.dependancies.forEach(dep => {
+      const target = dep.resolved;
+      if (target == null || !included.has(target)) {
+        return;
+      }
+
+      const isCircular = sameCycle(item, target);
+      if (isCircular) {
+        circular.add(item);
+        circular.add(target);
+      }
+
+      edges.push({
+        from: item.owner.content.id as string,
+        to: target.owner.content.id as string,
+        type: edgeType(dep),
+        circular: isCircular
+      });
+    });
+  });
+
+  const nodes = items.map(item => ({
+    id: item.owner.content.id as string,
+    label: item.owner.content.label,
+    schema: item.owner.content.body._meta.schema,
+    repository: item.owner.repo.label,
+    circular: circular.has(item)
+  }));
+
+  return { nodes, edges };
+};
+
+const dotString = (text: string): string => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const nodeText = (node: GraphNode): string[] => [
+  node.label,
+  node.schema,
+  ...(node.repository ? [node.repository] : [])
+];
+
+const dotEdgeStyle: { [type in GraphEdgeType]: string } = {
+  link: 'solid',
+  reference: 'dashed',
+  hierarchy: 'dotted'
+};
+
+/**
+ * Renders a dependency graph in the Graphviz DOT language. References are dashed, hierarchy parents are dotted and
+ * anything that is part of a cycle is drawn in red.
+ */
+export const renderDot = (graph: DependencyGraph): string => {
+  const lines = ['digraph content {', '  node [shape=box];'];
+
+  graph.nodes.forEach(node => {
+    const label = nodeText(node)
+      .map(text => dotString(text).slice(1, -1))
+      .join('\\n');
+    lines.push(`  ${dotString(node.id)} [label="${label}"${node.circular ? ', color=red' : ''}];`);
+  });
+
+  graph.edges.forEach(edge => {
+    const attributes = [`label=${dotString(edge.type)}`, `style=${dotEdgeStyle[edge.type]}`];
+    if (edge.circular) {
+      attributes.push('color=red');
+    }
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)} [${attributes.join(', ')}];`);
+  });
+
+  lines.push('}');
+  return lines.join('\n');
+};
+
+const mermaidText = (text: string): string => text.replace(/"/g, '#quot;');
+
+const mermaidArrow: { [type in GraphEdgeType]: string } = {
+  link: '-->',
+  reference: '-.->',
+  hierarchy: '==>'
+};
+
+/**
+ * Renders a dependency graph as a Mermaid flowchart. Node names are generated, as content item IDs are not always
+ * valid Mermaid identifiers. Anything that is part of a cycle is drawn in red.
+ */
+export const renderMermaid = (graph: DependencyGraph): string => {
+  const lines = ['graph LR'];
+  const names = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+
+  graph.nodes.forEach(node => {
+    const text = nodeText(node)
+      .map(mermaidText)
+      .join('<br/>');
+    lines.push(`  ${names.get(node.id)}["${text}"]`);
+  });
+
+  graph.edges.forEach(edge => {
+    lines.push(`  ${names.get(edge.from)} ${mermaidArrow[edge.type]}|${edge.type}| ${names.get(edge.to)}`);
+  });
+
+  const circularNodes = graph.nodes.filter(node => node.circular).map(node => names.get(node.id));
+  if (circularNodes.length > 0) {
+    lines.push('  classDef circular stroke:#f00,stroke-width:2px');
+    lines.push(`  class ${circularNodes.join(',')} circular`);
+  }
+
+  const circularEdges = graph.edges.map((edge, index) => (edge.circular ? index : -1)).filter(index => index !== -1);
+  if (circularEdges.length > 0) {
+    lines.push(`  linkStyle ${circularEdges.join(',')} stroke:#f00`);
+  }
+
+  return lines.join('\n');
+};
+
+export const renderGraph = (graph: DependencyGraph, format: GraphFormat): string => {
+  switch (format) {
+    case 'dot':
+      return renderDot(graph);
+    case 'mermaid':
+      return renderMermaid(graph);
+    default:
+      return JSON.stringify(graph, null, 2);
+  }
+};
@@ -0,0 +1,86 @@
+import { exists, readFile, writeFile } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import { ContentItem } from 'dc-management-sdk-js';
+
+// This has no .json extension, so that commands reading content items from the export directory ignore it.
+export const EXPORT_STATE_FILENAME = '.dc-cli-export-state';
+
+export interface ExportStateEntry {
+  path: string; // Relative to the export directory.
+  version?: number;
+  lastModifiedDate?: string;
+}
+
+// Tracks the content items written by the last incremental export to a directory,
+// so that the next export only needs to write files for items that have changed.
+export class ExportState {
+  lastExport?: string;
+  items: Map<string, ExportStateEntry>;
+
+  constructor() {
+    this.items = new Map<string, ExportStateEntry>();
+  }
+
+  get(id: string | undefined): ExportStateEntry | undefined {
+    if (id === undefined) {
+      return undefined;
+    }
+
+    return this.items.get(id);
+  }
+
+  register(item: ContentItem, path: string): void {
+    this.items.set(item.id as string, {
+      path,
+      version: item.version,
+      lastModifiedDate: item.lastModifiedDate
+    });
+  }
+
+  isUnchanged(item: ContentItem): boolean {
+    const entry = this.get(item.id);
+    return entry != null && entry.version === item.version && entry.lastModifiedDate === item.lastModifiedDate;
+  }
+
+  async save(dir: string): Promise<void> {
+    const obj: SerializedExportState = {
+      lastExport: new Date().toISOString(),
+      items: Array.from(this.items)
+    };
+
+    await promisify(writeFile)(join(dir, EXPORT_STATE_FILENAME), JSON.stringify(obj, null, 2), { encoding: 'utf8' });
+  }
+
+  async load(dir: string): Promise<boolean> {
+    const filename = join(dir, EXPORT_STATE_FILENAME);
+    if (!(await promisify(exists)(filename))) {
+      return false;
+    }
+
+    const text = await promisify(readFile)(filename, { encoding: 'utf8' });
+    let obj: SerializedExportState;
+    try {
+      obj = JSON.parse(text);
+    } catch (e) {
+      throw new Error(
+        `The export state in ${filename} could not be read (${e.message}). Delete it to export all content items again.`
+      );
+    }
+
+    if (obj == null || !Array.isArray(obj.items)) {
+      throw new Error(
+        `The export state in ${filename} is not in the expected format. Delete it to export all content items again.`
+      );
+    }
+
+    this.lastExport = obj.lastExport;
+    this.items = new Map(obj.items);
+    return true;
+  }
+}
+
+interface SerializedExportState {
+  lastExport: string;
+  items: [string, ExportStateEntry][];
+}
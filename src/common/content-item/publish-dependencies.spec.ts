@@ -0,0 +1,98 @@
+import { ContentItem, DynamicContent, Status } from 'dc-management-sdk-js';
+import { findPublishDependencies, needsPublish } from './publish-dependencies';
+import { dependsOn } from '../../commands/content-item/__mocks__/dependant-content-helper';
+
+describe('publish-dependencies', () => {
+  const createItem = (
+    id: string,
+    dependencies: string[],
+    version = 1,
+    lastPublishedVersion?: number,
+    status = Status.ACTIVE
+  ): ContentItem =>
+    new ContentItem({
+      id,
+      label: 'item ' + id,
+      status,
+      version,
+      lastPublishedVersion,
+      body: { ...dependsOn(dependencies), _meta: { schema: 'http://type.com' } }
+    });
+
+  const createClient = (items: ContentItem[]): { client: DynamicContent; get: jest.Mock } => {
+    const get = jest.fn(async (id: string) => {
+      const item = items.find(item => item.id === id);
+      if (item == null) {
+        throw new Error('Not found');
+      }
+      return item;
+    });
+
+    return { client: ({ contentItems: { get } } as unknown) as DynamicContent, get };
+  };
+
+  describe('needsPublish tests', () => {
+    it('should need publishing when never published, or when a newer version exists', () => {
+      expect(needsPublish(createItem('id1', []))).toBeTruthy();
+      expect(needsPublish(createItem('id1', [], 3, 2))).toBeTruthy();
+      expect(needsPublish(createItem('id1', [], 3, 3))).toBeFalsy();
+    });
+  });
+
+  describe('findPublishDependencies tests', () => {
+    it('should find nested dependencies, and return them in dependency order', async () => {
+      const { client } = createClient([
+        createItem('link1', ['link2']),
+        createItem('link2', ['link3'], 2, 1),
+        createItem('link3', [])
+      ]);
+
+      const result = await findPublishDependencies(client, [createItem('page', ['link1'])]);
+
+      expect(result.levels.map(level => level.map(item => item.id))).toEqual([['link3'], ['link2'], ['link1']]);
+      expect(result.missing).toEqual([]);
+    });
+
+    it('should leave out dependencies that are already published, but still follow their links', async () => {
+      const { client } = createClient([createItem('link1', ['link2'], 2, 2), createItem('link2', [])]);
+
+      const result = await findPublishDependencies(client, [createItem('page', ['link1'])]);
+
+      expect(result.levels.map(level => level.map(item => item.id))).toEqual([['link2']]);
+    });
+
+    it('should not return the given items, even when other given items depend on them', async () => {
+      const { client, get } = createClient([]);
+
+      const result = await findPublishDependencies(client, [createItem('page', ['slot']), createItem('slot', [])]);
+
+      expect(result.levels).toEqual([]);
+      expect(get).not.toHaveBeenCalled();
+    });
+
+    it('should return circularly linked dependencies in the last level', async () => {
+      const { client } = createClient([
+        createItem('link1', ['link2']),
+        createItem('link2', ['link1']),
+        createItem('link3', [])
+      ]);
+
+      const result = await findPublishDependencies(client, [createItem('page', ['link1', 'link3'])]);
+
+      expect(result.levels.map(level => level.map(item => item.id))).toEqual([['link3'], ['link1', 'link2']]);
+    });
+
+    it('should report dependencies that are missing or archived, and fetch each of them once', async () => {
+      const { client, get } = createClient([createItem('archived', [], 1, undefined, Status.ARCHIVED)]);
+
+      const result = await findPublishDependencies(client, [
+        createItem('page', ['missing', 'archived']),
+        createItem('slot', ['missing'])
+      ]);
+
+      expect(result.levels).toEqual([]);
+      expect(result.missing).toEqual(['missing', 'archived']);
+      expect(get).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { ContentItem, ContentRepository, DynamicContent, Status } from 'dc-management-sdk-js';
+import { ContentDependancyTree, ItemContentDependancies, RepositoryContentItem } from './content-dependancy-tree';
+import { ContentMapping } from '../content-mapping';
+
+interface PublishedContentItem {
+  lastPublishedVersion?: number;
+}
+
+export interface PublishDependencies {
+  // Dependencies that need to be published, grouped into levels that must be published in order.
+  levels: ContentItem[][];
+  // Ids of dependencies that could not be fetched, or are archived.
+  missing: string[];
+}
+
+export const needsPublish = (item: ContentItem): boolean => {
+  const publishedVersion = (item as PublishedContentItem).lastPublishedVersion;
+
+  return publishedVersion == null || publishedVersion < item.version;
+};
+
+const unresolvedDependancies = (tree: ContentDependancyTree, item: ItemContentDependancies): string[] =>
+  item.dependancies
+    .filter(dep => dep.dependancy._meta.schema !== '_hierarchy' && !tree.byId.has(dep.dependancy.id as string))
+    .map(dep => dep.dependancy.id as string);
+
+/**
+ * Finds the content-link and content-reference dependencies of the given content items, following them through
+ * any content they link to in turn. Dependencies that are unpublished, or have a newer version than the one
+ * published, are returned in the order they must be published, with dependencies circularly linked to each
+ * other in the last level. The given items are not included.
+ */
+export const findPublishDependencies = async (
+  client: DynamicContent,
+  items: ContentItem[]
+): Promise<PublishDependencies> => {
+  const dummyRepo = new ContentRepository();
+  const repoItems: RepositoryContentItem[] = items.map(item => ({ repo: dummyRepo, content: item }));
+  const missing = new Set<string>();
+
+  let tree: ContentDependancyTree;
+  let newIds: string[];
+  do {
+    tree = new ContentDependancyTree(repoItems, new ContentMapping());
+
+    const found = new Set<string>();
+    tree.all.forEach(item => unresolvedDependancies(tree, item).forEach(id => found.add(id)));
+    newIds = Array.from(found).filter(id => !missing.has(id));
+
+    for (const id of newIds) {
+      try {
+        const item = await client.contentItems.get(id);
+
+        if (item.status === Status.ACTIVE) {
+          repoItems.push({ repo: dummyRepo, content: item });
+        } else {
+          missing.add(id);
+        }
+      } catch {
+        missing.add(id);
+      }
+    }
+  } while (newIds.length > 0);
+
+  const selected = new Set(items.map(item => item.id as string));
+  const toPublish = (level: ItemContentDependancies[]): ContentItem[] =>
+    level.map(item => item.owner.content).filter(item => !selected.has(item.id as string) && needsPublish(item));
+
+  const levels = [...tree.levels.map(level => toPublish(level.items)), toPublish(tree.circularLinks)];
+
+  return { levels: levels.filter(level => level.length > 0), missing: Array.from(missing) };
+};
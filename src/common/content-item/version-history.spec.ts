@@ -0,0 +1,105 @@
+import { ContentItem } from 'dc-management-sdk-js';
+import {
+  diffVersions,
+  findVersionAt,
+  getVersions,
+  restoreVersion,
+  summariseChanges,
+  summariseVersions
+} from './version-history';
+
+describe('version-history', () => {
+  const createVersion = (version: number, date: string, body: object, label = 'item'): ContentItem =>
+    new ContentItem({
+      id: 'id1',
+      label,
+      version,
+      lastModifiedDate: date,
+      lastModifiedBy: 'user' + version,
+      body: { _meta: { schema: 'http://type.com' }, ...body }
+    });
+
+  const createItem = (): { item: ContentItem; versions: ContentItem[] } => {
+    const versions = [
+      createVersion(1, '2020-01-01T00:00:00.000Z', { title: 'first' }),
+      createVersion(2, '2020-02-01T00:00:00.000Z', { title: 'second', image: 'a.jpg' }),
+      createVersion(3, '2020-03-01T00:00:00.000Z', { title: 'second' }, 'renamed')
+    ];
+    const item = versions[2];
+    item.related.contentItemVersion = jest.fn(async (version: number) => versions[version - 1]);
+    item.related.update = jest.fn(async (mutation: ContentItem) => new ContentItem({ ...mutation, version: 4 }));
+
+    return { item, versions };
+  };
+
+  describe('summariseChanges tests', () => {
+    it('should describe the first version as created, and list the changed paths of later ones', () => {
+      expect(summariseChanges(1, [])).toEqual('Created');
+      expect(summariseChanges(2, [])).toEqual('No changes');
+      expect(
+        summariseChanges(2, [
+          { path: '/title', type: 'changed', before: 'a', after: 'b' },
+          { path: '/image', type: 'added', after: 'a.jpg' }
+        ])
+      ).toEqual('~ /title, + /image');
+    });
+
+    it('should list at most 5 paths', () => {
+      const changes = [1, 2, 3, 4, 5, 6, 7].map(i => ({ path: `/prop${i}`, type: 'removed' as const }));
+
+      expect(summariseChanges(2, changes)).toEqual('- /prop1, - /prop2, - /prop3, - /prop4, - /prop5, and 2 more');
+    });
+  });
+
+  describe('diffVersions tests', () => {
+    it('should include label changes with the body changes', () => {
+      const { versions } = createItem();
+
+      expect(diffVersions(versions[1], versions[2])).toEqual([
+        { path: 'label', type: 'changed', before: 'item', after: 'renamed' },
+        { path: '/image', type: 'removed', before: 'a.jpg' }
+      ]);
+    });
+  });
+
+  describe('getVersions and summariseVersions tests', () => {
+    it('should fetch every version, and summarise each with its date, author and changes', async () => {
+      const { item } = createItem();
+
+      const summaries = summariseVersions(await getVersions(item));
+
+      expect(item.related.contentItemVersion).toHaveBeenCalledTimes(2);
+      expect(summaries.map(summary => [summary.version, summary.date, summary.author])).toEqual([
+        [1, '2020-01-01T00:00:00.000Z', 'user1'],
+        [2, '2020-02-01T00:00:00.000Z', 'user2'],
+        [3, '2020-03-01T00:00:00.000Z', 'user3']
+      ]);
+      expect(summaries[0].changes).toEqual([]);
+      expect(summaries[1].changes.length).toEqual(2);
+    });
+  });
+
+  describe('findVersionAt tests', () => {
+    it('should find the version that was current at the given date', async () => {
+      const { item } = createItem();
+
+      expect(((await findVersionAt(item, new Date('2020-02-15T00:00:00.000Z'))) as ContentItem).version).toEqual(2);
+      expect(((await findVersionAt(item, new Date('2021-01-01T00:00:00.000Z'))) as ContentItem).version).toEqual(3);
+      expect(await findVersionAt(item, new Date('2019-01-01T00:00:00.000Z'))).toBeUndefined();
+    });
+  });
+
+  describe('restoreVersion tests', () => {
+    it('should update the item with the label and body of the old version, as its current version', async () => {
+      const { item, versions } = createItem();
+
+      const result = await restoreVersion(item, versions[0]);
+
+      const mutation = (item.related.update as jest.Mock).mock.calls[0][0];
+      expect(mutation.label).toEqual('item');
+      expect(mutation.body).toEqual(versions[0].body);
+      expect(mutation.version).toEqual(3);
+      expect(result.version).toEqual(4);
+    });
+  });
+});
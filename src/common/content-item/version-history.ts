@@ -0,0 +1,91 @@
+import { ContentItem } from 'dc-management-sdk-js';
+import { jsonDiff, JsonDiffEntry } from '../json-diff/json-diff';
+
+export interface ContentItemVersionSummary {
+  version: number;
+  date: string;
+  author: string;
+  label: string;
+  changes: JsonDiffEntry[];
+}
+
+const MAX_SUMMARY_PATHS = 5;
+
+const diffSymbols = { added: '+', removed: '-', changed: '~' };
+
+// Compares the label and body of two versions, with body paths relative to the body.
+export const diffVersions = (before: ContentItem, after: ContentItem): JsonDiffEntry[] => {
+  const changes = jsonDiff(before.body, after.body);
+
+  if (before.label !== after.label) {
+    changes.unshift({ path: 'label', type: 'changed', before: before.label, after: after.label });
+  }
+
+  return changes;
+};
+
+export const summariseChanges = (version: number, changes: JsonDiffEntry[]): string => {
+  if (version === 1) {
+    return 'Created';
+  }
+
+  if (changes.length === 0) {
+    return 'No changes';
+  }
+
+  const paths = changes.slice(0, MAX_SUMMARY_PATHS).map(change => `${diffSymbols[change.type]} ${change.path}`);
+  if (changes.length > MAX_SUMMARY_PATHS) {
+    paths.push(`and ${changes.length - MAX_SUMMARY_PATHS} more`);
+  }
+
+  return paths.join(', ');
+};
+
+// Fetches every version of a content item, from the first to the current one.
+export const getVersions = async (item: ContentItem): Promise<ContentItem[]> => {
+  const versions: ContentItem[] = [];
+
+  for (let version = 1; version < item.version; version++) {
+    versions.push(await item.related.contentItemVersion(version));
+  }
+
+  versions.push(item);
+
+  return versions;
+};
+
+export const summariseVersions = (versions: ContentItem[]): ContentItemVersionSummary[] =>
+  versions.map((version, index) => ({
+    version: version.version,
+    date: version.lastModifiedDate,
+    author: version.lastModifiedBy,
+    label: version.label,
+    changes: index > 0 ? diffVersions(versions[index - 1], version) : []
+  }));
+
+/**
+ * Finds the version of a content item that was current at the given date, searching back from the current version.
+ * Returns undefined when the item did not exist at that date.
+ */
+export const findVersionAt = async (item: ContentItem, date: Date): Promise<ContentItem | undefined> => {
+  for (let version = item.version; version >= 1; version--) {
+    const candidate = version === item.version ? item : await item.related.contentItemVersion(version);
+
+    if (new Date(candidate.lastModifiedDate).getTime() <= date.getTime()) {
+      return candidate;
+    }
+  }
+
+  return undefined;
+};
+
+// Restores the label and body of an older version as a new version of the content item.
+export const restoreVersion = async (item: ContentItem, oldVersion: ContentItem): Promise<ContentItem> => {
+  const mutation = new ContentItem({
+    label: oldVersion.label,
+    body: oldVersion.body,
+    version: item.version
+  });
+
+  return await item.related.update(mutation);
+};
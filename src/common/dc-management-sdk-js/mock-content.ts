@@ -24,6 +24,7 @@ export interface ItemTemplate {
   status?: string;
   locale?: string;
   lastPublishedVersion?: number;
+  lastModifiedDate?: string;
 
   body?: any;
   dependancy?: string;
@@ -504,10 +505,12 @@ export class MockContent {
         folderId: folderNullOrEmpty ? null : folderId,
         version: template.version,
         lastPublishedVersion: template.lastPublishedVersion,
+        lastModifiedDate: template.lastModifiedDate,
         locale: template.locale,
         body: {
           ...template.body,
           _meta: {
+            ...(template.body && template.body._meta),
             schema: template.typeSchemaUri
           }
         },
@@ -2,6 +2,7 @@ import { FileLog, setVersion } from './file-log';
 import { readFile, exists, unlink } from 'fs';
 import { promisify } from 'util';
 import { ensureDirectoryExists } from './import/directory-utils';
+import { ProgressReporter } from './progress-reporter';
 
 setVersion('test-ver');
 
@@ -43,6 +44,26 @@ describe('file-log', () => {
       await promisify(unlink)(`temp_${process.env.JEST_WORKER_ID}/FileWithDate-1234.log`);
     });
 
+    it('should only write lines to the log while a progress bar is drawn', async () => {
+      const stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      const log = new FileLog().open();
+      log.progress = new ProgressReporter({ write: (): boolean => true }, true);
+
+      log.progress.start('Importing', 2);
+      log.appendLine('Hidden Message');
+      log.progress.finish();
+      log.appendLine('Shown Message');
+      await log.close();
+
+      expect(stdoutSpy).toHaveBeenCalledTimes(1);
+      expect(stdoutSpy).toHaveBeenCalledWith('Shown Message\n');
+      const comments = (log.items.get('_default') || []).map(item => item.data);
+      expect(comments).toEqual(['Hidden Message', 'Shown Message']);
+
+      stdoutSpy.mockRestore();
+    });
+
     it('should only save the log after it has been closed as many times as it was opened', async () => {
       const log = new FileLog('notYet.log').open();
 
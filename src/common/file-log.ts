@@ -1,4 +1,5 @@
 import { ArchiveLog } from './archive/archive-log';
+import { ProgressReporter } from './progress-reporter';
 
 let version = require('../../package.json').version;
 
@@ -21,6 +22,7 @@ function buildTitle(filename?: string): string {
 export class FileLog extends ArchiveLog {
   private openedCount = 0;
   closed: boolean;
+  progress = new ProgressReporter();
 
   constructor(private filename?: string) {
     super(buildTitle(filename));
@@ -32,13 +34,24 @@ export class FileLog extends ArchiveLog {
   }
 
   public appendLine(text = 'undefined', silent = false): void {
-    if (!silent) {
+    // While a progress bar is drawn, detailed lines are only written to the log file.
+    if (!silent && !this.progress.drawing) {
       process.stdout.write(text + '\n');
     }
 
     this.addComment(text as string);
   }
 
+  public warn(message: string, error?: Error): void {
+    this.progress.clear();
+    super.warn(message, error);
+  }
+
+  public error(message: string, error?: Error): void {
+    this.progress.clear();
+    super.error(message, error);
+  }
+
   public open(): FileLog {
     this.openedCount++;
 
@@ -47,6 +60,8 @@ export class FileLog extends ArchiveLog {
 
   public async close(writeIfClosed = true): Promise<void> {
     if (--this.openedCount <= 0) {
+      this.progress.finish();
+
       if (this.filename != null && writeIfClosed) {
         await this.writeToFile(this.filename);
       }
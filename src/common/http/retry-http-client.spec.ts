@@ -0,0 +1,149 @@
+import { DEFAULT_MAX_RETRIES, RetryHttpClient } from './retry-http-client';
+import MockAdapter from 'axios-mock-adapter';
+
+describe('RetryHttpClient tests', () => {
+  const createClient = (
+    options: { maxRetries?: number; requestsPerSecond?: number } = {}
+  ): { client: RetryHttpClient; mock: MockAdapter; waitSpy: jest.SpyInstance } => {
+    const client = new RetryHttpClient(options);
+    const mock = new MockAdapter(client.client);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const waitSpy = jest.spyOn(client as any, 'wait').mockResolvedValue(undefined);
+
+    return { client, mock, waitSpy };
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return the response of a successful request', async () => {
+    const { client, mock, waitSpy } = createClient();
+    mock.onGet('/ping').reply(200, 'pong');
+
+    const response = await client.request({ method: 'GET', url: '/ping' });
+
+    expect(response).toEqual({ status: 200, data: 'pong' });
+    expect(waitSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return error responses without retrying them', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/missing').reply(404, { message: 'Not found' });
+
+    const response = await client.request({ method: 'GET', url: '/missing' });
+
+    expect(response).toEqual({ status: 404, data: { message: 'Not found' } });
+    expect(mock.history.get.length).toEqual(1);
+  });
+
+  it('should retry idempotent requests on 5xx with exponential backoff', async () => {
+    const { client, mock, waitSpy } = createClient();
+    mock
+      .onPut('/item')
+      .replyOnce(503)
+      .onPut('/item')
+      .replyOnce(500)
+      .onPut('/item')
+      .replyOnce(200, { id: 'item' });
+
+    const response = await client.request({ method: 'PUT', url: '/item', data: { id: 'item' } });
+
+    expect(response).toEqual({ status: 200, data: { id: 'item' } });
+    expect(mock.history.put.length).toEqual(3);
+    expect(waitSpy.mock.calls).toEqual([[1000], [2000]]);
+  });
+
+  it('should not retry non-idempotent requests on 5xx', async () => {
+    const { client, mock } = createClient();
+    mock.onPost('/items').reply(500);
+
+    const response = await client.request({ method: 'POST', url: '/items', data: {} });
+
+    expect(response.status).toEqual(500);
+    expect(mock.history.post.length).toEqual(1);
+  });
+
+  it('should retry any request on 429, waiting for the time given by Retry-After', async () => {
+    const { client, mock, waitSpy } = createClient();
+    mock
+      .onPost('/items')
+      .replyOnce(429, {}, { 'retry-after': '5' })
+      .onPost('/items')
+      .replyOnce(201, { id: 'item' });
+
+    const response = await client.request({ method: 'POST', url: '/items', data: {} });
+
+    expect(response).toEqual({ status: 201, data: { id: 'item' } });
+    expect(waitSpy).toHaveBeenCalledWith(5000);
+  });
+
+  it('should accept an HTTP date in Retry-After', async () => {
+    const { client, mock, waitSpy } = createClient();
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('Wed, 21 Oct 2020 07:28:00 GMT'));
+    mock
+      .onGet('/ping')
+      .replyOnce(429, {}, { 'retry-after': 'Wed, 21 Oct 2020 07:28:30 GMT' })
+      .onGet('/ping')
+      .replyOnce(200, 'pong');
+
+    await client.request({ method: 'GET', url: '/ping' });
+
+    expect(waitSpy).toHaveBeenCalledWith(30000);
+  });
+
+  it('should give up after the maximum number of retries', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/ping').reply(429);
+
+    const response = await client.request({ method: 'GET', url: '/ping' });
+
+    expect(response.status).toEqual(429);
+    expect(mock.history.get.length).toEqual(DEFAULT_MAX_RETRIES + 1);
+  });
+
+  it('should not retry when maxRetries is 0', async () => {
+    const { client, mock } = createClient({ maxRetries: 0 });
+    mock.onGet('/ping').reply(503);
+
+    const response = await client.request({ method: 'GET', url: '/ping' });
+
+    expect(response.status).toEqual(503);
+    expect(mock.history.get.length).toEqual(1);
+  });
+
+  it('should retry idempotent requests that fail without a response', async () => {
+    const { client, mock } = createClient({ maxRetries: 1 });
+    mock
+      .onGet('/ping')
+      .networkErrorOnce()
+      .onGet('/ping')
+      .replyOnce(200, 'pong');
+
+    const response = await client.request({ method: 'GET', url: '/ping' });
+
+    expect(response).toEqual({ status: 200, data: 'pong' });
+  });
+
+  it('should throw network errors once the retries are used up', async () => {
+    const { client, mock } = createClient({ maxRetries: 1 });
+    mock.onGet('/ping').networkError();
+
+    await expect(client.request({ method: 'GET', url: '/ping' })).rejects.toThrowError('Network Error');
+    expect(mock.history.get.length).toEqual(2);
+  });
+
+  it('should space out requests to stay under requestsPerSecond', async () => {
+    const { client, mock, waitSpy } = createClient({ requestsPerSecond: 4 });
+    jest.spyOn(Date, 'now').mockReturnValue(10000);
+    mock.onGet('/ping').reply(200, 'pong');
+
+    await Promise.all([
+      client.request({ method: 'GET', url: '/ping' }),
+      client.request({ method: 'GET', url: '/ping' }),
+      client.request({ method: 'GET', url: '/ping' })
+    ]);
+
+    expect(waitSpy.mock.calls).toEqual([[250], [500]]);
+  });
+});
@@ -0,0 +1,124 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+
+export type HttpRetryArguments = {
+  maxRetries?: number;
+  requestsPerSecond?: number;
+};
+
+// Matches the HttpRequest and HttpResponse types of both dc-management-sdk-js and the ContentHub client.
+export interface RetryHttpRequest {
+  url: string;
+  method: string;
+  data?: string | object;
+  headers?: { [key: string]: string };
+}
+
+export interface RetryHttpResponse {
+  status: number;
+  data: string | Record<string, unknown>;
+}
+
+export const DEFAULT_MAX_RETRIES = 3;
+
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60000;
+
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE'];
+
+/**
+ * An HTTP client for the management APIs that retries failed requests and limits the request rate.
+ * Idempotent requests are retried when the server responds with 429 or a 5xx status, or when no response is received.
+ * Other requests are only retried on 429, as the server has not processed them.
+ */
+export class RetryHttpClient {
+  public client: AxiosInstance;
+
+  private maxRetries: number;
+  private requestInterval: number;
+  private nextRequestTime = 0;
+
+  constructor(options: HttpRetryArguments = {}, config: AxiosRequestConfig = {}) {
+    this.client = axios.create(config);
+    this.maxRetries = options.maxRetries != null ? Math.max(0, options.maxRetries) : DEFAULT_MAX_RETRIES;
+    this.requestInterval = options.requestsPerSecond ? 1000 / options.requestsPerSecond : 0;
+  }
+
+  public async request(config: RetryHttpRequest): Promise<RetryHttpResponse> {
+    for (let attempt = 0; ; attempt++) {
+      await this.throttle();
+
+      let response: AxiosResponse;
+      try {
+        response = await this.client.request({
+          data: config.data,
+          headers: config.headers,
+          method: config.method as AxiosRequestConfig['method'],
+          url: config.url,
+          validateStatus: () => true
+        });
+      } catch (error) {
+        if (attempt >= this.maxRetries || !this.isIdempotent(config.method)) {
+          throw error;
+        }
+
+        await this.wait(this.getBackoffDelay(attempt));
+        continue;
+      }
+
+      if (attempt >= this.maxRetries || !this.shouldRetry(config.method, response.status)) {
+        return {
+          data: response.data,
+          status: response.status
+        };
+      }
+
+      const retryAfter = this.getRetryAfterDelay(response.headers && response.headers['retry-after']);
+      await this.wait(retryAfter != null ? retryAfter : this.getBackoffDelay(attempt));
+    }
+  }
+
+  protected wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private async throttle(): Promise<void> {
+    if (this.requestInterval === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const start = Math.max(now, this.nextRequestTime);
+    this.nextRequestTime = start + this.requestInterval;
+
+    if (start > now) {
+      await this.wait(start - now);
+    }
+  }
+
+  private isIdempotent(method: string): boolean {
+    return IDEMPOTENT_METHODS.indexOf(method.toUpperCase()) !== -1;
+  }
+
+  private shouldRetry(method: string, status: number): boolean {
+    return status === 429 || (status >= 500 && this.isIdempotent(method));
+  }
+
+  private getBackoffDelay(attempt: number): number {
+    return Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * Math.pow(2, attempt));
+  }
+
+  // Retry-After is either a number of seconds or an HTTP date.
+  private getRetryAfterDelay(retryAfter?: string): number | undefined {
+    if (retryAfter == null) {
+      return undefined;
+    }
+
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(retryAfter);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
@@ -2,6 +2,7 @@ import { ContentItem } from 'dc-management-sdk-js';
 import { JobRequest } from '../publish-queue';
 
 export const publishCalls: ContentItem[] = [];
+export const unpublishCalls: ContentItem[] = [];
 
 export class PublishQueue {
   maxWaiting = 3;
@@ -22,6 +23,12 @@ export class PublishQueue {
     return;
   }
 
+  async unpublish(item: ContentItem): Promise<void> {
+    unpublishCalls.push(item);
+
+    return;
+  }
+
   async waitForAll(): Promise<void> {
     // TODO: testing ability to throw (in wait for publish)
 
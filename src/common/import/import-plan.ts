@@ -0,0 +1,246 @@
+import { readFile, writeFile } from 'fs';
+import { dirname } from 'path';
+import { promisify } from 'util';
+import { ContentItem, ContentRepository, ContentType, Folder } from 'dc-management-sdk-js';
+import { ensureDirectoryExists } from './directory-utils';
+
+// Ids given to folders and content types that only exist in a plan. They are replaced by the real ids on apply.
+const PLANNED_ID_PREFIX = 'PLANNED-';
+
+export interface PlannedFolder {
+  id: string;
+  name: string;
+  repoId: string;
+  parentId: string | null;
+  path: string;
+}
+
+export interface PlannedContentType {
+  id: string;
+  schemaId: string;
+  label: string;
+}
+
+export interface PlannedAssignment {
+  repoId: string;
+  schemaId: string;
+}
+
+export interface PlannedContentItem {
+  action: 'CREATE' | 'UPDATE';
+  repoId: string;
+  targetId?: string;
+  version?: number;
+  publish: boolean;
+  content: {
+    id: string;
+    label: string;
+    locale?: string;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    body: any;
+    deliveryId?: string;
+    folderId: string | null;
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type PlanEntry = any;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringOrNull = (value: unknown): boolean => value === null || isString(value);
+
+const isFolder = (folder: PlanEntry): boolean =>
+  isString(folder.id) &&
+  isString(folder.name) &&
+  isString(folder.repoId) &&
+  isStringOrNull(folder.parentId) &&
+  isString(folder.path);
+
+const isContentType = (type: PlanEntry): boolean =>
+  isString(type.id) && isString(type.schemaId) && isString(type.label);
+
+const isAssignment = (assignment: PlanEntry): boolean => isString(assignment.repoId) && isString(assignment.schemaId);
+
+const isContentItem = (item: PlanEntry): boolean =>
+  (item.action === 'CREATE' ||
+    (item.action === 'UPDATE' && isString(item.targetId) && typeof item.version === 'number')) &&
+  isString(item.repoId) &&
+  typeof item.publish === 'boolean' &&
+  item.content != null &&
+  isString(item.content.id) &&
+  isString(item.content.label) &&
+  item.content.body != null &&
+  typeof item.content.body === 'object' &&
+  isStringOrNull(item.content.folderId);
+
+export class ImportPlan {
+  hubId: string;
+  mapFile: string;
+  created: string;
+  publish: boolean;
+  republish: boolean;
+
+  folders: PlannedFolder[] = [];
+  contentTypes: PlannedContentType[] = [];
+  assignments: PlannedAssignment[] = [];
+  contentItems: PlannedContentItem[] = [];
+
+  constructor(hubId = '', mapFile = '', publish = false, republish = false) {
+    this.hubId = hubId;
+    this.mapFile = mapFile;
+    this.created = new Date().toISOString();
+    this.publish = publish;
+    this.republish = republish;
+  }
+
+  static isPlannedId(id: string | null | undefined): boolean {
+    return id != null && id.startsWith(PLANNED_ID_PREFIX);
+  }
+
+  planFolder(repo: ContentRepository, parent: Folder | null, name: string, path: string): Folder {
+    const folder: PlannedFolder = {
+      id: `${PLANNED_ID_PREFIX}FOLDER-${this.folders.length}`,
+      name,
+      repoId: repo.id as string,
+      parentId: parent == null ? null : (parent.id as string),
+      path
+    };
+
+    this.folders.push(folder);
+
+    return new Folder({ id: folder.id, name });
+  }
+
+  planContentType(schemaId: string, label: string): ContentType {
+    const type: PlannedContentType = {
+      id: `${PLANNED_ID_PREFIX}TYPE-${this.contentTypes.length}`,
+      schemaId,
+      label
+    };
+
+    this.contentTypes.push(type);
+
+    return new ContentType({ id: type.id, contentTypeUri: schemaId, settings: { label } });
+  }
+
+  planAssignment(repo: ContentRepository, type: ContentType): void {
+    this.assignments.push({ repoId: repo.id as string, schemaId: type.contentTypeUri as string });
+  }
+
+  planContentItem(repo: ContentRepository, content: ContentItem, publish: boolean, existing?: ContentItem): void {
+    this.contentItems.push({
+      action: existing ? 'UPDATE' : 'CREATE',
+      repoId: repo.id as string,
+      targetId: existing ? existing.id : undefined,
+      version: existing ? existing.version : undefined,
+      publish,
+      content: {
+        id: content.id as string,
+        label: content.label as string,
+        locale: content.locale,
+        body: content.body,
+        deliveryId: content.deliveryId,
+        folderId: content.folderId || null
+      }
+    });
+  }
+
+  async save(filename: string): Promise<void> {
+    const obj: SerializedImportPlan = {
+      hubId: this.hubId,
+      mapFile: this.mapFile,
+      created: this.created,
+      publish: this.publish,
+      republish: this.republish,
+      folders: this.folders,
+      contentTypes: this.contentTypes,
+      assignments: this.assignments,
+      contentItems: this.contentItems
+    };
+
+    await ensureDirectoryExists(dirname(filename));
+    await promisify(writeFile)(filename, JSON.stringify(obj, null, 2), { encoding: 'utf8' });
+  }
+
+  // Returns the first problem with the structure of a loaded plan, or undefined if there are none.
+  private static validate(obj: SerializedImportPlan): string | undefined {
+    if (!isString(obj.mapFile)) {
+      return 'it has no mapping file.';
+    }
+
+    const lists: [string, PlanEntry[] | undefined, (entry: PlanEntry) => boolean][] = [
+      ['folders', obj.folders, isFolder],
+      ['contentTypes', obj.contentTypes, isContentType],
+      ['assignments', obj.assignments, isAssignment],
+      ['contentItems', obj.contentItems, isContentItem]
+    ];
+
+    for (const [name, entries, isValid] of lists) {
+      if (entries == null) {
+        continue;
+      }
+      if (!Array.isArray(entries)) {
+        return `${name} is not a list.`;
+      }
+
+      const index = entries.findIndex(entry => entry == null || typeof entry !== 'object' || !isValid(entry));
+      if (index !== -1) {
+        return `${name}[${index}] is missing fields or has fields of the wrong type.`;
+      }
+    }
+
+    // Planned folders can only be referred to once they have been listed, as they are created in order.
+    const plannedFolders = new Set<string>();
+    for (const folder of obj.folders || []) {
+      if (ImportPlan.isPlannedId(folder.parentId) && !plannedFolders.has(folder.parentId as string)) {
+        return `the parent of the folder '${folder.path}' is not planned before it.`;
+      }
+      plannedFolders.add(folder.id);
+    }
+
+    const unknownFolder = obj.contentItems.find(
+      item => ImportPlan.isPlannedId(item.content.folderId) && !plannedFolders.has(item.content.folderId as string)
+    );
+    if (unknownFolder) {
+      return `the content item ${unknownFolder.content.label} is in a folder that is not planned.`;
+    }
+
+    return undefined;
+  }
+
+  async load(filename: string): Promise<void> {
+    const text = await promisify(readFile)(filename, { encoding: 'utf8' });
+    const obj: SerializedImportPlan = JSON.parse(text);
+
+    if (typeof obj.hubId !== 'string' || !Array.isArray(obj.contentItems)) {
+      throw new Error(`${filename} is not an import plan.`);
+    }
+
+    const problem = ImportPlan.validate(obj);
+    if (problem) {
+      throw new Error(`${filename} is not a valid import plan: ${problem}`);
+    }
+
+    this.hubId = obj.hubId;
+    this.mapFile = obj.mapFile;
+    this.created = obj.created;
+    this.publish = Boolean(obj.publish);
+    this.republish = Boolean(obj.republish);
+    this.folders = obj.folders || [];
+    this.contentTypes = obj.contentTypes || [];
+    this.assignments = obj.assignments || [];
+    this.contentItems = obj.contentItems;
+  }
+}
+
+interface SerializedImportPlan {
+  hubId: string;
+  mapFile: string;
+  created: string;
+  publish: boolean;
+  republish: boolean;
+  folders: PlannedFolder[];
+  contentTypes: PlannedContentType[];
+  assignments: PlannedAssignment[];
+  contentItems: PlannedContentItem[];
+}
@@ -150,8 +150,8 @@ describe('publish-queue', () => {
       return items;
     }
 
-    function makeQueue(): PublishQueue {
-      const queue = new PublishQueue({ clientId: 'id', clientSecret: 'secret', hubId: 'hub' });
+    function makeQueue(concurrency?: number): PublishQueue {
+      const queue = new PublishQueue({ clientId: 'id', clientSecret: 'secret', hubId: 'hub', concurrency });
       queue.attemptDelay = 0;
 
       return queue;
@@ -175,6 +175,31 @@ describe('publish-queue', () => {
       expect(totalPolls).toEqual(3);
     });
 
+    it('should request an unpublish using the unpublish link of the content item', async () => {
+      const item1 = new ContentItem({
+        id: 'id1',
+        _links: {
+          unpublish: {
+            href: '//unpublish-id1'
+          }
+        }
+      });
+      sharedMock([
+        publishStartTemplate('//unpublish-id1', '//unpublishJob-id1'),
+        progressStepsTemplate('//unpublishJob-id1', 2)
+      ]);
+
+      const queue = makeQueue();
+
+      await queue.unpublish(item1);
+
+      await queue.waitForAll();
+
+      expect(totalRequests).toEqual(3);
+      expect(totalPolls).toEqual(2);
+      expect(queue.failedJobs).toEqual([]);
+    });
+
     it('should wait for publish completion when starting a publish and attempting to publish more', async () => {
       const items = multiMock(10, 1); // 10 items, return success on the first poll (instant publish)
 
@@ -192,6 +217,23 @@ describe('publish-queue', () => {
       expect(totalPolls).toEqual(10);
     });
 
+    it('should allow as many publishes in progress as the concurrency before waiting for completion', async () => {
+      const items = multiMock(10, 1);
+
+      const queue = makeQueue(3);
+
+      for (let i = 0; i < items.length; i++) {
+        await queue.publish(items[i]);
+
+        // Starts polling when i == 3, and each time we continue one job has completed.
+        expect(totalPolls).toEqual(Math.max(0, i - 2));
+      }
+
+      await queue.waitForAll();
+
+      expect(totalPolls).toEqual(10);
+    });
+
     it('should never wait for publish completion when starting a publish, only when waiting or publishing more', async () => {
       const items = multiMock(1, 1); // 10 items, return success on the first poll (instant publish)
 
@@ -352,6 +394,23 @@ describe('publish-queue', () => {
       expect(totalRequests).toEqual(6);
     });
 
+    it('should wait for completion again when publishing more after waitForAll', async () => {
+      const items = multiMock(3, 1);
+
+      const queue = makeQueue(1);
+
+      await queue.publish(items[0]);
+      await queue.waitForAll();
+
+      // The second publish has to wait for the first to complete, which needs a new wait to start.
+      await queue.publish(items[1]);
+      await queue.publish(items[2]);
+      await queue.waitForAll();
+
+      expect(totalPolls).toEqual(3);
+      expect(queue.failedJobs).toEqual([]);
+    });
+
     it('should still correctly waitForAll if a previous publish is waiting to start', async () => {
       const items = multiMock(10, 1); // 10 items, return success on the first poll (instant publish)
 
@@ -2,6 +2,7 @@ import { ContentItem, OAuth2Client, AxiosHttpClient } from 'dc-management-sdk-js
 import fetch, { Response } from 'node-fetch';
 import { HalLink } from 'dc-management-sdk-js/build/main/lib/hal/models/HalLink';
 import { ConfigurationParameters } from '../../commands/configure';
+import { ConcurrencyArgument, getConcurrency } from '../concurrency';
 
 export interface PublishingJob {
   id: string;
@@ -27,6 +28,7 @@ export interface JobRequest {
 export class PublishQueue {
   maxAttempts = 30;
   attemptDelay = 1000;
+  maxInProgress: number;
   failedJobs: JobRequest[] = [];
 
   private inProgressJobs: JobRequest[] = [];
@@ -36,7 +38,9 @@ export class PublishQueue {
 
   waitInProgress = false;
 
-  constructor(credentials: ConfigurationParameters) {
+  constructor(credentials: ConfigurationParameters & ConcurrencyArgument) {
+    this.maxInProgress = getConcurrency(credentials.concurrency);
+
     const http = new AxiosHttpClient({});
     this.auth = new OAuth2Client(
       // eslint-disable-next-line @typescript-eslint/camelcase
@@ -56,30 +60,37 @@ export class PublishQueue {
   }
 
   async publish(item: ContentItem): Promise<void> {
+    await this.startJob(item, 'publish');
+  }
+
+  async unpublish(item: ContentItem): Promise<void> {
+    await this.startJob(item, 'unpublish');
+  }
+
+  private async startJob(item: ContentItem, action: 'publish' | 'unpublish'): Promise<void> {
     await this.rateLimit();
 
-    // Do publish
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const publishLink = (item._links as any)['publish'];
+    const link = (item._links as any)[action];
 
-    if (publishLink == null) {
-      throw new Error('Cannot publish the item - link not available.');
+    if (link == null) {
+      throw new Error(`Cannot ${action} the item - link not available.`);
     }
 
     // Need to manually fetch the publish endpoint.
 
-    const publish = await this.fetch(publishLink.href, 'POST');
-    if (publish.status != 204) {
-      throw new Error(`Failed to start publish: ${publish.statusText} - ${await publish.text()}`);
+    const response = await this.fetch(link.href, 'POST');
+    if (response.status != 204) {
+      throw new Error(`Failed to start ${action}: ${response.statusText} - ${await response.text()}`);
     }
 
-    const publishJobInfoHref = publish.headers.get('Location');
+    const jobInfoHref = response.headers.get('Location');
 
-    if (publishJobInfoHref == null) {
-      throw new Error('Expected publish job location in header. Has the publish workflow changed?');
+    if (jobInfoHref == null) {
+      throw new Error(`Expected ${action} job location in header. Has the publish workflow changed?`);
     }
 
-    this.inProgressJobs.push({ href: publishJobInfoHref, item });
+    this.inProgressJobs.push({ href: jobInfoHref, item });
   }
 
   private async waitForOldestPublish(): Promise<void> {
@@ -137,7 +148,7 @@ export class PublishQueue {
   }
 
   private async rateLimit(): Promise<void> {
-    if (this.inProgressJobs.length == 0) {
+    if (this.inProgressJobs.length < this.maxInProgress) {
       return;
     }
 
@@ -160,13 +171,19 @@ export class PublishQueue {
   }
 
   async waitForAll(): Promise<void> {
-    if (this.waitInProgress) {
+    if (this.waitInProgress && this.waitingList.length > 0) {
       // Wait for the last item on the list to complete.
       await this.waitingList[this.waitingList.length - 1].promise;
     }
 
     // Continue regardless of waiters.
     this.awaitingAll = true;
-    await this.waitForOldestPublish();
+    try {
+      await this.waitForOldestPublish();
+    } finally {
+      // Nothing is in progress now, so publishes made after this can start their own waits.
+      this.awaitingAll = false;
+      this.waitInProgress = false;
+    }
   }
 }
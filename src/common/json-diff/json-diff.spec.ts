@@ -0,0 +1,54 @@
+import { describeJsonDiff, jsonDiff } from './json-diff';
+
+describe('json-diff', () => {
+  describe('jsonDiff tests', () => {
+    it('should return no changes for equal values', () => {
+      expect(jsonDiff({ a: 1, b: [1, 2, { c: 'd' }] }, { a: 1, b: [1, 2, { c: 'd' }] })).toEqual([]);
+      expect(jsonDiff('same', 'same')).toEqual([]);
+      expect(jsonDiff(null, null)).toEqual([]);
+    });
+
+    it('should report added, removed and changed object properties', () => {
+      expect(jsonDiff({ a: 1, b: 2 }, { a: 3, c: 4 })).toEqual([
+        { path: '/a', type: 'changed', before: 1, after: 3 },
+        { path: '/b', type: 'removed', before: 2 },
+        { path: '/c', type: 'added', after: 4 }
+      ]);
+    });
+
+    it('should compare nested objects and arrays by index', () => {
+      expect(jsonDiff({ list: [{ title: 'a' }, 2, 3] }, { list: [{ title: 'b' }, 2] })).toEqual([
+        { path: '/list/0/title', type: 'changed', before: 'a', after: 'b' },
+        { path: '/list/2', type: 'removed', before: 3 }
+      ]);
+
+      expect(jsonDiff([1], [1, { a: 1 }])).toEqual([{ path: '/1', type: 'added', after: { a: 1 } }]);
+    });
+
+    it('should report a change when the type of a value changes', () => {
+      expect(jsonDiff({ a: [1] }, { a: { 0: 1 } })).toEqual([
+        { path: '/a', type: 'changed', before: [1], after: { 0: 1 } }
+      ]);
+    });
+
+    it('should treat undefined properties as missing', () => {
+      expect(jsonDiff({ a: undefined }, {})).toEqual([]);
+      expect(jsonDiff({ a: undefined }, { a: 1 })).toEqual([{ path: '/a', type: 'added', after: 1 }]);
+    });
+
+    it('should escape property names in the path', () => {
+      expect(jsonDiff({ 'a/b': 1, 'c~d': 1 }, { 'a/b': 2, 'c~d': 2 }).map(entry => entry.path)).toEqual([
+        '/a~1b',
+        '/c~0d'
+      ]);
+    });
+  });
+
+  describe('describeJsonDiff tests', () => {
+    it('should describe each type of change', () => {
+      expect(describeJsonDiff({ path: '/a', type: 'added', after: 'x' })).toEqual('+ /a: "x"');
+      expect(describeJsonDiff({ path: '/a', type: 'removed', before: 1 })).toEqual('- /a: 1');
+      expect(describeJsonDiff({ path: '/a', type: 'changed', before: 1, after: 2 })).toEqual('~ /a: 1 -> 2');
+    });
+  });
+});
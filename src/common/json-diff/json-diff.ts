@@ -0,0 +1,78 @@
+import { isEqual } from 'lodash';
+
+export type JsonDiffType = 'added' | 'removed' | 'changed';
+
+export interface JsonDiffEntry {
+  path: string;
+  type: JsonDiffType;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  before?: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  after?: any;
+}
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Escape a property name as a JSON pointer reference token (RFC 6901).
+export const escapePointer = (key: string | number): string =>
+  String(key)
+    .replace(/~/g, '~0')
+    .replace(/\//g, '~1');
+
+/**
+ * Structurally compares two JSON values, returning a list of the changes needed to turn `before` into `after`.
+ * Objects and arrays are compared member by member, and paths are reported as JSON pointers.
+ */
+export const jsonDiff = (before: unknown, after: unknown, path = ''): JsonDiffEntry[] => {
+  if (isObject(before) && isObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    const result: JsonDiffEntry[] = [];
+
+    keys.forEach(key => {
+      const childPath = `${path}/${escapePointer(key)}`;
+      if (!(key in after) || after[key] === undefined) {
+        if (before[key] !== undefined) {
+          result.push({ path: childPath, type: 'removed', before: before[key] });
+        }
+      } else if (!(key in before) || before[key] === undefined) {
+        result.push({ path: childPath, type: 'added', after: after[key] });
+      } else {
+        result.push(...jsonDiff(before[key], after[key], childPath));
+      }
+    });
+
+    return result;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const result: JsonDiffEntry[] = [];
+    const length = Math.max(before.length, after.length);
+
+    for (let i = 0; i < length; i++) {
+      const childPath = `${path}/${i}`;
+      if (i >= after.length) {
+        result.push({ path: childPath, type: 'removed', before: before[i] });
+      } else if (i >= before.length) {
+        result.push({ path: childPath, type: 'added', after: after[i] });
+      } else {
+        result.push(...jsonDiff(before[i], after[i], childPath));
+      }
+    }
+
+    return result;
+  }
+
+  return isEqual(before, after) ? [] : [{ path, type: 'changed', before, after }];
+};
+
+export const describeJsonDiff = (entry: JsonDiffEntry): string => {
+  switch (entry.type) {
+    case 'added':
+      return `+ ${entry.path}: ${JSON.stringify(entry.after)}`;
+    case 'removed':
+      return `- ${entry.path}: ${JSON.stringify(entry.before)}`;
+    default:
+      return `~ ${entry.path}: ${JSON.stringify(entry.before)} -> ${JSON.stringify(entry.after)}`;
+  }
+};
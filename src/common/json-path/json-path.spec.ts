@@ -0,0 +1,100 @@
+import { parseJsonPath, queryJsonPath, replaceJsonPath, setJsonPath, unsetJsonPath } from './json-path';
+
+describe('json-path', () => {
+  const createBody = (): object => ({
+    title: 'Summer sale',
+    'delivery-key': 'sale',
+    links: [
+      { label: 'Shop now', url: 'http://example.com/shop' },
+      { label: 'Find out more', url: 'http://example.com/about' }
+    ],
+    card: { title: 'Card', image: { alt: 'Image' } }
+  });
+
+  describe('parseJsonPath tests', () => {
+    it('should parse names, indexes, wildcards and recursive descent', () => {
+      expect(parseJsonPath("$.links[0]['url']")).toEqual([
+        { type: 'property', name: 'links' },
+        { type: 'index', index: 0 },
+        { type: 'property', name: 'url' }
+      ]);
+      expect(parseJsonPath('$.links[*].*')).toEqual([
+        { type: 'property', name: 'links' },
+        { type: 'wildcard' },
+        { type: 'wildcard' }
+      ]);
+      expect(parseJsonPath('$..title')).toEqual([{ type: 'descendant', name: 'title' }]);
+    });
+
+    it('should allow the leading $ to be left out', () => {
+      expect(parseJsonPath('card.title')).toEqual(parseJsonPath('$.card.title'));
+    });
+
+    it('should reject filter expressions and malformed paths', () => {
+      expect(() => parseJsonPath('$.links[?(@.url)]')).toThrowError(
+        'Unsupported JSONPath selector [?(@.url)] in $.links[?(@.url)].'
+      );
+      expect(() => parseJsonPath('$.links[0')).toThrowError('Unclosed [ in $.links[0.');
+      expect(() => parseJsonPath('$.')).toThrowError('Expected a name after . in $..');
+    });
+  });
+
+  describe('queryJsonPath tests', () => {
+    it('should select values', () => {
+      const body = createBody();
+
+      expect(queryJsonPath(body, '$.links[*].label')).toEqual(['Shop now', 'Find out more']);
+      expect(queryJsonPath(body, '$.links[-1].label')).toEqual(['Find out more']);
+      expect(queryJsonPath(body, "$['delivery-key']")).toEqual(['sale']);
+      expect(queryJsonPath(body, '$..title')).toEqual(['Summer sale', 'Card']);
+      expect(queryJsonPath(body, '$.missing.title')).toEqual([]);
+    });
+  });
+
+  describe('setJsonPath tests', () => {
+    it('should set every selected value', () => {
+      const body = createBody();
+
+      setJsonPath(body, '$.links[*].url', 'http://example.com');
+
+      expect(queryJsonPath(body, '$.links[*].url')).toEqual(['http://example.com', 'http://example.com']);
+    });
+
+    it('should create missing objects and arrays along a plain path', () => {
+      const body = {};
+
+      setJsonPath(body, '$.seo.keywords[0]', 'sale');
+
+      expect(body).toEqual({ seo: { keywords: ['sale'] } });
+    });
+
+    it('should refuse to replace the whole document', () => {
+      expect(() => setJsonPath({}, '$', 1)).toThrowError(
+        'The JSONPath must select a value inside the document, rather than the whole document.'
+      );
+    });
+  });
+
+  describe('unsetJsonPath tests', () => {
+    it('should remove properties and array elements', () => {
+      const body = createBody();
+
+      unsetJsonPath(body, '$.links[*]');
+      unsetJsonPath(body, '$..title');
+
+      expect(body).toEqual({ 'delivery-key': 'sale', links: [], card: { image: { alt: 'Image' } } });
+    });
+  });
+
+  describe('replaceJsonPath tests', () => {
+    it('should replace matches in selected string values only', () => {
+      const body = { ...createBody(), count: 1 };
+
+      replaceJsonPath(body, '$..url', /http:/g, 'https:');
+      replaceJsonPath(body, '$.count', /1/g, '2');
+
+      expect(queryJsonPath(body, '$..url')).toEqual(['https://example.com/shop', 'https://example.com/about']);
+      expect(body.count).toEqual(1);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { cloneDeep } from 'lodash';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Json = any;
+
+export type JsonPathSegment =
+  | { type: 'property'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'descendant'; name?: string };
+
+interface JsonPathMatch {
+  parent: Json;
+  key: string | number;
+  value: Json;
+}
+
+const isObject = (value: unknown): value is { [key: string]: Json } =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const namePattern = /^[^.[\]\s]+/;
+
+// Parses the contents of a bracket, such as 0, *, 'name' or "name".
+const parseBracket = (content: string, path: string): JsonPathSegment => {
+  if (content === '*') {
+    return { type: 'wildcard' };
+  } else if (/^-?\d+$/.test(content)) {
+    return { type: 'index', index: Number(content) };
+  }
+
+  const quoted = /^'((?:[^'\\]|\\.)*)'$|^"((?:[^"\\]|\\.)*)"$/.exec(content);
+  if (quoted == null) {
+    throw new Error(`Unsupported JSONPath selector [${content}] in ${path}.`);
+  }
+
+  const name = quoted[1] != null ? quoted[1] : quoted[2];
+  return { type: 'property', name: name.replace(/\\(.)/g, '$1') };
+};
+
+/**
+ * Parses a JSONPath, such as $.links[0].url, $..title or $.items[*]['delivery-key'].
+ * Child names, array indexes, wildcards and recursive descent are supported, but filter expressions are not.
+ * The leading $ can be left out.
+ */
+export const parseJsonPath = (path: string): JsonPathSegment[] => {
+  let rest = path.trim();
+  if (rest.startsWith('$')) {
+    rest = rest.slice(1);
+  } else if (!rest.startsWith('.') && !rest.startsWith('[')) {
+    rest = '.' + rest;
+  }
+
+  const segments: JsonPathSegment[] = [];
+
+  while (rest.length > 0) {
+    if (rest.startsWith('..')) {
+      rest = rest.slice(2);
+      const name = namePattern.exec(rest);
+      if (name == null) {
+        throw new Error(`Expected a name after .. in ${path}.`);
+      }
+      segments.push(name[0] === '*' ? { type: 'descendant' } : { type: 'descendant', name: name[0] });
+      rest = rest.slice(name[0].length);
+    } else if (rest.startsWith('.')) {
+      rest = rest.slice(1);
+      const name = namePattern.exec(rest);
+      if (name == null) {
+        throw new Error(`Expected a name after . in ${path}.`);
+      }
+      segments.push(name[0] === '*' ? { type: 'wildcard' } : { type: 'property', name: name[0] });
+      rest = rest.slice(name[0].length);
+    } else if (rest.startsWith('[')) {
+      const end = /^\[\s*('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|[^\]]*?)\s*\]/.exec(rest);
+      if (end == null) {
+        throw new Error(`Unclosed [ in ${path}.`);
+      }
+      segments.push(parseBracket(end[1], path));
+      rest = rest.slice(end[0].length);
+    } else {
+      throw new Error(`Unexpected "${rest[0]}" in ${path}.`);
+    }
+  }
+
+  return segments;
+};
+
+const children = (value: Json): JsonPathMatch[] => {
+  if (Array.isArray(value)) {
+    return value.map((child, index) => ({ parent: value, key: index, value: child }));
+  } else if (isObject(value)) {
+    return Object.keys(value).map(key => ({ parent: value, key, value: value[key] }));
+  }
+  return [];
+};
+
+const descendants = (value: Json): JsonPathMatch[] =>
+  children(value).reduce((result: JsonPathMatch[], child) => [...result, child, ...descendants(child.value)], []);
+
+const select = (match: JsonPathMatch, segment: JsonPathSegment): JsonPathMatch[] => {
+  const { value } = match;
+
+  switch (segment.type) {
+    case 'property':
+      return isObject(value) && segment.name in value
+        ? [{ parent: value, key: segment.name, value: value[segment.name] }]
+        : [];
+    case 'index': {
+      const index = segment.index < 0 && Array.isArray(value) ? value.length + segment.index : segment.index;
+      return Array.isArray(value) && index >= 0 && index < value.length
+        ? [{ parent: value, key: index, value: value[index] }]
+        : [];
+    }
+    case 'wildcard':
+      return children(value);
+    case 'descendant':
+      return descendants(value).filter(child => segment.name == null || child.key === segment.name);
+  }
+};
+
+const query = (root: Json, segments: JsonPathSegment[]): JsonPathMatch[] =>
+  segments.reduce(
+    (matches: JsonPathMatch[], segment) =>
+      matches.reduce((result: JsonPathMatch[], match) => [...result, ...select(match, segment)], []),
+    [{ parent: undefined, key: '', value: root }]
+  );
+
+const requireTarget = (segments: JsonPathSegment[]): void => {
+  if (segments.length === 0) {
+    throw new Error('The JSONPath must select a value inside the document, rather than the whole document.');
+  }
+};
+
+/**
+ * Returns the values that a JSONPath selects in a document.
+ */
+export const queryJsonPath = (root: Json, path: string): Json[] =>
+  query(root, parseJsonPath(path)).map(match => match.value);
+
+/**
+ * Sets the values that a JSONPath selects. When a path made only of names and indexes selects nothing,
+ * the missing objects along it are created, so that the value can be set.
+ */
+export const setJsonPath = (root: Json, path: string, value: Json): void => {
+  const segments = parseJsonPath(path);
+  requireTarget(segments);
+
+  const matches = query(root, segments);
+  if (matches.length > 0) {
+    matches.forEach(match => (match.parent[match.key] = cloneDeep(value)));
+    return;
+  }
+
+  if (!segments.every(segment => segment.type === 'property' || segment.type === 'index')) {
+    return;
+  }
+
+  let current = root;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    let key: string | number;
+    if (segment.type === 'property' && isObject(current)) {
+      key = segment.name;
+    } else if (segment.type === 'index' && Array.isArray(current) && segment.index >= 0) {
+      key = segment.index;
+    } else {
+      return;
+    }
+
+    if (i === segments.length - 1) {
+      current[key] = cloneDeep(value);
+    } else {
+      if (current[key] === undefined) {
+        current[key] = segments[i + 1].type === 'index' ? [] : {};
+      }
+      current = current[key];
+    }
+  }
+};
+
+/**
+ * Removes the values that a JSONPath selects. Array elements are removed, rather than left empty.
+ */
+export const unsetJsonPath = (root: Json, path: string): void => {
+  const segments = parseJsonPath(path);
+  requireTarget(segments);
+
+  const matches = query(root, segments);
+
+  // Remove array elements from the end, so that the indexes of the others do not change.
+  matches
+    .filter(match => Array.isArray(match.parent))
+    .sort((a, b) => (b.key as number) - (a.key as number))
+    .forEach(match => match.parent.splice(match.key, 1));
+
+  matches.filter(match => !Array.isArray(match.parent)).forEach(match => delete match.parent[match.key]);
+};
+
+/**
+ * Replaces matches of a regex in the string values that a JSONPath selects. Other values are left as they are.
+ */
+export const replaceJsonPath = (root: Json, path: string, pattern: RegExp, replacement: string): void => {
+  const segments = parseJsonPath(path);
+  requireTarget(segments);
+
+  query(root, segments)
+    .filter(match => typeof match.value === 'string')
+    .forEach(match => (match.parent[match.key] = match.value.replace(pattern, replacement)));
+};
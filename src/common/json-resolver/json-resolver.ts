@@ -3,6 +3,25 @@ import { URL } from 'url';
 import * as fs from 'fs';
 import * as path from 'path';
 
+/**
+ * Returns the local file that jsonResolver loads for a path or file URL. Paths starting with ./ or ../
+ * are resolved from the relative dir.
+ */
+export function resolveJsonFilename(jsonToResolve: string, relativeDir: string = __dirname): string | URL {
+  if (jsonToResolve.match(/file:\/\//)) {
+    return new URL(jsonToResolve);
+  } else if (
+    jsonToResolve
+      .replace(/\\/g, '/')
+      .split('/')[0]
+      .match(/^\.{1,2}$/)
+  ) {
+    return path.resolve(relativeDir, jsonToResolve);
+  }
+
+  return jsonToResolve;
+}
+
 export async function jsonResolver(jsonToResolve = '', relativeDir: string = __dirname): Promise<string> {
   try {
     const resolvedJson = JSON.parse(jsonToResolve);
@@ -16,17 +35,7 @@ export async function jsonResolver(jsonToResolve = '', relativeDir: string = __d
     return result.data;
   }
 
-  let resolvedFilename: string | URL = jsonToResolve;
-  if (jsonToResolve.match(/file:\/\//)) {
-    resolvedFilename = new URL(jsonToResolve);
-  } else if (
-    jsonToResolve
-      .replace(/\\/g, '/')
-      .split('/')[0]
-      .match(/^\.{1,2}$/)
-  ) {
-    resolvedFilename = path.resolve(relativeDir, jsonToResolve);
-  }
+  const resolvedFilename = resolveJsonFilename(jsonToResolve, relativeDir);
 
   if (!fs.existsSync(resolvedFilename)) {
     throw new Error(
@@ -0,0 +1,144 @@
+import { describeSchemaChange, diffSchemas } from './schema-diff';
+
+describe('schema-diff', () => {
+  const schema = {
+    $id: 'https://example.com/banner.json',
+    title: 'Banner',
+    type: 'object',
+    properties: {
+      headline: { type: 'string', maxLength: 50 },
+      size: { type: 'string', enum: ['small', 'medium', 'large'] },
+      count: { type: ['number', 'null'] },
+      cta: { $ref: 'https://example.com/partials.json#/definitions/cta' },
+      tags: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['headline']
+  };
+
+  const withProperties = (properties: object, required = ['headline']): object => ({
+    ...schema,
+    properties: { ...schema.properties, ...properties },
+    required
+  });
+
+  it('should return no changes for equal schemas', () => {
+    expect(diffSchemas(schema, JSON.parse(JSON.stringify(schema)))).toEqual([]);
+  });
+
+  it('should report removed properties as breaking, and added properties as non-breaking', () => {
+    const { headline, ...properties } = schema.properties;
+    expect(headline).toBeDefined();
+
+    expect(diffSchemas(schema, { ...schema, properties: { ...properties, subtitle: { type: 'string' } } })).toEqual([
+      { path: '/properties/headline', breaking: true, description: 'Removed the property.' },
+      { path: '/properties/subtitle', breaking: false, description: 'Added the property.' }
+    ]);
+  });
+
+  it('should report new required fields as breaking', () => {
+    expect(diffSchemas(schema, withProperties({}, ['size']))).toEqual([
+      { path: '/properties/size', breaking: true, description: 'Now required.' },
+      { path: '/properties/headline', breaking: false, description: 'No longer required.' }
+    ]);
+  });
+
+  it('should report narrowed types as breaking, and widened types as non-breaking', () => {
+    expect(diffSchemas(schema, withProperties({ count: { type: 'integer' } }))).toEqual([
+      { path: '/properties/count', breaking: true, description: 'Narrowed the type from number | null to integer.' }
+    ]);
+    expect(diffSchemas(schema, withProperties({ headline: { type: ['string', 'null'], maxLength: 50 } }))).toEqual([
+      { path: '/properties/headline', breaking: false, description: 'Widened the type from string to string | null.' }
+    ]);
+    expect(diffSchemas(schema, withProperties({ headline: { type: 'number', maxLength: 50 } }))).toEqual([
+      { path: '/properties/headline', breaking: true, description: 'Changed the type from string to number.' }
+    ]);
+  });
+
+  it('should report narrowed enums as breaking, and widened enums as non-breaking', () => {
+    expect(diffSchemas(schema, withProperties({ size: { type: 'string', enum: ['small', 'large', 'huge'] } }))).toEqual(
+      [
+        { path: '/properties/size', breaking: true, description: 'Removed the enum values "medium".' },
+        { path: '/properties/size', breaking: false, description: 'Added the enum values "huge".' }
+      ]
+    );
+    expect(diffSchemas(schema, withProperties({ size: { type: 'string' } }))).toEqual([
+      { path: '/properties/size', breaking: false, description: 'Removed the enum.' }
+    ]);
+  });
+
+  it('should report changed $ref targets as breaking', () => {
+    expect(
+      diffSchemas(schema, withProperties({ cta: { $ref: 'https://example.com/partials.json#/definitions/link' } }))
+    ).toEqual([
+      {
+        path: '/properties/cta',
+        breaking: true,
+        description:
+          'Changed the $ref from https://example.com/partials.json#/definitions/cta to https://example.com/partials.json#/definitions/link.'
+      }
+    ]);
+  });
+
+  it('should report tightened constraints as breaking, and loosened constraints as non-breaking', () => {
+    expect(
+      diffSchemas(schema, withProperties({ headline: { type: 'string', maxLength: 20, pattern: '^[A-Z]' } }))
+    ).toEqual([
+      { path: '/properties/headline', breaking: true, description: 'Lowered maxLength from 50 to 20.' },
+      { path: '/properties/headline', breaking: true, description: 'Added pattern "^[A-Z]".' }
+    ]);
+    expect(diffSchemas(schema, withProperties({ headline: { type: 'string', maxLength: 100 } }))).toEqual([
+      { path: '/properties/headline', breaking: false, description: 'Raised maxLength from 50 to 100.' }
+    ]);
+  });
+
+  it('should compare items, definitions and allOf, and report annotation changes as non-breaking', () => {
+    const before = { ...schema, definitions: { a: { type: 'string' } }, allOf: [{ $ref: '#/definitions/a' }] };
+    const after = {
+      ...withProperties({ tags: { type: 'array', items: { type: 'number' } } }),
+      title: 'Hero banner',
+      definitions: {},
+      allOf: [{ $ref: '#/definitions/a' }, { required: ['size'] }]
+    };
+
+    expect(diffSchemas(before, after)).toEqual([
+      { path: '', breaking: false, description: 'Changed title from "Banner" to "Hero banner".' },
+      { path: '/properties/tags/items', breaking: true, description: 'Changed the type from string to number.' },
+      { path: '/allOf/1', breaking: true, description: 'Added to allOf.' },
+      { path: '/definitions/a', breaking: true, description: 'Removed the definition.' }
+    ]);
+  });
+
+  it('should report added or changed validation keywords that are not compared on their own as breaking', () => {
+    const before = { ...schema, patternProperties: { '^x-': { type: 'string' } }, dependencies: { a: ['b'] } };
+    const after = {
+      ...schema,
+      description: 'A banner.',
+      not: { required: ['size'] },
+      patternProperties: { '^x-': { type: 'number' } },
+      if: { required: ['size'] },
+      then: { required: ['headline'] }
+    };
+
+    expect(diffSchemas(before, after)).toEqual([
+      {
+        path: '',
+        breaking: true,
+        description: 'Changed patternProperties from {"^x-":{"type":"string"}} to {"^x-":{"type":"number"}}.'
+      },
+      { path: '', breaking: false, description: 'Removed dependencies {"a":["b"]}.' },
+      { path: '', breaking: false, description: 'Added description "A banner.".' },
+      { path: '', breaking: true, description: 'Added not {"required":["size"]}.' },
+      { path: '', breaking: true, description: 'Added if {"required":["size"]}.' },
+      { path: '', breaking: true, description: 'Added then {"required":["headline"]}.' }
+    ]);
+  });
+
+  it('should describe breaking changes with a leading !', () => {
+    expect(
+      describeSchemaChange({ path: '/properties/a', breaking: true, description: 'Removed the property.' })
+    ).toEqual('! /properties/a: Removed the property.');
+    expect(describeSchemaChange({ path: '', breaking: false, description: 'Changed title.' })).toEqual(
+      '  /: Changed title.'
+    );
+  });
+});
@@ -0,0 +1,314 @@
+import { isEqual } from 'lodash';
+import { escapePointer } from '../json-diff/json-diff';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type JsonSchema = any;
+
+export interface SchemaChange {
+  path: string;
+  breaking: boolean;
+  description: string;
+}
+
+const isObject = (value: unknown): value is { [key: string]: JsonSchema } =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const list = (values: unknown[]): string => values.map(value => JSON.stringify(value)).join(', ');
+
+// Keywords that set a lower or upper bound. Raising a lower bound or lowering an upper bound rejects values that were valid before.
+const lowerBounds = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties'];
+const upperBounds = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties'];
+
+// Keywords that only add restrictions when they are added or changed.
+const restrictions = ['pattern', 'format', 'const', 'uniqueItems', 'multipleOf'];
+
+// Keywords that hold subschemas, which are compared on their own.
+const subschemaKeywords = ['properties', 'definitions', 'items', 'additionalProperties', 'allOf', 'anyOf', 'oneOf'];
+
+// Keywords that only annotate a schema or order the fields of the editor, so they never change which content is valid.
+// Adding or changing any other keyword, such as not, patternProperties or if, may reject content, so it is breaking.
+const annotationKeywords = ['title', 'description', 'examples', 'default', '$comment', 'propertyOrder'];
+
+const handledKeywords = new Set([
+  ...lowerBounds,
+  ...upperBounds,
+  ...restrictions,
+  ...subschemaKeywords,
+  'type',
+  'enum',
+  'required',
+  '$ref'
+]);
+
+const typeList = (type: unknown): string[] | undefined =>
+  type === undefined ? undefined : Array.isArray(type) ? type : [type as string];
+
+// A value of the given type is still accepted by the list of types. Integers are numbers.
+const accepts = (types: string[], type: string): boolean =>
+  types.includes(type) || (type === 'integer' && types.includes('number'));
+
+const diffType = (before: JsonSchema, after: JsonSchema, path: string): SchemaChange[] => {
+  const beforeTypes = typeList(before.type);
+  const afterTypes = typeList(after.type);
+
+  if (isEqual(beforeTypes, afterTypes)) {
+    return [];
+  } else if (afterTypes === undefined) {
+    return [{ path, breaking: false, description: `Removed the type ${(beforeTypes as string[]).join(' | ')}.` }];
+  } else if (beforeTypes === undefined) {
+    return [{ path, breaking: true, description: `Added the type ${afterTypes.join(' | ')}.` }];
+  }
+
+  const from = beforeTypes.join(' | ');
+  const to = afterTypes.join(' | ');
+  const narrowed = beforeTypes.some(type => !accepts(afterTypes, type));
+  const widened = afterTypes.some(type => !accepts(beforeTypes, type));
+
+  if (narrowed && widened) {
+    return [{ path, breaking: true, description: `Changed the type from ${from} to ${to}.` }];
+  } else if (narrowed) {
+    return [{ path, breaking: true, description: `Narrowed the type from ${from} to ${to}.` }];
+  }
+  return [{ path, breaking: false, description: `Widened the type from ${from} to ${to}.` }];
+};
+
+const diffEnum = (before: JsonSchema, after: JsonSchema, path: string): SchemaChange[] => {
+  if (!Array.isArray(before.enum) && !Array.isArray(after.enum)) {
+    return [];
+  } else if (!Array.isArray(after.enum)) {
+    return [{ path, breaking: false, description: 'Removed the enum.' }];
+  } else if (!Array.isArray(before.enum)) {
+    return [{ path, breaking: true, description: `Added the enum ${list(after.enum)}.` }];
+  }
+
+  const result: SchemaChange[] = [];
+  const removed = before.enum.filter((value: unknown) => !after.enum.some((other: unknown) => isEqual(value, other)));
+  const added = after.enum.filter((value: unknown) => !before.enum.some((other: unknown) => isEqual(value, other)));
+
+  if (removed.length > 0) {
+    result.push({ path, breaking: true, description: `Removed the enum values ${list(removed)}.` });
+  }
+  if (added.length > 0) {
+    result.push({ path, breaking: false, description: `Added the enum values ${list(added)}.` });
+  }
+  return result;
+};
+
+const diffRequired = (before: JsonSchema, after: JsonSchema, path: string): SchemaChange[] => {
+  const beforeRequired: string[] = Array.isArray(before.required) ? before.required : [];
+  const afterRequired: string[] = Array.isArray(after.required) ? after.required : [];
+  const result: SchemaChange[] = [];
+
+  afterRequired
+    .filter(name => !beforeRequired.includes(name))
+    .forEach(name => {
+      result.push({ path: `${path}/properties/${escapePointer(name)}`, breaking: true, description: 'Now required.' });
+    });
+
+  beforeRequired
+    .filter(name => !afterRequired.includes(name))
+    .forEach(name => {
+      result.push({
+        path: `${path}/properties/${escapePointer(name)}`,
+        breaking: false,
+        description: 'No longer required.'
+      });
+    });
+
+  return result;
+};
+
+const diffKeyword = (
+  keyword: string,
+  breaking: boolean,
+  before: JsonSchema,
+  after: JsonSchema,
+  path: string
+): SchemaChange[] => {
+  const from = before[keyword];
+  const to = after[keyword];
+
+  if (isEqual(from, to)) {
+    return [];
+  } else if (to === undefined) {
+    return [{ path, breaking: false, description: `Removed ${keyword} ${JSON.stringify(from)}.` }];
+  } else if (from === undefined) {
+    return [{ path, breaking, description: `Added ${keyword} ${JSON.stringify(to)}.` }];
+  }
+  return [{ path, breaking, description: `Changed ${keyword} from ${JSON.stringify(from)} to ${JSON.stringify(to)}.` }];
+};
+
+const diffBound = (
+  keyword: string,
+  lower: boolean,
+  before: JsonSchema,
+  after: JsonSchema,
+  path: string
+): SchemaChange[] => {
+  const from = before[keyword];
+  const to = after[keyword];
+
+  if (typeof from !== 'number' || typeof to !== 'number') {
+    return diffKeyword(keyword, true, before, after, path);
+  } else if (from === to) {
+    return [];
+  }
+
+  const raised = to > from;
+  return [
+    {
+      path,
+      breaking: raised === lower,
+      description: `${raised ? 'Raised' : 'Lowered'} ${keyword} from ${from} to ${to}.`
+    }
+  ];
+};
+
+const diffRef = (before: JsonSchema, after: JsonSchema, path: string): SchemaChange[] => {
+  if (before.$ref === after.$ref) {
+    return [];
+  } else if (after.$ref === undefined) {
+    return [{ path, breaking: false, description: `Removed the $ref to ${before.$ref}.` }];
+  } else if (before.$ref === undefined) {
+    return [{ path, breaking: true, description: `Added a $ref to ${after.$ref}.` }];
+  }
+  return [{ path, breaking: true, description: `Changed the $ref from ${before.$ref} to ${after.$ref}.` }];
+};
+
+// Compares subschemas, which can in turn contain subschemas to compare.
+class SchemaComparer {
+  compare(before: JsonSchema, after: JsonSchema, path: string): SchemaChange[] {
+    if (!isObject(before) || !isObject(after)) {
+      return isEqual(before, after) ? [] : [{ path, breaking: true, description: 'Changed the schema.' }];
+    }
+
+    const result: SchemaChange[] = [
+      ...diffRef(before, after, path),
+      ...diffType(before, after, path),
+      ...diffEnum(before, after, path)
+    ];
+
+    lowerBounds.forEach(keyword => result.push(...diffBound(keyword, true, before, after, path)));
+    upperBounds.forEach(keyword => result.push(...diffBound(keyword, false, before, after, path)));
+    restrictions.forEach(keyword => result.push(...diffKeyword(keyword, true, before, after, path)));
+
+    const others = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(
+      keyword => !handledKeywords.has(keyword)
+    );
+    others.forEach(keyword =>
+      result.push(...diffKeyword(keyword, !annotationKeywords.includes(keyword), before, after, path))
+    );
+
+    result.push(
+      ...diffRequired(before, after, path),
+      ...this.namedSchemas('properties', 'property', before, after, path),
+      ...this.additionalProperties(before, after, path),
+      ...this.items(before, after, path),
+      ...this.schemaList('allOf', before, after, path, true),
+      ...this.schemaList('anyOf', before, after, path, false),
+      ...this.schemaList('oneOf', before, after, path, false),
+      ...this.namedSchemas('definitions', 'definition', before, after, path)
+    );
+
+    return result;
+  }
+
+  private namedSchemas(
+    keyword: 'properties' | 'definitions',
+    noun: string,
+    before: JsonSchema,
+    after: JsonSchema,
+    path: string
+  ): SchemaChange[] {
+    const beforeSchemas = isObject(before[keyword]) ? before[keyword] : {};
+    const afterSchemas = isObject(after[keyword]) ? after[keyword] : {};
+    const names = Array.from(new Set([...Object.keys(beforeSchemas), ...Object.keys(afterSchemas)]));
+    const result: SchemaChange[] = [];
+
+    names.forEach(name => {
+      const childPath = `${path}/${keyword}/${escapePointer(name)}`;
+      if (!(name in afterSchemas)) {
+        result.push({ path: childPath, breaking: true, description: `Removed the ${noun}.` });
+      } else if (!(name in beforeSchemas)) {
+        result.push({ path: childPath, breaking: false, description: `Added the ${noun}.` });
+      } else {
+        result.push(...this.compare(beforeSchemas[name], afterSchemas[name], childPath));
+      }
+    });
+
+    return result;
+  }
+
+  private additionalProperties(before: JsonSchema, after: JsonSchema, path: string): SchemaChange[] {
+    const from = before.additionalProperties;
+    const to = after.additionalProperties;
+    const childPath = `${path}/additionalProperties`;
+
+    if (isEqual(from, to)) {
+      return [];
+    } else if (isObject(from) && isObject(to)) {
+      return this.compare(from, to, childPath);
+    } else if (to === false) {
+      return [{ path: childPath, breaking: true, description: 'No longer allows additional properties.' }];
+    } else if (from === false) {
+      return [{ path: childPath, breaking: false, description: 'Now allows additional properties.' }];
+    }
+    return [{ path: childPath, breaking: isObject(to), description: 'Changed the schema for additional properties.' }];
+  }
+
+  private items(before: JsonSchema, after: JsonSchema, path: string): SchemaChange[] {
+    const from = before.items;
+    const to = after.items;
+    const childPath = `${path}/items`;
+
+    if (isEqual(from, to)) {
+      return [];
+    } else if (to === undefined) {
+      return [{ path: childPath, breaking: false, description: 'Removed the schema for items.' }];
+    } else if (from === undefined) {
+      return [{ path: childPath, breaking: true, description: 'Added a schema for items.' }];
+    } else if (isObject(from) && isObject(to)) {
+      return this.compare(from, to, childPath);
+    } else if (Array.isArray(from) && Array.isArray(to)) {
+      return this.schemaList('items', before, after, path, true);
+    }
+    return [{ path: childPath, breaking: true, description: 'Changed the schema for items.' }];
+  }
+
+  // Compares subschemas in a list by index. Adding to allOf or a tuple adds restrictions, while adding to anyOf or oneOf allows more.
+  private schemaList(
+    keyword: string,
+    before: JsonSchema,
+    after: JsonSchema,
+    path: string,
+    addingIsBreaking: boolean
+  ): SchemaChange[] {
+    const from: JsonSchema[] = Array.isArray(before[keyword]) ? before[keyword] : [];
+    const to: JsonSchema[] = Array.isArray(after[keyword]) ? after[keyword] : [];
+    const result: SchemaChange[] = [];
+
+    for (let i = 0; i < Math.max(from.length, to.length); i++) {
+      const childPath = `${path}/${keyword}/${i}`;
+      if (i >= to.length) {
+        result.push({ path: childPath, breaking: !addingIsBreaking, description: `Removed from ${keyword}.` });
+      } else if (i >= from.length) {
+        result.push({ path: childPath, breaking: addingIsBreaking, description: `Added to ${keyword}.` });
+      } else {
+        result.push(...this.compare(from[i], to[i], childPath));
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Compares two versions of a JSON schema, returning the changes made to it.
+ * A change is breaking when content that was valid against the old schema may not be valid against the new one,
+ * such as a removed property, a newly required property, a narrowed type or enum, or a changed $ref target.
+ */
+export const diffSchemas = (before: JsonSchema, after: JsonSchema): SchemaChange[] =>
+  new SchemaComparer().compare(before, after, '');
+
+export const describeSchemaChange = (change: SchemaChange): string =>
+  `${change.breaking ? '!' : ' '} ${change.path || '/'}: ${change.description}`;
@@ -0,0 +1,154 @@
+import { generateTypeScript, SchemaSource } from './typescript-generator';
+
+describe('typescript-generator', () => {
+  const CORE = 'http://bigcontent.io/cms/schema/v1/core';
+
+  const banner: SchemaSource = {
+    schemaId: 'https://example.com/banner.json',
+    body: {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      $id: 'https://example.com/banner.json',
+      title: 'Banner',
+      description: 'A banner with a headline.',
+      allOf: [{ $ref: `${CORE}#/definitions/content` }],
+      type: 'object',
+      properties: {
+        headline: { type: 'string', title: 'Headline' },
+        size: { type: 'string', enum: ['small', 'large'] },
+        count: { type: 'integer' },
+        image: { allOf: [{ $ref: `${CORE}#/definitions/image-link` }] },
+        video: { $ref: `${CORE}#/definitions/video-link` },
+        cta: { $ref: 'https://example.com/partials.json#/definitions/cta' },
+        cards: {
+          type: 'array',
+          items: {
+            allOf: [
+              { $ref: `${CORE}#/definitions/content-link` },
+              {
+                properties: {
+                  contentType: { enum: ['https://example.com/card.json', 'https://example.com/tile.json'] }
+                }
+              }
+            ]
+          }
+        },
+        related: {
+          allOf: [{ $ref: `${CORE}#/definitions/content-reference` }, { properties: { contentType: { enum: ['*'] } } }]
+        },
+        'data-id': { type: ['string', 'null'] },
+        settings: { type: 'object', properties: { visible: { type: 'boolean' } }, required: ['visible'] },
+        scores: { type: 'object', additionalProperties: { type: 'number' } },
+        title: { $ref: `${CORE}#/definitions/localized-string` },
+        width: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+        position: { type: 'array', items: [{ type: 'number' }, { type: 'number' }] },
+        styledCta: {
+          allOf: [
+            { $ref: 'https://example.com/partials.json#/definitions/cta' },
+            { properties: { color: { type: 'string' } } }
+          ]
+        }
+      },
+      required: ['headline']
+    }
+  };
+
+  const partials: SchemaSource = {
+    schemaId: 'https://example.com/partials.json',
+    body: {
+      $id: 'https://example.com/partials.json',
+      definitions: {
+        cta: { type: 'object', properties: { label: { type: 'string' }, style: { $ref: '#/definitions/style' } } },
+        style: { type: 'string', enum: ['primary', "it's"] }
+      }
+    }
+  };
+
+  const card: SchemaSource = {
+    schemaId: 'https://example.com/card.json',
+    body: {
+      title: 'card',
+      allOf: [{ $ref: `${CORE}#/definitions/content` }, { $ref: 'https://example.com/partials.json#/definitions/cta' }],
+      properties: { text: { type: 'string' } }
+    }
+  };
+
+  const file = (result: { files: { filename: string; content: string }[] }, filename: string): string | undefined => {
+    const found = result.files.find(file => file.filename === filename);
+    return found && found.content;
+  };
+
+  it('should generate an interface for a content type schema', () => {
+    const result = generateTypeScript([banner, partials, card]);
+
+    expect(file(result, 'banner.ts')).toMatchSnapshot();
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should generate types for the definitions in partials, and follow $refs within them', () => {
+    const result = generateTypeScript([banner, partials, card]);
+
+    expect(file(result, 'partials.ts')).toEqual(
+      [
+        '// Generated from the content type schema https://example.com/partials.json. Changes will be overwritten.',
+        '',
+        'export interface PartialsCta {',
+        '  label?: string;',
+        '  style?: PartialsStyle;',
+        '}',
+        '',
+        "export type PartialsStyle = 'primary' | 'it\\'s';",
+        ''
+      ].join('\n')
+    );
+  });
+
+  it('should extend the types referenced in allOf', () => {
+    const result = generateTypeScript([banner, partials, card]);
+
+    expect(file(result, 'card.ts')).toContain("import { ContentBody } from './amplience';");
+    expect(file(result, 'card.ts')).toContain("import { PartialsCta } from './partials';");
+    expect(file(result, 'card.ts')).toContain(
+      'export interface Card extends ContentBody, PartialsCta {\n  text?: string;\n}'
+    );
+  });
+
+  it('should only generate the given schemas and the schemas they refer to', () => {
+    const result = generateTypeScript([banner, partials, card], ['https://example.com/card.json']);
+
+    expect(result.files.map(file => file.filename)).toEqual(['amplience.ts', 'card.ts', 'partials.ts', 'index.ts']);
+    expect(file(result, 'index.ts')).toEqual(
+      "export * from './amplience';\nexport * from './card';\nexport * from './partials';\n"
+    );
+  });
+
+  it('should give schemas with the same name unique type names', () => {
+    const result = generateTypeScript([
+      { schemaId: 'https://a.com/card.json', body: { type: 'object' } },
+      { schemaId: 'https://b.com/card.json', body: { type: 'object' } },
+      { schemaId: 'https://c.com/amplience', body: { type: 'string' } }
+    ]);
+
+    expect(result.files.map(file => file.filename)).toEqual([
+      'amplience.ts',
+      'card.ts',
+      'card2.ts',
+      'amplience2.ts',
+      'index.ts'
+    ]);
+    expect(file(result, 'card2.ts')).toContain('export interface Card2 {}');
+  });
+
+  it('should warn about $refs that cannot be resolved, and type them as unknown', () => {
+    const result = generateTypeScript([
+      {
+        schemaId: 'https://example.com/broken.json',
+        body: { properties: { missing: { $ref: 'https://example.com/missing.json' } } }
+      }
+    ]);
+
+    expect(file(result, 'broken.ts')).toContain('  missing?: unknown;');
+    expect(result.warnings).toEqual([
+      'Could not resolve the $ref https://example.com/missing.json in https://example.com/broken.json.'
+    ]);
+  });
+});
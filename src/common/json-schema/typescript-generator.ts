@@ -0,0 +1,484 @@
+import { CORE_SCHEMA_ID } from '../content-item/core-schema';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type JsonSchema = any;
+
+export interface SchemaSource {
+  schemaId: string;
+  body: JsonSchema;
+}
+
+export interface GeneratedFile {
+  filename: string;
+  content: string;
+}
+
+export interface CodegenResult {
+  files: GeneratedFile[];
+  warnings: string[];
+}
+
+const CORE_TYPES_MODULE = 'amplience';
+
+// The types that definitions in the core schema map to, declared in the core types module.
+const coreTypes: { [definition: string]: string } = {
+  content: 'ContentBody',
+  'content-link': 'ContentLink',
+  'content-reference': 'ContentReference',
+  'image-link': 'ImageLink',
+  'video-link': 'VideoLink',
+  'localized-value': 'LocalizedValue',
+  'localized-string': 'LocalizedString'
+};
+
+const linkTypes = ['ContentLink', 'ContentReference'];
+
+export const coreTypesSource = `// Types for the definitions in the Amplience core schema, used by the generated content types.
+
+export interface ContentMeta {
+  schema: string;
+  name?: string;
+  deliveryKey?: string | null;
+}
+
+export interface ContentBody {
+  _meta: ContentMeta;
+}
+
+/** A link to another content item. T is the schema ID of the content types that can be linked to. */
+export interface ContentLink<T extends string = string> {
+  _meta: { schema: '${CORE_SCHEMA_ID}#/definitions/content-link'; name?: string };
+  contentType: T;
+  id: string;
+}
+
+/** A reference to another content item. T is the schema ID of the content types that can be referenced. */
+export interface ContentReference<T extends string = string> {
+  _meta: { schema: '${CORE_SCHEMA_ID}#/definitions/content-reference'; name?: string };
+  contentType: T;
+  id: string;
+}
+
+export interface MediaLink {
+  id: string;
+  name: string;
+  endpoint: string;
+  defaultHost: string;
+}
+
+export interface ImageLink extends MediaLink {
+  _meta: { schema: '${CORE_SCHEMA_ID}#/definitions/image-link'; name?: string };
+}
+
+export interface VideoLink extends MediaLink {
+  _meta: { schema: '${CORE_SCHEMA_ID}#/definitions/video-link'; name?: string };
+}
+
+export interface LocalizedValue<T = unknown> {
+  _meta: { schema: string; name?: string };
+  values: { locale: string; value: T }[];
+}
+
+export type LocalizedString = LocalizedValue<string>;
+`;
+
+const pascalCase = (text: string): string => {
+  const name = text
+    .split(/[^A-Za-z0-9]+/)
+    .filter(word => word.length > 0)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+
+  return name.length === 0 ? 'Content' : /^[0-9]/.test(name) ? '_' + name : name;
+};
+
+const kebabCase = (name: string): string =>
+  name
+    .replace(/^_/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase();
+
+const literal = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+
+  return typeof value === 'object' && value !== null ? 'unknown' : String(value);
+};
+
+const propertyKey = (name: string): string => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name));
+
+const docComment = (lines: string[], indent: string): string[] => {
+  const text = lines.filter(line => line).map(line => line.replace(/\*\//g, '*\\/'));
+  if (text.length === 0) {
+    return [];
+  } else if (text.length === 1) {
+    return [`${indent}/** ${text[0]} */`];
+  }
+
+  return [`${indent}/**`, ...text.map(line => `${indent} * ${line}`), `${indent} */`];
+};
+
+// Parenthesizes union types, so that they can be used in an intersection or as an array item.
+const group = (type: string): string => {
+  let depth = 0;
+  for (let i = 0; i < type.length; i++) {
+    const char = type[i];
+    if ('<{(['.indexOf(char) !== -1) {
+      depth++;
+    } else if ('>})]'.indexOf(char) !== -1) {
+      depth--;
+    } else if (char === '|' && depth === 0) {
+      return `(${type})`;
+    }
+  }
+
+  return type;
+};
+
+class SchemaModule {
+  imports = new Map<string, Set<string>>();
+  definitionNames = new Map<string, string>();
+
+  constructor(public schemaId: string, public body: JsonSchema, public typeName: string, public filename: string) {}
+
+  // A schema with only definitions is a partial, which has no type of its own.
+  get hasMainType(): boolean {
+    const body = this.body;
+    return Boolean(body.properties || body.allOf || body.anyOf || body.oneOf || body.type || body.enum || body.$ref);
+  }
+}
+
+/**
+ * Generates TypeScript declarations for content type schemas: an interface for each content type, and a type for
+ * each of the definitions in it. `$ref`s to other schemas are imported from the files generated for them, and
+ * definitions in the Amplience core schema map to the types in the core types module.
+ */
+class TypeScriptGenerator {
+  private modules = new Map<string, SchemaModule>();
+  warnings: string[] = [];
+
+  constructor(schemas: SchemaSource[]) {
+    const usedNames = new Set<string>([CORE_TYPES_MODULE, 'index'].map(pascalCase));
+
+    schemas.forEach(({ schemaId, body }) => {
+      const baseName = pascalCase(body.title || (schemaId.split('/').pop() as string).replace(/\.json$/, ''));
+      let typeName = baseName;
+      for (let i = 2; usedNames.has(typeName); i++) {
+        typeName = baseName + i;
+      }
+      usedNames.add(typeName);
+
+      const module = new SchemaModule(schemaId, body, typeName, kebabCase(typeName));
+      Object.keys(body.definitions || {}).forEach(name => {
+        module.definitionNames.set(name, typeName + pascalCase(name));
+      });
+
+      this.modules.set(schemaId, module);
+    });
+  }
+
+  private addImport(module: SchemaModule, filename: string, name: string): void {
+    const names = module.imports.get(filename);
+    if (names) {
+      names.add(name);
+    } else {
+      module.imports.set(filename, new Set([name]));
+    }
+  }
+
+  private unresolved(module: SchemaModule, ref: string): string {
+    this.warnings.push(`Could not resolve the $ref ${ref} in ${module.schemaId}.`);
+    return 'unknown';
+  }
+
+  private refType(ref: string, module: SchemaModule): string {
+    const hashIndex = ref.indexOf('#');
+    const base = hashIndex === -1 ? ref : ref.substring(0, hashIndex);
+    const fragment = hashIndex === -1 ? '' : ref.substring(hashIndex + 1);
+    const definition = fragment.match(/^\/definitions\/([^/]+)$/);
+
+    if (base === CORE_SCHEMA_ID) {
+      const name = definition ? coreTypes[definition[1]] : undefined;
+      if (name == null) {
+        return this.unresolved(module, ref);
+      }
+
+      this.addImport(module, CORE_TYPES_MODULE, name);
+      return name;
+    }
+
+    const target = base === '' ? module : this.modules.get(base);
+    if (target == null) {
+      return this.unresolved(module, ref);
+    }
+
+    let name: string | undefined;
+    if (fragment === '' || fragment === '/') {
+      name = target.hasMainType ? target.typeName : undefined;
+    } else if (definition) {
+      name = target.definitionNames.get(definition[1]);
+    }
+
+    if (name == null) {
+      return this.unresolved(module, ref);
+    }
+
+    if (target !== module) {
+      this.addImport(module, target.filename, name);
+    }
+
+    return name;
+  }
+
+  private findLink(node: JsonSchema): JsonSchema | undefined {
+    const members: JsonSchema[] = node.allOf || [];
+    return members.find(
+      member =>
+        typeof member.$ref === 'string' &&
+        linkTypes.indexOf(coreTypes[member.$ref.replace(`${CORE_SCHEMA_ID}#/definitions/`, '')]) !== -1
+    );
+  }
+
+  // A content link or reference, restricted to the content types in a contentType enum beside it in an allOf.
+  private linkType(node: JsonSchema, module: SchemaModule): string | undefined {
+    const members: JsonSchema[] = node.allOf || [];
+    const link = this.findLink(node);
+    if (link == null) {
+      return undefined;
+    }
+
+    const name = this.refType(link.$ref, module);
+    const contentTypes: unknown[] = [];
+    members.forEach(member => {
+      const contentType = member.properties && member.properties.contentType;
+      if (contentType && Array.isArray(contentType.enum)) {
+        contentTypes.push(...contentType.enum);
+      }
+    });
+
+    if (contentTypes.length === 0 || contentTypes.indexOf('*') !== -1) {
+      return name;
+    }
+
+    return `${name}<${contentTypes.map(literal).join(' | ')}>`;
+  }
+
+  private isObjectSchema(node: JsonSchema): boolean {
+    if (node == null || typeof node !== 'object' || node.enum || node.anyOf || node.oneOf || node.$ref) {
+      return false;
+    } else if (node.allOf) {
+      return (
+        this.findLink(node) == null &&
+        node.allOf.every((member: JsonSchema) => member.$ref || this.isObjectSchema(member))
+      );
+    }
+
+    return Boolean(node.properties) || node.type === 'object';
+  }
+
+  private members(node: JsonSchema, module: SchemaModule, indent: string): string[] {
+    const required: string[] = node.required || [];
+    const lines: string[] = [];
+
+    Object.entries(node.properties || {}).forEach(([name, property]: [string, JsonSchema]) => {
+      lines.push(...docComment([property.title, property.description], indent));
+      const optional = required.indexOf(name) === -1 ? '?' : '';
+      lines.push(`${indent}${propertyKey(name)}${optional}: ${this.type(property, module, indent)};`);
+    });
+
+    const additional = node.additionalProperties;
+    if (lines.length === 0 || (additional && typeof additional === 'object')) {
+      const valueType =
+        additional && typeof additional === 'object' ? this.type(additional, module, indent) : 'unknown';
+      if (additional !== false) {
+        lines.push(`${indent}[key: string]: ${valueType};`);
+      }
+    }
+
+    return lines;
+  }
+
+  private objectType(node: JsonSchema, module: SchemaModule, indent: string): string {
+    const members = this.members(node, module, indent + '  ');
+
+    return members.length === 0 ? '{}' : `{\n${members.join('\n')}\n${indent}}`;
+  }
+
+  private primitiveType(type: string, node: JsonSchema, module: SchemaModule, indent: string): string {
+    switch (type) {
+      case 'string':
+      case 'boolean':
+      case 'null':
+        return type;
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'array':
+        if (Array.isArray(node.items)) {
+          return `[${node.items.map((item: JsonSchema) => this.type(item, module, indent)).join(', ')}]`;
+        }
+        return `${group(this.type(node.items, module, indent))}[]`;
+      case 'object':
+        return this.objectType(node, module, indent);
+      default:
+        return 'unknown';
+    }
+  }
+
+  type(node: JsonSchema, module: SchemaModule, indent: string): string {
+    if (node === false) {
+      return 'never';
+    } else if (node == null || typeof node !== 'object') {
+      return 'unknown';
+    } else if (node.$ref) {
+      return this.refType(node.$ref, module);
+    } else if (node.const !== undefined) {
+      return literal(node.const);
+    } else if (Array.isArray(node.enum)) {
+      return node.enum.map(literal).join(' | ');
+    } else if (node.allOf) {
+      const link = this.linkType(node, module);
+      if (link) {
+        return link;
+      }
+
+      const parts: string[] = node.allOf.map((member: JsonSchema) => group(this.type(member, module, indent)));
+      if (node.properties) {
+        parts.push(this.objectType({ ...node, allOf: undefined }, module, indent));
+      }
+      return parts.join(' & ');
+    } else if (node.anyOf || node.oneOf) {
+      return (node.anyOf || node.oneOf).map((member: JsonSchema) => this.type(member, module, indent)).join(' | ');
+    }
+
+    const types: string[] = Array.isArray(node.type)
+      ? node.type
+      : node.type
+      ? [node.type]
+      : node.properties
+      ? ['object']
+      : node.items
+      ? ['array']
+      : [];
+
+    return types.length === 0
+      ? 'unknown'
+      : types.map(type => this.primitiveType(type, node, module, indent)).join(' | ');
+  }
+
+  private declaration(name: string, node: JsonSchema, module: SchemaModule, docs: string[]): string {
+    const lines = docComment(docs, '');
+
+    if (this.isObjectSchema(node)) {
+      const members: JsonSchema[] = node.allOf || [];
+      const extended = members
+        .filter(member => member.$ref)
+        .map(member => this.refType(member.$ref, module))
+        .filter(type => type !== 'unknown');
+      const inline = [
+        ...members.filter(member => !member.$ref),
+        { properties: node.properties, required: node.required, additionalProperties: node.additionalProperties }
+      ];
+
+      const body: string[] = [];
+      inline
+        .filter(member => member.properties || member.additionalProperties)
+        .forEach(member => body.push(...this.members(member, module, '  ')));
+
+      const extendsClause = extended.length > 0 ? ` extends ${extended.join(', ')}` : '';
+      if (body.length === 0) {
+        lines.push(`export interface ${name}${extendsClause} {}`);
+      } else {
+        lines.push(`export interface ${name}${extendsClause} {`, ...body, '}');
+      }
+    } else {
+      lines.push(`export type ${name} = ${this.type(node, module, '')};`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private generateModule(module: SchemaModule): string {
+    const body = module.body;
+    const declarations: string[] = [];
+
+    if (module.hasMainType) {
+      declarations.push(
+        this.declaration(module.typeName, body, module, [body.title, body.description, `Schema: ${module.schemaId}`])
+      );
+    }
+
+    Object.entries(body.definitions || {}).forEach(([definition, node]: [string, JsonSchema]) => {
+      declarations.push(
+        this.declaration(module.definitionNames.get(definition) as string, node, module, [node.title, node.description])
+      );
+    });
+
+    const imports = Array.from(module.imports.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(
+        ([filename, names]) =>
+          `import { ${Array.from(names)
+            .sort()
+            .join(', ')} } from './${filename}';`
+      );
+
+    return [
+      `// Generated from the content type schema ${module.schemaId}. Changes will be overwritten.`,
+      ...(imports.length > 0 ? ['', ...imports] : []),
+      '',
+      declarations.join('\n\n'),
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Generates a file for each of the given schemas, or all schemas when none are given, along with any schemas
+   * they refer to.
+   */
+  generate(schemaIds?: string[]): GeneratedFile[] {
+    const queue = schemaIds
+      ? schemaIds.map(id => this.modules.get(id)).filter(module => module != null)
+      : Array.from(this.modules.values());
+    const generated = new Map<SchemaModule, string>();
+
+    while (queue.length > 0) {
+      const module = queue.shift() as SchemaModule;
+      if (generated.has(module)) {
+        continue;
+      }
+
+      generated.set(module, this.generateModule(module));
+      module.imports.forEach((_, filename) => {
+        const target = Array.from(this.modules.values()).find(other => other.filename === filename);
+        if (target && !generated.has(target)) {
+          queue.push(target);
+        }
+      });
+    }
+
+    const files = Array.from(generated.entries()).map(([module, content]) => ({
+      filename: `${module.filename}.ts`,
+      content
+    }));
+    const exported = [CORE_TYPES_MODULE, ...files.map(file => file.filename.replace(/\.ts$/, ''))];
+
+    return [
+      { filename: `${CORE_TYPES_MODULE}.ts`, content: coreTypesSource },
+      ...files,
+      { filename: 'index.ts', content: exported.map(filename => `export * from './${filename}';`).join('\n') + '\n' }
+    ];
+  }
+}
+
+/**
+ * Generates TypeScript declarations for the given content type schema bodies.
+ * When schema IDs are given, only those schemas and the schemas they refer to are generated.
+ */
+export const generateTypeScript = (schemas: SchemaSource[], schemaIds?: string[]): CodegenResult => {
+  const generator = new TypeScriptGenerator(schemas);
+  const files = generator.generate(schemaIds);
+
+  return { files, warnings: Array.from(new Set(generator.warnings)) };
+};
@@ -0,0 +1,100 @@
+import { listLogFiles, parseDuration, parseLogFilename, summariseLog } from './log-files';
+import { ArchiveLog } from './archive/archive-log';
+import { ensureDirectoryExists } from './import/directory-utils';
+import { writeFile } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import rmdir from 'rimraf';
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+describe('log-files', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('parseLogFilename tests', () => {
+    it('should find the command and timestamp from a default log filename', () => {
+      expect(parseLogFilename('item-export-1577836800000.log')).toEqual({
+        command: 'item export',
+        timestamp: 1577836800000
+      });
+      expect(parseLogFilename('my-log.log')).toEqual({ command: 'my-log' });
+    });
+  });
+
+  describe('parseDuration tests', () => {
+    it('should parse ages in hours, days and weeks', () => {
+      expect(parseDuration('12h')).toEqual(12 * 60 * 60 * 1000);
+      expect(parseDuration('30d')).toEqual(30 * 24 * 60 * 60 * 1000);
+      expect(parseDuration('2w')).toEqual(14 * 24 * 60 * 60 * 1000);
+      expect(parseDuration('5')).toEqual(5 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should return undefined for an invalid age', () => {
+      expect(parseDuration('30 days')).toBeUndefined();
+      expect(parseDuration('d')).toBeUndefined();
+    });
+  });
+
+  describe('listLogFiles tests', () => {
+    const dir = `temp_${process.env.JEST_WORKER_ID}/log-files/`;
+
+    afterAll(async () => {
+      await rimraf(dir);
+    });
+
+    it('should list log files with their result, newest first', async () => {
+      await ensureDirectoryExists(dir);
+      await promisify(writeFile)(join(dir, 'item-export-1000.log'), '// Title\nACTION 1\nSUCCESS');
+      await promisify(writeFile)(join(dir, 'item-import-2000.log'), '// Title\nERROR \n// ERROR: Failed\nFAILURE');
+      await promisify(writeFile)(join(dir, 'other.txt'), 'not a log');
+
+      const logs = await listLogFiles(dir);
+
+      expect(logs.map(({ filename, command, date, result }) => ({ filename, command, date, result }))).toEqual([
+        { filename: 'item-import-2000.log', command: 'item import', date: new Date(2000), result: 'FAILURE' },
+        { filename: 'item-export-1000.log', command: 'item export', date: new Date(1000), result: 'SUCCESS' }
+      ]);
+    });
+
+    it('should return an empty list when the directory does not exist', async () => {
+      expect(await listLogFiles(join(dir, 'missing'))).toEqual([]);
+    });
+  });
+
+  describe('summariseLog tests', () => {
+    it('should count the actions in each group and collect errors', () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      const log = new ArchiveLog('Title');
+      log.addComment('Started');
+      log.switchGroup('Clone Types');
+      log.addAction('CREATE', 'id1');
+      log.addAction('CREATE', 'id2');
+      log.addAction('UPDATE', 'id3');
+      log.warn('Could not update id4');
+
+      expect(summariseLog(log)).toEqual([
+        { group: '_default', actions: {}, errors: [] },
+        { group: 'Clone Types', actions: { CREATE: 2, UPDATE: 1 }, errors: ['WARNING: Could not update id4'] }
+      ]);
+    });
+
+    it('should find error messages in logs loaded from the text format', async () => {
+      const dir = `temp_${process.env.JEST_WORKER_ID}/log-summary/`;
+      await ensureDirectoryExists(dir);
+      await promisify(writeFile)(join(dir, 'text.log'), '// Title\nERROR \n// ERROR: Failed\nFAILURE');
+
+      const log = await new ArchiveLog().loadFromFile(join(dir, 'text.log'));
+
+      expect(summariseLog(log)).toEqual([{ group: '_default', actions: {}, errors: ['ERROR: Failed'] }]);
+
+      await rimraf(dir);
+    });
+  });
+});
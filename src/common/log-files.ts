@@ -0,0 +1,110 @@
+import { readdir, stat } from 'fs';
+import { basename, join } from 'path';
+import { promisify } from 'util';
+import { ArchiveLog, ArchiveLogItem, LogErrorLevel } from './archive/archive-log';
+
+export interface LogFileInfo {
+  filename: string;
+  path: string;
+  command: string;
+  date: Date;
+  result: string;
+}
+
+export interface LogGroupSummary {
+  group: string;
+  actions: { [action: string]: number };
+  errors: string[];
+}
+
+// Log files are named <type>-<action>-<timestamp>.log by getDefaultLogPath.
+const LOG_FILENAME_PATTERN = /^(.+)-(\d+)\.log$/;
+
+const DURATION_PATTERN = /^(\d+)\s*([hdw]?)$/;
+const DURATION_UNITS: { [unit: string]: number } = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+export const parseLogFilename = (filename: string): { command: string; timestamp?: number } => {
+  const match = LOG_FILENAME_PATTERN.exec(filename);
+  if (match == null) {
+    return { command: basename(filename, '.log') };
+  }
+
+  return { command: match[1].replace('-', ' '), timestamp: Number(match[2]) };
+};
+
+// Parses an age such as 12h, 30d or 2w into milliseconds. A number without a unit is a number of days.
+export const parseDuration = (duration: string): number | undefined => {
+  const match = DURATION_PATTERN.exec(duration.trim());
+  if (match == null) {
+    return undefined;
+  }
+
+  return Number(match[1]) * DURATION_UNITS[match[2] || 'd'];
+};
+
+export const readLogFileInfo = async (path: string): Promise<LogFileInfo> => {
+  const filename = basename(path);
+  const { command, timestamp } = parseLogFilename(filename);
+  const date = timestamp != null ? new Date(timestamp) : (await promisify(stat)(path)).mtime;
+
+  let result: string;
+  try {
+    const log = await new ArchiveLog().loadFromFile(path);
+    result = log.getResultCode();
+  } catch {
+    result = LogErrorLevel[LogErrorLevel.INVALID];
+  }
+
+  return { filename, path, command, date, result };
+};
+
+export const listLogFiles = async (dir: string): Promise<LogFileInfo[]> => {
+  let files: string[];
+  try {
+    files = await promisify(readdir)(dir);
+  } catch {
+    return [];
+  }
+
+  const logs: LogFileInfo[] = [];
+  for (const file of files.filter(file => file.endsWith('.log'))) {
+    logs.push(await readLogFileInfo(join(dir, file)));
+  }
+
+  // Newest first.
+  return logs.sort((a, b) => b.date.getTime() - a.date.getTime());
+};
+
+const isError = (item: ArchiveLogItem): boolean =>
+  !item.comment &&
+  (item.action === LogErrorLevel[LogErrorLevel.WARNING] || item.action === LogErrorLevel[LogErrorLevel.ERROR]);
+
+export const summariseLog = (log: ArchiveLog): LogGroupSummary[] => {
+  const summaries: LogGroupSummary[] = [];
+
+  log.items.forEach((items, group) => {
+    const summary: LogGroupSummary = { group, actions: {}, errors: [] };
+
+    items.forEach((item, index) => {
+      if (isError(item)) {
+        // Logs in the text format keep the error message in the comment that follows the error.
+        const next = items[index + 1];
+        const message = item.message != null ? `${item.action}: ${item.message}` : next && next.comment && next.data;
+        summary.errors.push(message || (item.action as string));
+      } else if (!item.comment) {
+        const action = item.action as string;
+        summary.actions[action] = (summary.actions[action] || 0) + 1;
+      }
+    });
+
+    if (group !== '_default' || items.length > 0) {
+      summaries.push(summary);
+    }
+  });
+
+  return summaries;
+};
@@ -1,4 +1,4 @@
-import { createLog, getDefaultLogPath } from './log-helpers';
+import { applyLogFormat, createLog, getDefaultLogPath } from './log-helpers';
 import { join } from 'path';
 import { setVersion } from './file-log';
 
@@ -58,4 +58,32 @@ describe('log-helpers', () => {
       expect(log['openedCount']).toEqual(0);
     });
   });
+
+  describe('applyLogFormat tests', () => {
+    const yargArgs = {
+      $0: 'test',
+      _: ['test']
+    };
+
+    it('should set the format of the log file', () => {
+      const logFile = createLog('exampleFilename.txt');
+      applyLogFormat({ ...yargArgs, logFile, logFormat: 'json' });
+
+      expect(logFile.format).toEqual('json');
+    });
+
+    it('should leave the log file as text when no format is given', () => {
+      const logFile = createLog('exampleFilename.txt');
+      applyLogFormat({ ...yargArgs, logFile });
+
+      expect(logFile.format).toEqual('text');
+    });
+
+    it('should throw for an unknown format', () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect(() => applyLogFormat({ ...yargArgs, logFormat: 'xml' as any })).toThrowError(
+        'Invalid log format "xml". Use "text" or "json".'
+      );
+    });
+  });
 });
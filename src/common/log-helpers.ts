@@ -1,13 +1,14 @@
 import { join } from 'path';
-import { LogErrorLevel } from './archive/archive-log';
+import { Arguments } from 'yargs';
+import { ArchiveLog, LogErrorLevel, LogFormat } from './archive/archive-log';
 import { FileLog, versionedTitle } from './file-log';
 
+export function getLogDirectory(platform: string = process.platform): string {
+  return join(process.env[platform == 'win32' ? 'USERPROFILE' : 'HOME'] || __dirname, '.amplience', 'logs');
+}
+
 export function getDefaultLogPath(type: string, action: string, platform: string = process.platform): string {
-  return join(
-    process.env[platform == 'win32' ? 'USERPROFILE' : 'HOME'] || __dirname,
-    '.amplience',
-    `logs/${type}-${action}-<DATE>.log`
-  );
+  return join(getLogDirectory(platform), `${type}-${action}-<DATE>.log`);
 }
 
 export function createLog(logFile: string, title?: string): FileLog {
@@ -37,3 +38,23 @@ export async function openRevertLog(filename: string): Promise<FileLog | undefin
 
   return log;
 }
+
+export type LogFormatArgument = {
+  logFile?: unknown;
+  logFormat?: LogFormat;
+};
+
+// Middleware that sets the format of the log file created by a command's logFile option.
+export function applyLogFormat(argv: Arguments<LogFormatArgument>): void {
+  if (argv.logFormat == null) {
+    return;
+  }
+
+  if (argv.logFormat !== 'text' && argv.logFormat !== 'json') {
+    throw new Error(`Invalid log format "${argv.logFormat}". Use "text" or "json".`);
+  }
+
+  if (argv.logFile instanceof ArchiveLog) {
+    argv.logFile.format = argv.logFormat;
+  }
+}
@@ -0,0 +1,152 @@
+import { formatDuration, isInteractive, ProgressReporter, ProgressStream } from './progress-reporter';
+
+describe('progress-reporter', () => {
+  let now: number;
+
+  const createStream = (isTTY = false): ProgressStream & { output: string } => {
+    const stream = {
+      output: '',
+      isTTY,
+      columns: 100,
+      write: (text: string): boolean => {
+        stream.output += text;
+        return true;
+      }
+    };
+
+    return stream;
+  };
+
+  beforeEach(() => {
+    now = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('formatDuration tests', () => {
+    it('should format durations in seconds, minutes and hours', () => {
+      expect(formatDuration(4400)).toEqual('4s');
+      expect(formatDuration(83000)).toEqual('1m 23s');
+      expect(formatDuration(2 * 60 * 60 * 1000 + 5 * 60 * 1000)).toEqual('2h 5m');
+    });
+  });
+
+  describe('isInteractive tests', () => {
+    const ci = process.env.CI;
+
+    afterEach(() => {
+      if (ci == null) {
+        delete process.env.CI;
+      } else {
+        process.env.CI = ci;
+      }
+    });
+
+    it('should only be interactive on a TTY outside of CI', () => {
+      delete process.env.CI;
+      expect(isInteractive(createStream(true))).toBeTruthy();
+      expect(isInteractive(createStream(false))).toBeFalsy();
+
+      process.env.CI = 'true';
+      expect(isInteractive(createStream(true))).toBeFalsy();
+    });
+  });
+
+  describe('plain output tests', () => {
+    it('should write a line when a phase starts, at every 10% and when it finishes', () => {
+      const stream = createStream();
+      const progress = new ProgressReporter(stream, false);
+
+      progress.start('Importing', 20);
+      for (let i = 0; i < 20; i++) {
+        now += 500;
+        progress.increment();
+      }
+      progress.finish();
+
+      const lines = stream.output.split('\n').filter(line => line);
+      expect(lines[0]).toEqual('Importing: started (20 total)');
+      expect(lines[1]).toEqual('Importing: 2/20 (10%) 2.0/s ETA 9s');
+      expect(lines[9]).toEqual('Importing: 18/20 (90%) 2.0/s ETA 1s');
+      expect(lines[10]).toEqual('Importing: finished 20/20 in 10s');
+      expect(lines.length).toEqual(11);
+    });
+
+    it('should only count progress when the total is not known', () => {
+      const stream = createStream();
+      const progress = new ProgressReporter(stream, false);
+
+      progress.start('Scanning');
+      progress.increment(5);
+      now += 1000;
+      progress.finish();
+
+      expect(stream.output).toEqual('Scanning: started\nScanning: finished 5 in 1s\n');
+    });
+
+    it('should not show empty phases', () => {
+      const stream = createStream();
+      const progress = new ProgressReporter(stream, false);
+
+      progress.start('Publishing', 0);
+      progress.increment();
+      progress.finish();
+
+      expect(progress.active).toBeFalsy();
+      expect(stream.output).toEqual('');
+    });
+  });
+
+  describe('interactive output tests', () => {
+    it('should redraw a bar with counts, rate and ETA on a single line', () => {
+      const stream = createStream(true);
+      const progress = new ProgressReporter(stream, true);
+
+      progress.start('Importing level 1/2', 4);
+      expect(progress.drawing).toBeTruthy();
+
+      now += 1000;
+      progress.increment();
+
+      expect(stream.output).toContain('\r\x1b[KImporting level 1/2 [#####---------------] 1/4 (25%) 1.0/s ETA 3s');
+
+      now += 1000;
+      progress.increment(3);
+      progress.finish();
+
+      expect(
+        stream.output.endsWith('\r\x1b[KImporting level 1/2 [####################] 4/4 (100%) 2.0/s\n')
+      ).toBeTruthy();
+      expect(progress.drawing).toBeFalsy();
+    });
+
+    it('should limit how often the bar is redrawn', () => {
+      const stream = createStream(true);
+      const progress = new ProgressReporter(stream, true);
+      const writeSpy = jest.spyOn(stream, 'write');
+
+      progress.start('Importing', 100);
+      for (let i = 0; i < 10; i++) {
+        now += 10;
+        progress.increment();
+      }
+
+      // The first draw when starting, then one after 100ms.
+      expect(writeSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should clear the bar so that other output can be written', () => {
+      const stream = createStream(true);
+      const progress = new ProgressReporter(stream, true);
+
+      progress.start('Archiving', 2);
+      stream.output = '';
+      progress.clear();
+
+      expect(stream.output).toEqual('\r\x1b[K');
+    });
+  });
+});
@@ -0,0 +1,160 @@
+export interface ProgressStream {
+  write(text: string): boolean;
+  isTTY?: boolean;
+  columns?: number;
+}
+
+const BAR_WIDTH = 20;
+const RENDER_INTERVAL = 100;
+const PLAIN_STEPS = 10;
+
+export const isInteractive = (stream: ProgressStream): boolean => !!stream.isTTY && !process.env.CI;
+
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+/**
+ * Reports the progress of a command through its phases, such as scanning, validating and importing.
+ * On a TTY, a single line is redrawn with a bar, counts, rate and ETA. Otherwise, such as in CI,
+ * plain lines are written when a phase starts, at every 10% of its progress and when it finishes.
+ */
+export class ProgressReporter {
+  private phase?: string;
+  private total?: number;
+  private completed = 0;
+  private startTime = 0;
+  private lastRender = 0;
+  private lastStep = 0;
+  private drawn = false;
+
+  constructor(private stream: ProgressStream = process.stdout, private interactive: boolean = isInteractive(stream)) {}
+
+  get active(): boolean {
+    return this.phase != null;
+  }
+
+  // True when lines written to the terminal would disrupt the progress bar.
+  get drawing(): boolean {
+    return this.active && this.interactive;
+  }
+
+  // Starts a phase. When the total is not known, only the count and rate are shown. Empty phases are not shown.
+  start(phase: string, total?: number): void {
+    if (this.active) {
+      this.finish();
+    }
+
+    if (total === 0) {
+      return;
+    }
+
+    this.phase = phase;
+    this.total = total;
+    this.completed = 0;
+    this.startTime = Date.now();
+    this.lastRender = 0;
+    this.lastStep = 0;
+
+    if (this.interactive) {
+      this.render();
+    } else {
+      this.stream.write(`${phase}: started${total != null ? ` (${total} total)` : ''}\n`);
+    }
+  }
+
+  increment(count = 1): void {
+    if (!this.active) {
+      return;
+    }
+
+    this.completed += count;
+
+    if (this.interactive) {
+      if (Date.now() - this.lastRender >= RENDER_INTERVAL || this.completed === this.total) {
+        this.render();
+      }
+    } else if (this.total) {
+      const step = Math.floor((this.completed / this.total) * PLAIN_STEPS);
+      if (step > this.lastStep && this.completed < this.total) {
+        this.lastStep = step;
+        this.stream.write(`${this.phase}: ${this.describe()}\n`);
+      }
+    }
+  }
+
+  finish(): void {
+    if (!this.active) {
+      return;
+    }
+
+    const elapsed = formatDuration(Date.now() - this.startTime);
+    const count = this.total != null ? `${this.completed}/${this.total}` : `${this.completed}`;
+
+    if (this.interactive) {
+      this.render();
+      this.stream.write('\n');
+    } else {
+      this.stream.write(`${this.phase}: finished ${count} in ${elapsed}\n`);
+    }
+
+    this.phase = undefined;
+    this.drawn = false;
+  }
+
+  // Removes the progress bar, so that other output can be written. It is drawn again on the next update.
+  clear(): void {
+    if (this.drawing && this.drawn) {
+      this.stream.write('\r\x1b[K');
+      this.drawn = false;
+    }
+  }
+
+  private describe(): string {
+    const elapsed = Date.now() - this.startTime;
+    const rate = elapsed > 0 ? (this.completed / elapsed) * 1000 : 0;
+    const parts: string[] = [];
+
+    if (this.total != null) {
+      const percent = Math.floor((this.completed / this.total) * 100);
+      parts.push(`${this.completed}/${this.total} (${percent}%)`);
+    } else {
+      parts.push(`${this.completed}`);
+    }
+
+    parts.push(`${rate.toFixed(1)}/s`);
+
+    if (this.total != null && rate > 0 && this.completed < this.total) {
+      parts.push(`ETA ${formatDuration(((this.total - this.completed) / rate) * 1000)}`);
+    }
+
+    return parts.join(' ');
+  }
+
+  private render(): void {
+    let bar = '';
+    if (this.total != null) {
+      const filled = Math.round((Math.min(this.completed, this.total) / this.total) * BAR_WIDTH);
+      bar = `[${'#'.repeat(filled)}${'-'.repeat(BAR_WIDTH - filled)}] `;
+    }
+
+    let line = `${this.phase} ${bar}${this.describe()}`;
+    if (this.stream.columns && line.length >= this.stream.columns) {
+      line = line.substring(0, this.stream.columns - 1);
+    }
+
+    this.stream.write(`\r\x1b[K${line}`);
+    this.lastRender = Date.now();
+    this.drawn = true;
+  }
+}
@@ -9,7 +9,8 @@ const httpErrorFactory: { [key: number]: (httpError: HttpError) => string } = {
       ? `Error: The requested action (${httpError.request.method}: ${httpError.request.url}) is not available (forbidden), ensure you have permission to perform this action.`
       : 'Error: The requested action is not available (forbidden), ensure you have permission to perform this action.';
   },
-  429: () => 'Error: Too many requests - Please try again later.',
+  429: () =>
+    'Error: Too many requests - Please try again later, or use --requestsPerSecond to send requests more slowly.',
   500: (httpError: HttpError) => `Error: Internal Server Error - ${httpError.message}`
 };
 export type SupportedErrors = string | { message: string } | HttpError;
@@ -0,0 +1,6 @@
+import { FileLog } from '../common/file-log';
+
+export interface ApplyItemBuilderOptions {
+  plan: string;
+  logFile: FileLog;
+}
@@ -0,0 +1,8 @@
+export interface DiffItemBuilderOptions {
+  dir: string;
+  baseRepo?: string;
+  baseFolder?: string;
+  mapFile?: string;
+  skipIncomplete?: boolean;
+  excludeKeys?: boolean;
+}
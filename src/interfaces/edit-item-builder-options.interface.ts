@@ -0,0 +1,17 @@
+import { FileLog } from '../common/file-log';
+
+export interface EditItemBuilderOptions {
+  id?: string | string[];
+  repoId?: string | string[];
+  folderId?: string | string[];
+  name?: string | string[];
+  contentType?: string | string[];
+  revertLog?: string;
+  set?: string | string[];
+  unset?: string | string[];
+  replace?: string[];
+  logFile: FileLog;
+  dryRun?: boolean;
+  force?: boolean;
+  silent?: boolean;
+}
@@ -6,4 +6,5 @@ export interface ExportBuilderOptions {
   archived?: boolean;
   logFile: FileLog;
   force?: boolean;
+  stable?: boolean;
 }
@@ -8,6 +8,9 @@ export interface ExportItemBuilderOptions {
   name?: string[] | string;
   logFile: FileLog;
   publish?: boolean;
+  since?: string;
+  incremental?: boolean;
+  stable?: boolean;
 
   exportedIds?: string[];
 }
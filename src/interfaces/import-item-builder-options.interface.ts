@@ -12,6 +12,7 @@ export interface ImportItemBuilderOptions {
   skipIncomplete?: boolean;
   excludeKeys?: boolean;
   media?: boolean;
+  plan?: string;
   logFile: FileLog;
 
   revertLog: Promise<FileLog | undefined>;
@@ -0,0 +1,12 @@
+import { FileLog } from '../common/file-log';
+
+export interface MigrateItemBuilderOptions {
+  schemaId: string | string[];
+  script: string;
+  repoId?: string | string[];
+  folderId?: string | string[];
+  logFile: FileLog;
+  dryRun?: boolean;
+  force?: boolean;
+  silent?: boolean;
+}
@@ -0,0 +1,14 @@
+import { FileLog } from '../common/file-log';
+
+export interface PublishItemBuilderOptions {
+  id?: string | string[];
+  repoId?: string | string[];
+  folderId?: string | string[];
+  name?: string | string[];
+  contentType?: string | string[];
+  revertLog?: string;
+  publishDependencies?: boolean;
+  logFile: FileLog;
+  force?: boolean;
+  silent?: boolean;
+}
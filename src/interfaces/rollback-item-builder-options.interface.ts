@@ -0,0 +1,14 @@
+import { FileLog } from '../common/file-log';
+
+export interface RollbackItemBuilderOptions {
+  id?: string | string[];
+  version?: number;
+  timestamp?: string;
+  repoId?: string | string[];
+  folderId?: string | string[];
+  name?: string | string[];
+  contentType?: string | string[];
+  logFile: FileLog;
+  force?: boolean;
+  silent?: boolean;
+}
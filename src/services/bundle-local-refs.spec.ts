@@ -0,0 +1,138 @@
+import { ContentTypeSchema, ValidationLevel } from 'dc-management-sdk-js';
+import { bundleLocalRefs } from './bundle-local-refs';
+import { ensureDirectoryExists } from '../common/import/directory-utils';
+import { writeFile } from 'fs';
+import { join, resolve } from 'path';
+import { promisify } from 'util';
+import rmdir from 'rimraf';
+
+function rimraf(dir: string): Promise<Error> {
+  return new Promise((resolve): void => {
+    rmdir(dir, resolve);
+  });
+}
+
+describe('bundleLocalRefs', () => {
+  const baseDir = resolve(`temp_${process.env.JEST_WORKER_ID}/bundle-local-refs/`);
+
+  const writeSchema = async (filename: string, json: object): Promise<string> => {
+    const file = join(baseDir, filename);
+    await ensureDirectoryExists(join(file, '..'));
+    await promisify(writeFile)(file, JSON.stringify(json));
+    return file;
+  };
+
+  const bannerBody = {
+    $id: 'https://example.com/banner.json',
+    type: 'object',
+    properties: {
+      cta: { $ref: './partials/cta.json#/definitions/cta' },
+      image: { $ref: 'http://bigcontent.io/cms/schema/v1/core#/definitions/image-link' },
+      theme: { $ref: 'banner.json#/definitions/theme' }
+    },
+    definitions: { theme: { type: 'string' } }
+  };
+
+  const ctaBody = {
+    $id: 'https://example.com/cta.json',
+    definitions: { cta: { type: 'object', properties: { link: { $ref: '../link.json' } } } }
+  };
+
+  const linkBody = { $id: 'https://example.com/link.json', type: 'string' };
+
+  beforeEach(async () => {
+    await rimraf(baseDir);
+  });
+
+  afterAll(async () => {
+    await rimraf(baseDir);
+  });
+
+  it('should return schemas without local refs as they are', () => {
+    const schema = new ContentTypeSchema({ schemaId: 'https://example.com/a.json', body: JSON.stringify(linkBody) });
+
+    expect(bundleLocalRefs({ 'a.json': schema }, { 'a.json': join(baseDir, 'a.json') })).toEqual([schema]);
+    expect(bundleLocalRefs({ 'a.json': schema })).toEqual([schema]);
+  });
+
+  it('should add referenced files as partial schemas in dependency order, and rewrite refs to their schema IDs', async () => {
+    const bannerFile = await writeSchema('banner.json', bannerBody);
+    await writeSchema('partials/cta.json', ctaBody);
+    await writeSchema('link.json', linkBody);
+    const banner = new ContentTypeSchema({
+      schemaId: bannerBody.$id,
+      body: JSON.stringify(bannerBody),
+      validationLevel: ValidationLevel.CONTENT_TYPE
+    });
+
+    const result = bundleLocalRefs({ 'banner-definition.json': banner }, { 'banner-definition.json': bannerFile });
+
+    expect(result.map(schema => [schema.schemaId, schema.validationLevel])).toEqual([
+      ['https://example.com/link.json', ValidationLevel.PARTIAL],
+      ['https://example.com/cta.json', ValidationLevel.PARTIAL],
+      ['https://example.com/banner.json', ValidationLevel.CONTENT_TYPE]
+    ]);
+    expect(result[0].body).toEqual(JSON.stringify(linkBody));
+    expect(JSON.parse(result[1].body as string).definitions.cta.properties.link).toEqual({
+      $ref: 'https://example.com/link.json'
+    });
+    expect(JSON.parse(result[2].body as string).properties).toEqual({
+      cta: { $ref: 'https://example.com/cta.json#/definitions/cta' },
+      image: { $ref: 'http://bigcontent.io/cms/schema/v1/core#/definitions/image-link' },
+      theme: { $ref: '#/definitions/theme' }
+    });
+  });
+
+  it('should use a schema being imported for the files it is the body of', async () => {
+    const bannerFile = await writeSchema('banner.json', bannerBody);
+    const ctaFile = await writeSchema('partials/cta.json', ctaBody);
+    await writeSchema('link.json', linkBody);
+    const banner = new ContentTypeSchema({ schemaId: bannerBody.$id, body: JSON.stringify(bannerBody) });
+    const cta = new ContentTypeSchema({
+      schemaId: 'https://example.com/shared-cta.json',
+      body: JSON.stringify(ctaBody),
+      validationLevel: ValidationLevel.PARTIAL
+    });
+
+    const result = bundleLocalRefs(
+      { 'banner.json': banner, 'cta.json': cta },
+      { 'banner.json': bannerFile, 'cta.json': ctaFile }
+    );
+
+    expect(result.map(schema => schema.schemaId)).toEqual([
+      'https://example.com/link.json',
+      'https://example.com/shared-cta.json',
+      'https://example.com/banner.json'
+    ]);
+    expect(result[1]).toBe(cta);
+    expect(JSON.parse(result[2].body as string).properties.cta).toEqual({
+      $ref: 'https://example.com/shared-cta.json#/definitions/cta'
+    });
+  });
+
+  it('should fail when local schema files refer to each other in a cycle', async () => {
+    const aFile = await writeSchema('a.json', { $id: 'https://example.com/a.json', $ref: './b.json' });
+    const bFile = await writeSchema('b.json', { $id: 'https://example.com/b.json', $ref: './a.json' });
+    const a = new ContentTypeSchema({ body: JSON.stringify({ $id: 'https://example.com/a.json', $ref: './b.json' }) });
+
+    expect(() => bundleLocalRefs({ 'a.json': a }, { 'a.json': aFile })).toThrowError(
+      `Found a cycle of schema references: ${aFile} -> ${bFile} -> ${aFile}`
+    );
+  });
+
+  it('should fail when a referenced file is missing or has no $id', async () => {
+    const bannerFile = await writeSchema('banner.json', bannerBody);
+    const banner = new ContentTypeSchema({ schemaId: bannerBody.$id, body: JSON.stringify(bannerBody) });
+    const ctaFile = join(baseDir, 'partials', 'cta.json');
+
+    expect(() => bundleLocalRefs({ 'banner.json': banner }, { 'banner.json': bannerFile })).toThrowError(
+      `Cannot find the schema file "${ctaFile}", referenced by "${bannerFile}".`
+    );
+
+    await writeSchema('partials/cta.json', { definitions: {} });
+
+    expect(() => bundleLocalRefs({ 'banner.json': banner }, { 'banner.json': bannerFile })).toThrowError(
+      `The schema file "${ctaFile}" is referenced by "${bannerFile}", but has no $id, so it cannot be imported.`
+    );
+  });
+});
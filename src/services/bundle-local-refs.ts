@@ -0,0 +1,180 @@
+import { ContentTypeSchema, ValidationLevel } from 'dc-management-sdk-js';
+import { readFileSync, existsSync } from 'fs';
+import { dirname, resolve } from 'path';
+import resolveSchemaId from '../common/json-schema/resolve-schema-id';
+import { SchemaBodySources } from './resolve-schema-body';
+
+type ContentTypeSchemaFiles = { [p: string]: ContentTypeSchema };
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type JsonSchema = any;
+
+interface LocalSchemaFile {
+  file: string;
+  text: string;
+  body: JsonSchema;
+  schemaId?: string;
+  // The local files that this schema refers to with relative $refs.
+  references: string[];
+}
+
+// A $ref that is not a fragment of the same schema and has no URI scheme is a path to a local file.
+const isRelativeFileRef = (ref: unknown): ref is string =>
+  typeof ref === 'string' && ref !== '' && !ref.startsWith('#') && !/^[a-z][a-z\d+.-]*:/i.test(ref);
+
+const splitRef = (ref: string): [string, string] => {
+  const hash = ref.indexOf('#');
+  return hash === -1 ? [ref, ''] : [ref.substring(0, hash), ref.substring(hash)];
+};
+
+const collectRefs = (value: JsonSchema, refs: string[] = []): string[] => {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectRefs(item, refs));
+  } else if (value !== null && typeof value === 'object') {
+    Object.keys(value).forEach(key => {
+      if (key === '$ref' && isRelativeFileRef(value[key])) {
+        refs.push(value[key]);
+      } else {
+        collectRefs(value[key], refs);
+      }
+    });
+  }
+  return refs;
+};
+
+class LocalSchemaBundler {
+  private files = new Map<string, LocalSchemaFile>();
+  private ordered: string[] = [];
+
+  constructor(private definitions: { [file: string]: ContentTypeSchema[] }) {}
+
+  add(file: string, text: string, schemaId?: string): void {
+    const body = JSON.parse(text);
+    const references = collectRefs(body)
+      .map(ref => resolve(dirname(file), splitRef(ref)[0]))
+      .filter(reference => reference !== file);
+
+    this.files.set(file, { file, text, body, schemaId: schemaId || resolveSchemaId(body), references });
+  }
+
+  // Loads a schema file that is referenced by another, but is not the body of a definition being imported.
+  private load(file: string, referencedBy: string): LocalSchemaFile {
+    let schema = this.files.get(file);
+    if (schema == null) {
+      if (!existsSync(file)) {
+        throw new Error(`Cannot find the schema file "${file}", referenced by "${referencedBy}".`);
+      }
+      try {
+        this.add(file, readFileSync(file, 'utf-8'));
+      } catch (err) {
+        throw new Error(`Cannot parse the schema file "${file}", referenced by "${referencedBy}": ${err.message}`);
+      }
+      schema = this.files.get(file) as LocalSchemaFile;
+    }
+
+    if (!schema.schemaId) {
+      throw new Error(
+        `The schema file "${file}" is referenced by "${referencedBy}", but has no $id, so it cannot be imported.`
+      );
+    }
+
+    return schema;
+  }
+
+  // Orders the schema after the files it refers to, failing if they refer back to it.
+  visit(file: string, path: string[] = []): void {
+    if (path.includes(file)) {
+      const cycle = [...path.slice(path.indexOf(file)), file];
+      throw new Error(`Found a cycle of schema references: ${cycle.join(' -> ')}`);
+    }
+    if (this.ordered.includes(file)) {
+      return;
+    }
+
+    const schema = this.files.get(file) as LocalSchemaFile;
+    schema.references.forEach(reference => {
+      this.load(reference, file);
+      this.visit(reference, [...path, file]);
+    });
+
+    this.ordered.push(file);
+  }
+
+  // Rewrites relative $refs to the schema ID of the file they point to.
+  private rewrite(value: JsonSchema, file: string): JsonSchema {
+    if (Array.isArray(value)) {
+      return value.map(item => this.rewrite(item, file));
+    } else if (value !== null && typeof value === 'object') {
+      const result: JsonSchema = {};
+      Object.keys(value).forEach(key => {
+        if (key === '$ref' && isRelativeFileRef(value[key])) {
+          const [path, fragment] = splitRef(value[key]);
+          const target = resolve(dirname(file), path);
+          result[key] =
+            target === file ? fragment || '#' : `${(this.files.get(target) as LocalSchemaFile).schemaId}${fragment}`;
+        } else {
+          result[key] = this.rewrite(value[key], file);
+        }
+      });
+      return result;
+    }
+    return value;
+  }
+
+  bundle(): ContentTypeSchema[] {
+    return this.ordered.reduce((result: ContentTypeSchema[], file) => {
+      const schema = this.files.get(file) as LocalSchemaFile;
+      const body =
+        collectRefs(schema.body).length > 0 ? JSON.stringify(this.rewrite(schema.body, file), null, 2) : schema.text;
+
+      const definitions = this.definitions[file];
+      if (definitions) {
+        definitions.forEach(definition => (definition.body = body));
+        return [...result, ...definitions];
+      }
+
+      return [
+        ...result,
+        new ContentTypeSchema({ schemaId: schema.schemaId, body, validationLevel: ValidationLevel.PARTIAL })
+      ];
+    }, []);
+  }
+}
+
+/**
+ * Rewrites relative file $refs in resolved schema bodies to the schema ID of the file they point to, which the hub
+ * can follow. Referenced files that are not the body of one of the schemas are added as partial schemas.
+ * The schemas are returned in dependency order, so that each is imported after the schemas it refers to.
+ * Schemas without relative $refs are returned as they are, and reference cycles between files are an error.
+ */
+export const bundleLocalRefs = (
+  schemas: ContentTypeSchemaFiles,
+  sources: SchemaBodySources = {}
+): ContentTypeSchema[] => {
+  const definitions: { [file: string]: ContentTypeSchema[] } = {};
+  const unbundled: ContentTypeSchema[] = [];
+  const bundler = new LocalSchemaBundler(definitions);
+
+  const files = Object.entries(schemas).map(([filename, schema]) => {
+    const source = sources[filename];
+    if (source == null || !schema.body) {
+      unbundled.push(schema);
+      return undefined;
+    }
+
+    try {
+      bundler.add(source, schema.body, schema.schemaId);
+    } catch {
+      // Bodies that are not valid JSON are left for the hub to reject.
+      unbundled.push(schema);
+      return undefined;
+    }
+
+    definitions[source] = [...(definitions[source] || []), schema];
+    return source;
+  });
+
+  files.forEach(file => file && bundler.visit(file));
+
+  return [...bundler.bundle(), ...unbundled];
+};
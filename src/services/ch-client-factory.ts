@@ -1,8 +1,9 @@
 /* eslint-disable @typescript-eslint/camelcase */
 import { ContentHub } from '../common/ch-api/ContentHub';
 import { ConfigurationParameters } from '../commands/configure';
+import { HttpRetryArguments, RetryHttpClient } from '../common/http/retry-http-client';
 
-const chClientFactory = (config: ConfigurationParameters): ContentHub =>
+const chClientFactory = (config: ConfigurationParameters & HttpRetryArguments): ContentHub =>
   new ContentHub(
     {
       client_id: config.clientId,
@@ -11,7 +12,8 @@ const chClientFactory = (config: ConfigurationParameters): ContentHub =>
     {
       apiUrl: process.env.DAM_API_URL,
       authUrl: process.env.AUTH_URL
-    }
+    },
+    new RetryHttpClient({ maxRetries: config.maxRetries, requestsPerSecond: config.requestsPerSecond })
   );
 
 export default chClientFactory;
@@ -1,8 +1,10 @@
 /* eslint-disable @typescript-eslint/camelcase */
 import dynamicContentClientFactory from './dynamic-content-client-factory';
 import { DynamicContent } from 'dc-management-sdk-js';
+import { RetryHttpClient } from '../common/http/retry-http-client';
 
 jest.mock('dc-management-sdk-js');
+jest.mock('../common/http/retry-http-client');
 
 describe('dynamic-content-client-factory', function() {
   const resetEnv = (): void => {
@@ -19,7 +21,11 @@ describe('dynamic-content-client-factory', function() {
       hubId: 'hub-id'
     });
     expect(dynamicContent).toBeInstanceOf(DynamicContent);
-    expect(DynamicContent).toHaveBeenCalledWith({ client_id: 'client-id', client_secret: 'client-secret' }, {});
+    expect(DynamicContent).toHaveBeenCalledWith(
+      { client_id: 'client-id', client_secret: 'client-secret' },
+      {},
+      expect.any(RetryHttpClient)
+    );
   });
 
   it('should create a new DynamicContent client using the supplied env vars', () => {
@@ -37,7 +43,20 @@ describe('dynamic-content-client-factory', function() {
       {
         apiUrl: 'API_URL',
         authUrl: 'AUTH_URL'
-      }
+      },
+      expect.any(RetryHttpClient)
     );
   });
+
+  it('should create a new DynamicContent client with the supplied retry options', () => {
+    dynamicContentClientFactory({
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      hubId: 'hub-id',
+      maxRetries: 5,
+      requestsPerSecond: 10
+    });
+
+    expect(RetryHttpClient).toHaveBeenLastCalledWith({ maxRetries: 5, requestsPerSecond: 10 });
+  });
 });
@@ -1,8 +1,9 @@
 /* eslint-disable @typescript-eslint/camelcase */
 import { DynamicContent } from 'dc-management-sdk-js';
 import { ConfigurationParameters } from '../commands/configure';
+import { HttpRetryArguments, RetryHttpClient } from '../common/http/retry-http-client';
 
-const dynamicContentClientFactory = (config: ConfigurationParameters): DynamicContent =>
+const dynamicContentClientFactory = (config: ConfigurationParameters & HttpRetryArguments): DynamicContent =>
   new DynamicContent(
     {
       client_id: config.clientId,
@@ -11,7 +12,8 @@ const dynamicContentClientFactory = (config: ConfigurationParameters): DynamicCo
     {
       apiUrl: process.env.API_URL,
       authUrl: process.env.AUTH_URL
-    }
+    },
+    new RetryHttpClient({ maxRetries: config.maxRetries, requestsPerSecond: config.requestsPerSecond })
   );
 
 export default dynamicContentClientFactory;
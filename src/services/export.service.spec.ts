@@ -1,5 +1,12 @@
 import fs from 'fs';
-import { nothingExportedExit, promptToOverwriteExports, writeJsonToFile } from './export.service';
+import {
+  nothingExportedExit,
+  promptToOverwriteExports,
+  stableFilenamePath,
+  toStableJson,
+  writeJsonToFile,
+  writeStableJsonToFile
+} from './export.service';
 import { uniqueFilename } from './export.service';
 import { ContentType } from 'dc-management-sdk-js';
 import * as readline from 'readline';
@@ -69,6 +76,40 @@ describe('export service tests', () => {
     });
   });
 
+  describe('stable export tests', () => {
+    it('should sort keys and remove volatile fields from the top level only', (): void => {
+      const contentType = new ContentType({
+        version: 3,
+        lastModifiedDate: '2020-01-01T00:00:00.000Z',
+        settings: { visualizations: [{ label: 'b', default: true }], label: 'a' },
+        contentTypeUri: 'content-type-uri-1',
+        id: 'content-type-id-1'
+      });
+
+      const result = toStableJson(contentType);
+
+      expect(JSON.stringify(result)).toEqual(
+        JSON.stringify({
+          contentTypeUri: 'content-type-uri-1',
+          id: 'content-type-id-1',
+          settings: { label: 'a', visualizations: [{ default: true, label: 'b' }] }
+        })
+      );
+      expect(toStableJson({ body: { version: 1 } })).toEqual({ body: { version: 1 } });
+    });
+
+    it('should name files by the sanitized key', (): void => {
+      expect(stableFilenamePath('my-dir/', 'https://mydomain/schemas/text.json', 'json')).toEqual(
+        'my-dir/https___mydomain_schemas_text.json.json'
+      );
+    });
+
+    it('should write sorted json with a trailing newline', (): void => {
+      writeStableJsonToFile('my-filename', { b: 1, a: 2, version: 1 });
+      expect(fs.writeFileSync).toHaveBeenCalledWith('my-filename', '{\n  "a": 2,\n  "b": 1\n}\n');
+    });
+  });
+
   describe('promptToOverwriteExports', () => {
     let createInterfaceSpy: jest.SpyInstance;
     let stdoutSpy: jest.SpyInstance;
@@ -42,6 +42,68 @@ export const writeJsonToFile = <T extends {}>(filename: string, resource: T): vo
   }
 };
 
+// Metadata that changes when a resource is saved, even if its content does not.
+export const VOLATILE_FIELDS = [
+  '_links',
+  '_embedded',
+  'version',
+  'createdBy',
+  'createdDate',
+  'lastModifiedBy',
+  'lastModifiedDate',
+  'lastPublishedDate',
+  'lastUnpublishedDate',
+  'assignedDate'
+];
+
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const obj = value as { [key: string]: unknown };
+    const result: { [key: string]: unknown } = {};
+    Object.keys(obj)
+      .sort()
+      .forEach(key => (result[key] = sortKeys(obj[key])));
+    return result;
+  }
+
+  return value;
+};
+
+// Converts a resource to plain JSON with its keys sorted, and without the given top level fields.
+export const toStableJson = (resource: unknown, omit: string[] = VOLATILE_FIELDS): unknown => {
+  const plain = JSON.parse(JSON.stringify(resource));
+
+  if (plain !== null && typeof plain === 'object' && !Array.isArray(plain)) {
+    omit.forEach(key => delete plain[key]);
+  }
+
+  return sortKeys(plain);
+};
+
+export const stableFilenamePath = (dir: string, key: string, extension: string): string => {
+  if (dir.substr(-1) === path.sep) {
+    dir = dir.slice(0, -1);
+  }
+
+  return dir + path.sep + sanitize(key, { replacement: '_' }) + '.' + extension;
+};
+
+export const writeStableJsonToFile = <T extends {}>(
+  filename: string,
+  resource: T,
+  omit: string[] = VOLATILE_FIELDS
+): void => {
+  try {
+    fs.writeFileSync(filename, JSON.stringify(toStableJson(resource, omit), null, 2) + '\n');
+  } catch (e) {
+    throw new Error(`Unable to write file: ${filename}, aborting export`);
+  }
+};
+
 export const promptToOverwriteExports = (
   updatedExportsMap: { [key: string]: string }[],
   log: FileLog
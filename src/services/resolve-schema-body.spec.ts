@@ -1,6 +1,6 @@
 import { resolveSchemaBody } from './resolve-schema-body';
 import { ContentTypeSchema } from 'dc-management-sdk-js';
-import { jsonResolver } from '../common/json-resolver/json-resolver';
+import { jsonResolver, resolveJsonFilename } from '../common/json-resolver/json-resolver';
 
 jest.mock('../common/json-resolver/json-resolver');
 
@@ -77,4 +77,20 @@ describe('resolveSchemaBody', () => {
       }
     `);
   });
+
+  it('should return the local file that each body was loaded from, or the schema file for inline bodies', async () => {
+    const mockJsonResolver = jsonResolver as jest.Mock;
+    mockJsonResolver.mockResolvedValue(JSON.stringify({ type: 'object' }));
+    (resolveJsonFilename as jest.Mock).mockReturnValueOnce('/dir/bodies/a.json');
+    const schemas = {
+      '/dir/a.json': new ContentTypeSchema({ body: './bodies/a.json' }),
+      '/dir/b.json': new ContentTypeSchema({ body: JSON.stringify({ type: 'object' }) }),
+      '/dir/c.json': new ContentTypeSchema({ body: 'https://example.com/c.json' })
+    };
+    const [, errors, sources] = await resolveSchemaBody(schemas, '/dir');
+
+    expect(resolveJsonFilename).toHaveBeenCalledWith('./bodies/a.json', '/dir');
+    expect(sources).toEqual({ '/dir/a.json': '/dir/bodies/a.json', '/dir/b.json': '/dir/b.json' });
+    expect(errors).toEqual({});
+  });
 });
@@ -1,20 +1,48 @@
 import { ContentTypeSchema } from 'dc-management-sdk-js';
-import { jsonResolver } from '../common/json-resolver/json-resolver';
+import { resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { jsonResolver, resolveJsonFilename } from '../common/json-resolver/json-resolver';
 import resolveSchemaId from '../common/json-schema/resolve-schema-id';
 
 type ResolveSchemaBodyErrors = { [p: string]: Error };
 type ContentTypeSchemaFiles = { [p: string]: ContentTypeSchema };
+export type SchemaBodySources = { [p: string]: string };
+
+// The local file that relative $refs in a body are resolved from: the body file, or the definition file
+// when the body is written inline. Bodies loaded from a URL have no local file.
+const getBodySource = (body: string, dir: string, filename: string): string | undefined => {
+  if (body.match(/^(http|https):\/\//)) {
+    return undefined;
+  }
+
+  try {
+    JSON.parse(body);
+    return filename;
+  } catch {}
+
+  const resolvedFilename = resolveJsonFilename(body, dir);
+  try {
+    return typeof resolvedFilename === 'string' ? resolve(resolvedFilename) : fileURLToPath(resolvedFilename);
+  } catch {
+    return undefined;
+  }
+};
 
 export const resolveSchemaBody = async (
   schemas: ContentTypeSchemaFiles,
   dir: string
-): Promise<[ContentTypeSchemaFiles, ResolveSchemaBodyErrors]> => {
+): Promise<[ContentTypeSchemaFiles, ResolveSchemaBodyErrors, SchemaBodySources]> => {
   const errors: ResolveSchemaBodyErrors = {};
   const resolved: ContentTypeSchemaFiles = {};
+  const sources: SchemaBodySources = {};
   for (const [filename, contentTypeSchema] of Object.entries(schemas)) {
     if (contentTypeSchema.body) {
       try {
+        const source = getBodySource(contentTypeSchema.body, dir, filename);
         contentTypeSchema.body = await jsonResolver(contentTypeSchema.body, dir);
+        if (source) {
+          sources[filename] = source;
+        }
         if (!contentTypeSchema.schemaId) {
           const parsedBody = JSON.parse(contentTypeSchema.body);
           const schemaId = resolveSchemaId(parsedBody);
@@ -28,5 +56,5 @@ export const resolveSchemaBody = async (
     }
     resolved[filename] = contentTypeSchema;
   }
-  return [resolved, errors];
+  return [resolved, errors, sources];
 };
@@ -73,6 +73,16 @@ describe('DataPresenter', (): void => {
         expect(stdoutWriteSpy.mock.calls[0][0]).toMatchSnapshot();
       });
 
+      it('should render a collection of items as csv, quoting fields when needed', (): void => {
+        new DataPresenter([
+          { foo: 'bar1', key: 'plain' },
+          { foo: 'bar2', key: 'has "quotes", commas\nand lines' }
+        ]).render({ csv: true });
+        expect(stdoutWriteSpy.mock.calls[0][0]).toEqual(
+          'foo,key\nbar1,plain\nbar2,"has ""quotes"", commas\nand lines"\n'
+        );
+      });
+
       it('should render using the supplied map() for a collection of items in a horizontal table', (): void => {
         new DataPresenter(collectionOfItems).render({ itemMapFn: ({ foo }: TestItem): object => ({ foo }) });
         expect(stdoutWriteSpy.mock.calls[0][0]).toMatchSnapshot();
@@ -20,14 +20,29 @@ type PrintFn = (message: string) => void;
 
 interface RenderOptions {
   json?: boolean;
+  csv?: boolean;
   tableUserConfig?: TableUserConfig;
   itemMapFn?: MapFn;
   printFn?: PrintFn;
 }
 
+// Quotes a CSV field when it contains a separator, quote or line break (RFC 4180).
+const csvField = (value: unknown): string => {
+  const text = value == null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
 export default class DataPresenter {
   constructor(private readonly data: object | object[]) {}
 
+  private generateCsv(json: object[]): string {
+    if (json.length === 0) {
+      return '';
+    }
+    const rows = [Object.keys(json[0]), ...json.map(row => Object.values(row))];
+    return rows.map(row => row.map(csvField).join(',')).join('\n');
+  }
+
   private generateHorizontalTable(json: object[], tableUserConfig: TableUserConfig | undefined): string {
     if (json.length === 0) {
       return '0 items returned.';
@@ -51,6 +66,8 @@ export default class DataPresenter {
     let output;
     if (renderOptions.json) {
       output = JSON.stringify(this.data, null, 2);
+    } else if (renderOptions.csv) {
+      output = this.generateCsv((Array.isArray(this.data) ? this.data : [this.data]).map(itemMapFn));
     } else {
       output = Array.isArray(this.data)
         ? this.generateHorizontalTable(this.data.map(itemMapFn), renderOptions.tableUserConfig)